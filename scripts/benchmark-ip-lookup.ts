@@ -0,0 +1,133 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { performance } from 'perf_hooks';
+import IPCIDR from 'ip-cidr';
+import { AzureCloudName, AzureServiceTagsRoot } from '../src/types/azure';
+import { IpPrefixIndex } from '../src/lib/ipPrefixIndex';
+
+/**
+ * Benchmark the linear IPCIDR scan against the prefix trie index used by checkIpAddress.
+ *
+ * Usage: npm run benchmark-ip-lookup -- [queryCount]
+ */
+
+interface PrefixRow {
+  serviceTagId: string;
+  prefix: string;
+}
+
+const DATA_DIR = path.join(process.cwd(), 'public', 'data');
+const DEFAULT_QUERY_COUNT = 20;
+
+function loadPrefixRows(cloud: AzureCloudName): PrefixRow[] {
+  const filePath = path.join(DATA_DIR, `${cloud}.json`);
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf8')) as AzureServiceTagsRoot;
+  const rows: PrefixRow[] = [];
+  for (const tag of data.values) {
+    for (const prefix of tag.properties.addressPrefixes) {
+      rows.push({ serviceTagId: tag.name, prefix });
+    }
+  }
+  return rows;
+}
+
+/**
+ * Small deterministic PRNG so runs are comparable
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+/**
+ * Mix addresses and CIDR ranges from known Azure prefixes with random (mostly non-Azure) IPv4 addresses
+ */
+function buildQueries(rows: PrefixRow[], count: number): string[] {
+  const random = createRandom(42);
+  const queries: string[] = [];
+  while (queries.length < count) {
+    const row = rows[Math.floor(random() * rows.length)];
+    if (queries.length % 3 === 0) {
+      queries.push(row.prefix.split('/')[0]);
+    } else if (queries.length % 3 === 1) {
+      queries.push(row.prefix);
+    } else {
+      const octets = [0, 0, 0, 0].map(() => Math.floor(random() * 256));
+      queries.push(octets.join('.'));
+    }
+  }
+  return queries;
+}
+
+function linearLookup(rows: PrefixRow[], address: string): PrefixRow[] {
+  const matches: PrefixRow[] = [];
+  for (const row of rows) {
+    try {
+      const cidr = new IPCIDR(row.prefix);
+      if (cidr.contains(address)) {
+        matches.push(row);
+      }
+    } catch (error) {
+      continue;
+    }
+  }
+  return matches;
+}
+
+function matchKeys(matches: PrefixRow[]): string {
+  return matches.map(match => `${match.serviceTagId}|${match.prefix}`).sort().join(',');
+}
+
+function formatMs(value: number): string {
+  return `${value.toFixed(3)} ms`;
+}
+
+function runBenchmark(): void {
+  const queryCount = parseInt(process.argv[2] || `${DEFAULT_QUERY_COUNT}`, 10);
+  const clouds = [AzureCloudName.AzureCloud, AzureCloudName.AzureUSGovernment, AzureCloudName.AzureChinaCloud];
+  const rows = clouds.flatMap(loadPrefixRows);
+  const queries = buildQueries(rows, queryCount);
+
+  console.info(`Loaded ${rows.length} prefixes from ${clouds.length} clouds, running ${queries.length} lookups`);
+
+  const buildStart = performance.now();
+  const index = new IpPrefixIndex<PrefixRow>();
+  for (const row of rows) {
+    index.insert(row.prefix, row);
+  }
+  const buildTime = performance.now() - buildStart;
+
+  const linearResults: string[] = [];
+  const linearStart = performance.now();
+  for (const query of queries) {
+    linearResults.push(matchKeys(linearLookup(rows, query)));
+  }
+  const linearTime = performance.now() - linearStart;
+
+  const indexResults: string[] = [];
+  const indexStart = performance.now();
+  for (const query of queries) {
+    indexResults.push(matchKeys(index.lookup(query).map(match => match.value)));
+  }
+  const indexTime = performance.now() - indexStart;
+
+  const mismatches = queries.filter((_, i) => linearResults[i] !== indexResults[i]);
+
+  console.info(`Index build:         ${formatMs(buildTime)} (${index.size} prefixes)`);
+  console.info(`Linear scan:         ${formatMs(linearTime)} total, ${formatMs(linearTime / queries.length)} per lookup`);
+  console.info(`Prefix trie:         ${formatMs(indexTime)} total, ${formatMs(indexTime / queries.length)} per lookup`);
+  console.info(`Speed-up per lookup: ${(linearTime / Math.max(indexTime, Number.EPSILON)).toFixed(0)}x`);
+
+  if (mismatches.length > 0) {
+    console.error(`Result mismatch for ${mismatches.length} queries, e.g. ${mismatches.slice(0, 5).join(', ')}`);
+    process.exit(1);
+  }
+  console.info('Both paths returned identical matches for every query.');
+}
+
+if (require.main === module) {
+  runBenchmark();
+}
@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  AzureCloudName,
+  AzureDiffMetadata,
+  AzureServiceTagChange,
+  AzureServiceTagDiff,
+  AzureServiceTagsRoot,
+  AzureSnapshotMetadata
+} from '../src/types/azure';
+import { buildServiceTagHistories } from '../src/lib/serviceTagHistory';
+
+// Diffs between consecutive releases are published with the site and committed.
+// Every downloaded file is also kept as a snapshot so past diffs can be regenerated.
+// Snapshots are several MB each, so they stay out of public/ and the main branch: the
+// update workflow checks out the service-tag-snapshots data branch at SNAPSHOTS_DIR and
+// pushes new snapshots to it. Without a snapshot, update-ip-data seeds the baseline
+// from the committed public/data file.
+const DATA_DIR = path.join(process.cwd(), 'public', 'data');
+const SNAPSHOTS_DIR = process.env.SNAPSHOTS_DIR || path.join(process.cwd(), '.cache', 'service-tag-snapshots');
+const DIFFS_DIR = path.join(DATA_DIR, 'diffs');
+const SNAPSHOT_INDEX_FILE = path.join(SNAPSHOTS_DIR, 'index.json');
+const DIFF_INDEX_FILE = path.join(DIFFS_DIR, 'index.json');
+const TAG_HISTORY_DIR = path.join(DIFFS_DIR, 'tags');
+
+// Snapshots to keep per cloud; 0 (the default) keeps every one. Local runs that only
+// need a baseline can set SNAPSHOT_RETENTION=1.
+const SNAPSHOT_RETENTION = parseInt(process.env.SNAPSHOT_RETENTION || '0', 10);
+
+function readJsonFile<T>(filePath: string, fallback: T): T {
+  try {
+    if (fs.existsSync(filePath)) {
+      return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+    }
+  } catch (error) {
+    console.error(`Error reading ${filePath}:`, error);
+  }
+  return fallback;
+}
+
+function writeJsonFile(filePath: string, data: unknown, pretty = true): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, pretty ? JSON.stringify(data, null, 2) : JSON.stringify(data), 'utf8');
+}
+
+export function loadSnapshotIndex(): AzureSnapshotMetadata[] {
+  return readJsonFile<AzureSnapshotMetadata[]>(SNAPSHOT_INDEX_FILE, []);
+}
+
+export function loadDiffIndex(): AzureDiffMetadata[] {
+  return readJsonFile<AzureDiffMetadata[]>(DIFF_INDEX_FILE, []);
+}
+
+/**
+ * Latest stored snapshot for a cloud, used as the baseline for the next diff
+ */
+export function loadLatestSnapshot(cloud: AzureCloudName): { metadata: AzureSnapshotMetadata; data: AzureServiceTagsRoot } | null {
+  const snapshots = loadSnapshotIndex()
+    .filter(snapshot => snapshot.cloud === cloud)
+    .sort((a, b) => b.changeNumber - a.changeNumber);
+
+  for (const metadata of snapshots) {
+    const data = readJsonFile<AzureServiceTagsRoot | null>(path.join(SNAPSHOTS_DIR, metadata.filename), null);
+    if (data) {
+      return { metadata, data };
+    }
+  }
+  return null;
+}
+
+/**
+ * Persist a downloaded file as a dated snapshot keyed by its changeNumber.
+ * Does nothing if a snapshot with the same changeNumber already exists.
+ */
+export function saveSnapshot(cloud: AzureCloudName, data: AzureServiceTagsRoot, date: string): AzureSnapshotMetadata {
+  const index = loadSnapshotIndex();
+  const existing = index.find(snapshot => snapshot.cloud === cloud && snapshot.changeNumber === data.changeNumber);
+  if (existing) {
+    return existing;
+  }
+
+  const metadata: AzureSnapshotMetadata = {
+    cloud,
+    changeNumber: data.changeNumber,
+    filename: `${cloud}/${date}_${data.changeNumber}.json`,
+    date
+  };
+
+  writeJsonFile(path.join(SNAPSHOTS_DIR, metadata.filename), data, false);
+  index.push(metadata);
+  writeJsonFile(SNAPSHOT_INDEX_FILE, pruneSnapshots(index, cloud));
+  console.info(`Saved snapshot ${metadata.filename}`);
+
+  return metadata;
+}
+
+/**
+ * Remove the oldest snapshots of a cloud beyond SNAPSHOT_RETENTION, when it is set
+ */
+function pruneSnapshots(index: AzureSnapshotMetadata[], cloud: AzureCloudName): AzureSnapshotMetadata[] {
+  if (!(SNAPSHOT_RETENTION > 0)) {
+    return index;
+  }
+  const cloudSnapshots = index
+    .filter(snapshot => snapshot.cloud === cloud)
+    .sort((a, b) => b.changeNumber - a.changeNumber);
+  const expired = new Set(cloudSnapshots.slice(SNAPSHOT_RETENTION));
+
+  expired.forEach(snapshot => {
+    const filePath = path.join(SNAPSHOTS_DIR, snapshot.filename);
+    try {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+        console.info(`Removed expired snapshot ${snapshot.filename}`);
+      }
+    } catch (error) {
+      console.error(`Error removing snapshot ${snapshot.filename}:`, error);
+    }
+  });
+
+  return index.filter(snapshot => !expired.has(snapshot));
+}
+
+/**
+ * Compare two service tag files: tags added/removed, prefixes added/removed per tag,
+ * and tags whose own changeNumber was bumped without prefix changes.
+ */
+export function computeServiceTagDiff(
+  cloud: AzureCloudName,
+  previous: AzureServiceTagsRoot,
+  current: AzureServiceTagsRoot,
+  fromDate: string,
+  toDate: string
+): AzureServiceTagDiff {
+  const previousTags = new Map(previous.values.map(tag => [tag.name, tag]));
+  const currentTags = new Map(current.values.map(tag => [tag.name, tag]));
+  const names = Array.from(new Set(Array.from(previousTags.keys()).concat(Array.from(currentTags.keys())))).sort();
+
+  const tagsAdded: string[] = [];
+  const tagsRemoved: string[] = [];
+  const changes: AzureServiceTagChange[] = [];
+
+  for (const name of names) {
+    const before = previousTags.get(name);
+    const after = currentTags.get(name);
+    const beforePrefixes = new Set(before?.properties.addressPrefixes ?? []);
+    const afterPrefixes = new Set(after?.properties.addressPrefixes ?? []);
+
+    const prefixesAdded = Array.from(afterPrefixes).filter(prefix => !beforePrefixes.has(prefix));
+    const prefixesRemoved = Array.from(beforePrefixes).filter(prefix => !afterPrefixes.has(prefix));
+    const previousChangeNumber = before ? before.properties.changeNumber : null;
+    const changeNumber = after ? after.properties.changeNumber : null;
+
+    if (!before) tagsAdded.push(name);
+    if (!after) tagsRemoved.push(name);
+
+    if (prefixesAdded.length > 0 || prefixesRemoved.length > 0 || previousChangeNumber !== changeNumber) {
+      changes.push({ name, previousChangeNumber, changeNumber, prefixesAdded, prefixesRemoved });
+    }
+  }
+
+  return {
+    cloud,
+    fromChangeNumber: previous.changeNumber,
+    toChangeNumber: current.changeNumber,
+    fromDate,
+    toDate,
+    tagsAdded,
+    tagsRemoved,
+    changes
+  };
+}
+
+/**
+ * Write a diff to public/data/diffs/<cloud>/ and record it in the diff index
+ */
+export function saveDiff(diff: AzureServiceTagDiff): AzureDiffMetadata {
+  const metadata: AzureDiffMetadata = {
+    cloud: diff.cloud,
+    fromChangeNumber: diff.fromChangeNumber,
+    toChangeNumber: diff.toChangeNumber,
+    date: diff.toDate,
+    filename: `${diff.cloud}/${diff.fromChangeNumber}-${diff.toChangeNumber}.json`,
+    tagsChanged: diff.changes.length,
+    prefixesAdded: diff.changes.reduce((sum, change) => sum + change.prefixesAdded.length, 0),
+    prefixesRemoved: diff.changes.reduce((sum, change) => sum + change.prefixesRemoved.length, 0)
+  };
+
+  writeJsonFile(path.join(DIFFS_DIR, metadata.filename), diff);
+
+  const index = loadDiffIndex().filter(
+    entry => !(entry.cloud === metadata.cloud && entry.fromChangeNumber === metadata.fromChangeNumber && entry.toChangeNumber === metadata.toChangeNumber)
+  );
+  index.push(metadata);
+  index.sort((a, b) => a.cloud.localeCompare(b.cloud) || a.toChangeNumber - b.toChangeNumber);
+  writeJsonFile(DIFF_INDEX_FILE, index);
+
+  console.info(
+    `Saved diff ${metadata.filename}: ${metadata.tagsChanged} tag(s) changed, ` +
+    `+${metadata.prefixesAdded}/-${metadata.prefixesRemoved} prefixes`
+  );
+
+  saveTagHistories(index);
+  return metadata;
+}
+
+/**
+ * Rebuild public/data/diffs/tags/ from every published diff, so a tag's history page
+ * loads one small file instead of every diff
+ */
+function saveTagHistories(index: AzureDiffMetadata[]): void {
+  const diffs = index
+    .map(metadata => readJsonFile<AzureServiceTagDiff | null>(path.join(DIFFS_DIR, metadata.filename), null))
+    .filter((diff): diff is AzureServiceTagDiff => diff !== null);
+  const histories = buildServiceTagHistories(diffs);
+
+  fs.rmSync(TAG_HISTORY_DIR, { recursive: true, force: true });
+  histories.forEach((entries, filename) => writeJsonFile(path.join(DIFFS_DIR, filename), entries));
+
+  console.info(`Saved change history for ${histories.size} service tag(s)`);
+}
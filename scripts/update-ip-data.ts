@@ -2,6 +2,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as https from 'https';
 import { AzureCloudName, AzureFileMetadata, AzureServiceTagsRoot } from '../src/types/azure';
+import { computeServiceTagDiff, loadLatestSnapshot, saveDiff, saveSnapshot } from './service-tag-history';
 
 interface DownloadMapping {
   id: string;
@@ -346,7 +347,15 @@ async function updateAllIpData(): Promise<void> {
       }
 
       const dataFilePath = path.join(DATA_DIR, `${mapping.cloud}.json`);
-      
+      const retrievedDate = new Date().toISOString().split('T')[0]; // YYYY-MM-DD format
+
+      // Seed the snapshot history from the current file before it is overwritten
+      if (!loadLatestSnapshot(mapping.cloud) && fs.existsSync(dataFilePath)) {
+        const existingData = JSON.parse(fs.readFileSync(dataFilePath, 'utf8')) as AzureServiceTagsRoot;
+        const existingMetadata = metadata.find(m => m.cloud === mapping.cloud);
+        saveSnapshot(mapping.cloud, existingData, existingMetadata?.lastRetrieved ?? retrievedDate);
+      }
+
       // Download directly to public/data directory
       await downloadFile(downloadUrl, dataFilePath);
 
@@ -361,6 +370,13 @@ async function updateAllIpData(): Promise<void> {
       // Write the validated data back to the file
       fs.writeFileSync(dataFilePath, JSON.stringify(data, null, 2), 'utf8');
       console.info(`Validated and saved sanitized data for ${mapping.cloud}`);
+
+      // Record what changed since the previous snapshot, then snapshot this release
+      const baseline = loadLatestSnapshot(mapping.cloud);
+      if (baseline && baseline.data.changeNumber !== data.changeNumber) {
+        saveDiff(computeServiceTagDiff(mapping.cloud, baseline.data, data, baseline.metadata.date, retrievedDate));
+      }
+      saveSnapshot(mapping.cloud, data, retrievedDate);
       
       // Extract filename from download URL
       const filename = extractFilenameFromUrl(downloadUrl);
@@ -372,7 +388,7 @@ async function updateAllIpData(): Promise<void> {
         changeNumber: data.changeNumber,
         filename: filename,
         downloadUrl: downloadUrl,
-        lastRetrieved: new Date().toISOString().split('T')[0] // YYYY-MM-DD format
+        lastRetrieved: retrievedDate
       };
 
       if (existingIndex >= 0) {
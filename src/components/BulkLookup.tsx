@@ -0,0 +1,253 @@
+import { useState, useRef, useMemo, useCallback, memo } from 'react';
+import Link from 'next/link';
+import type { AzureCloudName } from '@/types/azure';
+import { MAX_BULK_INPUTS, extractIpInputs, runBulkLookup, type BulkLookupResult } from '@/lib/bulkLookup';
+import { buildUrlWithQueryOrBasePath } from '@/lib/queryUtils';
+import { AZURE_CLOUDS, AZURE_CLOUD_LABELS, parseCloudName } from '@/lib/azureClouds';
+
+interface BulkLookupProps {
+  initialCloud?: AzureCloudName;
+}
+
+const BulkLookup = memo(function BulkLookup({ initialCloud }: BulkLookupProps) {
+  const [text, setText] = useState('');
+  const [cloud, setCloud] = useState<AzureCloudName | undefined>(initialCloud);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [results, setResults] = useState<BulkLookupResult[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [truncatedFrom, setTruncatedFrom] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const detectedCount = useMemo(() => extractIpInputs(text).length, [text]);
+  const azureCount = results ? results.filter(result => result.isAzure).length : 0;
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setText(await file.text());
+      setFileName(file.name);
+      setError(null);
+    } catch (err) {
+      setError(`Could not read ${file.name}`);
+    } finally {
+      // Allow re-selecting the same file
+      event.target.value = '';
+    }
+  };
+
+  const handleLookup = useCallback(async () => {
+    const inputs = extractIpInputs(text);
+    if (inputs.length === 0) {
+      setError('No IPv4/IPv6 addresses or CIDR ranges found in the input.');
+      setResults(null);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    setTruncatedFrom(inputs.length > MAX_BULK_INPUTS ? inputs.length : null);
+
+    try {
+      setResults(await runBulkLookup(inputs.slice(0, MAX_BULK_INPUTS), cloud));
+    } catch (err) {
+      setError('Failed to load Azure IP data. Please try again.');
+      setResults(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [text, cloud]);
+
+  const handleClear = () => {
+    setText('');
+    setFileName(null);
+    setResults(null);
+    setError(null);
+    setTruncatedFrom(null);
+  };
+
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    if (!results || results.length === 0) return;
+
+    // Dynamic import to reduce initial bundle size
+    const [{ prepareBulkExportData }, { exportToCSV, exportToExcel, generateFilename }] = await Promise.all([
+      import('@/lib/bulkLookup'),
+      import('@/lib/exportUtils')
+    ]);
+
+    const exportData = prepareBulkExportData(results);
+    const filename = generateFilename('bulk lookup', format);
+
+    if (format === 'csv') {
+      await exportToCSV(exportData, filename);
+    } else {
+      await exportToExcel(exportData, filename, 'Bulk IP Lookup');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <label htmlFor="bulk-input" className="block text-sm font-semibold text-slate-700 dark:text-slate-200">
+          Paste IP addresses, CIDR ranges, CSV rows or log lines
+        </label>
+        <textarea
+          id="bulk-input"
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setFileName(null);
+          }}
+          rows={8}
+          spellCheck={false}
+          placeholder={'40.112.127.224\n2603:1000::1\n2024-05-01T10:00:00Z DENY src=20.43.0.12:443 dst=10.0.0.4'}
+          className="w-full rounded-xl border border-slate-300 bg-white px-4 py-3 font-mono text-sm text-slate-900 shadow-sm transition placeholder:text-slate-400 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/20 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:placeholder:text-slate-500"
+        />
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={handleLookup}
+            disabled={isLoading || detectedCount === 0}
+            className="inline-flex items-center gap-2 rounded-xl bg-sky-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-sky-700 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {isLoading && (
+              <span className="inline-block h-4 w-4 animate-spin rounded-full border-2 border-white/70 border-t-transparent" />
+            )}
+            Look up {detectedCount} {detectedCount === 1 ? 'address' : 'addresses'}
+          </button>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:border-sky-200 hover:text-sky-700 dark:border-slate-600 dark:bg-slate-800 dark:text-slate-200"
+          >
+            Upload CSV or log file
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.log,.txt,text/csv,text/plain"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <label className="sr-only" htmlFor="bulk-cloud">
+            Azure cloud
+          </label>
+          <select
+            id="bulk-cloud"
+            value={cloud ?? ''}
+            onChange={(e) => setCloud(parseCloudName(e.target.value))}
+            className="rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm text-slate-700 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/20 dark:border-slate-600 dark:bg-slate-800 dark:text-slate-200"
+          >
+            <option value="">All clouds</option>
+            {AZURE_CLOUDS.map((cloudName) => (
+              <option key={cloudName} value={cloudName}>
+                {AZURE_CLOUD_LABELS[cloudName]}
+              </option>
+            ))}
+          </select>
+          {text && (
+            <button
+              type="button"
+              onClick={handleClear}
+              className="text-xs font-semibold text-slate-500 underline decoration-dotted hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200"
+            >
+              Clear
+            </button>
+          )}
+          {fileName && <span className="text-xs text-slate-500 dark:text-slate-400">Loaded {fileName}</span>}
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 p-5 text-sm text-rose-700 dark:border-rose-400/40 dark:bg-rose-500/10 dark:text-rose-300">
+          {error}
+        </div>
+      )}
+
+      {truncatedFrom && (
+        <div className="rounded-xl border border-amber-200 bg-amber-50 p-5 text-sm text-amber-700 dark:border-amber-400/40 dark:bg-amber-400/10 dark:text-amber-200">
+          Found {truncatedFrom} addresses; only the first {MAX_BULK_INPUTS} were looked up.
+        </div>
+      )}
+
+      {results && results.length > 0 && !isLoading && (
+        <section
+          className="rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-700 dark:bg-slate-900"
+          aria-label="Bulk lookup results"
+        >
+          <header className="flex flex-col gap-3 border-b border-slate-200 bg-slate-50 px-4 py-4 md:flex-row md:items-center md:justify-between md:px-6 md:py-5 dark:border-slate-700 dark:bg-slate-900/60">
+            <div>
+              <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100 md:text-xl">Bulk lookup results</h2>
+              <p className="text-xs text-slate-600 dark:text-slate-300 md:text-sm">
+                {azureCount} of {results.length} {results.length === 1 ? 'input' : 'inputs'} matched Azure IP ranges
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => handleExport('csv')}
+                className="rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:border-sky-200 hover:text-sky-700"
+              >
+                Export CSV
+              </button>
+              <button
+                type="button"
+                onClick={() => handleExport('xlsx')}
+                className="rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:border-sky-200 hover:text-sky-700"
+              >
+                Export Excel
+              </button>
+            </div>
+          </header>
+
+          <div className="w-full overflow-x-auto">
+            <table className="w-full min-w-[700px] table-auto divide-y divide-slate-200 dark:divide-slate-700" aria-label="Bulk lookup results">
+              <thead className="bg-slate-100 dark:bg-slate-900/60">
+                <tr className="text-left text-xs uppercase tracking-wider text-slate-500 dark:text-slate-400">
+                  <th className="w-[25%] px-5 py-4 font-semibold">Input</th>
+                  <th className="w-[10%] px-5 py-4 font-semibold">Azure</th>
+                  <th className="w-[40%] px-5 py-4 font-semibold">Service Tags</th>
+                  <th className="w-[25%] px-5 py-4 font-semibold">Regions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                {results.map((result, index) => (
+                  <tr
+                    key={result.input}
+                    className={index % 2 === 0 ? 'bg-white dark:bg-slate-900' : 'bg-slate-50 dark:bg-slate-900/70'}
+                  >
+                    <td className="px-5 py-4 font-mono text-sm text-slate-900 dark:text-slate-100">
+                      <Link
+                        href={buildUrlWithQueryOrBasePath('/tools/ip-lookup', { ipOrDomain: result.input, cloud })}
+                        className="text-sky-600 hover:underline dark:text-sky-300"
+                      >
+                        {result.input}
+                      </Link>
+                    </td>
+                    <td className="px-5 py-4 text-sm">
+                      {result.isAzure ? (
+                        <span className="inline-block rounded-md border border-emerald-200 bg-emerald-50 px-2 py-1 text-xs font-semibold text-emerald-700 dark:border-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-200">
+                          Azure
+                        </span>
+                      ) : (
+                        <span className="inline-block rounded-md border border-slate-200 bg-slate-50 px-2 py-1 text-xs font-semibold text-slate-600 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300">
+                          Not Azure
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-5 py-4 text-sm text-slate-600 dark:text-slate-300">{result.serviceTags.join(', ') || '-'}</td>
+                    <td className="px-5 py-4 text-sm text-slate-600 dark:text-slate-300">{result.regions.join(', ') || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+});
+
+export default BulkLookup;
@@ -0,0 +1,76 @@
+import { memo } from 'react';
+import type { DnsChainRecord } from '@/types/api';
+
+interface DnsResolutionChainProps {
+  hostname: string;
+  chain: DnsChainRecord[];
+}
+
+export function formatTtl(ttl?: number): string | null {
+  if (ttl === undefined) return null;
+  if (ttl < 60) return `${ttl}s`;
+  if (ttl < 3600) return `${Math.round(ttl / 60)}m`;
+  return `${Math.round(ttl / 3600)}h`;
+}
+
+export function ServiceBadge({ service }: { service?: string }) {
+  if (!service) return null;
+  return (
+    <span className="rounded-full bg-sky-50 px-2 py-0.5 text-xs font-semibold text-sky-700 dark:bg-sky-900/30 dark:text-sky-300">
+      {service}
+    </span>
+  );
+}
+
+const DnsResolutionChain = memo(function DnsResolutionChain({ hostname, chain }: DnsResolutionChainProps) {
+  const hops = chain.filter((record) => record.type === 'CNAME');
+  const addresses = chain.filter((record) => record.type !== 'CNAME');
+  const canonicalName = addresses[0]?.name ?? hops[hops.length - 1]?.value ?? hostname;
+
+  return (
+    <section
+      className="space-y-4 rounded-2xl border border-slate-200 bg-white p-4 shadow-sm dark:border-slate-700 dark:bg-slate-900 md:p-6"
+      aria-label="DNS resolution chain"
+    >
+      <div>
+        <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">DNS resolution</h2>
+        <p className="mt-1 text-sm text-slate-600 dark:text-slate-300">
+          {hops.length === 0
+            ? `${hostname} resolves directly to ${addresses.length} address${addresses.length === 1 ? '' : 'es'}.`
+            : `${hostname} resolves through ${hops.length} CNAME${hops.length === 1 ? '' : 's'} to ${canonicalName}.`}
+        </p>
+      </div>
+
+      <ol className="space-y-2">
+        {hops.map((record, index) => (
+          <li key={`${record.name}-${index}`} className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-mono text-slate-900 dark:text-slate-100">{record.name}</span>
+            <ServiceBadge service={record.azureService} />
+            <span className="text-slate-400" aria-hidden="true">→</span>
+            <span className="text-xs font-semibold uppercase text-slate-500 dark:text-slate-400">CNAME</span>
+            {formatTtl(record.ttl) && <span className="text-xs text-slate-400">TTL {formatTtl(record.ttl)}</span>}
+          </li>
+        ))}
+        <li className="flex flex-wrap items-start gap-2 text-sm">
+          <span className="font-mono text-slate-900 dark:text-slate-100">{canonicalName}</span>
+          <ServiceBadge service={addresses[0]?.azureService} />
+          <span className="text-slate-400" aria-hidden="true">→</span>
+          <ul className="flex flex-wrap gap-2">
+            {addresses.map((record) => (
+              <li
+                key={`${record.type}-${record.value}`}
+                className="rounded-md border border-slate-200 px-2 py-0.5 font-mono text-xs text-slate-700 dark:border-slate-700 dark:text-slate-200"
+              >
+                <span className="mr-1 font-sans font-semibold text-slate-500 dark:text-slate-400">{record.type}</span>
+                {record.value}
+                {formatTtl(record.ttl) && <span className="ml-1 font-sans text-slate-400">TTL {formatTtl(record.ttl)}</span>}
+              </li>
+            ))}
+          </ul>
+        </li>
+      </ol>
+    </section>
+  );
+});
+
+export default DnsResolutionChain;
@@ -1,13 +1,18 @@
 import { useState, useRef, useEffect } from 'react';
 import { AzureIpAddress } from '@/types/azure';
+import { RULE_ARTIFACT_FORMATS, RuleArtifactFormat } from '@/lib/ruleArtifacts';
 
 interface ExportDropdownProps {
   results: AzureIpAddress[];
   query: string;
   disabled?: boolean;
+  // Full result set for rule artifacts when `results` only holds the current page
+  ruleResults?: AzureIpAddress[];
 }
 
-export default function ExportDropdown({ results, query, disabled = false }: ExportDropdownProps) {
+const RULE_FORMATS = Object.keys(RULE_ARTIFACT_FORMATS) as RuleArtifactFormat[];
+
+export default function ExportDropdown({ results, query, disabled = false, ruleResults }: ExportDropdownProps) {
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
@@ -42,6 +47,17 @@ export default function ExportDropdown({ results, query, disabled = false }: Exp
     setIsOpen(false);
   };
 
+  const handleRuleExport = async (format: RuleArtifactFormat) => {
+    const source = ruleResults ?? results;
+    if (source.length === 0) return;
+
+    // Dynamic import to reduce initial bundle size
+    const { exportRuleArtifact } = await import('@/lib/exportUtils');
+    exportRuleArtifact(source, format, query);
+
+    setIsOpen(false);
+  };
+
   if (disabled || results.length === 0) {
     return null;
   }
@@ -65,7 +81,7 @@ export default function ExportDropdown({ results, query, disabled = false }: Exp
       </button>
 
       {isOpen && (
-        <div className="absolute right-0 z-10 mt-2 w-56 origin-top-right rounded-xl border border-slate-200 bg-white shadow-lg">
+        <div className="absolute right-0 z-10 mt-2 w-72 origin-top-right rounded-xl border border-slate-200 bg-white shadow-lg">
           <div className="py-1" role="menu" aria-orientation="vertical">
             <div className="border-b border-slate-200 px-4 py-2 text-xs uppercase tracking-wide text-slate-500">
               Export {results.length} record{results.length !== 1 ? 's' : ''}
@@ -92,6 +108,23 @@ export default function ExportDropdown({ results, query, disabled = false }: Exp
               Export as Excel
               <span className="ml-auto text-xs text-slate-400">.xlsx</span>
             </button>
+            <div className="border-y border-slate-200 px-4 py-2 text-xs uppercase tracking-wide text-slate-500">
+              Firewall rules
+            </div>
+            {RULE_FORMATS.map((format) => (
+              <button
+                key={format}
+                onClick={() => handleRuleExport(format)}
+                className="flex w-full items-center gap-3 px-4 py-2 text-sm text-slate-700 transition hover:bg-sky-50 hover:text-sky-700"
+                role="menuitem"
+              >
+                <svg className="h-4 w-4 text-slate-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+                </svg>
+                {RULE_ARTIFACT_FORMATS[format].label}
+                <span className="ml-auto text-xs text-slate-400">.{RULE_ARTIFACT_FORMATS[format].extension}</span>
+              </button>
+            ))}
           </div>
         </div>
       )}
@@ -1,18 +1,22 @@
 import { useState, useEffect, useCallback, memo } from 'react';
 import { useRouter } from 'next/router';
+import { AZURE_CLOUDS, AZURE_CLOUD_LABELS, parseCloudName } from '@/lib/azureClouds';
 
 interface LookupFormProps {
   initialValue?: string;
   initialRegion?: string;
   initialService?: string;
+  initialCloud?: string;
 }
 
 const LookupForm = memo(function LookupForm({ 
   initialValue = '', 
   initialRegion = '',
-  initialService = ''
+  initialService = '',
+  initialCloud = ''
 }: LookupFormProps) {
   const [searchQuery, setSearchQuery] = useState('');
+  const [cloud, setCloud] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const router = useRouter();
   
@@ -27,6 +31,10 @@ const LookupForm = memo(function LookupForm({
       setSearchQuery(initialRegion);
     }
   }, [initialValue, initialRegion, initialService]);
+
+  useEffect(() => {
+    setCloud(parseCloudName(initialCloud) ?? '');
+  }, [initialCloud]);
   
   // Reset loading state when query parameters change
   useEffect(() => {
@@ -109,6 +117,11 @@ const LookupForm = memo(function LookupForm({
       query.ipOrDomain = cleanedInput;
     }
     
+    // Restrict the search to a single cloud when one is selected
+    if (cloud) {
+      query.cloud = cloud;
+    }
+
     // Navigate to the same page with query params
     router.push({
       pathname: router.pathname,
@@ -117,11 +130,11 @@ const LookupForm = memo(function LookupForm({
   };
 
   return (
-    <form onSubmit={handleSubmit} className="mb-6 w-full max-w-md" role="search" aria-label="Azure IP Lookup">
+    <form onSubmit={handleSubmit} className="mb-6 flex w-full max-w-xl flex-col gap-3 sm:flex-row" role="search" aria-label="Azure IP Lookup">
       <label className="sr-only" htmlFor="search-query">
         Search Azure IP addresses, services, or regions
       </label>
-      <div className="relative">
+      <div className="relative flex-1">
         <input
           type="search"
           id="search-query"
@@ -155,6 +168,23 @@ const LookupForm = memo(function LookupForm({
           )}
         </button>
       </div>
+      <label className="sr-only" htmlFor="search-cloud">
+        Azure cloud
+      </label>
+      <select
+        id="search-cloud"
+        name="search-cloud"
+        value={cloud}
+        onChange={(e) => setCloud(e.target.value)}
+        className="rounded-xl border border-slate-300 bg-white px-4 py-3 text-sm text-slate-700 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/20 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200"
+      >
+        <option value="">All clouds</option>
+        {AZURE_CLOUDS.map((cloudName) => (
+          <option key={cloudName} value={cloudName}>
+            {AZURE_CLOUD_LABELS[cloudName]}
+          </option>
+        ))}
+      </select>
     </form>
   );
 });
@@ -0,0 +1,144 @@
+import { useMemo, useState, memo } from 'react';
+import { AggregationMode, aggregatePrefixes, summarizePrefixes } from '@/lib/prefixAggregation';
+
+interface PrefixSummaryProps {
+  prefixes: string[];
+  query: string;
+}
+
+const DEFAULT_MAX_PREFIXES = 100;
+
+function formatAddressCount(count: number): string {
+  // IPv6 counts exceed the safe integer range
+  return count > Number.MAX_SAFE_INTEGER ? count.toExponential(2) : count.toLocaleString();
+}
+
+const PrefixSummary = memo(function PrefixSummary({ prefixes, query }: PrefixSummaryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [mode, setMode] = useState<AggregationMode>('exact');
+  const [maxPrefixes, setMaxPrefixes] = useState(DEFAULT_MAX_PREFIXES);
+  const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'error'>('idle');
+
+  const result = useMemo(() => {
+    if (!isOpen) return null;
+    return mode === 'exact' ? aggregatePrefixes(prefixes) : summarizePrefixes(prefixes, maxPrefixes);
+  }, [isOpen, mode, maxPrefixes, prefixes]);
+
+  const handleCopy = async () => {
+    if (!result) return;
+    try {
+      await navigator.clipboard.writeText(result.prefixes.join('\n'));
+      setCopyStatus('copied');
+    } catch {
+      setCopyStatus('error');
+    }
+    setTimeout(() => setCopyStatus('idle'), 2000);
+  };
+
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    if (!result) return;
+
+    // Dynamic import to reduce initial bundle size
+    const { exportToCSV, exportToExcel, prepareAggregatedExportData, generateFilename } = await import('@/lib/exportUtils');
+    const exportData = prepareAggregatedExportData(result);
+    const filename = generateFilename(`${query}_${result.mode}`, format);
+
+    if (format === 'csv') {
+      await exportToCSV(exportData, filename);
+    } else {
+      await exportToExcel(exportData, filename, 'Summarized Prefixes');
+    }
+  };
+
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-700 dark:bg-slate-900" aria-label="Prefix summarization">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="flex w-full items-center justify-between px-4 py-4 text-left md:px-6"
+      >
+        <span>
+          <span className="block text-sm font-semibold text-slate-900 dark:text-slate-100">Summarize prefixes</span>
+          <span className="block text-xs text-slate-600 dark:text-slate-300">
+            Collapse {prefixes.length.toLocaleString()} prefixes into fewer CIDRs for firewalls with object limits
+          </span>
+        </span>
+        <svg className="h-4 w-4 text-slate-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={isOpen ? 'M5 15l7-7 7 7' : 'M19 9l-7 7-7-7'} />
+        </svg>
+      </button>
+
+      {isOpen && result && (
+        <div className="space-y-4 border-t border-slate-200 px-4 py-4 md:px-6 dark:border-slate-700">
+          <div className="flex flex-wrap items-center gap-4 text-sm text-slate-700 dark:text-slate-200">
+            <label className="inline-flex items-center gap-2">
+              <input type="radio" name="aggregation-mode" checked={mode === 'exact'} onChange={() => setMode('exact')} />
+              Exact (same addresses)
+            </label>
+            <label className="inline-flex items-center gap-2">
+              <input type="radio" name="aggregation-mode" checked={mode === 'lossy'} onChange={() => setMode('lossy')} />
+              Lossy, at most
+              <input
+                type="number"
+                min={1}
+                value={maxPrefixes}
+                onChange={(e) => setMaxPrefixes(Math.max(1, Number(e.target.value) || 1))}
+                disabled={mode !== 'lossy'}
+                className="w-24 rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm disabled:opacity-50 dark:border-slate-700 dark:bg-slate-900"
+                aria-label="Maximum prefixes"
+              />
+              prefixes in total
+            </label>
+          </div>
+
+          <p className="text-sm text-slate-600 dark:text-slate-300">
+            {result.inputCount.toLocaleString()} prefixes → <span className="font-semibold text-slate-900 dark:text-slate-100">{result.prefixes.length.toLocaleString()}</span>
+            {result.mode === 'lossy' && (
+              <>
+                {' '}· includes {formatAddressCount(result.extraAddresses.ipv4)} non-Azure IPv4
+                {result.extraAddresses.ipv6 > 0 && <> and {formatAddressCount(result.extraAddresses.ipv6)} IPv6</>} addresses
+              </>
+            )}
+          </p>
+
+          {result.mode === 'lossy' && (result.extraAddresses.ipv4 > 0 || result.extraAddresses.ipv6 > 0) && (
+            <div className="rounded-xl border border-amber-200 bg-amber-50 p-3 text-xs text-amber-700 dark:border-amber-400/40 dark:bg-amber-400/10 dark:text-amber-200">
+              Lossy summaries cover addresses that do not belong to this service tag. Review them before using the list in allow rules.
+            </div>
+          )}
+
+          <pre className="max-h-64 overflow-auto rounded-xl border border-slate-200 bg-slate-50 p-3 font-mono text-xs text-slate-800 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-200">
+            {result.prefixes.join('\n')}
+          </pre>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:border-sky-200 hover:text-sky-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200"
+            >
+              {copyStatus === 'copied' ? 'Copied' : copyStatus === 'error' ? 'Copy failed' : 'Copy'}
+            </button>
+            <button
+              type="button"
+              onClick={() => handleExport('csv')}
+              className="rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:border-sky-200 hover:text-sky-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200"
+            >
+              Export CSV
+            </button>
+            <button
+              type="button"
+              onClick={() => handleExport('xlsx')}
+              className="rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:border-sky-200 hover:text-sky-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200"
+            >
+              Export Excel
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+});
+
+export default PrefixSummary;
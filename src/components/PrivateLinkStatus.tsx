@@ -0,0 +1,68 @@
+import { memo } from 'react';
+import { AZURE_CLOUD_LABELS } from '@/lib/azureClouds';
+import type { PrivateLinkAssessment } from '@/types/api';
+
+interface PrivateLinkStatusProps {
+  hostname: string;
+  assessment: PrivateLinkAssessment;
+}
+
+const TONE_CLASSES = {
+  private: 'border-emerald-200 bg-emerald-50 text-emerald-800 dark:border-emerald-400/40 dark:bg-emerald-500/10 dark:text-emerald-200',
+  warning: 'border-amber-200 bg-amber-50 text-amber-800 dark:border-amber-400/40 dark:bg-amber-400/10 dark:text-amber-200',
+  info: 'border-slate-200 bg-white text-slate-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200'
+};
+
+function describeStatus(hostname: string, assessment: PrivateLinkAssessment): { tone: keyof typeof TONE_CLASSES; message: string } {
+  const { privateLinkCname, answer } = assessment;
+  if (answer === 'private') {
+    return {
+      tone: 'private',
+      message: privateLinkCname
+        ? `${hostname} resolves to its private endpoint through ${privateLinkCname}.`
+        : `${hostname} resolves to a private address, but not through a privatelink CNAME; check for a hosts file entry or custom DNS record.`
+    };
+  }
+  if (privateLinkCname) {
+    return {
+      tone: 'warning',
+      message: `${hostname} has a private endpoint (${privateLinkCname}), but this answer is the public address. Clients only get the private address when the private DNS zone below is linked to their VNet or reachable from their DNS servers.`
+    };
+  }
+  return {
+    tone: 'info',
+    message: `No private endpoint detected for ${hostname}; the answer is ${answer === 'public' ? 'the public address' : 'empty'}. After adding a private endpoint, create the zone and record below.`
+  };
+}
+
+const PrivateLinkStatus = memo(function PrivateLinkStatus({ hostname, assessment }: PrivateLinkStatusProps) {
+  const { tone, message } = describeStatus(hostname, assessment);
+
+  return (
+    <section className={`space-y-3 rounded-2xl border p-4 text-sm shadow-sm md:p-6 ${TONE_CLASSES[tone]}`} aria-label="Private Link">
+      <div className="flex flex-wrap items-center gap-2">
+        <h2 className="text-sm font-semibold uppercase tracking-wide">Private Link</h2>
+        <span className="rounded-full bg-white/70 px-2 py-0.5 text-xs font-semibold dark:bg-slate-900/40">
+          {assessment.answer === 'private' ? 'Private answer' : assessment.answer === 'public' ? 'Public answer' : 'No answer'}
+        </span>
+      </div>
+      <p>{message}</p>
+      <dl className="grid gap-x-6 gap-y-1 sm:grid-cols-[auto_1fr]">
+        <dt className="font-semibold">Resource</dt>
+        <dd>
+          {assessment.resource} ({AZURE_CLOUD_LABELS[assessment.cloud]}) · <span className="font-mono">{assessment.resourceType}</span>
+        </dd>
+        <dt className="font-semibold">Target sub-resource</dt>
+        <dd className="font-mono">{assessment.subresource}</dd>
+        <dt className="font-semibold">Private DNS zone</dt>
+        <dd className="font-mono">{assessment.privateZone}</dd>
+        <dt className="font-semibold">A record</dt>
+        <dd className="font-mono">
+          {assessment.recordName} → private endpoint IP
+        </dd>
+      </dl>
+    </section>
+  );
+});
+
+export default PrivateLinkStatus;
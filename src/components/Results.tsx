@@ -1,10 +1,11 @@
-import { AzureIpAddress } from '@/types/azure';
+import { AzureIpAddress, PrefixRelationship } from '@/types/azure';
 import { useState, useMemo, memo, useCallback } from 'react';
 import { useRouter } from 'next/router';
 import Link from 'next/link';
 import Tooltip from './Tooltip';
 import ExportDropdown from './ExportDropdown';
 import { buildUrlWithQueryOrBasePath } from '@/lib/queryUtils';
+import { AZURE_CLOUD_LABELS } from '@/lib/azureClouds';
 
 // Network features descriptions
 const networkFeaturesInfo = (
@@ -23,10 +24,23 @@ const networkFeaturesInfo = (
   </div>
 );
 
+const relationshipLabels: Record<PrefixRelationship, string> = {
+  contains: 'Contains range',
+  equal: 'Exact match',
+  within: 'Within range'
+};
+
+function formatAddressCount(count: number): string {
+  // IPv6 counts exceed the safe integer range; they are always powers of two
+  return count > Number.MAX_SAFE_INTEGER ? `2^${Math.round(Math.log2(count))}` : count.toLocaleString();
+}
+
 interface ResultsProps {
   results: AzureIpAddress[];
   query: string;
   total?: number;
+  // Every result when `results` is a single page; used for firewall rule exports
+  allResults?: AzureIpAddress[];
   pagination?: {
     currentPage: number;
     totalPages: number;
@@ -40,14 +54,15 @@ interface ResultsProps {
       ipOrDomain?: string;
       region?: string;
       service?: string;
+      cloud?: string;
     };
   };
 }
 
-type SortField = 'serviceTagId' | 'ipAddressPrefix' | 'region' | 'systemService' | 'networkFeatures';
+type SortField = 'serviceTagId' | 'ipAddressPrefix' | 'relationship' | 'cloud' | 'region' | 'systemService' | 'networkFeatures';
 type SortDirection = 'asc' | 'desc';
 
-const Results = memo(function Results({ results, query, total, pagination }: ResultsProps) {
+const Results = memo(function Results({ results, query, total, allResults, pagination }: ResultsProps) {
   const [sortField, setSortField] = useState<SortField>('serviceTagId');
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
   const router = useRouter();
@@ -55,6 +70,12 @@ const Results = memo(function Results({ results, query, total, pagination }: Res
   // Show total available results
   const totalDisplay = total || results.length;
 
+  // Only highlight the most specific prefix when broader prefixes matched too
+  const hasBroaderMatches = useMemo(() => results.some(result => result.isMostSpecific === false), [results]);
+
+  // Range (CIDR) queries label how each prefix overlaps the queried range
+  const showRelationship = useMemo(() => results.some(result => result.relationship), [results]);
+
   const pageSizeOptions = [10, 20, 50, 100, 200, 'all'] as const;
 
   // Helper to build URL for pagination (for URL-based navigation)
@@ -64,6 +85,7 @@ const Results = memo(function Results({ results, query, total, pagination }: Res
       ipOrDomain: pagination.query?.ipOrDomain,
       region: pagination.query?.region,
       service: pagination.query?.service,
+      cloud: pagination.query?.cloud,
       page
     });
   }, [pagination?.basePath, pagination?.query]);
@@ -74,13 +96,14 @@ const Results = memo(function Results({ results, query, total, pagination }: Res
       ipOrDomain: pagination.query?.ipOrDomain,
       region: pagination.query?.region,
       service: pagination.query?.service,
+      cloud: pagination.query?.cloud,
       pageSize: 'all'
     });
   }, [pagination?.basePath, pagination?.query]);
 
   // Handle service tag click - memoized to prevent re-renders
-  const handleServiceTagClick = useCallback((serviceTagId: string) => {
-    router.push(`/tools/service-tags/${encodeURIComponent(serviceTagId)}`);
+  const handleServiceTagClick = useCallback((serviceTagId: string, cloud: string) => {
+    router.push(buildUrlWithQueryOrBasePath(`/tools/service-tags/${encodeURIComponent(serviceTagId)}`, { cloud }));
   }, [router]);
   
   // Handle column sort - memoized to prevent re-renders
@@ -136,7 +159,7 @@ const Results = memo(function Results({ results, query, total, pagination }: Res
             </p>
           </div>
           <div className="flex items-center gap-2 flex-shrink-0">
-            <ExportDropdown results={sortedResults} query={query} />
+            <ExportDropdown results={sortedResults} query={query} ruleResults={allResults} />
           </div>
         </div>
 
@@ -350,6 +373,20 @@ const Results = memo(function Results({ results, query, total, pagination }: Res
               >
                 IP Range {renderSortIndicator('ipAddressPrefix')}
               </th>
+              {showRelationship && (
+                <th
+                  className="w-[15%] px-5 py-4 font-semibold transition hover:bg-slate-200 dark:hover:bg-slate-800"
+                  onClick={() => handleSort('relationship')}
+                >
+                  Overlap {renderSortIndicator('relationship')}
+                </th>
+              )}
+              <th
+                className="w-[10%] px-5 py-4 font-semibold transition hover:bg-slate-200 dark:hover:bg-slate-800"
+                onClick={() => handleSort('cloud')}
+              >
+                Cloud {renderSortIndicator('cloud')}
+              </th>
               <th
                 className="w-[15%] px-5 py-4 font-semibold transition hover:bg-slate-200 dark:hover:bg-slate-800"
                 onClick={() => handleSort('region')}
@@ -357,13 +394,13 @@ const Results = memo(function Results({ results, query, total, pagination }: Res
                 Region {renderSortIndicator('region')}
               </th>
               <th
-                className="w-[20%] px-5 py-4 font-semibold transition hover:bg-slate-200 dark:hover:bg-slate-800"
+                className="w-[15%] px-5 py-4 font-semibold transition hover:bg-slate-200 dark:hover:bg-slate-800"
                 onClick={() => handleSort('systemService')}
               >
                 System Service {renderSortIndicator('systemService')}
               </th>
               <th
-                className="relative w-[25%] px-5 py-4 font-semibold transition hover:bg-slate-200 dark:hover:bg-slate-800"
+                className="relative w-[20%] px-5 py-4 font-semibold transition hover:bg-slate-200 dark:hover:bg-slate-800"
                 onClick={() => handleSort('networkFeatures')}
               >
                 <div className="flex items-center gap-2">
@@ -394,7 +431,7 @@ const Results = memo(function Results({ results, query, total, pagination }: Res
               >
                 <td className="px-5 py-4 text-sm font-semibold text-slate-900 dark:text-slate-100">
                   <button
-                    onClick={() => handleServiceTagClick(result.serviceTagId)}
+                    onClick={() => handleServiceTagClick(result.serviceTagId, result.cloud)}
                     className="rounded-md border border-transparent px-2 py-1 text-left text-sky-600 transition hover:border-sky-200 hover:bg-sky-100 hover:text-sky-700 dark:text-sky-300 dark:hover:border-sky-800 dark:hover:bg-sky-900/20 dark:hover:text-sky-200"
                     title={`View details for ${result.serviceTagId}`}
                   >
@@ -404,6 +441,11 @@ const Results = memo(function Results({ results, query, total, pagination }: Res
                 <td className="px-5 py-4 font-mono text-sm text-slate-900 dark:text-slate-100">
                   <div className="space-y-2">
                     <div>{result.ipAddressPrefix}</div>
+                    {hasBroaderMatches && result.isMostSpecific && (
+                      <span className="inline-block rounded-md border border-violet-200 bg-violet-50 px-2 py-1 text-xs font-semibold text-violet-700 dark:border-violet-800 dark:bg-violet-900/30 dark:text-violet-200">
+                        Most specific match
+                      </span>
+                    )}
                     {result.resolvedFrom && result.resolvedIp && (
                       <div className="space-y-1">
                         <span className="inline-block rounded-md border border-emerald-200 bg-emerald-50 px-2 py-1 text-xs font-semibold text-emerald-700 dark:border-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-200">
@@ -418,6 +460,21 @@ const Results = memo(function Results({ results, query, total, pagination }: Res
                     )}
                   </div>
                 </td>
+                {showRelationship && (
+                  <td className="px-5 py-4 text-sm text-slate-600 dark:text-slate-300">
+                    {result.relationship ? (
+                      <div className="space-y-1">
+                        <div className="font-semibold text-slate-900 dark:text-slate-100">{relationshipLabels[result.relationship]}</div>
+                        {result.overlapAddressCount !== undefined && (
+                          <div className="text-xs">
+                            {formatAddressCount(result.overlapAddressCount)} shared {result.overlapAddressCount === 1 ? 'address' : 'addresses'}
+                          </div>
+                        )}
+                      </div>
+                    ) : '-'}
+                  </td>
+                )}
+                <td className="px-5 py-4 text-sm text-slate-600 dark:text-slate-300">{AZURE_CLOUD_LABELS[result.cloud] || '-'}</td>
                 <td className="px-5 py-4 text-sm text-slate-600 dark:text-slate-300">{result.region || '-'}</td>
                 <td className="px-5 py-4 text-sm text-slate-600 dark:text-slate-300">{result.systemService || '-'}</td>
                 <td className="px-5 py-4 text-sm text-slate-600 dark:text-slate-300">{result.networkFeatures || '-'}</td>
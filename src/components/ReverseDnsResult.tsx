@@ -0,0 +1,109 @@
+import { memo } from 'react';
+import Link from 'next/link';
+import { ServiceBadge, formatTtl } from './DnsResolutionChain';
+import { buildUrlWithQueryOrBasePath } from '@/lib/queryUtils';
+import type { ReverseLookupResponse } from '@/types/api';
+
+interface ReverseDnsResultProps {
+  result: ReverseLookupResponse;
+}
+
+function describeResult({ ip, hostnames, forwardConfirmed, azureService }: ReverseLookupResponse): string {
+  if (hostnames.length === 0) {
+    return `${ip} has no PTR record.`;
+  }
+  const names = hostnames.join(', ');
+  const confirmation = forwardConfirmed
+    ? 'which resolves back to it'
+    : 'which does not resolve back to it, so the name may be stale or spoofed';
+  return azureService
+    ? `${ip} reverse-resolves to ${names} (${azureService}), ${confirmation}.`
+    : `${ip} reverse-resolves to ${names}, ${confirmation}.`;
+}
+
+const ReverseDnsResult = memo(function ReverseDnsResult({ result }: ReverseDnsResultProps) {
+  const ptrRecords = result.chain.filter((record) => record.type === 'PTR');
+  const forwardRecords = result.chain.filter((record) => record.type !== 'PTR');
+
+  return (
+    <section
+      className="space-y-4 rounded-2xl border border-slate-200 bg-white p-4 shadow-sm dark:border-slate-700 dark:bg-slate-900 md:p-6"
+      aria-label="Reverse DNS"
+    >
+      <div>
+        <div className="flex flex-wrap items-center gap-2">
+          <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">Reverse DNS</h2>
+          {ptrRecords.length > 0 && (
+            <span
+              className={`rounded-full px-2 py-0.5 text-xs font-semibold ${
+                result.forwardConfirmed
+                  ? 'bg-emerald-50 text-emerald-700 dark:bg-emerald-500/10 dark:text-emerald-300'
+                  : 'bg-amber-50 text-amber-700 dark:bg-amber-400/10 dark:text-amber-200'
+              }`}
+            >
+              {result.forwardConfirmed ? 'Forward-confirmed' : 'Not forward-confirmed'}
+            </span>
+          )}
+        </div>
+        <p className="mt-1 text-sm text-slate-600 dark:text-slate-300">{describeResult(result)}</p>
+      </div>
+
+      {ptrRecords.length > 0 && (
+        <ol className="space-y-2">
+          {ptrRecords.map((record) => {
+            const addresses = forwardRecords.filter((forward) => forward.name === record.value);
+            return (
+              <li key={record.value} className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-mono text-slate-500 dark:text-slate-400">{record.name}</span>
+                <span className="text-slate-400" aria-hidden="true">→</span>
+                <span className="text-xs font-semibold uppercase text-slate-500 dark:text-slate-400">PTR</span>
+                <span className="font-mono text-slate-900 dark:text-slate-100">{record.value}</span>
+                <ServiceBadge service={record.azureService} />
+                {formatTtl(record.ttl) && <span className="text-xs text-slate-400">TTL {formatTtl(record.ttl)}</span>}
+                {addresses.length > 0 && (
+                  <>
+                    <span className="text-slate-400" aria-hidden="true">→</span>
+                    <ul className="flex flex-wrap gap-2">
+                      {addresses.map((forward) => (
+                        <li
+                          key={`${forward.type}-${forward.value}`}
+                          className={`rounded-md border px-2 py-0.5 font-mono text-xs ${
+                            forward.value === result.ip
+                              ? 'border-emerald-200 text-emerald-700 dark:border-emerald-400/40 dark:text-emerald-300'
+                              : 'border-slate-200 text-slate-700 dark:border-slate-700 dark:text-slate-200'
+                          }`}
+                        >
+                          <span className="mr-1 font-sans font-semibold text-slate-500 dark:text-slate-400">{forward.type}</span>
+                          {forward.value}
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-semibold text-slate-700 dark:text-slate-200">Service tag</span>
+        {result.serviceTags.length === 0 ? (
+          <span className="text-slate-500 dark:text-slate-400">Not in any Azure service tag</span>
+        ) : (
+          result.serviceTags.map((match) => (
+            <Link
+              key={`${match.cloud}-${match.serviceTagId}-${match.ipAddressPrefix}`}
+              href={buildUrlWithQueryOrBasePath(`/tools/service-tags/${encodeURIComponent(match.serviceTagId)}`, { cloud: match.cloud })}
+              className="rounded-md bg-sky-50 px-2 py-0.5 font-mono text-xs text-sky-700 hover:underline dark:bg-sky-900/30 dark:text-sky-300"
+            >
+              {match.serviceTagId} · {match.ipAddressPrefix}
+            </Link>
+          ))
+        )}
+      </div>
+    </section>
+  );
+});
+
+export default ReverseDnsResult;
@@ -0,0 +1,150 @@
+import { useEffect, useState, memo } from 'react';
+import type { AzureCloudName, AzureServiceTagHistoryEntry } from '@/types/azure';
+import { getServiceTagHistory } from '@/lib/serviceTagHistory';
+import { AZURE_CLOUD_LABELS } from '@/lib/azureClouds';
+
+interface ServiceTagHistoryProps {
+  serviceTag: string;
+  cloud?: AzureCloudName;
+}
+
+function formatDelta(value: number): string {
+  const sign = value > 0 ? '+' : value < 0 ? '-' : '±';
+  const magnitude = Math.abs(value);
+  // IPv6 deltas quickly exceed what toLocaleString can show meaningfully
+  const formatted = magnitude > Number.MAX_SAFE_INTEGER ? magnitude.toExponential(2) : magnitude.toLocaleString();
+  return `${sign}${formatted}`;
+}
+
+function PrefixList({ prefixes, tone }: { prefixes: string[]; tone: 'added' | 'removed' }) {
+  if (prefixes.length === 0) return null;
+
+  const classes = tone === 'added'
+    ? 'border-emerald-200 bg-emerald-50 text-emerald-700 dark:border-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-200'
+    : 'border-rose-200 bg-rose-50 text-rose-700 dark:border-rose-800 dark:bg-rose-900/30 dark:text-rose-200';
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+        {tone === 'added' ? 'Added' : 'Removed'} ({prefixes.length})
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {prefixes.map((prefix) => (
+          <span key={prefix} className={`rounded-md border px-2 py-1 font-mono text-xs ${classes}`}>
+            {tone === 'added' ? '+' : '-'} {prefix}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const ServiceTagHistory = memo(function ServiceTagHistory({ serviceTag, cloud }: ServiceTagHistoryProps) {
+  const [history, setHistory] = useState<AzureServiceTagHistoryEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchHistory = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const result = await getServiceTagHistory(serviceTag, cloud);
+        if (!cancelled) setHistory(result);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [serviceTag, cloud]);
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-col items-center gap-4 rounded-xl border border-slate-200 bg-white p-8 text-sm text-slate-600 shadow-sm dark:border-slate-700 dark:bg-slate-900 dark:text-slate-300">
+        <div className="h-10 w-10 animate-spin rounded-full border-2 border-sky-500/70 border-t-transparent" />
+        <span>Loading change history...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-xl border border-rose-200 bg-rose-50 p-5 text-sm text-rose-700 dark:border-rose-400/40 dark:bg-rose-500/10 dark:text-rose-300">
+        {error}
+      </div>
+    );
+  }
+
+  if (!history || history.length === 0) {
+    return (
+      <div className="rounded-xl border border-slate-200 bg-white p-6 text-sm text-slate-600 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-300">
+        No recorded changes for {serviceTag} yet. History is collected from each service tag release since tracking started.
+      </div>
+    );
+  }
+
+  return (
+    <ol className="space-y-4" aria-label={`Change history for ${serviceTag}`}>
+      {history.map((entry) => (
+        <li
+          key={`${entry.cloud}-${entry.toChangeNumber}`}
+          className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm dark:border-slate-700 dark:bg-slate-900"
+        >
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+            <span className="text-sm font-semibold text-slate-900 dark:text-slate-100">{entry.date}</span>
+            <span className="rounded-md border border-slate-200 px-2 py-1 text-xs text-slate-600 dark:border-slate-700 dark:text-slate-300">
+              {AZURE_CLOUD_LABELS[entry.cloud]} v{entry.fromChangeNumber} → v{entry.toChangeNumber}
+            </span>
+            <span className="text-xs text-slate-500 dark:text-slate-400">
+              {entry.previousTagChangeNumber === null
+                ? `Tag added (change ${entry.tagChangeNumber})`
+                : entry.tagChangeNumber === null
+                  ? `Tag removed (was change ${entry.previousTagChangeNumber})`
+                  : `Tag change ${entry.previousTagChangeNumber} → ${entry.tagChangeNumber}`}
+            </span>
+          </div>
+
+          <dl className="mt-3 grid grid-cols-2 gap-3 text-sm md:grid-cols-4">
+            <div>
+              <dt className="text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">Prefixes added</dt>
+              <dd className="font-semibold text-emerald-700 dark:text-emerald-300">+{entry.prefixesAdded.length}</dd>
+            </div>
+            <div>
+              <dt className="text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">Prefixes removed</dt>
+              <dd className="font-semibold text-rose-700 dark:text-rose-300">-{entry.prefixesRemoved.length}</dd>
+            </div>
+            <div>
+              <dt className="text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">IPv4 addresses</dt>
+              <dd className="font-semibold text-slate-900 dark:text-slate-100">{formatDelta(entry.ipv4AddressDelta)}</dd>
+            </div>
+            <div>
+              <dt className="text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">IPv6 addresses</dt>
+              <dd className="font-semibold text-slate-900 dark:text-slate-100">{formatDelta(entry.ipv6AddressDelta)}</dd>
+            </div>
+          </dl>
+
+          {(entry.prefixesAdded.length > 0 || entry.prefixesRemoved.length > 0) && (
+            <details className="mt-3">
+              <summary className="cursor-pointer text-xs font-semibold text-sky-600 dark:text-sky-300">Show prefixes</summary>
+              <div className="mt-3 space-y-3">
+                <PrefixList prefixes={entry.prefixesAdded} tone="added" />
+                <PrefixList prefixes={entry.prefixesRemoved} tone="removed" />
+              </div>
+            </details>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+});
+
+export default ServiceTagHistory;
@@ -0,0 +1,152 @@
+import { memo, useEffect, useMemo, useState } from 'react';
+import type { IpVersion, LeafSubnet } from '@/lib/subnetCalculator';
+import { formatIpAddress } from '@/lib/subnetCalculator';
+import { CollisionReport, CollisionTarget, findPrivateRange, findSubnetCollisions } from '@/lib/subnetCollisions';
+
+interface SubnetCollisionPanelProps {
+  baseNetwork: bigint;
+  basePrefix: number;
+  version: IpVersion;
+  leaves: LeafSubnet[];
+  rowComments: Record<string, string>;
+}
+
+const MAX_LISTED_COLLISIONS = 20;
+
+const SubnetCollisionPanel = memo(function SubnetCollisionPanel({
+  baseNetwork,
+  basePrefix,
+  version,
+  leaves,
+  rowComments
+}: SubnetCollisionPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reports, setReports] = useState<CollisionReport[]>([]);
+
+  const privateRange = useMemo(() => findPrivateRange(baseNetwork, basePrefix, version), [baseNetwork, basePrefix, version]);
+
+  const targets = useMemo(() => {
+    const base: CollisionTarget = { network: baseNetwork, prefix: basePrefix, version };
+    const leafTargets: CollisionTarget[] = leaves.map((leaf) => ({
+      id: leaf.id,
+      network: leaf.network,
+      prefix: leaf.prefix,
+      version: leaf.version
+    }));
+    return { base, leaves: leafTargets };
+  }, [baseNetwork, basePrefix, version, leaves]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    findSubnetCollisions(targets.base, targets.leaves)
+      .then((result) => {
+        if (!cancelled) setReports(result);
+      })
+      .catch((err) => {
+        console.error('Failed to check Azure collisions', err);
+        if (!cancelled) setError('Failed to load Azure service tag data. Please try again.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, targets]);
+
+  const baseCidr = `${formatIpAddress(baseNetwork, version)}/${basePrefix}`;
+
+  return (
+    <div className="rounded-3xl border border-slate-200/70 bg-white/95 shadow-[0_16px_36px_-26px_rgba(15,23,42,0.4)]">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="flex w-full items-center justify-between px-5 py-4 text-left"
+      >
+        <span>
+          <span className="flex items-center gap-2 text-xs font-medium uppercase tracking-[0.25em] text-slate-400">
+            Azure collision check
+            {!privateRange && (
+              <span className="rounded-full bg-amber-100 px-2 py-0.5 text-[10px] tracking-[0.2em] text-amber-700">Public range</span>
+            )}
+          </span>
+          <span className="mt-1 block text-sm text-slate-600">
+            Compare the plan against public Azure service tag ranges
+          </span>
+        </span>
+        <svg className="h-4 w-4 text-slate-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={isOpen ? 'M5 15l7-7 7 7' : 'M19 9l-7 7-7-7'} />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="space-y-4 border-t border-slate-200/70 px-5 py-4 text-sm text-slate-600">
+          {privateRange ? (
+            <p>
+              {baseCidr} is private address space ({privateRange}).
+            </p>
+          ) : (
+            <div className="rounded-[18px] border border-amber-200 bg-amber-50 px-4 py-2.5 text-amber-700 shadow-sm">
+              {baseCidr} is not in RFC 1918 or RFC 6598 private address space{version === 6 ? ' (or IPv6 unique local fc00::/7)' : ''}.
+              Public ranges you do not own can collide with internet and Azure endpoints.
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center gap-2 text-slate-500">
+              <span className="inline-block h-4 w-4 animate-spin rounded-full border-2 border-sky-500 border-t-transparent" />
+              Checking service tag ranges…
+            </div>
+          ) : error ? (
+            <div className="rounded-[18px] border border-rose-200 bg-rose-50 px-4 py-2.5 text-rose-700 shadow-sm" role="alert">
+              {error}
+            </div>
+          ) : reports.length === 0 ? (
+            <p className="text-emerald-700">No overlap with published Azure service tag ranges.</p>
+          ) : (
+            <div className="space-y-3">
+              {reports.map((report) => {
+                const comment = report.target.id ? rowComments[report.target.id] : undefined;
+                const hidden = report.collisions.length - MAX_LISTED_COLLISIONS;
+                return (
+                  <div key={report.target.id ?? 'base'} className="rounded-[18px] border border-rose-200 bg-rose-50/60 px-4 py-3">
+                    <p className="font-semibold text-rose-700">
+                      {report.target.id ? 'Subnet' : 'Base network'} {report.cidr}
+                      {comment && <span className="font-normal text-rose-600"> · {comment}</span>}
+                      <span className="font-normal text-rose-600">
+                        {' '}overlaps {report.collisions.length} Azure prefix{report.collisions.length !== 1 ? 'es' : ''}
+                      </span>
+                    </p>
+                    <ul className="mt-2 space-y-1 text-xs text-slate-700">
+                      {report.collisions.slice(0, MAX_LISTED_COLLISIONS).map((collision) => (
+                        <li key={`${collision.cloud}-${collision.serviceTagId}-${collision.ipAddressPrefix}`} className="flex flex-wrap gap-x-2">
+                          <span className="font-mono">{collision.ipAddressPrefix}</span>
+                          <span className="font-semibold">{collision.serviceTagId}</span>
+                          {collision.region && <span className="text-slate-500">{collision.region}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                    {hidden > 0 && <p className="mt-1 text-xs text-slate-500">and {hidden} more</p>}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default SubnetCollisionPanel;
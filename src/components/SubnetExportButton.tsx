@@ -1,11 +1,13 @@
 import { useEffect, useRef, useState } from 'react';
-import type { LeafSubnet } from '@/lib/subnetCalculator';
+import type { IpVersion, LeafSubnet } from '@/lib/subnetCalculator';
+import { SUBNET_IAC_FORMATS, SubnetIacFormat } from '@/lib/subnetIacExport';
 
 interface SubnetExportButtonProps {
   leaves: LeafSubnet[];
   useAzureReservations: boolean;
-  baseNetwork: number;
+  baseNetwork: bigint;
   basePrefix: number;
+  version?: IpVersion;
   rowColors: Record<string, string>;
   rowComments: Record<string, string>;
   disabled?: boolean;
@@ -13,11 +15,14 @@ interface SubnetExportButtonProps {
   onTrigger?: () => void;
 }
 
+const IAC_FORMATS = Object.keys(SUBNET_IAC_FORMATS) as SubnetIacFormat[];
+
 export default function SubnetExportButton({
   leaves,
   useAzureReservations,
   baseNetwork,
   basePrefix,
+  version = 4,
   rowColors,
   rowComments,
   disabled = false,
@@ -58,7 +63,7 @@ export default function SubnetExportButton({
         return;
       }
 
-      const filename = generateSubnetExportFilename(baseNetwork, basePrefix, useAzureReservations, format);
+      const filename = generateSubnetExportFilename(baseNetwork, basePrefix, useAzureReservations, format, version);
       const rowFills = leaves.map((leaf) => rowColors[leaf.id] ?? null);
 
       if (format === 'csv') {
@@ -74,6 +79,23 @@ export default function SubnetExportButton({
     }
   };
 
+  const handleIacExport = async (format: SubnetIacFormat) => {
+    if (disabled || isExporting || leaves.length === 0) {
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const { exportSubnetIac } = await import('@/lib/exportUtils');
+      exportSubnetIac(leaves, format, { baseNetwork, basePrefix, version, rowComments });
+    } catch (error) {
+      console.error('Failed to export subnet plan', error);
+    } finally {
+      setIsExporting(false);
+      setIsOpen(false);
+    }
+  };
+
   if (disabled || leaves.length === 0) {
    return null;
   }
@@ -119,7 +141,7 @@ export default function SubnetExportButton({
       </button>
 
       {isOpen && (
-        <div className="absolute right-0 z-20 mt-2 w-56 origin-top-right rounded-xl border border-slate-200 bg-white shadow-lg">
+        <div className="absolute right-0 z-20 mt-2 w-64 origin-top-right rounded-xl border border-slate-200 bg-white shadow-lg">
           <div className="py-1" role="menu" aria-orientation="vertical">
             <div className="border-b border-slate-200 px-4 py-2 text-xs uppercase tracking-wide text-slate-500">
               Export {leaves.length} subnet{leaves.length !== 1 ? 's' : ''}
@@ -146,6 +168,23 @@ export default function SubnetExportButton({
               Export as Excel
               <span className="ml-auto text-xs text-slate-400">.xlsx</span>
             </button>
+            <div className="border-y border-slate-200 px-4 py-2 text-xs uppercase tracking-wide text-slate-500">
+              Infrastructure as code
+            </div>
+            {IAC_FORMATS.map((format) => (
+              <button
+                key={format}
+                onClick={() => handleIacExport(format)}
+                className="flex w-full items-center gap-3 px-4 py-2 text-sm text-slate-700 transition hover:bg-sky-50 hover:text-sky-700"
+                role="menuitem"
+              >
+                <svg className="h-4 w-4 text-slate-500" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden>
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" />
+                </svg>
+                {SUBNET_IAC_FORMATS[format].label}
+                <span className="ml-auto text-xs text-slate-400">.{SUBNET_IAC_FORMATS[format].extension}</span>
+              </button>
+            ))}
           </div>
         </div>
       )}
@@ -0,0 +1,164 @@
+import { memo, useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import {
+  ImportIssue,
+  VNET_IMPORT_FORMAT_LABELS,
+  VnetImportResult,
+  importVnetDefinition
+} from '@/lib/subnetImport';
+import { ShareableSubnetPlan, parseSubnetPlanFile } from '@/lib/shareSubnetPlan';
+
+interface SubnetImportProps {
+  onImport: (result: VnetImportResult) => void;
+  // Plan files downloaded from the share button restore colours and comments as well
+  onOpenPlan?: (plan: ShareableSubnetPlan) => void;
+}
+
+interface ImportSummary {
+  format: string;
+  imported: number;
+  issues: ImportIssue[];
+}
+
+const SubnetImport = memo(function SubnetImport({ onImport, onOpenPlan }: SubnetImportProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [source, setSource] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      setSource(await file.text());
+      setError(null);
+      setSummary(null);
+    } catch {
+      setError(`Could not read ${file.name}.`);
+    }
+  };
+
+  const handleImport = () => {
+    const planFile = onOpenPlan ? parseSubnetPlanFile(source) : null;
+    if (onOpenPlan && planFile) {
+      setError(null);
+      setSummary({ format: 'a subnet plan file', imported: planFile.leaves.length, issues: [] });
+      onOpenPlan(planFile);
+      return;
+    }
+
+    const result = importVnetDefinition(source);
+    if (typeof result === 'string') {
+      setError(result);
+      setSummary(null);
+      return;
+    }
+
+    setError(null);
+    setSummary({
+      format: VNET_IMPORT_FORMAT_LABELS[result.format],
+      imported: result.subnets.length,
+      issues: result.issues
+    });
+    onImport(result);
+  };
+
+  return (
+    <div className="rounded-3xl border border-slate-200/70 bg-white/95 shadow-[0_16px_36px_-26px_rgba(15,23,42,0.4)]">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="flex w-full items-center justify-between px-5 py-4 text-left"
+      >
+        <span>
+          <span className="block text-xs font-medium uppercase tracking-[0.25em] text-slate-400">Import existing VNet</span>
+          <span className="mt-1 block text-sm text-slate-600">
+            Paste or upload an ARM template, Bicep, Terraform, <code className="text-xs">az network vnet show</code> JSON, a CSV of CIDRs or a downloaded plan file
+          </span>
+        </span>
+        <svg className="h-4 w-4 text-slate-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={isOpen ? 'M5 15l7-7 7 7' : 'M19 9l-7 7-7-7'} />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="space-y-4 border-t border-slate-200/70 px-5 py-4">
+          <textarea
+            value={source}
+            onChange={(event) => setSource(event.target.value)}
+            rows={8}
+            spellCheck={false}
+            placeholder={'name,cidr\napp,10.0.0.0/24\ndata,10.0.1.0/24'}
+            aria-label="VNet definition"
+            className="w-full rounded-[18px] border border-slate-200 bg-white px-4 py-3 font-mono text-xs text-slate-900 shadow-sm transition focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-200 placeholder:text-slate-400"
+          />
+
+          {error && (
+            <div className="rounded-[18px] border border-rose-200 bg-rose-50 px-4 py-2.5 text-sm text-rose-700 shadow-sm" role="alert">
+              {error}
+            </div>
+          )}
+
+          {summary && (
+            <div className="space-y-2 text-sm text-slate-600">
+              <p>
+                Imported {summary.imported} subnet{summary.imported !== 1 ? 's' : ''} from {summary.format}.
+              </p>
+              {summary.issues.length > 0 && (
+                <div className="rounded-[18px] border border-amber-200 bg-amber-50 px-4 py-2.5 text-sm text-amber-700 shadow-sm">
+                  <p className="font-semibold">
+                    {summary.issues.length} entr{summary.issues.length !== 1 ? 'ies were' : 'y was'} not imported
+                  </p>
+                  <ul className="mt-1 list-disc space-y-0.5 pl-5">
+                    {summary.issues.map((issue, index) => (
+                      <li key={index}>
+                        {issue.subnet && <span className="font-medium">{issue.subnet}</span>}
+                        {issue.subnet && issue.prefix && ' '}
+                        {issue.prefix && <code className="text-xs">{issue.prefix}</code>}
+                        {': '}
+                        {issue.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.bicep,.tf,.csv,.txt"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="inline-flex h-9 items-center justify-center rounded-[18px] border border-slate-200 bg-white px-4 text-sm font-semibold text-slate-600 shadow-sm transition hover:border-slate-300 hover:text-slate-900 focus:outline-none focus:ring-2 focus:ring-slate-200"
+            >
+              Upload file
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              className="inline-flex h-9 items-center justify-center rounded-[18px] bg-emerald-500 px-4 text-sm font-semibold text-white shadow-sm transition hover:bg-emerald-400 focus:outline-none focus:ring-2 focus:ring-emerald-300"
+            >
+              Import
+            </button>
+            <span className="text-xs text-slate-500">Replaces the current network, layout, colors and comments.</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default SubnetImport;
@@ -0,0 +1,228 @@
+import { memo, useEffect, useState } from 'react';
+import type { FormEvent } from 'react';
+import type { ShareableSubnetPlan } from '@/lib/shareSubnetPlan';
+import {
+  SavedPlanSummary,
+  deletePlan,
+  duplicatePlan,
+  listSavedPlans,
+  loadSavedPlan,
+  renamePlan,
+  savePlan
+} from '@/lib/subnetPlanLibrary';
+
+interface SubnetPlanLibraryProps {
+  currentPlan: ShareableSubnetPlan;
+  // The saved plan the page is editing; it is saved automatically as it changes
+  activePlanId: string | null;
+  // Bumped by the page after each automatic save so the list shows fresh timestamps
+  revision: number;
+  autosaveFailed: boolean;
+  onOpen: (id: string, plan: ShareableSubnetPlan) => void;
+  onActivePlanChange: (id: string | null) => void;
+}
+
+const STORAGE_ERROR = 'Could not write to browser storage. It may be full or disabled.';
+
+const inputClassName =
+  'h-9 rounded-[14px] border border-slate-200 bg-white px-3 text-sm text-slate-900 shadow-sm transition focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-200 placeholder:text-slate-400';
+const actionClassName = 'text-xs font-semibold text-slate-500 transition hover:text-slate-900';
+
+function formatTimestamp(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+const SubnetPlanLibrary = memo(function SubnetPlanLibrary({
+  currentPlan,
+  activePlanId,
+  revision,
+  autosaveFailed,
+  onOpen,
+  onActivePlanChange
+}: SubnetPlanLibraryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [plans, setPlans] = useState<SavedPlanSummary[]>([]);
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setPlans(listSavedPlans());
+    }
+  }, [isOpen, revision, activePlanId]);
+
+  const refresh = () => setPlans(listSavedPlans());
+
+  const handleSave = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const saved = savePlan(newName, currentPlan);
+    if (!saved) {
+      setError(STORAGE_ERROR);
+      return;
+    }
+    setError(null);
+    setNewName('');
+    onActivePlanChange(saved.id);
+    refresh();
+  };
+
+  const handleOpen = (id: string) => {
+    const plan = loadSavedPlan(id);
+    if (!plan) {
+      setError('This plan could not be read. It may have been saved by a newer version.');
+      return;
+    }
+    setError(null);
+    onOpen(id, plan);
+  };
+
+  const handleRename = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (renamingId && renameDraft.trim() && !renamePlan(renamingId, renameDraft)) {
+      setError(STORAGE_ERROR);
+    }
+    setRenamingId(null);
+    refresh();
+  };
+
+  const handleDuplicate = (id: string) => {
+    setError(duplicatePlan(id) ? null : STORAGE_ERROR);
+    refresh();
+  };
+
+  const handleDelete = (plan: SavedPlanSummary) => {
+    if (!window.confirm(`Delete "${plan.name}"? This cannot be undone.`)) {
+      return;
+    }
+    if (!deletePlan(plan.id)) {
+      setError(STORAGE_ERROR);
+      return;
+    }
+    if (plan.id === activePlanId) {
+      onActivePlanChange(null);
+    }
+    refresh();
+  };
+
+  const activePlan = plans.find((plan) => plan.id === activePlanId);
+
+  return (
+    <div className="rounded-3xl border border-slate-200/70 bg-white/95 shadow-[0_16px_36px_-26px_rgba(15,23,42,0.4)]">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="flex w-full items-center justify-between px-5 py-4 text-left"
+      >
+        <span>
+          <span className="block text-xs font-medium uppercase tracking-[0.25em] text-slate-400">Saved plans</span>
+          <span className="mt-1 block text-sm text-slate-600">
+            Keep named plans in this browser; the open plan saves automatically as you edit
+          </span>
+        </span>
+        <svg className="h-4 w-4 text-slate-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={isOpen ? 'M5 15l7-7 7 7' : 'M19 9l-7 7-7-7'} />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="space-y-4 border-t border-slate-200/70 px-5 py-4 text-sm text-slate-600">
+          <form onSubmit={handleSave} className="flex flex-wrap items-center gap-2">
+            <input
+              value={newName}
+              onChange={(event) => setNewName(event.target.value)}
+              placeholder="Plan name"
+              aria-label="Plan name"
+              className={`${inputClassName} w-56`}
+            />
+            <button
+              type="submit"
+              className="inline-flex h-9 items-center justify-center rounded-[18px] bg-emerald-500 px-4 text-sm font-semibold text-white shadow-sm transition hover:bg-emerald-400 focus:outline-none focus:ring-2 focus:ring-emerald-300"
+            >
+              Save current plan
+            </button>
+            {activePlan && (
+              <span className="text-xs text-slate-500">
+                Editing <span className="font-semibold text-slate-700">{activePlan.name}</span>
+              </span>
+            )}
+          </form>
+
+          {(error || autosaveFailed) && (
+            <div className="rounded-[18px] border border-rose-200 bg-rose-50 px-4 py-2.5 text-rose-700 shadow-sm" role="alert">
+              {error ?? `Automatic save failed. ${STORAGE_ERROR}`}
+            </div>
+          )}
+
+          {plans.length === 0 ? (
+            <p className="text-slate-500">No saved plans yet.</p>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {plans.map((plan) => (
+                <li key={plan.id} className="flex flex-wrap items-center gap-x-4 gap-y-1 py-2">
+                  {renamingId === plan.id ? (
+                    <form onSubmit={handleRename} className="flex items-center gap-2">
+                      <input
+                        value={renameDraft}
+                        onChange={(event) => setRenameDraft(event.target.value)}
+                        aria-label="New plan name"
+                        className={`${inputClassName} w-48`}
+                        autoFocus
+                      />
+                      <button type="submit" className={actionClassName}>
+                        Save
+                      </button>
+                      <button type="button" onClick={() => setRenamingId(null)} className={actionClassName}>
+                        Cancel
+                      </button>
+                    </form>
+                  ) : (
+                    <span className="min-w-0 flex-1">
+                      <span className="font-semibold text-slate-900">{plan.name}</span>
+                      {plan.id === activePlanId && (
+                        <span className="ml-2 rounded-full bg-sky-100 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-[0.2em] text-sky-700">
+                          Open
+                        </span>
+                      )}
+                      <span className="block text-xs text-slate-400">Modified {formatTimestamp(plan.updatedAt)}</span>
+                    </span>
+                  )}
+                  <span className="flex items-center gap-3">
+                    <button type="button" onClick={() => handleOpen(plan.id)} className={actionClassName}>
+                      Open
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setRenamingId(plan.id);
+                        setRenameDraft(plan.name);
+                      }}
+                      className={actionClassName}
+                    >
+                      Rename
+                    </button>
+                    <button type="button" onClick={() => handleDuplicate(plan.id)} className={actionClassName}>
+                      Duplicate
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(plan)}
+                      className="text-xs font-semibold text-rose-600 transition hover:text-rose-700"
+                    >
+                      Delete
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default SubnetPlanLibrary;
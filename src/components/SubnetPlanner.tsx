@@ -0,0 +1,188 @@
+import { memo, useState } from 'react';
+import type { IpVersion } from '@/lib/subnetCalculator';
+import { AZURE_SUBNET_ROLES, AZURE_SUBNET_ROLE_IDS, AzureSubnetRole } from '@/lib/azureSubnetRules';
+import { PlannedSubnet, SubnetRequirement, planSubnets } from '@/lib/vnetPlanner';
+
+interface SubnetPlannerProps {
+  baseNetwork: bigint;
+  basePrefix: number;
+  version: IpVersion;
+  useAzureReservations: boolean;
+  onApply: (allocations: PlannedSubnet[]) => void;
+}
+
+interface RequirementRow {
+  id: number;
+  name: string;
+  sizeMode: 'hosts' | 'prefix';
+  size: string;
+  role: AzureSubnetRole | '';
+}
+
+let nextRowId = 0;
+
+function createRow(name = ''): RequirementRow {
+  nextRowId += 1;
+  return { id: nextRowId, name, sizeMode: 'hosts', size: '', role: '' };
+}
+
+function toRequirement(row: RequirementRow): SubnetRequirement {
+  const trimmedSize = row.size.trim().replace(/^\//, '');
+  const size = trimmedSize ? Number(trimmedSize) : undefined;
+  return {
+    name: row.name,
+    role: row.role || undefined,
+    hosts: row.sizeMode === 'hosts' ? size : undefined,
+    prefix: row.sizeMode === 'prefix' ? size : undefined
+  };
+}
+
+const inputClassName =
+  'h-9 rounded-[14px] border border-slate-200 bg-white px-3 text-sm text-slate-900 shadow-sm transition focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-200 placeholder:text-slate-400';
+
+const SubnetPlanner = memo(function SubnetPlanner({
+  baseNetwork,
+  basePrefix,
+  version,
+  useAzureReservations,
+  onApply
+}: SubnetPlannerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [rows, setRows] = useState<RequirementRow[]>(() => [createRow('app'), createRow('data')]);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const updateRow = (id: number, changes: Partial<RequirementRow>) => {
+    setRows((current) => current.map((row) => (row.id === id ? { ...row, ...changes } : row)));
+  };
+
+  const handleRoleChange = (row: RequirementRow, role: AzureSubnetRole | '') => {
+    // Azure only recognises these subnets by their exact name
+    const subnetName = role ? AZURE_SUBNET_ROLES[role].subnetName : undefined;
+    updateRow(row.id, subnetName ? { role, name: subnetName } : { role });
+  };
+
+  const handleAllocate = () => {
+    const requirements = rows
+      .filter((row) => row.name.trim() || row.size.trim() || row.role)
+      .map(toRequirement);
+    const result = planSubnets(requirements, { baseNetwork, basePrefix, version, useAzureReservations });
+
+    setErrors(result.errors);
+    if (result.errors.length === 0) {
+      onApply(result.allocations);
+    }
+  };
+
+  return (
+    <div className="rounded-3xl border border-slate-200/70 bg-white/95 shadow-[0_16px_36px_-26px_rgba(15,23,42,0.4)]">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="flex w-full items-center justify-between px-5 py-4 text-left"
+      >
+        <span>
+          <span className="block text-xs font-medium uppercase tracking-[0.25em] text-slate-400">Plan from requirements</span>
+          <span className="mt-1 block text-sm text-slate-600">
+            List the subnets you need and allocate them best-fit inside the current network
+          </span>
+        </span>
+        <svg className="h-4 w-4 text-slate-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={isOpen ? 'M5 15l7-7 7 7' : 'M19 9l-7 7-7-7'} />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="space-y-4 border-t border-slate-200/70 px-5 py-4">
+          <div className="space-y-2">
+            {rows.map((row) => (
+              <div key={row.id} className="grid grid-cols-1 gap-2 sm:grid-cols-[minmax(0,1fr)_150px_110px_minmax(0,1fr)_auto] sm:items-center">
+                <input
+                  value={row.name}
+                  onChange={(event) => updateRow(row.id, { name: event.target.value })}
+                  disabled={Boolean(row.role && AZURE_SUBNET_ROLES[row.role].subnetName)}
+                  placeholder="Subnet name"
+                  aria-label="Subnet name"
+                  className={`${inputClassName} disabled:bg-slate-50 disabled:text-slate-500`}
+                />
+                <select
+                  value={row.sizeMode}
+                  onChange={(event) => updateRow(row.id, { sizeMode: event.target.value as RequirementRow['sizeMode'] })}
+                  aria-label="Size type"
+                  className={inputClassName}
+                >
+                  <option value="hosts">Hosts{useAzureReservations ? ' (Azure)' : ''}</option>
+                  <option value="prefix">Prefix length</option>
+                </select>
+                <input
+                  value={row.size}
+                  onChange={(event) => updateRow(row.id, { size: event.target.value })}
+                  placeholder={row.sizeMode === 'hosts' ? '250' : '/24'}
+                  inputMode="numeric"
+                  aria-label={row.sizeMode === 'hosts' ? 'Required hosts' : 'Prefix length'}
+                  className={inputClassName}
+                />
+                <select
+                  value={row.role}
+                  onChange={(event) => handleRoleChange(row, event.target.value as AzureSubnetRole | '')}
+                  aria-label="Azure role"
+                  className={inputClassName}
+                >
+                  <option value="">No Azure role</option>
+                  {AZURE_SUBNET_ROLE_IDS.map((role) => (
+                    <option key={role} value={role}>
+                      {AZURE_SUBNET_ROLES[role].label} (/{AZURE_SUBNET_ROLES[role].maxPrefix} or larger)
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => setRows((current) => current.filter((item) => item.id !== row.id))}
+                  className="inline-flex h-8 w-8 items-center justify-center rounded-full border border-slate-200 text-slate-400 transition hover:border-rose-200 hover:text-rose-500 focus:outline-none focus:ring-2 focus:ring-slate-200"
+                  aria-label={`Remove ${row.name || 'requirement'}`}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <p className="text-xs text-slate-500">
+            Leave the size empty on an Azure role to use its minimum. Prefix lengths may be typed with or without the leading slash.
+          </p>
+
+          {errors.length > 0 && (
+            <div className="rounded-[18px] border border-rose-200 bg-rose-50 px-4 py-2.5 text-sm text-rose-700 shadow-sm" role="alert">
+              <p className="font-semibold">The plan does not fit</p>
+              <ul className="mt-1 list-disc space-y-0.5 pl-5">
+                {errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              type="button"
+              onClick={() => setRows((current) => [...current, createRow()])}
+              className="inline-flex h-9 items-center justify-center rounded-[18px] border border-slate-200 bg-white px-4 text-sm font-semibold text-slate-600 shadow-sm transition hover:border-slate-300 hover:text-slate-900 focus:outline-none focus:ring-2 focus:ring-slate-200"
+            >
+              Add subnet
+            </button>
+            <button
+              type="button"
+              onClick={handleAllocate}
+              className="inline-flex h-9 items-center justify-center rounded-[18px] bg-emerald-500 px-4 text-sm font-semibold text-white shadow-sm transition hover:bg-emerald-400 focus:outline-none focus:ring-2 focus:ring-emerald-300"
+            >
+              Allocate
+            </button>
+            <span className="text-xs text-slate-500">Replaces the current split layout, colors and comments.</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default SubnetPlanner;
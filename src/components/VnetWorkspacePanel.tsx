@@ -0,0 +1,279 @@
+import { memo, useMemo, useState } from 'react';
+import type { FormEvent } from 'react';
+import { IpVersion, formatIpAddress, maxPrefixLength, parseIpAddress } from '@/lib/subnetCalculator';
+import {
+  AddressBarLayout,
+  WORKSPACE_NETWORK_KINDS,
+  WorkspaceNetworkKind,
+  WorkspaceNetworkSummary,
+  findWorkspaceOverlaps,
+  formatNetworkCidr,
+  layoutAddressBar,
+  suggestNextFreeBlock
+} from '@/lib/vnetWorkspace';
+
+export interface NewWorkspaceNetwork {
+  name: string;
+  kind: WorkspaceNetworkKind;
+  network: bigint;
+  prefix: number;
+  version: IpVersion;
+}
+
+interface VnetWorkspacePanelProps {
+  networks: WorkspaceNetworkSummary[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onUpdate: (id: string, changes: Partial<Pick<WorkspaceNetworkSummary, 'name' | 'kind' | 'isolated'>>) => void;
+  onRemove: (id: string) => void;
+  onAdd: (network: NewWorkspaceNetwork) => void;
+}
+
+const KIND_OPTIONS = Object.keys(WORKSPACE_NETWORK_KINDS) as WorkspaceNetworkKind[];
+const DEFAULT_SUPERNETS: Record<IpVersion, string> = { 4: '10.0.0.0/8', 6: 'fd00::/8' };
+const MAX_LISTED_PAIRS = 5;
+
+const inputClassName =
+  'h-9 rounded-[14px] border border-slate-200 bg-white px-3 text-sm text-slate-900 shadow-sm transition focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-200 placeholder:text-slate-400';
+
+function parseCidr(value: string): { network: bigint; prefix: number; version: IpVersion } | null {
+  const [address, prefixText] = value.trim().split('/');
+  const parsed = parseIpAddress(address ?? '');
+  const prefix = Number(prefixText);
+  if (!parsed || !prefixText || !Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefixLength(parsed.version)) {
+    return null;
+  }
+  return { network: parsed.value, prefix, version: parsed.version };
+}
+
+function nextSpokeName(networks: WorkspaceNetworkSummary[]): string {
+  const names = new Set(networks.map((network) => network.name.toLowerCase()));
+  let index = 1;
+  while (names.has(`spoke-${index}`)) index += 1;
+  return `spoke-${index}`;
+}
+
+const VnetWorkspacePanel = memo(function VnetWorkspacePanel({
+  networks,
+  activeId,
+  onSelect,
+  onUpdate,
+  onRemove,
+  onAdd
+}: VnetWorkspacePanelProps) {
+  const active = networks.find((network) => network.id === activeId) ?? networks[0];
+  const [supernet, setSupernet] = useState(DEFAULT_SUPERNETS[active.version]);
+  const [blockPrefix, setBlockPrefix] = useState(active.basePrefix.toString());
+  const [suggestion, setSuggestion] = useState<NewWorkspaceNetwork | null>(null);
+  const [finderError, setFinderError] = useState<string | null>(null);
+
+  const overlaps = useMemo(() => findWorkspaceOverlaps(networks), [networks]);
+  const bars = useMemo(
+    () =>
+      ([4, 6] as const)
+        .map((version) => layoutAddressBar(networks, version))
+        .filter((bar): bar is AddressBarLayout => bar !== null),
+    [networks]
+  );
+
+  const handleFind = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSuggestion(null);
+
+    const parsedSupernet = parseCidr(supernet);
+    if (!parsedSupernet) {
+      setFinderError('Enter the supernet as a CIDR, e.g. 10.0.0.0/8.');
+      return;
+    }
+    const prefix = Number(blockPrefix.trim().replace(/^\//, ''));
+    const maxPrefix = maxPrefixLength(parsedSupernet.version);
+    if (!Number.isInteger(prefix) || prefix < parsedSupernet.prefix || prefix > maxPrefix) {
+      setFinderError(`Block size must be between /${parsedSupernet.prefix} and /${maxPrefix}.`);
+      return;
+    }
+
+    const network = suggestNextFreeBlock(parsedSupernet, prefix, networks);
+    if (network === null) {
+      setFinderError(`No free /${prefix} left in ${supernet.trim()}.`);
+      return;
+    }
+
+    setFinderError(null);
+    setSuggestion({ name: nextSpokeName(networks), kind: 'spoke', network, prefix, version: parsedSupernet.version });
+  };
+
+  return (
+    <div className="rounded-3xl border border-slate-200/70 bg-white/95 p-5 shadow-[0_16px_36px_-26px_rgba(15,23,42,0.4)]">
+      <div className="flex flex-wrap items-center gap-2">
+        <p className="mr-2 text-xs font-medium uppercase tracking-[0.25em] text-slate-400">Workspace</p>
+        {networks.map((network) => {
+          const isActive = network.id === active.id;
+          return (
+            <button
+              key={network.id}
+              type="button"
+              onClick={() => onSelect(network.id)}
+              aria-pressed={isActive}
+              className={`inline-flex items-center gap-2 rounded-[14px] border px-3 py-1.5 text-sm transition focus:outline-none focus:ring-2 focus:ring-sky-200 ${
+                isActive ? 'border-sky-300 bg-sky-50 text-sky-700' : 'border-slate-200 bg-white text-slate-600 hover:border-slate-300'
+              }`}
+            >
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: WORKSPACE_NETWORK_KINDS[network.kind].color }} aria-hidden />
+              <span className="font-semibold">{network.name}</span>
+              <span className="text-xs text-slate-400">{formatNetworkCidr(network)}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-3 text-sm text-slate-600">
+        <input
+          value={active.name}
+          onChange={(event) => onUpdate(active.id, { name: event.target.value })}
+          aria-label="Network name"
+          className={`${inputClassName} w-40`}
+        />
+        <select
+          value={active.kind}
+          onChange={(event) => onUpdate(active.id, { kind: event.target.value as WorkspaceNetworkKind })}
+          aria-label="Network type"
+          className={inputClassName}
+        >
+          {KIND_OPTIONS.map((kind) => (
+            <option key={kind} value={kind}>
+              {WORKSPACE_NETWORK_KINDS[kind].label}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={active.isolated}
+            onChange={(event) => onUpdate(active.id, { isolated: event.target.checked })}
+            className="h-4 w-4 rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+          />
+          Not peered (skip overlap checks)
+        </label>
+        {networks.length > 1 && (
+          <button
+            type="button"
+            onClick={() => onRemove(active.id)}
+            className="ml-auto text-xs font-semibold text-rose-600 transition hover:text-rose-700"
+          >
+            Remove {active.name || 'network'}
+          </button>
+        )}
+      </div>
+
+      {networks.length > 1 && (
+        <div className="mt-4 space-y-3">
+          {bars.map((bar) => (
+            <div key={bar.version}>
+              <div className="relative h-8 overflow-hidden rounded-[10px] bg-slate-100">
+                {bar.segments.map((segment) => (
+                  <button
+                    key={segment.id}
+                    type="button"
+                    onClick={() => onSelect(segment.id)}
+                    title={`${segment.name} · ${segment.cidr}`}
+                    className={`absolute top-0 h-full border-x border-white/70 text-[10px] font-semibold text-white opacity-80 transition hover:opacity-100 ${
+                      segment.overlapping ? 'ring-2 ring-inset ring-rose-500' : ''
+                    }`}
+                    style={{
+                      left: `${segment.offset}%`,
+                      width: `${segment.width}%`,
+                      backgroundColor: WORKSPACE_NETWORK_KINDS[segment.kind].color
+                    }}
+                  >
+                    <span className="block truncate px-1">{segment.name}</span>
+                  </button>
+                ))}
+              </div>
+              <div className="mt-1 flex justify-between text-[10px] text-slate-400">
+                <span>{formatIpAddress(bar.start, bar.version)}</span>
+                <span>{formatIpAddress(bar.end, bar.version)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {overlaps.length > 0 && (
+        <div className="mt-4 space-y-2 rounded-[18px] border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700" role="alert">
+          {overlaps.map((overlap) => (
+            <div key={`${overlap.first.id}-${overlap.second.id}`}>
+              <p className="font-semibold">
+                {overlap.first.name} ({formatNetworkCidr(overlap.first)}) overlaps {overlap.second.name} ({formatNetworkCidr(overlap.second)})
+              </p>
+              <p className="text-xs">
+                Shared range {formatIpAddress(overlap.start, overlap.first.version)} – {formatIpAddress(overlap.end, overlap.first.version)}
+              </p>
+              {overlap.subnetPairs.length > 0 && (
+                <ul className="mt-1 list-disc space-y-0.5 pl-5 text-xs">
+                  {overlap.subnetPairs.slice(0, MAX_LISTED_PAIRS).map(([first, second]) => (
+                    <li key={`${first}|${second}`}>
+                      {first} ↔ {second}
+                    </li>
+                  ))}
+                  {overlap.subnetPairs.length > MAX_LISTED_PAIRS && (
+                    <li>and {overlap.subnetPairs.length - MAX_LISTED_PAIRS} more subnet pairs</li>
+                  )}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleFind} className="mt-4 flex flex-wrap items-center gap-2 text-sm text-slate-600">
+        <span>Next free</span>
+        <input
+          value={blockPrefix}
+          onChange={(event) => setBlockPrefix(event.target.value)}
+          aria-label="Block size"
+          inputMode="numeric"
+          className={`${inputClassName} w-16 text-center`}
+        />
+        <span>in</span>
+        <input
+          value={supernet}
+          onChange={(event) => setSupernet(event.target.value)}
+          aria-label="Supernet"
+          className={`${inputClassName} w-40`}
+        />
+        <button
+          type="submit"
+          className="inline-flex h-9 items-center justify-center rounded-[18px] border border-slate-200 bg-white px-4 text-sm font-semibold text-slate-600 shadow-sm transition hover:border-slate-300 hover:text-slate-900 focus:outline-none focus:ring-2 focus:ring-slate-200"
+        >
+          Find
+        </button>
+        {suggestion && (
+          <>
+            <span className="font-semibold text-slate-900">
+              {formatIpAddress(suggestion.network, suggestion.version)}/{suggestion.prefix}
+            </span>
+            <input
+              value={suggestion.name}
+              onChange={(event) => setSuggestion({ ...suggestion, name: event.target.value })}
+              aria-label="New network name"
+              className={`${inputClassName} w-32`}
+            />
+            <button
+              type="button"
+              onClick={() => {
+                onAdd(suggestion);
+                setSuggestion(null);
+              }}
+              className="inline-flex h-9 items-center justify-center rounded-[18px] bg-emerald-500 px-4 text-sm font-semibold text-white shadow-sm transition hover:bg-emerald-400 focus:outline-none focus:ring-2 focus:ring-emerald-300"
+            >
+              Add network
+            </button>
+          </>
+        )}
+        {finderError && <span className="text-rose-600">{finderError}</span>}
+      </form>
+    </div>
+  );
+});
+
+export default VnetWorkspacePanel;
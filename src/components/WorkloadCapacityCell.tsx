@@ -0,0 +1,77 @@
+import { memo, useMemo } from 'react';
+import type { IpVersion } from '@/lib/subnetCalculator';
+import {
+  WORKLOAD_KINDS,
+  WORKLOAD_KIND_IDS,
+  WorkloadKind,
+  WorkloadProfile,
+  assessWorkload,
+  createWorkloadProfile
+} from '@/lib/workloadCapacity';
+
+interface WorkloadCapacityCellProps {
+  profile?: WorkloadProfile;
+  prefix: number;
+  version: IpVersion;
+  onChange: (profile: WorkloadProfile | null) => void;
+}
+
+const controlClassName =
+  'h-7 rounded-[10px] border border-slate-200 bg-white px-2 text-xs text-slate-600 shadow-sm focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-200';
+
+const WorkloadCapacityCell = memo(function WorkloadCapacityCell({ profile, prefix, version, onChange }: WorkloadCapacityCellProps) {
+  const assessment = useMemo(() => (profile ? assessWorkload(profile, prefix, version) : null), [profile, prefix, version]);
+
+  return (
+    <div className="space-y-1.5">
+      <select
+        value={profile?.kind ?? ''}
+        onChange={(event) => {
+          const kind = event.target.value as WorkloadKind | '';
+          onChange(kind ? createWorkloadProfile(kind) : null);
+        }}
+        aria-label="Workload profile"
+        className={`${controlClassName} max-w-[180px]`}
+      >
+        <option value="">No workload</option>
+        {WORKLOAD_KIND_IDS.map((kind) => (
+          <option key={kind} value={kind}>
+            {WORKLOAD_KINDS[kind].label}
+          </option>
+        ))}
+      </select>
+
+      {profile && assessment && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {WORKLOAD_KINDS[profile.kind].fields.map((field) => (
+              <label key={field.key} className="flex items-center gap-1">
+                <span className="text-[10px] uppercase tracking-[0.15em] text-slate-400">{field.label}</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={profile.values[field.key] ?? ''}
+                  onChange={(event) =>
+                    onChange({
+                      ...profile,
+                      values: { ...profile.values, [field.key]: event.target.value === '' ? undefined : Number(event.target.value) }
+                    })
+                  }
+                  className={`${controlClassName} w-16`}
+                />
+              </label>
+            ))}
+          </div>
+          <p className={assessment.fits ? 'text-emerald-700' : 'font-semibold text-rose-600'} title={WORKLOAD_KINDS[profile.kind].formula}>
+            Needs {assessment.required.toLocaleString()} of {assessment.capacity.toLocaleString()} usable
+            {assessment.recommendedPrefix === null
+              ? ' · too large for any subnet'
+              : ` · smallest fit /${assessment.recommendedPrefix}`}
+          </p>
+        </>
+      )}
+    </div>
+  );
+});
+
+export default WorkloadCapacityCell;
@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const DEFAULT_HISTORY_LIMIT = 100;
+
+interface HistoryStacks<T> {
+  past: T[];
+  future: T[];
+}
+
+function isTextInput(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Records every change of `value` (compared by reference, so memoise it) for undo/redo.
+ * `restore` puts a recorded value back into page state; changing `resetKey` starts a new
+ * history. Ctrl/Cmd+Z undoes and Ctrl/Cmd+Shift+Z or Ctrl+Y redoes outside text fields.
+ */
+export function useUndoHistory<T>(value: T, restore: (value: T) => void, resetKey?: string, limit = DEFAULT_HISTORY_LIMIT) {
+  const stacksRef = useRef<HistoryStacks<T>>({ past: [], future: [] });
+  const currentRef = useRef(value);
+  const resetKeyRef = useRef(resetKey);
+  const isRestoringRef = useRef(false);
+  const restoreRef = useRef(restore);
+  const [, setRevision] = useState(0);
+
+  useEffect(() => {
+    restoreRef.current = restore;
+  });
+
+  useEffect(() => {
+    const stacks = stacksRef.current;
+
+    if (resetKeyRef.current !== resetKey) {
+      resetKeyRef.current = resetKey;
+      stacksRef.current = { past: [], future: [] };
+    } else if (value === currentRef.current) {
+      return;
+    } else if (isRestoringRef.current) {
+      isRestoringRef.current = false;
+    } else {
+      stacks.past.push(currentRef.current);
+      if (stacks.past.length > limit) {
+        stacks.past.shift();
+      }
+      stacks.future = [];
+    }
+
+    currentRef.current = value;
+    setRevision((revision) => revision + 1);
+  }, [value, resetKey, limit]);
+
+  const undo = useCallback(() => {
+    const stacks = stacksRef.current;
+    const previous = stacks.past.pop();
+    if (previous === undefined) return;
+    stacks.future.push(currentRef.current);
+    isRestoringRef.current = true;
+    restoreRef.current(previous);
+  }, []);
+
+  const redo = useCallback(() => {
+    const stacks = stacksRef.current;
+    const next = stacks.future.pop();
+    if (next === undefined) return;
+    stacks.past.push(currentRef.current);
+    isRestoringRef.current = true;
+    restoreRef.current(next);
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isTextInput(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [undo, redo]);
+
+  return {
+    canUndo: stacksRef.current.past.length > 0,
+    canRedo: stacksRef.current.future.length > 0,
+    undo,
+    redo
+  };
+}
@@ -0,0 +1,114 @@
+import type { AzureCloudName } from '../types/azure';
+import type {
+  DnsLookupResponse,
+  IpLookupApiResponse,
+  ReverseLookupResponse,
+  SearchApiResponse,
+  ServiceTagApiResponse,
+  ServiceTagListApiResponse,
+  TenantLookupResponse
+} from '../types/api';
+import { ApiSchemaName, validateApiSchema } from './apiSchemas';
+
+/**
+ * Typed fetch wrappers for the API routes. Failed requests throw ApiRequestError with
+ * the message from the response body; in development every body is also checked
+ * against its schema so a route drifting from apiSchemas shows up in the console.
+ * tests/api/schemas.test.ts checks the same schemas against every route handler.
+ */
+
+export class ApiRequestError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.status = status;
+  }
+}
+
+const rawTenantLookupBase = process.env.NEXT_PUBLIC_TENANT_LOOKUP_API_BASE?.trim();
+const TENANT_LOOKUP_ENDPOINT = rawTenantLookupBase && rawTenantLookupBase.length > 0
+  ? `${rawTenantLookupBase.replace(/\/+$/, '')}/api/tenantLookup`
+  : '/api/tenantLookup';
+
+function withQuery(path: string, params: Record<string, string | undefined>): string {
+  const search = new URLSearchParams();
+  Object.keys(params).forEach((key) => {
+    const value = params[key];
+    if (value) {
+      search.set(key, value);
+    }
+  });
+  const query = search.toString();
+  return query ? `${path}?${query}` : path;
+}
+
+async function requestJson<T>(url: string, schema: ApiSchemaName, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const payload = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const message = typeof payload?.error === 'string' ? payload.error : `Request failed with status ${response.status}`;
+    throw new ApiRequestError(message, response.status);
+  }
+
+  if (process.env.NODE_ENV !== 'production') {
+    const problems = validateApiSchema(schema, payload);
+    if (problems.length > 0) {
+      console.warn(`${url} returned a response that does not match ${schema}:`, problems);
+    }
+  }
+
+  return payload as T;
+}
+
+export function lookupDns(hostname: string, resolver?: string): Promise<DnsLookupResponse> {
+  return requestJson(withQuery('/api/dnsLookup', { hostname, resolver }), 'DnsLookupResponse');
+}
+
+export function lookupReverseDns(
+  ip: string,
+  options: { cloud?: AzureCloudName; resolver?: string } = {}
+): Promise<ReverseLookupResponse> {
+  return requestJson(withQuery('/api/reverseLookup', { ip, ...options }), 'ReverseLookupResponse');
+}
+
+export function lookupTenant(domain: string): Promise<TenantLookupResponse> {
+  return requestJson(TENANT_LOOKUP_ENDPOINT, 'TenantLookupResponse', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ domain })
+  });
+}
+
+export interface PageOptions {
+  limit?: number;
+  offset?: number;
+}
+
+function pageQuery({ limit, offset }: PageOptions): Record<string, string | undefined> {
+  return { limit: limit?.toString(), offset: offset?.toString() };
+}
+
+export function lookupIp(address: string, cloud?: AzureCloudName, page: PageOptions = {}): Promise<IpLookupApiResponse> {
+  // Keep the CIDR slash as a path separator; the route joins the segments again
+  const path = address.split('/').map(encodeURIComponent).join('/');
+  return requestJson(withQuery(`/api/v1/ip/${path}`, { cloud, ...pageQuery(page) }), 'IpLookupResponse');
+}
+
+export function listServiceTags(cloud?: AzureCloudName): Promise<ServiceTagListApiResponse> {
+  return requestJson(withQuery('/api/v1/servicetags', { cloud }), 'ServiceTagListResponse');
+}
+
+export function getServiceTag(name: string, cloud?: AzureCloudName): Promise<ServiceTagApiResponse> {
+  return requestJson(withQuery(`/api/v1/servicetags/${encodeURIComponent(name)}`, { cloud }), 'ServiceTagResponse');
+}
+
+export function searchIpRanges({ region, service, cloud, ...page }: {
+  region?: string;
+  service?: string;
+  cloud?: AzureCloudName;
+} & PageOptions): Promise<SearchApiResponse> {
+  return requestJson(withQuery('/api/v1/search', { region, service, cloud, ...pageQuery(page) }), 'SearchResponse');
+}
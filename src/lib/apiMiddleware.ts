@@ -0,0 +1,93 @@
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from 'next';
+import type { ApiErrorResponse } from '../types/api';
+import { createRateLimiter, getClientIdentifier } from './rateLimit';
+import type { RateLimitOptions } from './rateLimit';
+
+/**
+ * Behaviour shared by every API route: CORS allowlist, method check, rate limiting and
+ * sanitised 500 bodies. Routes export `withApiMiddleware(handler, options)` and only
+ * deal with their own input; anything they throw reaches the client as `errorMessage`.
+ */
+
+export interface ApiMiddlewareOptions {
+  methods: string[]; // Allowed methods; OPTIONS preflights are answered here
+  errorMessage?: string; // Error body sent when the handler throws
+  rateLimit?: RateLimitOptions; // Limits for this route; every route has its own buckets
+}
+
+const DEFAULT_ALLOWED_ORIGINS = ['http://localhost:3000', 'https://localhost:3000'];
+const DEFAULT_ERROR_MESSAGE = 'Something went wrong. Try again later.';
+
+// Response headers cross-origin callers may read
+const EXPOSED_HEADERS = 'ETag, Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset';
+
+function getAllowedOrigins(): string[] {
+  // TENANT_LOOKUP_ALLOWED_ORIGINS predates the allowlist covering every route
+  const configured = process.env.API_ALLOWED_ORIGINS ?? process.env.TENANT_LOOKUP_ALLOWED_ORIGINS ?? '';
+  return configured
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean)
+    .concat(DEFAULT_ALLOWED_ORIGINS);
+}
+
+function applyCors(req: NextApiRequest, res: NextApiResponse): void {
+  res.setHeader('Vary', 'Origin');
+  const origin = req.headers.origin;
+  if (origin && getAllowedOrigins().includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Expose-Headers', EXPOSED_HEADERS);
+  }
+}
+
+export function withApiMiddleware<T>(
+  handler: (req: NextApiRequest, res: NextApiResponse<T | ApiErrorResponse>) => unknown | Promise<unknown>,
+  { methods, errorMessage = DEFAULT_ERROR_MESSAGE, rateLimit: rateLimitOptions }: ApiMiddlewareOptions
+): NextApiHandler<T | ApiErrorResponse> {
+  const allowedMethods = methods.concat('OPTIONS').join(', ');
+  // Created per wrapped route, so a client busy on one route is not throttled on the others
+  const rateLimiter = createRateLimiter(rateLimitOptions);
+
+  return async function apiHandler(req, res) {
+    applyCors(req, res);
+
+    if (req.method === 'OPTIONS') {
+      res.setHeader('Allow', allowedMethods);
+      res.setHeader('Access-Control-Allow-Methods', allowedMethods);
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, If-None-Match');
+      res.setHeader('Access-Control-Max-Age', '3600');
+      res.status(204).end();
+      return;
+    }
+
+    if (!methods.includes(req.method ?? '')) {
+      res.setHeader('Allow', allowedMethods);
+      res.status(405).json({ error: 'Method Not Allowed' });
+      return;
+    }
+
+    const rateLimit = rateLimiter.check(getClientIdentifier(req));
+    res.setHeader('X-RateLimit-Limit', rateLimit.limit.toString());
+    res.setHeader('X-RateLimit-Remaining', rateLimit.remaining.toString());
+    res.setHeader('X-RateLimit-Reset', rateLimit.reset.toString());
+
+    if (!rateLimit.success) {
+      const retryAfter = Math.ceil((rateLimit.reset - Date.now()) / 1000);
+      res.setHeader('Retry-After', retryAfter.toString());
+      res.status(429).json({ error: 'Too many requests. Please try again later.' });
+      return;
+    }
+
+    try {
+      await handler(req, res);
+    } catch (error) {
+      // Details stay in the server log; resolver and upstream messages are not sent to clients
+      console.error(`API request to ${(req.url ?? '').split('?')[0]} failed:`, error);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      res.status(500).json({ error: errorMessage });
+    }
+  };
+}
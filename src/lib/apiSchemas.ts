@@ -0,0 +1,368 @@
+import { DNS_RESOLVER_KINDS } from '../types/api';
+import { AZURE_CLOUDS } from './azureClouds';
+
+/**
+ * JSON Schemas (draft 2020-12, as used by OpenAPI 3.1) for the request and response
+ * bodies of the API routes. They mirror the interfaces in types/api.ts; the OpenAPI
+ * document is built from them and the API client checks responses against them in
+ * development so the routes and the UI cannot drift apart unnoticed.
+ */
+
+type JsonSchemaType = 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean' | 'null';
+
+export interface JsonSchema {
+  $ref?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  format?: string;
+  enum?: Array<string | number>;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minimum?: number;
+  maximum?: number;
+  default?: unknown;
+  example?: unknown;
+}
+
+export type ApiSchemaName =
+  | 'ErrorResponse'
+  | 'DnsChainRecord'
+  | 'PrivateLinkAssessment'
+  | 'DnsLookupResponse'
+  | 'ReverseLookupResponse'
+  | 'TenantLookupRequest'
+  | 'TenantInformation'
+  | 'TenantMetadata'
+  | 'TenantLookupResponse'
+  | 'AzureIpAddress'
+  | 'ChangeNumbers'
+  | 'IpLookupResponse'
+  | 'ServiceTagSummary'
+  | 'ServiceTagListResponse'
+  | 'ServiceTagResponse'
+  | 'SearchResponse';
+
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+export function schemaRef(name: ApiSchemaName): JsonSchema {
+  return { $ref: `${SCHEMA_REF_PREFIX}${name}` };
+}
+
+const cloudSchema: JsonSchema = { type: 'string', enum: AZURE_CLOUDS };
+
+// Page sizes of the paged /api/v1 routes (`limit` query parameter)
+export const DEFAULT_PAGE_LIMIT = 100;
+export const MAX_PAGE_LIMIT = 1000;
+
+// total, limit and offset of the paged /api/v1 responses
+const pageProperties: Record<string, JsonSchema> = {
+  total: { type: 'integer', description: 'Results across all pages' },
+  limit: { type: 'integer', description: 'Page size used' },
+  offset: { type: 'integer', description: 'Index of the first result in this page' }
+};
+
+const resolverSchema: JsonSchema = {
+  type: 'string',
+  enum: DNS_RESOLVER_KINDS,
+  description: 'Resolver backend that answered'
+};
+
+export const API_SCHEMAS: Record<ApiSchemaName, JsonSchema> = {
+  ErrorResponse: {
+    type: 'object',
+    properties: {
+      error: { type: 'string', description: 'Message safe to show to users' }
+    },
+    required: ['error']
+  },
+  DnsChainRecord: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', description: 'Owner name of the record' },
+      type: { type: 'string', enum: ['CNAME', 'A', 'AAAA', 'PTR'] },
+      value: { type: 'string', description: 'CNAME or PTR target, or address' },
+      ttl: { type: 'integer', description: 'Seconds; the system and upstream resolvers do not report it for CNAME hops' },
+      azureService: {
+        type: 'string',
+        description: 'Azure service implied by the owner name (the target for PTR records)',
+        example: 'Traffic Manager'
+      }
+    },
+    required: ['name', 'type', 'value']
+  },
+  PrivateLinkAssessment: {
+    type: 'object',
+    properties: {
+      resource: { type: 'string', example: 'Storage account (Blob)' },
+      resourceType: { type: 'string', example: 'Microsoft.Storage/storageAccounts' },
+      subresource: { type: 'string', description: 'Target sub-resource of the private endpoint', example: 'blob' },
+      cloud: cloudSchema,
+      privateZone: { type: 'string', description: 'Private DNS zone to link to the VNet', example: 'privatelink.blob.core.windows.net' },
+      recordName: { type: 'string', description: 'A record to create in the zone', example: 'mystorage' },
+      privateLinkCname: { type: 'string', description: 'privatelink name the public name points to, once a private endpoint exists' },
+      answer: {
+        type: 'string',
+        enum: ['private', 'public', 'none'],
+        description: 'Whether this resolver returned the private endpoint address'
+      }
+    },
+    required: ['resource', 'resourceType', 'subresource', 'cloud', 'privateZone', 'recordName', 'answer']
+  },
+  DnsLookupResponse: {
+    type: 'object',
+    description: 'Invalid input and unresolvable names use the same shape with `error` set and no addresses.',
+    properties: {
+      hostname: { type: 'string', example: 'myapp.azurewebsites.net' },
+      ipAddresses: { type: 'array', items: { type: 'string' }, description: 'Resolved A and AAAA addresses' },
+      chain: {
+        type: 'array',
+        items: schemaRef('DnsChainRecord'),
+        description: 'CNAME hops in resolution order, followed by the final A/AAAA records'
+      },
+      privateLink: schemaRef('PrivateLinkAssessment'),
+      resolver: resolverSchema,
+      error: { type: 'string' }
+    },
+    required: ['hostname', 'ipAddresses', 'chain']
+  },
+  ReverseLookupResponse: {
+    type: 'object',
+    properties: {
+      ip: { type: 'string', example: '20.61.15.7' },
+      ptrName: { type: 'string', example: '7.15.61.20.in-addr.arpa' },
+      chain: {
+        type: 'array',
+        items: schemaRef('DnsChainRecord'),
+        description: 'PTR records, followed by the A/AAAA records each PTR hostname resolves to'
+      },
+      hostnames: { type: 'array', items: { type: 'string' }, description: 'PTR hostnames of the address' },
+      forwardConfirmed: { type: 'boolean', description: 'A PTR hostname resolves back to the address' },
+      azureService: { type: 'string', description: 'Azure service implied by the PTR hostname', example: 'Public IP DNS label' },
+      changeNumber: schemaRef('ChangeNumbers'),
+      serviceTags: {
+        type: 'array',
+        items: schemaRef('AzureIpAddress'),
+        description: 'Most specific service tag prefixes containing the address'
+      },
+      resolver: resolverSchema
+    },
+    required: ['ip', 'ptrName', 'chain', 'hostnames', 'forwardConfirmed', 'changeNumber', 'serviceTags', 'resolver']
+  },
+  TenantLookupRequest: {
+    type: 'object',
+    properties: {
+      domain: { type: 'string', example: 'contoso.com' }
+    },
+    required: ['domain']
+  },
+  TenantInformation: {
+    type: 'object',
+    properties: {
+      tenantId: { type: 'string', format: 'uuid' },
+      defaultDomainName: { type: 'string' },
+      displayName: { type: 'string' },
+      federationBrandName: { type: ['string', 'null'] }
+    },
+    required: ['tenantId']
+  },
+  TenantMetadata: {
+    type: 'object',
+    description: 'OpenID configuration published for the tenant',
+    properties: {
+      cloud_instance_name: { type: 'string' },
+      tenant_region_scope: { type: 'string' },
+      tenant_region_sub_scope: { type: 'string' },
+      authorization_endpoint: { type: 'string', format: 'uri' },
+      issuer: { type: 'string', format: 'uri' }
+    },
+    additionalProperties: true
+  },
+  TenantLookupResponse: {
+    type: 'object',
+    properties: {
+      input: {
+        type: 'object',
+        properties: { domain: { type: 'string' } },
+        required: ['domain']
+      },
+      tenant: schemaRef('TenantInformation'),
+      metadata: schemaRef('TenantMetadata'),
+      derived: {
+        type: 'object',
+        properties: {
+          azureAdInstance: { type: 'string', example: 'Azure AD Global: Europe' },
+          tenantScope: { type: 'string' }
+        }
+      },
+      fetchedAt: { type: 'string', format: 'date-time' }
+    },
+    required: ['input', 'tenant', 'derived', 'fetchedAt']
+  },
+  AzureIpAddress: {
+    type: 'object',
+    properties: {
+      serviceTagId: { type: 'string', example: 'Storage.WestEurope' },
+      ipAddressPrefix: { type: 'string', example: '20.38.98.0/24' },
+      region: { type: 'string' },
+      regionId: { type: 'string' },
+      systemService: { type: 'string' },
+      networkFeatures: { type: 'string', description: 'Comma separated, e.g. "API, NSG, UDR, FW"' },
+      cloud: cloudSchema,
+      isMostSpecific: { type: 'boolean', description: 'Set on the longest prefixes containing the queried address' },
+      relationship: {
+        type: 'string',
+        enum: ['contains', 'equal', 'within'],
+        description: 'Range queries only: how the Azure prefix relates to the queried range'
+      },
+      overlapAddressCount: { type: 'integer', description: 'Range queries only: addresses shared with the queried range' }
+    },
+    required: ['serviceTagId', 'ipAddressPrefix', 'region', 'regionId', 'systemService', 'networkFeatures', 'cloud']
+  },
+  ChangeNumbers: {
+    type: 'object',
+    description: 'File-level changeNumber of each cloud the response was built from',
+    properties: Object.fromEntries(AZURE_CLOUDS.map((cloud) => [cloud, { type: 'integer' }])),
+    additionalProperties: false
+  },
+  IpLookupResponse: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', example: '20.38.98.100' },
+      changeNumber: schemaRef('ChangeNumbers'),
+      ...pageProperties,
+      matches: { type: 'array', items: schemaRef('AzureIpAddress') }
+    },
+    required: ['query', 'changeNumber', 'total', 'limit', 'offset', 'matches']
+  },
+  ServiceTagSummary: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      cloud: cloudSchema,
+      region: { type: 'string' },
+      systemService: { type: 'string' },
+      addressPrefixCount: { type: 'integer' }
+    },
+    required: ['name', 'cloud', 'region', 'systemService', 'addressPrefixCount']
+  },
+  ServiceTagListResponse: {
+    type: 'object',
+    properties: {
+      changeNumber: schemaRef('ChangeNumbers'),
+      serviceTags: { type: 'array', items: schemaRef('ServiceTagSummary') }
+    },
+    required: ['changeNumber', 'serviceTags']
+  },
+  ServiceTagResponse: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      changeNumber: schemaRef('ChangeNumbers'),
+      ranges: { type: 'array', items: schemaRef('AzureIpAddress') }
+    },
+    required: ['name', 'changeNumber', 'ranges']
+  },
+  SearchResponse: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'object',
+        properties: {
+          region: { type: 'string' },
+          service: { type: 'string' },
+          cloud: cloudSchema
+        }
+      },
+      changeNumber: schemaRef('ChangeNumbers'),
+      ...pageProperties,
+      results: { type: 'array', items: schemaRef('AzureIpAddress') }
+    },
+    required: ['query', 'changeNumber', 'total', 'limit', 'offset', 'results']
+  }
+};
+
+function matchesType(type: JsonSchemaType, value: unknown): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function collectProblems(schema: JsonSchema, value: unknown, path: string, problems: string[]): void {
+  if (schema.$ref) {
+    const target = API_SCHEMAS[schema.$ref.slice(SCHEMA_REF_PREFIX.length) as ApiSchemaName];
+    if (!target) {
+      problems.push(`${path}: unknown schema ${schema.$ref}`);
+      return;
+    }
+    collectProblems(target, value, path, problems);
+    return;
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(type, value))) {
+      problems.push(`${path}: expected ${types.join(' or ')}`);
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    problems.push(`${path}: expected one of ${schema.enum.join(', ')}`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    const items = schema.items;
+    value.forEach((item, index) => collectProblems(items, item, `${path}[${index}]`, problems));
+    return;
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return;
+  }
+
+  const record = value as Record<string, unknown>;
+  const properties = schema.properties ?? {};
+  (schema.required ?? []).forEach((key) => {
+    if (record[key] === undefined) {
+      problems.push(`${path}.${key}: required`);
+    }
+  });
+
+  Object.keys(record).forEach((key) => {
+    if (record[key] === undefined) {
+      return;
+    }
+    const propertySchema = properties[key];
+    if (propertySchema) {
+      collectProblems(propertySchema, record[key], `${path}.${key}`, problems);
+    } else if (schema.additionalProperties === false) {
+      problems.push(`${path}.${key}: not allowed`);
+    } else if (typeof schema.additionalProperties === 'object') {
+      collectProblems(schema.additionalProperties, record[key], `${path}.${key}`, problems);
+    }
+  });
+}
+
+/**
+ * Check a value against one of the API schemas. Supports the keywords used above
+ * ($ref, type, enum, properties, required, additionalProperties, items) and returns
+ * one message per problem, empty when the value conforms.
+ */
+export function validateApiSchema(name: ApiSchemaName, value: unknown): string[] {
+  const problems: string[] = [];
+  collectProblems(API_SCHEMAS[name], value, '$', problems);
+  return problems;
+}
@@ -0,0 +1,30 @@
+import { AzureCloudName } from '@/types/azure';
+
+/**
+ * All clouds with service tag data in public/data, in display order
+ */
+export const AZURE_CLOUDS: AzureCloudName[] = [
+  AzureCloudName.AzureCloud,
+  AzureCloudName.AzureUSGovernment,
+  AzureCloudName.AzureChinaCloud
+];
+
+export const AZURE_CLOUD_LABELS: Record<AzureCloudName, string> = {
+  [AzureCloudName.AzureCloud]: 'Public',
+  [AzureCloudName.AzureChinaCloud]: 'China',
+  [AzureCloudName.AzureUSGovernment]: 'US Gov'
+};
+
+/**
+ * Parse a cloud name from user input (query string, select value).
+ * Returns undefined for empty or unknown values, which means "all clouds".
+ */
+export function parseCloudName(value: string | string[] | null | undefined): AzureCloudName | undefined {
+  const raw = Array.isArray(value) ? value[0] : value;
+  if (!raw) {
+    return undefined;
+  }
+
+  const lower = raw.toLowerCase();
+  return AZURE_CLOUDS.find((cloud) => cloud.toLowerCase() === lower);
+}
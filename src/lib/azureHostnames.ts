@@ -0,0 +1,56 @@
+/**
+ * Hostname patterns of Azure services, used to label the hops of a DNS resolution chain
+ * (e.g. a CNAME to *.trafficmanager.net means the name is fronted by Traffic Manager).
+ * Patterns are checked in order, so more specific ones come first.
+ */
+
+export type AzureHostnameCategory = 'private-link' | 'routing' | 'cdn' | 'compute' | 'platform';
+
+export interface AzureHostnamePattern {
+  pattern: RegExp;
+  service: string;
+  category: AzureHostnameCategory;
+}
+
+export const AZURE_HOSTNAME_PATTERNS: AzureHostnamePattern[] = [
+  { pattern: /\.privatelink\./, service: 'Private Link', category: 'private-link' },
+  { pattern: /\.trafficmanager\.net$/, service: 'Traffic Manager', category: 'routing' },
+  { pattern: /\.azurefd\.net$/, service: 'Front Door', category: 'routing' },
+  { pattern: /\.t-msedge\.net$/, service: 'Front Door edge', category: 'routing' },
+  { pattern: /\.afd\.azureedge\.net$/, service: 'Front Door edge', category: 'routing' },
+  { pattern: /\.azureedge\.net$/, service: 'Azure CDN', category: 'cdn' },
+  { pattern: /\.msedge\.net$/, service: 'Microsoft edge network', category: 'cdn' },
+  {
+    pattern: /^waws-prod-[a-z0-9-]+\.(sip\.)?(cloudapp\.net|azurewebsites\.(windows\.)?net)$/,
+    service: 'App Service scale unit',
+    category: 'compute'
+  },
+  { pattern: /\.azurewebsites\.net$/, service: 'App Service', category: 'compute' },
+  { pattern: /\.azurestaticapps\.net$/, service: 'Static Web Apps', category: 'compute' },
+  { pattern: /\.azurecontainerapps\.io$/, service: 'Container Apps', category: 'compute' },
+  { pattern: /\.azmk8s\.io$/, service: 'AKS API server', category: 'compute' },
+  { pattern: /\.cloudapp\.azure\.com$/, service: 'Public IP DNS label', category: 'compute' },
+  { pattern: /\.(cloudapp\.net|chinacloudapp\.cn|usgovcloudapp\.net)$/, service: 'Azure cloud service', category: 'compute' },
+  { pattern: /\.blob\.(core\.windows\.net|storage\.azure\.net)$/, service: 'Storage (Blob)', category: 'platform' },
+  { pattern: /\.dfs\.core\.windows\.net$/, service: 'Storage (Data Lake)', category: 'platform' },
+  { pattern: /\.file\.core\.windows\.net$/, service: 'Storage (Files)', category: 'platform' },
+  { pattern: /\.queue\.core\.windows\.net$/, service: 'Storage (Queue)', category: 'platform' },
+  { pattern: /\.table\.core\.windows\.net$/, service: 'Storage (Table)', category: 'platform' },
+  { pattern: /\.web\.core\.windows\.net$/, service: 'Storage (static website)', category: 'platform' },
+  { pattern: /\.database\.windows\.net$/, service: 'Azure SQL', category: 'platform' },
+  { pattern: /\.documents\.azure\.com$/, service: 'Cosmos DB', category: 'platform' },
+  { pattern: /\.vault\.azure\.net$/, service: 'Key Vault', category: 'platform' },
+  { pattern: /\.azurecr\.io$/, service: 'Container Registry', category: 'platform' },
+  { pattern: /\.servicebus\.windows\.net$/, service: 'Service Bus / Event Hubs', category: 'platform' },
+  { pattern: /\.redis\.cache\.windows\.net$/, service: 'Azure Cache for Redis', category: 'platform' },
+  { pattern: /\.search\.windows\.net$/, service: 'AI Search', category: 'platform' },
+  { pattern: /\.azure-api\.net$/, service: 'API Management', category: 'platform' }
+];
+
+/**
+ * Azure service implied by a hostname, or null when it matches no known pattern
+ */
+export function identifyAzureHostname(hostname: string): AzureHostnamePattern | null {
+  const normalized = hostname.trim().toLowerCase().replace(/\.$/, '');
+  return AZURE_HOSTNAME_PATTERNS.find((entry) => entry.pattern.test(normalized)) ?? null;
+}
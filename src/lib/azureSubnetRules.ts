@@ -0,0 +1,239 @@
+import { AZURE_IPV6_SUBNET_PREFIX } from './subnetCalculator';
+import type { IpVersion, LeafSubnet } from './subnetCalculator';
+
+/**
+ * Catalogue of Azure special-purpose subnet roles and the sizing rules Azure enforces
+ * (or strongly recommends) for each. The validation engine checks every leaf of a plan
+ * against the rules of the role assigned to it.
+ */
+
+export type AzureSubnetRole =
+  | 'GatewaySubnet'
+  | 'AzureFirewallSubnet'
+  | 'AzureFirewallManagementSubnet'
+  | 'AzureBastionSubnet'
+  | 'RouteServerSubnet'
+  | 'AppServiceIntegration'
+  | 'AksNodePool';
+
+export type SubnetRuleSeverity = 'error' | 'warning';
+
+export type SubnetRule =
+  // The subnet must be at least this large (prefix length at most `maxPrefix`)
+  | { kind: 'minSize'; maxPrefix: number; severity: SubnetRuleSeverity; reason: string }
+  // The subnet must be exactly this size
+  | { kind: 'exactSize'; prefix: number; severity: SubnetRuleSeverity; reason: string }
+  // The role needs an address range of this family
+  | { kind: 'addressFamily'; version: IpVersion; severity: SubnetRuleSeverity; reason: string }
+  // Azure identifies the subnet by this exact name
+  | { kind: 'requiredName'; name: string; severity: SubnetRuleSeverity }
+  // A VNet can hold only one subnet with this role
+  | { kind: 'singleton'; severity: SubnetRuleSeverity };
+
+export interface AzureSubnetRoleInfo {
+  label: string;
+  // Largest prefix length (smallest subnet) to plan for the role
+  maxPrefix: number;
+  // Name Azure requires for the subnet, if any
+  subnetName?: string;
+  rules: SubnetRule[];
+}
+
+export const AZURE_SUBNET_ROLES: Record<AzureSubnetRole, AzureSubnetRoleInfo> = {
+  GatewaySubnet: {
+    label: 'VPN / ExpressRoute gateway',
+    maxPrefix: 27,
+    subnetName: 'GatewaySubnet',
+    rules: [
+      { kind: 'minSize', maxPrefix: 29, severity: 'error', reason: 'Azure rejects gateway subnets smaller than /29.' },
+      {
+        kind: 'minSize',
+        maxPrefix: 27,
+        severity: 'warning',
+        reason: 'Use /27 or larger to fit ExpressRoute, VPN and gateway coexistence configurations.'
+      },
+      { kind: 'requiredName', name: 'GatewaySubnet', severity: 'error' },
+      { kind: 'singleton', severity: 'error' }
+    ]
+  },
+  AzureFirewallSubnet: {
+    label: 'Azure Firewall',
+    maxPrefix: 26,
+    subnetName: 'AzureFirewallSubnet',
+    rules: [
+      { kind: 'exactSize', prefix: 26, severity: 'error', reason: 'Azure Firewall requires a /26 subnet.' },
+      { kind: 'addressFamily', version: 4, severity: 'error', reason: 'Azure Firewall needs an IPv4 subnet.' },
+      { kind: 'requiredName', name: 'AzureFirewallSubnet', severity: 'error' },
+      { kind: 'singleton', severity: 'error' }
+    ]
+  },
+  AzureFirewallManagementSubnet: {
+    label: 'Azure Firewall management',
+    maxPrefix: 26,
+    subnetName: 'AzureFirewallManagementSubnet',
+    rules: [
+      { kind: 'exactSize', prefix: 26, severity: 'error', reason: 'Forced tunnelling needs a /26 management subnet.' },
+      { kind: 'addressFamily', version: 4, severity: 'error', reason: 'Azure Firewall needs an IPv4 subnet.' },
+      { kind: 'requiredName', name: 'AzureFirewallManagementSubnet', severity: 'error' },
+      { kind: 'singleton', severity: 'error' }
+    ]
+  },
+  AzureBastionSubnet: {
+    label: 'Azure Bastion',
+    maxPrefix: 26,
+    subnetName: 'AzureBastionSubnet',
+    rules: [
+      { kind: 'minSize', maxPrefix: 26, severity: 'error', reason: 'Azure Bastion requires /26 or larger.' },
+      { kind: 'addressFamily', version: 4, severity: 'error', reason: 'Azure Bastion needs an IPv4 subnet.' },
+      { kind: 'requiredName', name: 'AzureBastionSubnet', severity: 'error' },
+      { kind: 'singleton', severity: 'error' }
+    ]
+  },
+  RouteServerSubnet: {
+    label: 'Azure Route Server',
+    maxPrefix: 27,
+    subnetName: 'RouteServerSubnet',
+    rules: [
+      { kind: 'minSize', maxPrefix: 27, severity: 'error', reason: 'Azure Route Server requires /27 or larger.' },
+      { kind: 'addressFamily', version: 4, severity: 'error', reason: 'Azure Route Server needs an IPv4 subnet.' },
+      { kind: 'requiredName', name: 'RouteServerSubnet', severity: 'error' },
+      { kind: 'singleton', severity: 'error' }
+    ]
+  },
+  AppServiceIntegration: {
+    label: 'App Service VNet integration',
+    maxPrefix: 26,
+    rules: [
+      { kind: 'minSize', maxPrefix: 28, severity: 'error', reason: 'App Service integration requires /28 or larger.' },
+      {
+        kind: 'minSize',
+        maxPrefix: 26,
+        severity: 'warning',
+        reason: 'Each instance uses an address and scaling or platform upgrades briefly double that; /26 leaves room.'
+      },
+      { kind: 'addressFamily', version: 4, severity: 'error', reason: 'App Service integration needs an IPv4 subnet.' }
+    ]
+  },
+  AksNodePool: {
+    label: 'AKS node pool',
+    maxPrefix: 24,
+    rules: [
+      {
+        kind: 'minSize',
+        maxPrefix: 28,
+        severity: 'error',
+        reason: 'Too small for a node pool once surge nodes are added during upgrades.'
+      },
+      {
+        kind: 'minSize',
+        maxPrefix: 24,
+        severity: 'warning',
+        reason: 'With Azure CNI every pod takes an address from the node subnet; /24 or larger leaves room to scale.'
+      }
+    ]
+  }
+};
+
+export const AZURE_SUBNET_ROLE_IDS = Object.keys(AZURE_SUBNET_ROLES) as AzureSubnetRole[];
+
+export function isAzureSubnetRole(value: unknown): value is AzureSubnetRole {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(AZURE_SUBNET_ROLES, value);
+}
+
+/**
+ * Role implied by one of the fixed Azure subnet names, e.g. "GatewaySubnet"
+ */
+export function inferSubnetRole(name: string | undefined): AzureSubnetRole | undefined {
+  const trimmed = name?.trim().toLowerCase();
+  if (!trimmed) {
+    return undefined;
+  }
+  return AZURE_SUBNET_ROLE_IDS.find((role) => AZURE_SUBNET_ROLES[role].subnetName?.toLowerCase() === trimmed);
+}
+
+export interface SubnetRuleViolation {
+  leafId: string;
+  role: AzureSubnetRole;
+  severity: SubnetRuleSeverity;
+  message: string;
+}
+
+type ValidatedLeaf = Pick<LeafSubnet, 'id' | 'prefix' | 'version'>;
+
+// Role sizes above are IPv4 prefix lengths; an IPv6 subnet of any role is a /64
+const IPV6_SIZE_RULE: SubnetRule = {
+  kind: 'exactSize',
+  prefix: AZURE_IPV6_SUBNET_PREFIX,
+  severity: 'error',
+  reason: `Azure IPv6 subnets must be a /${AZURE_IPV6_SUBNET_PREFIX}.`
+};
+
+function isSizeRule(rule: SubnetRule): boolean {
+  return rule.kind === 'minSize' || rule.kind === 'exactSize';
+}
+
+function rulesFor(role: AzureSubnetRole, version: IpVersion): SubnetRule[] {
+  const rules = AZURE_SUBNET_ROLES[role].rules;
+  return version === 6 ? [IPV6_SIZE_RULE].concat(rules.filter((rule) => !isSizeRule(rule))) : rules;
+}
+
+function checkRule(
+  rule: SubnetRule,
+  leaf: ValidatedLeaf,
+  name: string | undefined,
+  roleCount: number
+): string | null {
+  switch (rule.kind) {
+    case 'minSize':
+      return leaf.prefix > rule.maxPrefix ? `/${leaf.prefix} is too small. ${rule.reason}` : null;
+    case 'exactSize':
+      return leaf.prefix !== rule.prefix ? `/${leaf.prefix} is the wrong size. ${rule.reason}` : null;
+    case 'addressFamily':
+      return leaf.version !== rule.version ? rule.reason : null;
+    case 'requiredName':
+      return name?.trim() !== rule.name ? `Azure requires the subnet to be named ${rule.name}.` : null;
+    case 'singleton':
+      return roleCount > 1 ? `A VNet can only have one subnet with this role (found ${roleCount}).` : null;
+  }
+}
+
+/**
+ * Check each leaf against the rules of its role. `names` holds the subnet names, which
+ * in the calculator are the row comments.
+ */
+export function validateSubnetRoles(
+  leaves: ValidatedLeaf[],
+  roles: Record<string, AzureSubnetRole>,
+  names: Record<string, string> = {}
+): SubnetRuleViolation[] {
+  const roleCounts = new Map<AzureSubnetRole, number>();
+  leaves.forEach((leaf) => {
+    const role = roles[leaf.id];
+    if (role) {
+      roleCounts.set(role, (roleCounts.get(role) ?? 0) + 1);
+    }
+  });
+
+  const violations: SubnetRuleViolation[] = [];
+  leaves.forEach((leaf) => {
+    const role = roles[leaf.id];
+    if (!role) {
+      return;
+    }
+    // Size rules are listed strictest first; report only the first one that fails
+    let sizeFlagged = false;
+    rulesFor(role, leaf.version).forEach((rule) => {
+      const sizeRule = isSizeRule(rule);
+      if (sizeRule && sizeFlagged) {
+        return;
+      }
+      const message = checkRule(rule, leaf, names[leaf.id], roleCounts.get(role) ?? 0);
+      if (message) {
+        sizeFlagged = sizeFlagged || sizeRule;
+        violations.push({ leafId: leaf.id, role, severity: rule.severity, message });
+      }
+    });
+  });
+
+  return violations;
+}
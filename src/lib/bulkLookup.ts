@@ -0,0 +1,104 @@
+import { AzureCloudName, AzureIpAddress } from '@/types/azure';
+import { checkIpAddress } from './clientIpService';
+import { parseIpPrefix } from './ipPrefixIndex';
+import { AZURE_CLOUD_LABELS } from './azureClouds';
+
+export const MAX_BULK_INPUTS = 5000;
+
+export interface BulkLookupResult {
+  input: string;
+  isAzure: boolean;
+  matches: AzureIpAddress[];
+  serviceTags: string[];
+  regions: string[];
+  clouds: AzureCloudName[];
+}
+
+export type BulkExportRow = Record<string, string | number>;
+
+// Characters that separate values in pasted lists, CSV rows and typical log lines
+const TOKEN_SEPARATOR = /[\s,;"'`=|<>()[\]{}]+/;
+
+// IPv4 address or CIDR followed by a port, e.g. 10.0.0.1:443 in firewall logs
+const IPV4_WITH_PORT = /^((?:\d{1,3}\.){3}\d{1,3}(?:\/\d{1,2})?):\d+$/;
+
+function normaliseToken(token: string): string | null {
+  // Drop sentence punctuation ("... from 10.0.0.1." or "10.0.0.1: denied") but keep IPv6 "::"
+  let trimmed = token.replace(/\.+$/, '');
+  if (/[^:]:$/.test(trimmed)) {
+    trimmed = trimmed.slice(0, -1);
+  }
+  if (!trimmed || !/\d/.test(trimmed)) {
+    return null;
+  }
+
+  const portMatch = IPV4_WITH_PORT.exec(trimmed);
+  const candidate = portMatch ? portMatch[1] : trimmed;
+
+  // Only keep tokens that look like an address before running the full parser
+  if (!/^[0-9a-fA-F.:/]+$/.test(candidate) || (!candidate.includes('.') && !candidate.includes(':'))) {
+    return null;
+  }
+
+  return parseIpPrefix(candidate) ? candidate : null;
+}
+
+/**
+ * Extract every IPv4/IPv6 address and CIDR range from free text
+ * (pasted lists, CSV exports, firewall logs). Duplicates are removed, order is kept.
+ */
+export function extractIpInputs(text: string): string[] {
+  const seen = new Set<string>();
+  const inputs: string[] = [];
+
+  for (const token of text.split(TOKEN_SEPARATOR)) {
+    const candidate = normaliseToken(token);
+    if (!candidate) {
+      continue;
+    }
+
+    const key = candidate.toLowerCase();
+    if (!seen.has(key)) {
+      seen.add(key);
+      inputs.push(candidate);
+    }
+  }
+
+  return inputs;
+}
+
+function uniqueValues<T extends string>(values: T[]): T[] {
+  return Array.from(new Set(values.filter(Boolean))).sort();
+}
+
+/**
+ * Run every input through checkIpAddress and summarise the matches per input
+ */
+export async function runBulkLookup(inputs: string[], cloud?: AzureCloudName): Promise<BulkLookupResult[]> {
+  const results: BulkLookupResult[] = [];
+
+  for (const input of inputs) {
+    const matches = await checkIpAddress(input, cloud);
+    results.push({
+      input,
+      isAzure: matches.length > 0,
+      matches,
+      serviceTags: uniqueValues(matches.map(match => match.serviceTagId)),
+      regions: uniqueValues(matches.map(match => match.region)),
+      clouds: uniqueValues(matches.map(match => match.cloud))
+    });
+  }
+
+  return results;
+}
+
+export function prepareBulkExportData(results: BulkLookupResult[]): BulkExportRow[] {
+  return results.map((result) => ({
+    Input: result.input,
+    Azure: result.isAzure ? 'Yes' : 'No',
+    'Service Tags': result.serviceTags.join('; '),
+    Regions: result.regions.join('; '),
+    Cloud: result.clouds.map(cloud => AZURE_CLOUD_LABELS[cloud]).join('; '),
+    'Matched Prefixes': uniqueValues(result.matches.map(match => match.ipAddressPrefix)).join('; ')
+  }));
+}
@@ -1,172 +1,114 @@
-import IPCIDR from 'ip-cidr';
-import { AzureIpAddress, AzureCloudVersions } from '../types/azure';
-import { getCachedNormalization } from './normalization';
+import { AzureIpAddress, AzureCloudVersions, AzureCloudName, AzureServiceTagsRoot } from '../types/azure';
+import { AZURE_CLOUDS } from './azureClouds';
+import {
+  CloudIpData,
+  SearchOptions,
+  buildCloudIpData,
+  filterIpAddresses,
+  filterServiceTag,
+  listServiceTagNames,
+  matchIpAddress,
+  matchOverlappingRanges
+} from './ipLookup';
+
+export type { SearchOptions } from './ipLookup';
+
+interface CloudCacheEntry extends CloudIpData {
+  expiry: number;
+}
 
 // Client-side cache
-let azureIpAddressCache: AzureIpAddress[] | null = null;
+const azureIpAddressCache = new Map<AzureCloudName, CloudCacheEntry>();
 let azureVersionsCache: AzureCloudVersions | null = null;
-let ipCacheExpiry = 0;
 let versionsCacheExpiry = 0;
 const CACHE_TTL = 6 * 60 * 60 * 1000; // 6 hours in milliseconds
 
-export interface SearchOptions {
-  region?: string;
-  service?: string;
-}
-
 /**
- * Check if a search term matches a target string using various strategies
+ * Load Azure IP data for a single cloud from its static file and index its prefixes
  */
-function matchesSearchTerm(target: string, searchTerm: string): boolean {
-  if (!target) return false;
-
-  const targetLower = target.toLowerCase();
-  const searchLower = searchTerm.toLowerCase();
+async function loadCloudIpData(cloud: AzureCloudName): Promise<CloudCacheEntry> {
+  const now = Date.now();
 
-  // Exact match (case insensitive)
-  if (targetLower === searchLower) {
-    return true;
+  // Check if cache is valid
+  const cached = azureIpAddressCache.get(cloud);
+  if (cached && cached.expiry > now) {
+    return cached;
   }
 
-  // Substring match
-  if (targetLower.includes(searchLower)) {
-    return true;
+  const response = await fetch(`/data/${cloud}.json`);
+  if (!response.ok) {
+    throw new Error(`Failed to load ${cloud} IP data: ${response.statusText}`);
   }
 
-  // Normalized match (handles "WestEurope" vs "West Europe")
-  const normalizedTarget = getCachedNormalization(target.replace(/([a-z])([A-Z])/g, '$1 $2'));
-  const normalizedSearch = getCachedNormalization(searchTerm.replace(/([a-z])([A-Z])/g, '$1 $2'));
+  const data = (await response.json()) as AzureServiceTagsRoot;
 
-  return normalizedTarget.includes(normalizedSearch);
+  // Cache the results
+  const entry: CloudCacheEntry = { ...buildCloudIpData(cloud, data), expiry: now + CACHE_TTL };
+  azureIpAddressCache.set(cloud, entry);
+
+  return entry;
 }
 
 /**
- * Load Azure IP data from static files
+ * Load cached data and prefix indexes for one cloud, or all clouds when none is given
  */
-async function loadAzureIpData(): Promise<AzureIpAddress[]> {
-  const now = Date.now();
-  
-  // Check if cache is valid
-  if (azureIpAddressCache && ipCacheExpiry > now) {
-    return azureIpAddressCache;
-  }
-
+async function loadCloudEntries(cloud?: AzureCloudName): Promise<CloudCacheEntry[]> {
   try {
-    // Load the main Azure Public Cloud data
-    const response = await fetch('/data/AzureCloud.json');
-    if (!response.ok) {
-      throw new Error(`Failed to load Azure IP data: ${response.statusText}`);
-    }
-    
-    const data = await response.json();
-    const ipRanges: AzureIpAddress[] = [];
-
-    // Process the service tags and extract IP ranges
-    if (data.values && Array.isArray(data.values)) {
-      for (const serviceTag of data.values) {
-        const { name: serviceTagId, properties } = serviceTag;
-        const { addressPrefixes = [], systemService, region } = properties || {};
-        
-        for (const ipRange of addressPrefixes) {
-          ipRanges.push({
-            serviceTagId,
-            ipAddressPrefix: ipRange,
-            region: region || '',
-            regionId: properties.regionId?.toString() || '',
-            systemService: systemService || '',
-            networkFeatures: properties.networkFeatures?.join(', ') || ''
-          });
-        }
-      }
-    }
-
-    // Cache the results
-    azureIpAddressCache = ipRanges;
-    ipCacheExpiry = now + CACHE_TTL;
-
-    return ipRanges;
+    const clouds = cloud ? [cloud] : AZURE_CLOUDS;
+    return await Promise.all(clouds.map(loadCloudIpData));
   } catch (error) {
     throw new Error(`Failed to load Azure IP data: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
 /**
- * Check if an IP address is in Azure
+ * Load Azure IP data from static files for one cloud, or all clouds when none is given
  */
-export async function checkIpAddress(ipAddress: string): Promise<AzureIpAddress[]> {
-  const azureIpRanges = await loadAzureIpData();
-  const matches: AzureIpAddress[] = [];
-  
-  for (const azureIpRange of azureIpRanges) {
-    try {
-      const cidr = new IPCIDR(azureIpRange.ipAddressPrefix);
-      if (cidr.contains(ipAddress)) {
-        matches.push(azureIpRange);
-      }
-    } catch (error) {
-      // Skip invalid CIDR ranges
-      continue;
-    }
-  }
-  
-  return matches;
+async function loadAzureIpData(cloud?: AzureCloudName): Promise<AzureIpAddress[]> {
+  const entries = await loadCloudEntries(cloud);
+  return entries.map(entry => entry.data).flat();
+}
+
+/**
+ * Check if an IP address (or CIDR range) is in Azure.
+ * Returns every prefix containing an address; the longest matching prefixes are flagged with isMostSpecific.
+ * CIDR ranges are answered by findOverlappingRanges instead.
+ */
+export async function checkIpAddress(ipAddress: string, cloud?: AzureCloudName): Promise<AzureIpAddress[]> {
+  return matchIpAddress(await loadCloudEntries(cloud), ipAddress);
+}
+
+/**
+ * Find every Azure prefix overlapping a CIDR range, labelled with how it relates to the range
+ * (contains / equal / within) and how many addresses the two share.
+ */
+export async function findOverlappingRanges(range: string, cloud?: AzureCloudName): Promise<AzureIpAddress[]> {
+  return matchOverlappingRanges(await loadCloudEntries(cloud), range);
 }
 
 /**
  * Search for Azure IP addresses by region and/or service
  */
 export async function searchAzureIpAddresses(options: SearchOptions): Promise<AzureIpAddress[]> {
-  const { region, service } = options;
-  
-  if (!region && !service) {
-    return [];
-  }
-  
-  const azureIpAddressList = await loadAzureIpData();
-  if (!azureIpAddressList || azureIpAddressList.length === 0) {
+  if (!options.region && !options.service) {
     return [];
   }
-  
-  let results = [...azureIpAddressList];
-  
-  // Filter by region if specified
-  if (region) {
-    results = results.filter(ip => matchesSearchTerm(ip.region, region));
-  }
-  
-  // Filter by service if specified
-  if (service) {
-    results = results.filter(ip => {
-      // Match by systemService first
-      if (ip.systemService && matchesSearchTerm(ip.systemService, service)) {
-        return true;
-      }
-
-      // Then by serviceTagId
-      return matchesSearchTerm(ip.serviceTagId, service);
-    });
-  }
-  
-  return results;
+
+  return filterIpAddresses(await loadAzureIpData(options.cloud), options);
 }
 
 /**
  * Get all unique service tags
  */
-export async function getAllServiceTags(): Promise<string[]> {
-  const azureIpData = await loadAzureIpData();
-  const serviceTags = new Set(azureIpData.map(ip => ip.serviceTagId));
-  return Array.from(serviceTags).sort();
+export async function getAllServiceTags(cloud?: AzureCloudName): Promise<string[]> {
+  return listServiceTagNames(await loadAzureIpData(cloud));
 }
 
 /**
  * Get IP ranges for a specific service tag
  */
-export async function getServiceTagDetails(serviceTag: string): Promise<AzureIpAddress[]> {
-  const azureIpData = await loadAzureIpData();
-  return azureIpData.filter(ip => 
-    ip.serviceTagId.toLowerCase() === serviceTag.toLowerCase()
-  );
+export async function getServiceTagDetails(serviceTag: string, cloud?: AzureCloudName): Promise<AzureIpAddress[]> {
+  return filterServiceTag(await loadAzureIpData(cloud), serviceTag);
 }
 
 /**
@@ -0,0 +1,376 @@
+import dns from 'dns';
+import { promises as fs } from 'fs';
+import { DNS_RESOLVER_KINDS } from '../types/api';
+import type { DnsRecordType, DnsResolverKind } from '../types/api';
+import { formatIpAddress } from './ipPrefixIndex';
+import type { ParsedPrefix } from './ipPrefixIndex';
+
+/**
+ * DNS resolver backends for /api/dnsLookup. The default comes from DNS_RESOLVER and a
+ * request may pick another with the `resolver` query parameter:
+ *
+ * system    the host's resolver configuration
+ * upstream  the servers in DNS_UPSTREAM_SERVERS (comma separated, e.g. 168.63.129.16)
+ * doh-json  DNS-over-HTTPS JSON API at DNS_DOH_URL
+ * doh-wire  DNS-over-HTTPS RFC 8484 wire format at DNS_DOH_URL
+ * fixture   an in-memory zone, from the JSON file at DNS_FIXTURE_PATH or a built-in sample;
+ *           only used when it is the configured DNS_RESOLVER, never per request
+ */
+
+export interface DnsAnswer {
+  value: string; // Address, or the target of a CNAME or PTR record
+  ttl?: number;
+}
+
+export interface DnsResolver {
+  kind: DnsResolverKind;
+  // Records of one type for a name; empty when the name or type does not exist.
+  // A, AAAA and PTR queries follow CNAMEs like a recursive resolver does.
+  resolve(name: string, type: DnsRecordType): Promise<DnsAnswer[]>;
+}
+
+// Fixture zone: owner name -> records. CNAME names may not hold other records.
+export type DnsFixtureZone = Record<
+  string,
+  { CNAME?: string; A?: string[]; AAAA?: string[]; PTR?: string[]; ttl?: number }
+>;
+
+export class DnsResolverConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DnsResolverConfigError';
+  }
+}
+
+const DEFAULT_DOH_URL = 'https://cloudflare-dns.com/dns-query';
+const DOH_TIMEOUT_MS = 5000;
+const DEFAULT_FIXTURE_TTL = 300;
+
+// Enough to try the resolver offline: a Traffic Manager profile in front of App Service
+// and a storage account behind a private endpoint, plus a VM public IP with a DNS label
+const SAMPLE_FIXTURE_ZONE: DnsFixtureZone = {
+  'www.contoso.com': { CNAME: 'contoso.trafficmanager.net', ttl: 3600 },
+  'contoso.trafficmanager.net': { CNAME: 'contoso-web.azurewebsites.net', ttl: 60 },
+  'contoso-web.azurewebsites.net': { CNAME: 'waws-prod-am2-123.sip.azurewebsites.windows.net' },
+  'waws-prod-am2-123.sip.azurewebsites.windows.net': { A: ['20.50.2.40'] },
+  'contosodata.blob.core.windows.net': { CNAME: 'contosodata.privatelink.blob.core.windows.net', ttl: 60 },
+  'contosodata.privatelink.blob.core.windows.net': { A: ['10.20.1.5'], ttl: 10 },
+  '7.15.61.20.in-addr.arpa': { PTR: ['contoso-vm.westeurope.cloudapp.azure.com'], ttl: 3600 },
+  'contoso-vm.westeurope.cloudapp.azure.com': { A: ['20.61.15.7'], ttl: 10 }
+};
+
+// Resource record type codes
+const RECORD_TYPE_CODES: Record<DnsRecordType, number> = { A: 1, CNAME: 5, PTR: 12, AAAA: 28 };
+
+function isNoDataError(error: unknown): boolean {
+  const code = (error as NodeJS.ErrnoException | undefined)?.code;
+  return code === dns.NODATA || code === dns.NOTFOUND;
+}
+
+function createNodeResolver(kind: 'system' | 'upstream', servers?: string[]): DnsResolver {
+  const resolver = new dns.promises.Resolver();
+  if (servers) {
+    resolver.setServers(servers);
+  }
+
+  return {
+    kind,
+    async resolve(name, type) {
+      try {
+        if (type === 'CNAME' || type === 'PTR') {
+          const targets = type === 'CNAME' ? await resolver.resolveCname(name) : await resolver.resolvePtr(name);
+          return targets.map((value) => ({ value }));
+        }
+        const records = type === 'A'
+          ? await resolver.resolve4(name, { ttl: true })
+          : await resolver.resolve6(name, { ttl: true });
+        return records.map((record) => ({ value: record.address, ttl: record.ttl }));
+      } catch (error) {
+        if (isNoDataError(error)) {
+          return [];
+        }
+        throw error;
+      }
+    }
+  };
+}
+
+function trimDot(name: string): string {
+  return name.replace(/\.$/, '');
+}
+
+// Record types whose data is a domain name
+function isNameType(type: DnsRecordType): boolean {
+  return type === 'CNAME' || type === 'PTR';
+}
+
+/**
+ * Owner name of the PTR record for an address, e.g. 7.15.61.20.in-addr.arpa
+ */
+export function reverseDnsName(address: ParsedPrefix): string {
+  if (address.family === 4) {
+    return `${Array.from(address.bytes).reverse().join('.')}.in-addr.arpa`;
+  }
+  const nibbles: string[] = [];
+  Array.from(address.bytes).forEach((byte) => {
+    nibbles.push((byte >> 4).toString(16), (byte & 0x0f).toString(16));
+  });
+  return `${nibbles.reverse().join('.')}.ip6.arpa`;
+}
+
+interface DohJsonResponse {
+  Status: number;
+  Answer?: Array<{ name: string; type: number; TTL: number; data: string }>;
+}
+
+function createDohJsonResolver(url: string): DnsResolver {
+  return {
+    kind: 'doh-json',
+    async resolve(name, type) {
+      const query = new URLSearchParams({ name, type });
+      const response = await fetch(`${url}?${query.toString()}`, {
+        headers: { Accept: 'application/dns-json' },
+        signal: AbortSignal.timeout(DOH_TIMEOUT_MS)
+      });
+      if (!response.ok) {
+        throw new Error(`DNS-over-HTTPS request failed with status ${response.status}`);
+      }
+
+      const payload = (await response.json()) as DohJsonResponse;
+      // NXDOMAIN
+      if (payload.Status === 3) {
+        return [];
+      }
+      if (payload.Status !== 0) {
+        throw new Error(`DNS-over-HTTPS query failed with response code ${payload.Status}`);
+      }
+      return (payload.Answer ?? [])
+        .filter((answer) => answer.type === RECORD_TYPE_CODES[type])
+        .map((answer) => ({ value: isNameType(type) ? trimDot(answer.data) : answer.data, ttl: answer.TTL }));
+    }
+  };
+}
+
+/**
+ * DNS query message (RFC 1035 section 4) with recursion desired. The ID is 0 so
+ * identical queries can be cached by HTTP caches (RFC 8484 section 4.1).
+ */
+export function encodeDnsQuery(name: string, type: DnsRecordType): Uint8Array {
+  const labels = trimDot(name).split('.').filter(Boolean);
+  const bytes: number[] = [0, 0, 0x01, 0x00, 0, 1, 0, 0, 0, 0, 0, 0];
+  labels.forEach((label) => {
+    bytes.push(label.length);
+    for (let index = 0; index < label.length; index += 1) {
+      bytes.push(label.charCodeAt(index) & 0xff);
+    }
+  });
+  const code = RECORD_TYPE_CODES[type];
+  bytes.push(0, code >> 8, code & 0xff, 0, 1);
+  return Uint8Array.from(bytes);
+}
+
+function readUint16(message: Uint8Array, offset: number): number {
+  if (offset + 2 > message.length) {
+    throw new Error('Truncated DNS message');
+  }
+  return (message[offset] << 8) | message[offset + 1];
+}
+
+/**
+ * Read a possibly compressed domain name, returning it and the offset after it
+ */
+function readName(message: Uint8Array, start: number): { name: string; next: number } {
+  const labels: string[] = [];
+  let offset = start;
+  let next = -1;
+  // Each pointer must go backwards, so a message cannot hold more jumps than bytes
+  let jumps = 0;
+
+  while (true) {
+    if (offset >= message.length) {
+      throw new Error('Truncated DNS message');
+    }
+    const length = message[offset];
+    if (length === 0) {
+      offset += 1;
+      break;
+    }
+    if ((length & 0xc0) === 0xc0) {
+      if (next === -1) {
+        next = offset + 2;
+      }
+      const target = readUint16(message, offset) & 0x3fff;
+      if (target >= offset || (jumps += 1) > message.length) {
+        throw new Error('Invalid DNS name compression pointer');
+      }
+      offset = target;
+      continue;
+    }
+    if (offset + 1 + length > message.length) {
+      throw new Error('Truncated DNS message');
+    }
+    labels.push(String.fromCharCode(...Array.from(message.subarray(offset + 1, offset + 1 + length))));
+    offset += 1 + length;
+  }
+
+  return { name: labels.join('.'), next: next === -1 ? offset : next };
+}
+
+/**
+ * Answers of one type from a DNS response message; empty for NXDOMAIN
+ */
+export function decodeDnsAnswers(message: Uint8Array, type: DnsRecordType): DnsAnswer[] {
+  const rcode = readUint16(message, 2) & 0x0f;
+  if (rcode === 3) {
+    return [];
+  }
+  if (rcode !== 0) {
+    throw new Error(`DNS query failed with response code ${rcode}`);
+  }
+
+  const questionCount = readUint16(message, 4);
+  const answerCount = readUint16(message, 6);
+  let offset = 12;
+  for (let index = 0; index < questionCount; index += 1) {
+    offset = readName(message, offset).next + 4;
+  }
+
+  const answers: DnsAnswer[] = [];
+  for (let index = 0; index < answerCount; index += 1) {
+    offset = readName(message, offset).next;
+    const recordType = readUint16(message, offset);
+    const ttl = ((readUint16(message, offset + 4) << 16) | readUint16(message, offset + 6)) >>> 0;
+    const dataLength = readUint16(message, offset + 8);
+    const dataStart = offset + 10;
+    if (dataStart + dataLength > message.length) {
+      throw new Error('Truncated DNS message');
+    }
+    offset = dataStart + dataLength;
+
+    if (recordType !== RECORD_TYPE_CODES[type]) {
+      continue;
+    }
+    if (isNameType(type)) {
+      answers.push({ value: readName(message, dataStart).name, ttl });
+    } else if (dataLength === (type === 'A' ? 4 : 16)) {
+      const family = type === 'A' ? 4 : 6;
+      answers.push({ value: formatIpAddress(family, message.subarray(dataStart, offset)), ttl });
+    }
+  }
+  return answers;
+}
+
+function createDohWireResolver(url: string): DnsResolver {
+  return {
+    kind: 'doh-wire',
+    async resolve(name, type) {
+      const query = Buffer.from(encodeDnsQuery(name, type)).toString('base64url');
+      const response = await fetch(`${url}?dns=${query}`, {
+        headers: { Accept: 'application/dns-message' },
+        signal: AbortSignal.timeout(DOH_TIMEOUT_MS)
+      });
+      if (!response.ok) {
+        throw new Error(`DNS-over-HTTPS request failed with status ${response.status}`);
+      }
+      return decodeDnsAnswers(new Uint8Array(await response.arrayBuffer()), type);
+    }
+  };
+}
+
+// Longest CNAME chain the fixture resolver follows before giving up
+const MAX_FIXTURE_CNAME_DEPTH = 16;
+
+export function createFixtureResolver(zone: DnsFixtureZone): DnsResolver {
+  const records = new Map<string, DnsFixtureZone[string]>();
+  Object.keys(zone).forEach((name) => records.set(trimDot(name).toLowerCase(), zone[name]));
+
+  return {
+    kind: 'fixture',
+    async resolve(name, type) {
+      let current = trimDot(name).toLowerCase();
+      for (let depth = 0; depth <= MAX_FIXTURE_CNAME_DEPTH; depth += 1) {
+        const record = records.get(current);
+        if (!record) {
+          return [];
+        }
+        const ttl = record.ttl ?? DEFAULT_FIXTURE_TTL;
+        if (type === 'CNAME') {
+          return record.CNAME ? [{ value: record.CNAME, ttl }] : [];
+        }
+        if (!record.CNAME) {
+          return (record[type] ?? []).map((value) => ({ value, ttl }));
+        }
+        current = trimDot(record.CNAME).toLowerCase();
+      }
+      return [];
+    }
+  };
+}
+
+async function loadFixtureZone(): Promise<DnsFixtureZone> {
+  const fixturePath = process.env.DNS_FIXTURE_PATH;
+  if (!fixturePath) {
+    return SAMPLE_FIXTURE_ZONE;
+  }
+  try {
+    return JSON.parse(await fs.readFile(fixturePath, 'utf8')) as DnsFixtureZone;
+  } catch (error) {
+    // The path stays in the server log; clients only learn that the zone is unavailable
+    console.error(`Failed to load DNS fixture zone from ${fixturePath}:`, error);
+    throw new DnsResolverConfigError('The DNS fixture zone could not be loaded.');
+  }
+}
+
+function parseResolverKind(value: string): DnsResolverKind {
+  const kind = DNS_RESOLVER_KINDS.find((candidate) => candidate === value.trim().toLowerCase());
+  if (!kind) {
+    throw new DnsResolverConfigError(`Unknown DNS resolver "${value}". Use one of: ${DNS_RESOLVER_KINDS.join(', ')}.`);
+  }
+  return kind;
+}
+
+async function createResolver(kind: DnsResolverKind): Promise<DnsResolver> {
+  switch (kind) {
+    case 'system':
+      return createNodeResolver('system');
+    case 'upstream': {
+      const servers = (process.env.DNS_UPSTREAM_SERVERS ?? '')
+        .split(',')
+        .map((value) => value.trim())
+        .filter(Boolean);
+      if (servers.length === 0) {
+        throw new DnsResolverConfigError('The upstream resolver needs DNS_UPSTREAM_SERVERS to be set.');
+      }
+      return createNodeResolver('upstream', servers);
+    }
+    case 'doh-json':
+      return createDohJsonResolver(process.env.DNS_DOH_URL || DEFAULT_DOH_URL);
+    case 'doh-wire':
+      return createDohWireResolver(process.env.DNS_DOH_URL || DEFAULT_DOH_URL);
+    case 'fixture':
+      return createFixtureResolver(await loadFixtureZone());
+  }
+}
+
+const resolverCache = new Map<DnsResolverKind, Promise<DnsResolver>>();
+
+/**
+ * Resolver for a request. `requested` is the optional `resolver` query parameter; when
+ * missing, DNS_RESOLVER (default "system") applies. Throws DnsResolverConfigError for
+ * unknown or unconfigured resolvers, and for `fixture` unless DNS_RESOLVER selects it,
+ * so the test zone's made-up answers cannot be requested from a production deployment.
+ */
+export async function getDnsResolver(requested?: string): Promise<DnsResolver> {
+  const configured = parseResolverKind(process.env.DNS_RESOLVER || 'system');
+  const kind = requested ? parseResolverKind(requested) : configured;
+  if (kind === 'fixture' && configured !== 'fixture') {
+    throw new DnsResolverConfigError('The fixture resolver is only available when DNS_RESOLVER=fixture.');
+  }
+  let pending = resolverCache.get(kind);
+  if (!pending) {
+    pending = createResolver(kind);
+    resolverCache.set(kind, pending);
+    pending.catch(() => resolverCache.delete(kind));
+  }
+  return pending;
+}
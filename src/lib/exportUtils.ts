@@ -1,4 +1,20 @@
 import { AzureIpAddress } from '@/types/azure';
+import {
+  RULE_ARTIFACT_FORMATS,
+  RuleArtifactFormat,
+  generateRuleArtifact,
+  generateRuleArtifactFilename
+} from './ruleArtifacts';
+import {
+  SUBNET_IAC_FORMATS,
+  SubnetIacFormat,
+  SubnetIacOptions,
+  generateSubnetIac,
+  generateSubnetIacFilename
+} from './subnetIacExport';
+import type { AggregationResult } from './prefixAggregation';
+import { ShareableSubnetPlan, generateSubnetPlanFilename, serialiseSubnetPlanFile } from './shareSubnetPlan';
+import type { LeafSubnet } from './subnetCalculator';
 
 export type ExportRow = Record<string, string | number | boolean | null | undefined>;
 
@@ -8,6 +24,7 @@ export type ExportData = ExportRow & {
   'Region': string;
   'System Service': string;
   'Network Features': string;
+  'Cloud': string;
 };
 
 interface ExcelExportOptions {
@@ -20,7 +37,18 @@ export function prepareDataForExport(results: AzureIpAddress[]): ExportData[] {
     'IP Range': result.ipAddressPrefix || '',
     'Region': result.region || '',
     'System Service': result.systemService || '',
-    'Network Features': result.networkFeatures || ''
+    'Network Features': result.networkFeatures || '',
+    'Cloud': result.cloud || '',
+    ...(result.relationship
+      ? { 'Overlap': result.relationship, 'Shared Addresses': result.overlapAddressCount }
+      : {})
+  }));
+}
+
+export function prepareAggregatedExportData(result: AggregationResult): ExportRow[] {
+  return result.prefixes.map((prefix) => ({
+    'IP Range': prefix,
+    'Aggregation': result.mode === 'exact' ? 'Exact' : 'Lossy'
   }));
 }
 
@@ -50,6 +78,21 @@ export async function exportToExcel<T extends ExportRow>(
   downloadFile(new Blob([buffer], { type: EXCEL_MIME_TYPE }), filename, EXCEL_MIME_TYPE);
 }
 
+export function exportRuleArtifact(results: AzureIpAddress[], format: RuleArtifactFormat, query: string): void {
+  const content = generateRuleArtifact(format, results, query);
+  downloadFile(content, generateRuleArtifactFilename(query, format), RULE_ARTIFACT_FORMATS[format].mimeType);
+}
+
+export function exportSubnetIac(leaves: LeafSubnet[], format: SubnetIacFormat, options: SubnetIacOptions): void {
+  const content = generateSubnetIac(format, leaves, options);
+  const filename = generateSubnetIacFilename(options.baseNetwork, options.basePrefix, format, options.version);
+  downloadFile(content, filename, SUBNET_IAC_FORMATS[format].mimeType);
+}
+
+export function exportSubnetPlanFile(plan: ShareableSubnetPlan): void {
+  downloadFile(serialiseSubnetPlanFile(plan), generateSubnetPlanFilename(plan), 'application/json');
+}
+
 const EXCEL_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
 
 function downloadFile(data: string | Blob, filename: string, mimeType: string): void {
@@ -0,0 +1,169 @@
+import { AzureCloudName, AzureIpAddress, AzureServiceTagsRoot } from '../types/azure';
+import { getCachedNormalization } from './normalization';
+import { IpPrefixIndex, PrefixMatch, PrefixOverlap, parseIpPrefix } from './ipPrefixIndex';
+
+/**
+ * Matching logic shared by the browser lookups (clientIpService) and the public API
+ * routes (ipService). Callers load the service tag files their own way and pass the
+ * indexed data in.
+ */
+
+export interface CloudIpData {
+  cloud: AzureCloudName;
+  changeNumber: number; // File-level changeNumber of the loaded service tag file
+  data: AzureIpAddress[];
+  index: IpPrefixIndex<AzureIpAddress>;
+}
+
+export interface SearchOptions {
+  region?: string;
+  service?: string;
+  cloud?: AzureCloudName; // Searches all clouds when omitted
+}
+
+/**
+ * Check if a search term matches a target string using various strategies
+ */
+export function matchesSearchTerm(target: string, searchTerm: string): boolean {
+  if (!target) return false;
+
+  const targetLower = target.toLowerCase();
+  const searchLower = searchTerm.toLowerCase();
+
+  // Exact match (case insensitive)
+  if (targetLower === searchLower) {
+    return true;
+  }
+
+  // Substring match
+  if (targetLower.includes(searchLower)) {
+    return true;
+  }
+
+  // Normalized match (handles "WestEurope" vs "West Europe")
+  const normalizedTarget = getCachedNormalization(target.replace(/([a-z])([A-Z])/g, '$1 $2'));
+  const normalizedSearch = getCachedNormalization(searchTerm.replace(/([a-z])([A-Z])/g, '$1 $2'));
+
+  return normalizedTarget.includes(normalizedSearch);
+}
+
+/**
+ * Flatten a service tag file into one row per prefix and index the prefixes
+ */
+export function buildCloudIpData(cloud: AzureCloudName, root: AzureServiceTagsRoot): CloudIpData {
+  const ipRanges: AzureIpAddress[] = [];
+  const index = new IpPrefixIndex<AzureIpAddress>();
+
+  if (root.values && Array.isArray(root.values)) {
+    for (const serviceTag of root.values) {
+      const { name: serviceTagId, properties } = serviceTag;
+      const { addressPrefixes = [], systemService, region } = properties || {};
+
+      for (const ipRange of addressPrefixes) {
+        const entry: AzureIpAddress = {
+          serviceTagId,
+          ipAddressPrefix: ipRange,
+          region: region || '',
+          regionId: properties.regionId?.toString() || '',
+          systemService: systemService || '',
+          networkFeatures: properties.networkFeatures?.join(', ') || '',
+          cloud
+        };
+        ipRanges.push(entry);
+        // Invalid CIDR ranges are skipped by the index
+        index.insert(ipRange, entry);
+      }
+    }
+  }
+
+  return { cloud, changeNumber: root.changeNumber, data: ipRanges, index };
+}
+
+/**
+ * Every prefix containing an address; the longest matching prefixes are flagged with isMostSpecific.
+ * CIDR ranges are answered by matchOverlappingRanges instead.
+ */
+export function matchIpAddress(entries: CloudIpData[], ipAddress: string): AzureIpAddress[] {
+  const parsed = parseIpPrefix(ipAddress);
+  if (parsed && parsed.prefixLength < parsed.bytes.length * 8) {
+    return matchOverlappingRanges(entries, ipAddress);
+  }
+
+  const matches: PrefixMatch<AzureIpAddress>[] = [];
+  for (const entry of entries) {
+    matches.push(...entry.index.lookup(ipAddress));
+  }
+
+  const longestPrefix = Math.max(...matches.map(match => match.prefixLength));
+
+  // Copy the cached rows so callers can annotate results without touching the cache
+  return matches.map(match => ({
+    ...match.value,
+    isMostSpecific: match.prefixLength === longestPrefix
+  }));
+}
+
+/**
+ * Every prefix overlapping a CIDR range, labelled with how it relates to the range
+ * (contains / equal / within) and how many addresses the two share.
+ */
+export function matchOverlappingRanges(entries: CloudIpData[], range: string): AzureIpAddress[] {
+  const overlaps: PrefixOverlap<AzureIpAddress>[] = [];
+  for (const entry of entries) {
+    overlaps.push(...entry.index.findOverlapping(range));
+  }
+
+  const containing = overlaps.filter(overlap => overlap.relationship !== 'within');
+  const longestPrefix = Math.max(...containing.map(overlap => overlap.prefixLength));
+
+  return overlaps.map(overlap => ({
+    ...overlap.value,
+    isMostSpecific: overlap.relationship === 'within' ? undefined : overlap.prefixLength === longestPrefix,
+    relationship: overlap.relationship,
+    overlapAddressCount: overlap.addressCount
+  }));
+}
+
+/**
+ * Filter rows by region and/or service (system service first, then service tag name)
+ */
+export function filterIpAddresses(rows: AzureIpAddress[], options: SearchOptions): AzureIpAddress[] {
+  const { region, service } = options;
+
+  if (!region && !service) {
+    return [];
+  }
+
+  let results = rows;
+
+  if (region) {
+    results = results.filter(ip => matchesSearchTerm(ip.region, region));
+  }
+
+  if (service) {
+    results = results.filter(ip => {
+      if (ip.systemService && matchesSearchTerm(ip.systemService, service)) {
+        return true;
+      }
+      return matchesSearchTerm(ip.serviceTagId, service);
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Unique service tag names across the loaded rows, sorted
+ */
+export function listServiceTagNames(rows: AzureIpAddress[]): string[] {
+  const serviceTags = new Set(rows.map(ip => ip.serviceTagId));
+  return Array.from(serviceTags).sort();
+}
+
+/**
+ * Rows of a single service tag (case-insensitive name match)
+ */
+export function filterServiceTag(rows: AzureIpAddress[], serviceTag: string): AzureIpAddress[] {
+  const lower = serviceTag.toLowerCase();
+  return rows.filter(ip => ip.serviceTagId.toLowerCase() === lower);
+}
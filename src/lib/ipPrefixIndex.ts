@@ -0,0 +1,361 @@
+import type { PrefixRelationship } from '../types/azure';
+
+/**
+ * Prefix index for fast "which prefixes contain / overlap this address or range" queries.
+ *
+ * Prefixes are stored in a path-compressed binary radix trie (one per address
+ * family), so a lookup walks at most 32 (IPv4) or 128 (IPv6) bits instead of
+ * testing every prefix in the dataset.
+ */
+
+export type IpFamily = 4 | 6;
+
+export interface ParsedPrefix {
+  family: IpFamily;
+  bytes: Uint8Array;
+  prefixLength: number;
+}
+
+export interface PrefixMatch<T> {
+  value: T;
+  prefixLength: number;
+}
+
+export interface PrefixOverlap<T> extends PrefixMatch<T> {
+  relationship: PrefixRelationship;
+  addressCount: number;
+}
+
+interface TrieNode<T> {
+  bytes: Uint8Array;
+  prefixLength: number;
+  entries: T[];
+  children: [TrieNode<T> | null, TrieNode<T> | null];
+}
+
+const IPV4_BITS = 32;
+const IPV6_BITS = 128;
+
+function parseIpv4Bytes(address: string): Uint8Array | null {
+  const parts = address.split('.');
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  const bytes = new Uint8Array(4);
+  for (let index = 0; index < 4; index += 1) {
+    const part = parts[index];
+    if (!/^\d{1,3}$/.test(part)) {
+      return null;
+    }
+    const value = Number(part);
+    if (value > 255) {
+      return null;
+    }
+    bytes[index] = value;
+  }
+  return bytes;
+}
+
+function parseIpv6Groups(section: string): number[] | null {
+  if (!section) {
+    return [];
+  }
+
+  const groups: number[] = [];
+  const parts = section.split(':');
+  for (let index = 0; index < parts.length; index += 1) {
+    const part = parts[index];
+    if (!/^[0-9a-fA-F]{1,4}$/.test(part)) {
+      return null;
+    }
+    groups.push(parseInt(part, 16));
+  }
+  return groups;
+}
+
+function parseIpv6Bytes(address: string): Uint8Array | null {
+  const halves = address.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const head = parseIpv6Groups(halves[0]);
+  const tail = halves.length === 2 ? parseIpv6Groups(halves[1]) : [];
+  if (!head || !tail) {
+    return null;
+  }
+
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) {
+    return null;
+  }
+
+  const groups = head.concat(new Array(missing).fill(0), tail);
+  const bytes = new Uint8Array(16);
+  for (let index = 0; index < 8; index += 1) {
+    bytes[index * 2] = groups[index] >> 8;
+    bytes[index * 2 + 1] = groups[index] & 0xff;
+  }
+  return bytes;
+}
+
+function getBit(bytes: Uint8Array, position: number): 0 | 1 {
+  return ((bytes[position >> 3] >> (7 - (position & 7))) & 1) as 0 | 1;
+}
+
+export function maskBytes(bytes: Uint8Array, prefixLength: number): Uint8Array {
+  const masked = new Uint8Array(bytes.length);
+  const fullBytes = prefixLength >> 3;
+  for (let index = 0; index < fullBytes; index += 1) {
+    masked[index] = bytes[index];
+  }
+  const remainingBits = prefixLength & 7;
+  if (remainingBits > 0) {
+    masked[fullBytes] = bytes[fullBytes] & (0xff << (8 - remainingBits));
+  }
+  return masked;
+}
+
+/**
+ * Number of leading bits (from `start`, up to `limit`) that two addresses share
+ */
+export function commonPrefixLength(a: Uint8Array, b: Uint8Array, start: number, limit: number): number {
+  let position = start;
+  while (position < limit && getBit(a, position) === getBit(b, position)) {
+    position += 1;
+  }
+  return position;
+}
+
+/**
+ * Parse an IPv4/IPv6 address or CIDR prefix into its network bytes.
+ * Addresses without a prefix length are treated as host prefixes (/32, /128).
+ * IPv4-mapped IPv6 addresses (::ffff:1.2.3.4) are parsed as IPv4, like ip-cidr does.
+ */
+export function parseIpPrefix(input: string): ParsedPrefix | null {
+  const [rawAddress, rawPrefix, ...rest] = input.trim().split('/');
+  if (rest.length > 0 || !rawAddress) {
+    return null;
+  }
+
+  let address = rawAddress;
+  if (address.includes(':') && address.includes('.')) {
+    address = address.slice(address.lastIndexOf(':') + 1);
+  }
+
+  const family: IpFamily = address.includes(':') ? 6 : 4;
+  const maxBits = family === 4 ? IPV4_BITS : IPV6_BITS;
+  const bytes = family === 4 ? parseIpv4Bytes(address) : parseIpv6Bytes(address);
+  if (!bytes) {
+    return null;
+  }
+
+  let prefixLength = maxBits;
+  if (rawPrefix !== undefined) {
+    if (!/^\d{1,3}$/.test(rawPrefix)) {
+      return null;
+    }
+    prefixLength = Number(rawPrefix);
+    if (prefixLength > maxBits) {
+      return null;
+    }
+  }
+
+  return { family, bytes: maskBytes(bytes, prefixLength), prefixLength };
+}
+
+/**
+ * Format address bytes as text. IPv6 uses the compressed form (RFC 5952).
+ */
+export function formatIpAddress(family: IpFamily, bytes: Uint8Array): string {
+  if (family === 4) {
+    return Array.from(bytes).join('.');
+  }
+
+  const groups: number[] = [];
+  for (let index = 0; index < 16; index += 2) {
+    groups.push((bytes[index] << 8) | bytes[index + 1]);
+  }
+
+  // Longest run of two or more zero groups is replaced by "::"
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let index = 0; index < 8; ) {
+    if (groups[index] !== 0) {
+      index += 1;
+      continue;
+    }
+    let end = index;
+    while (end < 8 && groups[end] === 0) end += 1;
+    if (end - index > bestLength) {
+      bestStart = index;
+      bestLength = end - index;
+    }
+    index = end;
+  }
+
+  const hex = groups.map(group => group.toString(16));
+  return bestStart === -1
+    ? hex.join(':')
+    : `${hex.slice(0, bestStart).join(':')}::${hex.slice(bestStart + bestLength).join(':')}`;
+}
+
+/**
+ * Format a parsed prefix as CIDR text
+ */
+export function formatIpPrefix(prefix: ParsedPrefix): string {
+  return `${formatIpAddress(prefix.family, prefix.bytes)}/${prefix.prefixLength}`;
+}
+
+function createNode<T>(bytes: Uint8Array, prefixLength: number): TrieNode<T> {
+  return { bytes, prefixLength, entries: [], children: [null, null] };
+}
+
+export class IpPrefixIndex<T> {
+  private readonly roots: Record<IpFamily, TrieNode<T>>;
+  private count: number;
+
+  constructor() {
+    this.roots = {
+      4: createNode<T>(new Uint8Array(4), 0),
+      6: createNode<T>(new Uint8Array(16), 0)
+    };
+    this.count = 0;
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Add a value under a CIDR prefix. Returns false when the prefix cannot be parsed.
+   */
+  insert(prefix: string, value: T): boolean {
+    const parsed = parseIpPrefix(prefix);
+    if (!parsed) {
+      return false;
+    }
+
+    const { bytes, prefixLength } = parsed;
+    let node = this.roots[parsed.family];
+
+    while (node.prefixLength < prefixLength) {
+      const bit = getBit(bytes, node.prefixLength);
+      const child = node.children[bit];
+
+      if (!child) {
+        node = node.children[bit] = createNode<T>(bytes, prefixLength);
+        break;
+      }
+
+      const limit = Math.min(prefixLength, child.prefixLength);
+      const common = commonPrefixLength(bytes, child.bytes, node.prefixLength + 1, limit);
+
+      if (common === child.prefixLength) {
+        // The child is an ancestor of (or equal to) the new prefix
+        node = child;
+        continue;
+      }
+
+      // Split the edge: the new prefix or a shared ancestor sits between node and child
+      const intermediate = createNode<T>(maskBytes(bytes, common), common);
+      intermediate.children[getBit(child.bytes, common)] = child;
+      node.children[bit] = intermediate;
+
+      if (common === prefixLength) {
+        node = intermediate;
+      } else {
+        node = intermediate.children[getBit(bytes, common)] = createNode<T>(bytes, prefixLength);
+      }
+      break;
+    }
+
+    node.entries.push(value);
+    this.count += 1;
+    return true;
+  }
+
+  /**
+   * Return every value whose prefix contains the given address or CIDR range,
+   * ordered from least to most specific prefix.
+   */
+  lookup(address: string): PrefixMatch<T>[] {
+    const parsed = parseIpPrefix(address);
+    if (!parsed) {
+      return [];
+    }
+
+    const { bytes, prefixLength } = parsed;
+    const matches: PrefixMatch<T>[] = [];
+    let node: TrieNode<T> | null = this.roots[parsed.family];
+    let checked = 0;
+
+    while (node && node.prefixLength <= prefixLength) {
+      if (commonPrefixLength(bytes, node.bytes, checked, node.prefixLength) !== node.prefixLength) {
+        break;
+      }
+      checked = node.prefixLength;
+
+      for (let index = 0; index < node.entries.length; index += 1) {
+        matches.push({ value: node.entries[index], prefixLength: node.prefixLength });
+      }
+
+      if (node.prefixLength === prefixLength) {
+        break;
+      }
+      node = node.children[getBit(bytes, node.prefixLength)];
+    }
+
+    return matches;
+  }
+
+  /**
+   * Return every value whose prefix overlaps the given CIDR range: prefixes containing
+   * the range (least specific first), followed by the range itself and prefixes inside it.
+   */
+  findOverlapping(range: string): PrefixOverlap<T>[] {
+    const parsed = parseIpPrefix(range);
+    if (!parsed) {
+      return [];
+    }
+
+    const { bytes, prefixLength } = parsed;
+    const totalBits = parsed.family === 4 ? IPV4_BITS : IPV6_BITS;
+    const overlaps: PrefixOverlap<T>[] = [];
+    let node: TrieNode<T> | null = this.roots[parsed.family];
+    let checked = 0;
+
+    const addEntries = (current: TrieNode<T>, relationship: PrefixRelationship) => {
+      const addressCount = Math.pow(2, totalBits - Math.max(current.prefixLength, prefixLength));
+      for (let index = 0; index < current.entries.length; index += 1) {
+        overlaps.push({ value: current.entries[index], prefixLength: current.prefixLength, relationship, addressCount });
+      }
+    };
+
+    while (node) {
+      const limit = Math.min(node.prefixLength, prefixLength);
+      if (commonPrefixLength(bytes, node.bytes, checked, limit) !== limit) {
+        break;
+      }
+
+      if (node.prefixLength >= prefixLength) {
+        // This node and its whole subtree lie inside the queried range
+        const pending: TrieNode<T>[] = [node];
+        while (pending.length > 0) {
+          const current = pending.pop() as TrieNode<T>;
+          addEntries(current, current.prefixLength === prefixLength ? 'equal' : 'within');
+          if (current.children[1]) pending.push(current.children[1]);
+          if (current.children[0]) pending.push(current.children[0]);
+        }
+        break;
+      }
+
+      checked = node.prefixLength;
+      addEntries(node, 'contains');
+      node = node.children[getBit(bytes, node.prefixLength)];
+    }
+
+    return overlaps;
+  }
+}
@@ -1,6 +1,8 @@
 import path from 'path';
 import { promises as fs } from 'fs';
-import { AzureFileMetadata } from '../types/azure';
+import { AzureCloudName, AzureFileMetadata, AzureServiceTagsRoot } from '../types/azure';
+import { AZURE_CLOUDS } from './azureClouds';
+import { CloudIpData, buildCloudIpData } from './ipLookup';
 
 // Directory paths - using single source of truth in public directory
 const PROJECT_ROOT = process.cwd();
@@ -17,4 +19,35 @@ export async function getFileMetadata(): Promise<AzureFileMetadata[]> {
   } catch (error) {
     throw new Error(`Failed to load file metadata: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
-}
\ No newline at end of file
+}
+
+// Service tag files only change on deploy, so parsed data lives for the server process
+const cloudIpDataCache = new Map<AzureCloudName, Promise<CloudIpData>>();
+
+async function readCloudIpData(cloud: AzureCloudName): Promise<CloudIpData> {
+  const fileContent = await fs.readFile(path.join(DATA_DIR, `${cloud}.json`), 'utf8');
+  return buildCloudIpData(cloud, JSON.parse(fileContent) as AzureServiceTagsRoot);
+}
+
+/**
+ * Load the indexed service tag data for one cloud, or all clouds when none is given
+ */
+export async function loadCloudIpData(cloud?: AzureCloudName): Promise<CloudIpData[]> {
+  const clouds = cloud ? [cloud] : AZURE_CLOUDS;
+  try {
+    return await Promise.all(
+      clouds.map((name) => {
+        let pending = cloudIpDataCache.get(name);
+        if (!pending) {
+          pending = readCloudIpData(name);
+          cloudIpDataCache.set(name, pending);
+          // Let the next request retry instead of caching the failure
+          pending.catch(() => cloudIpDataCache.delete(name));
+        }
+        return pending;
+      })
+    );
+  } catch (error) {
+    throw new Error(`Failed to load Azure IP data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
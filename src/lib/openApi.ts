@@ -0,0 +1,246 @@
+import { API_SCHEMAS, ApiSchemaName, DEFAULT_PAGE_LIMIT, JsonSchema, MAX_PAGE_LIMIT, schemaRef } from './apiSchemas';
+import { DNS_RESOLVER_KINDS } from '../types/api';
+import { AZURE_CLOUDS } from './azureClouds';
+
+/**
+ * OpenAPI 3.1 description of the API routes, served at /api/openapi.json and rendered
+ * on the /api-docs page. Schemas come from apiSchemas so the document, the route
+ * types and the client share one definition.
+ */
+
+export type HttpMethod = 'get' | 'post';
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'query' | 'path' | 'header';
+  required?: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+export interface OpenApiResponse {
+  description: string;
+  content?: {
+    'application/json': { schema: JsonSchema };
+  };
+}
+
+export interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  parameters?: OpenApiParameter[];
+  requestBody?: {
+    required: boolean;
+    content: {
+      'application/json': { schema: JsonSchema };
+    };
+  };
+  responses: Record<string, OpenApiResponse>;
+}
+
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: {
+    title: string;
+    version: string;
+    description: string;
+  };
+  paths: Record<string, Partial<Record<HttpMethod, OpenApiOperation>>>;
+  components: {
+    schemas: Record<ApiSchemaName, JsonSchema>;
+  };
+}
+
+function jsonResponse(description: string, schema: ApiSchemaName): OpenApiResponse {
+  return {
+    description,
+    content: { 'application/json': { schema: schemaRef(schema) } }
+  };
+}
+
+const cloudParameter: OpenApiParameter = {
+  name: 'cloud',
+  in: 'query',
+  description: 'Limit the query to one cloud; all clouds are searched when omitted',
+  schema: { type: 'string', enum: AZURE_CLOUDS }
+};
+
+const pageParameters: OpenApiParameter[] = [
+  {
+    name: 'limit',
+    in: 'query',
+    description: `Results per page, at most ${MAX_PAGE_LIMIT}; \`total\` in the response counts all of them`,
+    schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_LIMIT, default: DEFAULT_PAGE_LIMIT }
+  },
+  {
+    name: 'offset',
+    in: 'query',
+    description: 'Number of results to skip',
+    schema: { type: 'integer', minimum: 0, default: 0 }
+  }
+];
+
+const ifNoneMatchParameter: OpenApiParameter = {
+  name: 'If-None-Match',
+  in: 'header',
+  description: 'ETag of a previous response; answered with 304 while the data is unchanged',
+  schema: { type: 'string' }
+};
+
+const resolverParameter: OpenApiParameter = {
+  name: 'resolver',
+  in: 'query',
+  description: 'Resolver backend; defaults to the DNS_RESOLVER setting. `fixture` (an in-memory test zone) is only accepted when it is the configured resolver.',
+  schema: { type: 'string', enum: DNS_RESOLVER_KINDS }
+};
+
+// Responses shared by every /api/v1 route
+const v1Responses: Record<string, OpenApiResponse> = {
+  '304': { description: 'Not modified since the ETag sent in If-None-Match' },
+  '400': jsonResponse('Invalid query', 'ErrorResponse'),
+  '405': jsonResponse('Method not allowed', 'ErrorResponse'),
+  '429': jsonResponse('Rate limit exceeded; see Retry-After', 'ErrorResponse'),
+  '500': jsonResponse('Service tag data could not be loaded', 'ErrorResponse')
+};
+
+export function buildOpenApiDocument(): OpenApiDocument {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Azure Hub API',
+      version: '1.0.0',
+      description:
+        'Azure service tag lookups, DNS resolution and Microsoft Entra tenant discovery. Requests are rate limited per client and endpoint and report their quota in X-RateLimit-* headers. Cross-origin requests are only allowed from configured origins.'
+    },
+    paths: {
+      '/api/v1/ip/{address}': {
+        get: {
+          operationId: 'lookupIp',
+          summary: 'Find the service tags containing an address',
+          description:
+            'Returns every Azure prefix containing an IPv4 or IPv6 address. For a CIDR range (e.g. /api/v1/ip/20.38.0.0/16) every overlapping prefix is returned with its relationship to the range.',
+          tags: ['Service tags'],
+          parameters: [
+            { name: 'address', in: 'path', required: true, schema: { type: 'string', example: '20.38.98.100' } },
+            cloudParameter,
+            ...pageParameters,
+            ifNoneMatchParameter
+          ],
+          responses: { '200': jsonResponse('Matching prefixes', 'IpLookupResponse'), ...v1Responses }
+        }
+      },
+      '/api/v1/servicetags': {
+        get: {
+          operationId: 'listServiceTags',
+          summary: 'List service tags',
+          tags: ['Service tags'],
+          parameters: [cloudParameter, ifNoneMatchParameter],
+          responses: { '200': jsonResponse('Service tags of the requested clouds', 'ServiceTagListResponse'), ...v1Responses }
+        }
+      },
+      '/api/v1/servicetags/{name}': {
+        get: {
+          operationId: 'getServiceTag',
+          summary: 'Get the prefixes of a service tag',
+          tags: ['Service tags'],
+          parameters: [
+            { name: 'name', in: 'path', required: true, schema: { type: 'string', example: 'Storage.WestEurope' } },
+            cloudParameter,
+            ifNoneMatchParameter
+          ],
+          responses: {
+            '200': jsonResponse('Prefixes of the service tag', 'ServiceTagResponse'),
+            '404': jsonResponse('Service tag not found', 'ErrorResponse'),
+            ...v1Responses
+          }
+        }
+      },
+      '/api/v1/search': {
+        get: {
+          operationId: 'searchIpRanges',
+          summary: 'Search prefixes by region and/or service',
+          description: 'At least one of region and service is required. Matching ignores case, spaces and dashes.',
+          tags: ['Service tags'],
+          parameters: [
+            { name: 'region', in: 'query', schema: { type: 'string', example: 'westeurope' } },
+            { name: 'service', in: 'query', schema: { type: 'string', example: 'Storage' } },
+            cloudParameter,
+            ...pageParameters,
+            ifNoneMatchParameter
+          ],
+          responses: { '200': jsonResponse('Matching prefixes', 'SearchResponse'), ...v1Responses }
+        }
+      },
+      '/api/dnsLookup': {
+        get: {
+          operationId: 'lookupDns',
+          summary: 'Resolve a hostname to its IP addresses',
+          description:
+            'Returns each CNAME hop and the final A/AAAA records, labelled with the Azure service each name implies (Traffic Manager, Front Door, Private Link, ...). For services that support Private Link, `privateLink` names the private DNS zone and record the resource needs.',
+          tags: ['DNS'],
+          parameters: [
+            { name: 'hostname', in: 'query', required: true, schema: { type: 'string', example: 'myapp.azurewebsites.net' } },
+            resolverParameter
+          ],
+          responses: {
+            '200': jsonResponse('Resolved addresses', 'DnsLookupResponse'),
+            '400': jsonResponse('Missing or invalid hostname, or unknown resolver', 'DnsLookupResponse'),
+            '404': jsonResponse('No A or AAAA records', 'DnsLookupResponse'),
+            '405': jsonResponse('Method not allowed', 'ErrorResponse'),
+            '429': jsonResponse('Rate limit exceeded; see Retry-After', 'ErrorResponse'),
+            '500': jsonResponse('Resolution failed', 'ErrorResponse')
+          }
+        }
+      },
+      '/api/reverseLookup': {
+        get: {
+          operationId: 'lookupReverseDns',
+          summary: 'Find the PTR hostnames and service tags of an address',
+          description:
+            'Returns the PTR records of an IPv4 or IPv6 address with the A/AAAA records each hostname resolves to, so `forwardConfirmed` shows whether the PTR can be trusted. PTR hostnames are labelled with the Azure service they imply (e.g. *.cloudapp.azure.com for a public IP DNS label), and `serviceTags` lists the most specific service tag prefixes containing the address.',
+          tags: ['DNS'],
+          parameters: [
+            { name: 'ip', in: 'query', required: true, schema: { type: 'string', example: '20.61.15.7' } },
+            cloudParameter,
+            resolverParameter,
+            ifNoneMatchParameter
+          ],
+          responses: {
+            '200': jsonResponse('PTR records and matching service tags', 'ReverseLookupResponse'),
+            '304': v1Responses['304'],
+            '400': jsonResponse('Invalid address, cloud or resolver', 'ErrorResponse'),
+            '405': v1Responses['405'],
+            '429': v1Responses['429'],
+            '500': v1Responses['500'],
+            '502': jsonResponse('Reverse DNS lookup failed', 'ErrorResponse')
+          }
+        }
+      },
+      '/api/tenantLookup': {
+        post: {
+          operationId: 'lookupTenant',
+          summary: 'Find the Microsoft Entra tenant of a domain',
+          description: 'GET with a `domain` query parameter is also accepted.',
+          tags: ['Identity'],
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: schemaRef('TenantLookupRequest') } }
+          },
+          responses: {
+            '200': jsonResponse('Tenant found', 'TenantLookupResponse'),
+            '400': jsonResponse('Invalid domain', 'ErrorResponse'),
+            '404': jsonResponse('No tenant for the domain', 'ErrorResponse'),
+            '405': jsonResponse('Method not allowed', 'ErrorResponse'),
+            '429': jsonResponse('Rate limit exceeded; see Retry-After', 'ErrorResponse'),
+            '500': jsonResponse('Lookup failed', 'ErrorResponse')
+          }
+        }
+      }
+    },
+    components: {
+      schemas: API_SCHEMAS
+    }
+  };
+}
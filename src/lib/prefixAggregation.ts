@@ -0,0 +1,329 @@
+import {
+  IpFamily,
+  ParsedPrefix,
+  commonPrefixLength,
+  formatIpPrefix,
+  maskBytes,
+  parseIpPrefix
+} from './ipPrefixIndex';
+
+/**
+ * Collapse lists of CIDR prefixes into fewer, larger ones.
+ *
+ * - Exact aggregation returns the minimal set of CIDRs covering exactly the same
+ *   addresses (duplicates and nested prefixes removed, adjacent siblings merged).
+ * - Lossy summarization repeatedly replaces neighbouring prefixes with their common
+ *   supernet until at most `maxPrefixes` remain in total, always picking the
+ *   supernet that adds the fewest addresses that were not in the input. The limit is
+ *   split evenly between IPv4 and IPv6, unless one of them needs less than half.
+ */
+
+export type AggregationMode = 'exact' | 'lossy';
+
+export interface AddressCounts {
+  ipv4: number;
+  ipv6: number;
+}
+
+export interface AggregationResult {
+  mode: AggregationMode;
+  prefixes: string[];
+  inputCount: number;
+  invalid: string[];
+  // Addresses covered by the output that were not covered by the input (0 for exact)
+  extraAddresses: AddressCounts;
+}
+
+interface WorkingPrefix extends ParsedPrefix {
+  // Number of addresses in the block that come from the input
+  covered: number;
+}
+
+const FAMILY_BITS: Record<IpFamily, number> = { 4: 32, 6: 128 };
+
+function blockSize(prefix: ParsedPrefix): number {
+  return Math.pow(2, FAMILY_BITS[prefix.family] - prefix.prefixLength);
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  for (let index = 0; index < a.length; index += 1) {
+    if (a[index] !== b[index]) {
+      return a[index] - b[index];
+    }
+  }
+  return 0;
+}
+
+function contains(outer: ParsedPrefix, inner: ParsedPrefix): boolean {
+  return outer.prefixLength <= inner.prefixLength &&
+    commonPrefixLength(outer.bytes, inner.bytes, 0, outer.prefixLength) === outer.prefixLength;
+}
+
+/**
+ * Smallest prefix containing both blocks
+ */
+function supernet(a: ParsedPrefix, b: ParsedPrefix): ParsedPrefix {
+  const limit = Math.min(a.prefixLength, b.prefixLength);
+  const length = commonPrefixLength(a.bytes, b.bytes, 0, limit);
+  return { family: a.family, bytes: maskBytes(a.bytes, length), prefixLength: length };
+}
+
+/**
+ * Sort, drop nested prefixes and merge sibling pairs until nothing changes.
+ * Input prefixes must all belong to the same family.
+ */
+function aggregateFamily(prefixes: ParsedPrefix[]): WorkingPrefix[] {
+  const sorted = prefixes
+    .slice()
+    .sort((a, b) => compareBytes(a.bytes, b.bytes) || a.prefixLength - b.prefixLength);
+  const stack: WorkingPrefix[] = [];
+
+  for (const prefix of sorted) {
+    // Stack entries are disjoint and ordered, so only the top can contain the next prefix
+    const top = stack[stack.length - 1];
+    if (top && contains(top, prefix)) {
+      continue;
+    }
+
+    stack.push({ ...prefix, covered: blockSize(prefix) });
+
+    while (stack.length >= 2) {
+      const right = stack[stack.length - 1];
+      const left = stack[stack.length - 2];
+      const parent = supernet(left, right);
+      if (left.prefixLength !== right.prefixLength || parent.prefixLength !== left.prefixLength - 1) {
+        break;
+      }
+      stack.splice(stack.length - 2, 2, { ...parent, covered: left.covered + right.covered });
+    }
+  }
+
+  return stack;
+}
+
+interface SummaryNode {
+  prefix: ParsedPrefix;
+  // Input addresses under the node, and the addresses its current blocks cover
+  covered: number;
+  current: number;
+  blockCount: number;
+  children: SummaryNode[];
+  parent: SummaryNode | null;
+  collapsed: boolean;
+  removed: boolean;
+}
+
+function createSummaryNode(prefix: ParsedPrefix): SummaryNode {
+  return { prefix, covered: 0, current: 0, blockCount: 0, children: [], parent: null, collapsed: false, removed: false };
+}
+
+function attachChild(parent: SummaryNode, child: SummaryNode): void {
+  child.parent = parent;
+  parent.children.push(child);
+}
+
+/**
+ * Build the tree of branch points above the (sorted, disjoint) blocks: every internal
+ * node is the smallest supernet of two neighbouring blocks.
+ */
+function buildSummaryTree(blocks: WorkingPrefix[]): { root: SummaryNode; internal: SummaryNode[] } {
+  const internal: SummaryNode[] = [];
+  const stack: SummaryNode[] = [];
+  let previous: WorkingPrefix | null = null;
+
+  for (const block of blocks) {
+    const leaf = createSummaryNode(block);
+    leaf.covered = block.covered;
+    leaf.current = blockSize(block);
+    leaf.blockCount = 1;
+
+    if (previous) {
+      const branch = supernet(previous, block);
+      let popped: SummaryNode | null = null;
+      while (stack.length > 0 && stack[stack.length - 1].prefix.prefixLength > branch.prefixLength) {
+        const node = stack.pop() as SummaryNode;
+        if (popped) attachChild(node, popped);
+        popped = node;
+      }
+
+      const top = stack[stack.length - 1];
+      if (top && top.prefix.prefixLength === branch.prefixLength) {
+        attachChild(top, popped as SummaryNode);
+      } else {
+        const node = createSummaryNode(branch);
+        attachChild(node, popped as SummaryNode);
+        internal.push(node);
+        stack.push(node);
+      }
+    }
+
+    stack.push(leaf);
+    previous = block;
+  }
+
+  while (stack.length > 1) {
+    const child = stack.pop() as SummaryNode;
+    attachChild(stack[stack.length - 1], child);
+  }
+
+  // Walking a pre-order listing backwards visits every child before its parent
+  const ordered: SummaryNode[] = [];
+  const pending: SummaryNode[] = [stack[0]];
+  while (pending.length > 0) {
+    const node = pending.pop() as SummaryNode;
+    if (node.children.length === 0) continue;
+    ordered.push(node);
+    pending.push(...node.children);
+  }
+  for (let index = ordered.length - 1; index >= 0; index -= 1) {
+    const node = ordered[index];
+    for (const child of node.children) {
+      node.covered += child.covered;
+      node.current += child.current;
+      node.blockCount += child.blockCount;
+    }
+  }
+
+  return { root: stack[0], internal };
+}
+
+function markRemoved(node: SummaryNode): void {
+  const pending = node.children.slice();
+  while (pending.length > 0) {
+    const current = pending.pop() as SummaryNode;
+    current.removed = true;
+    pending.push(...current.children);
+  }
+}
+
+function collectBlocks(root: SummaryNode): WorkingPrefix[] {
+  const blocks: WorkingPrefix[] = [];
+  const pending: SummaryNode[] = [root];
+  while (pending.length > 0) {
+    const node = pending.pop() as SummaryNode;
+    if (node.collapsed || node.children.length === 0) {
+      blocks.push({ ...node.prefix, covered: node.covered });
+      continue;
+    }
+    for (let index = node.children.length - 1; index >= 0; index -= 1) {
+      pending.push(node.children[index]);
+    }
+  }
+  return blocks;
+}
+
+function summarizeFamily(blocks: WorkingPrefix[], limit: number): WorkingPrefix[] {
+  if (blocks.length <= limit) {
+    return blocks;
+  }
+
+  const { root, internal } = buildSummaryTree(blocks);
+
+  while (root.blockCount > limit) {
+    // Collapse the branch point that adds the fewest new addresses (ties: removes the most blocks)
+    let best: SummaryNode | null = null;
+    let bestExtra = Infinity;
+    for (const node of internal) {
+      if (node.collapsed || node.removed) continue;
+      const extra = blockSize(node.prefix) - node.current;
+      if (extra < bestExtra || (extra === bestExtra && best && node.blockCount > best.blockCount)) {
+        best = node;
+        bestExtra = extra;
+      }
+    }
+    if (!best) break;
+
+    const reduction = best.blockCount - 1;
+    best.collapsed = true;
+    best.current = blockSize(best.prefix);
+    best.blockCount = 1;
+    markRemoved(best);
+
+    for (let ancestor = best.parent; ancestor; ancestor = ancestor.parent) {
+      ancestor.current += bestExtra;
+      ancestor.blockCount -= reduction;
+    }
+  }
+
+  return collectBlocks(root);
+}
+
+function parseAll(prefixes: string[]): { ipv4: ParsedPrefix[]; ipv6: ParsedPrefix[]; invalid: string[]; inputCount: number } {
+  const ipv4: ParsedPrefix[] = [];
+  const ipv6: ParsedPrefix[] = [];
+  const invalid: string[] = [];
+  const seen = new Set<string>();
+
+  for (const prefix of prefixes) {
+    const parsed = parseIpPrefix(prefix);
+    if (!parsed) {
+      invalid.push(prefix);
+      continue;
+    }
+
+    const key = formatIpPrefix(parsed);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    (parsed.family === 4 ? ipv4 : ipv6).push(parsed);
+  }
+
+  return { ipv4, ipv6, invalid, inputCount: seen.size };
+}
+
+function extraAddresses(blocks: WorkingPrefix[]): number {
+  return blocks.reduce((sum, block) => sum + (blockSize(block) - block.covered), 0);
+}
+
+/**
+ * Minimal set of CIDRs covering exactly the input addresses. IPv4 prefixes are listed before IPv6.
+ */
+export function aggregatePrefixes(prefixes: string[]): AggregationResult {
+  const { ipv4, ipv6, invalid, inputCount } = parseAll(prefixes);
+  const blocks = aggregateFamily(ipv4).concat(aggregateFamily(ipv6));
+
+  return {
+    mode: 'exact',
+    prefixes: blocks.map(formatIpPrefix),
+    inputCount,
+    invalid,
+    extraAddresses: { ipv4: 0, ipv6: 0 }
+  };
+}
+
+/**
+ * Share of the prefix budget for each family: half each, with whatever one family does
+ * not need going to the other. A family with any prefixes keeps at least one, as IPv4
+ * and IPv6 cannot share a CIDR.
+ */
+function splitPrefixBudget(ipv4Count: number, ipv6Count: number, maxPrefixes: number): [number, number] {
+  const total = Math.max(Math.floor(maxPrefixes), Number(ipv4Count > 0) + Number(ipv6Count > 0), 1);
+  if (ipv4Count + ipv6Count <= total) return [ipv4Count, ipv6Count];
+  if (ipv6Count === 0) return [total, 0];
+  if (ipv4Count === 0) return [0, total];
+
+  const half = Math.floor(total / 2);
+  if (ipv4Count <= half) return [ipv4Count, total - ipv4Count];
+  if (ipv6Count <= half) return [total - ipv6Count, ipv6Count];
+  return [total - half, half];
+}
+
+/**
+ * Summarize to at most `maxPrefixes` CIDRs across both address families, reporting how
+ * many addresses outside the input the summary would include.
+ */
+export function summarizePrefixes(prefixes: string[], maxPrefixes: number): AggregationResult {
+  const { ipv4, ipv6, invalid, inputCount } = parseAll(prefixes);
+  const ipv4Exact = aggregateFamily(ipv4);
+  const ipv6Exact = aggregateFamily(ipv6);
+  const [ipv4Limit, ipv6Limit] = splitPrefixBudget(ipv4Exact.length, ipv6Exact.length, maxPrefixes);
+  const ipv4Blocks = summarizeFamily(ipv4Exact, ipv4Limit);
+  const ipv6Blocks = summarizeFamily(ipv6Exact, ipv6Limit);
+
+  return {
+    mode: 'lossy',
+    prefixes: ipv4Blocks.concat(ipv6Blocks).map(formatIpPrefix),
+    inputCount,
+    invalid,
+    extraAddresses: { ipv4: extraAddresses(ipv4Blocks), ipv6: extraAddresses(ipv6Blocks) }
+  };
+}
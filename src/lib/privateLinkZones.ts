@@ -0,0 +1,319 @@
+import { AzureCloudName } from '../types/azure';
+import type { DnsChainRecord, PrivateLinkAssessment } from '../types/api';
+import { parseIpPrefix } from './ipPrefixIndex';
+
+/**
+ * Private DNS zones used by Azure Private Link, per resource type and cloud. A public
+ * name such as mystorage.blob.core.windows.net is CNAMEd to
+ * mystorage.privatelink.blob.core.windows.net once the resource has a private endpoint;
+ * clients only get the private address when a private DNS zone of that name (with an A
+ * record for the resource) is linked to their VNet.
+ */
+
+export interface PrivateLinkZoneNames {
+  publicSuffix: string;
+  privateZone: string;
+}
+
+export interface PrivateLinkZone {
+  label: string;
+  resourceType: string;
+  subresource: string;
+  zones: Partial<Record<AzureCloudName, PrivateLinkZoneNames>>;
+}
+
+function zoneNames(publicSuffix: string, privateZone = `privatelink.${publicSuffix}`): PrivateLinkZoneNames {
+  return { publicSuffix, privateZone };
+}
+
+export const PRIVATE_LINK_ZONES: PrivateLinkZone[] = [
+  {
+    label: 'Storage account (Blob)',
+    resourceType: 'Microsoft.Storage/storageAccounts',
+    subresource: 'blob',
+    zones: {
+      [AzureCloudName.AzureCloud]: zoneNames('blob.core.windows.net'),
+      [AzureCloudName.AzureUSGovernment]: zoneNames('blob.core.usgovcloudapi.net'),
+      [AzureCloudName.AzureChinaCloud]: zoneNames('blob.core.chinacloudapi.cn')
+    }
+  },
+  {
+    label: 'Storage account (Data Lake)',
+    resourceType: 'Microsoft.Storage/storageAccounts',
+    subresource: 'dfs',
+    zones: {
+      [AzureCloudName.AzureCloud]: zoneNames('dfs.core.windows.net'),
+      [AzureCloudName.AzureUSGovernment]: zoneNames('dfs.core.usgovcloudapi.net'),
+      [AzureCloudName.AzureChinaCloud]: zoneNames('dfs.core.chinacloudapi.cn')
+    }
+  },
+  {
+    label: 'Storage account (Files)',
+    resourceType: 'Microsoft.Storage/storageAccounts',
+    subresource: 'file',
+    zones: {
+      [AzureCloudName.AzureCloud]: zoneNames('file.core.windows.net'),
+      [AzureCloudName.AzureUSGovernment]: zoneNames('file.core.usgovcloudapi.net'),
+      [AzureCloudName.AzureChinaCloud]: zoneNames('file.core.chinacloudapi.cn')
+    }
+  },
+  {
+    label: 'Storage account (Queue)',
+    resourceType: 'Microsoft.Storage/storageAccounts',
+    subresource: 'queue',
+    zones: {
+      [AzureCloudName.AzureCloud]: zoneNames('queue.core.windows.net'),
+      [AzureCloudName.AzureUSGovernment]: zoneNames('queue.core.usgovcloudapi.net'),
+      [AzureCloudName.AzureChinaCloud]: zoneNames('queue.core.chinacloudapi.cn')
+    }
+  },
+  {
+    label: 'Storage account (Table)',
+    resourceType: 'Microsoft.Storage/storageAccounts',
+    subresource: 'table',
+    zones: {
+      [AzureCloudName.AzureCloud]: zoneNames('table.core.windows.net'),
+      [AzureCloudName.AzureUSGovernment]: zoneNames('table.core.usgovcloudapi.net'),
+      [AzureCloudName.AzureChinaCloud]: zoneNames('table.core.chinacloudapi.cn')
+    }
+  },
+  {
+    label: 'Storage account (static website)',
+    resourceType: 'Microsoft.Storage/storageAccounts',
+    subresource: 'web',
+    zones: {
+      [AzureCloudName.AzureCloud]: zoneNames('web.core.windows.net'),
+      [AzureCloudName.AzureUSGovernment]: zoneNames('web.core.usgovcloudapi.net'),
+      [AzureCloudName.AzureChinaCloud]: zoneNames('web.core.chinacloudapi.cn')
+    }
+  },
+  {
+    label: 'Azure SQL Database',
+    resourceType: 'Microsoft.Sql/servers',
+    subresource: 'sqlServer',
+    zones: {
+      [AzureCloudName.AzureCloud]: zoneNames('database.windows.net'),
+      [AzureCloudName.AzureUSGovernment]: zoneNames('database.usgovcloudapi.net'),
+      [AzureCloudName.AzureChinaCloud]: zoneNames('database.chinacloudapi.cn')
+    }
+  },
+  {
+    label: 'Azure Database for PostgreSQL',
+    resourceType: 'Microsoft.DBforPostgreSQL/flexibleServers',
+    subresource: 'postgresqlServer',
+    zones: {
+      [AzureCloudName.AzureCloud]: zoneNames('postgres.database.azure.com'),
+      [AzureCloudName.AzureUSGovernment]: zoneNames('postgres.database.usgovcloudapi.net'),
+      [AzureCloudName.AzureChinaCloud]: zoneNames('postgres.database.chinacloudapi.cn')
+    }
+  },
+  {
+    label: 'Azure Database for MySQL',
+    resourceType: 'Microsoft.DBforMySQL/flexibleServers',
+    subresource: 'mysqlServer',
+    zones: {
+      [AzureCloudName.AzureCloud]: zoneNames('mysql.database.azure.com'),
+      [AzureCloudName.AzureUSGovernment]: zoneNames('mysql.database.usgovcloudapi.net'),
+      [AzureCloudName.AzureChinaCloud]: zoneNames('mysql.database.chinacloudapi.cn')
+    }
+  },
+  {
+    label: 'Cosmos DB (NoSQL)',
+    resourceType: 'Microsoft.DocumentDB/databaseAccounts',
+    subresource: 'Sql',
+    zones: {
+      [AzureCloudName.AzureCloud]: zoneNames('documents.azure.com'),
+      [AzureCloudName.AzureUSGovernment]: zoneNames('documents.azure.us'),
+      [AzureCloudName.AzureChinaCloud]: zoneNames('documents.azure.cn')
+    }
+  },
+  {
+    label: 'Key Vault',
+    resourceType: 'Microsoft.KeyVault/vaults',
+    subresource: 'vault',
+    zones: {
+      [AzureCloudName.AzureCloud]: zoneNames('vault.azure.net', 'privatelink.vaultcore.azure.net'),
+      [AzureCloudName.AzureUSGovernment]: zoneNames('vault.usgovcloudapi.net', 'privatelink.vaultcore.usgovcloudapi.net'),
+      [AzureCloudName.AzureChinaCloud]: zoneNames('vault.azure.cn', 'privatelink.vaultcore.azure.cn')
+    }
+  },
+  {
+    label: 'App Service / Functions',
+    resourceType: 'Microsoft.Web/sites',
+    subresource: 'sites',
+    zones: {
+      [AzureCloudName.AzureCloud]: zoneNames('azurewebsites.net'),
+      [AzureCloudName.AzureUSGovernment]: zoneNames('azurewebsites.us'),
+      [AzureCloudName.AzureChinaCloud]: zoneNames('chinacloudsites.cn')
+    }
+  },
+  {
+    label: 'Container Registry',
+    resourceType: 'Microsoft.ContainerRegistry/registries',
+    subresource: 'registry',
+    zones: {
+      [AzureCloudName.AzureCloud]: zoneNames('azurecr.io'),
+      [AzureCloudName.AzureUSGovernment]: zoneNames('azurecr.us'),
+      [AzureCloudName.AzureChinaCloud]: zoneNames('azurecr.cn')
+    }
+  },
+  {
+    label: 'Service Bus / Event Hubs',
+    resourceType: 'Microsoft.ServiceBus/namespaces',
+    subresource: 'namespace',
+    zones: {
+      [AzureCloudName.AzureCloud]: zoneNames('servicebus.windows.net'),
+      [AzureCloudName.AzureUSGovernment]: zoneNames('servicebus.usgovcloudapi.net'),
+      [AzureCloudName.AzureChinaCloud]: zoneNames('servicebus.chinacloudapi.cn')
+    }
+  },
+  {
+    label: 'Event Grid',
+    resourceType: 'Microsoft.EventGrid/topics',
+    subresource: 'topic',
+    zones: {
+      [AzureCloudName.AzureCloud]: zoneNames('eventgrid.azure.net'),
+      [AzureCloudName.AzureUSGovernment]: zoneNames('eventgrid.azure.us'),
+      [AzureCloudName.AzureChinaCloud]: zoneNames('eventgrid.azure.cn')
+    }
+  },
+  {
+    label: 'Azure Cache for Redis',
+    resourceType: 'Microsoft.Cache/Redis',
+    subresource: 'redisCache',
+    zones: {
+      [AzureCloudName.AzureCloud]: zoneNames('redis.cache.windows.net'),
+      [AzureCloudName.AzureUSGovernment]: zoneNames('redis.cache.usgovcloudapi.net'),
+      [AzureCloudName.AzureChinaCloud]: zoneNames('redis.cache.chinacloudapi.cn')
+    }
+  },
+  {
+    label: 'AI Search',
+    resourceType: 'Microsoft.Search/searchServices',
+    subresource: 'searchService',
+    zones: {
+      [AzureCloudName.AzureCloud]: zoneNames('search.windows.net'),
+      [AzureCloudName.AzureUSGovernment]: zoneNames('search.azure.us'),
+      [AzureCloudName.AzureChinaCloud]: zoneNames('search.azure.cn')
+    }
+  },
+  {
+    label: 'Azure OpenAI',
+    resourceType: 'Microsoft.CognitiveServices/accounts',
+    subresource: 'account',
+    zones: {
+      [AzureCloudName.AzureCloud]: zoneNames('openai.azure.com'),
+      [AzureCloudName.AzureUSGovernment]: zoneNames('openai.azure.us')
+    }
+  },
+  {
+    label: 'Azure AI services',
+    resourceType: 'Microsoft.CognitiveServices/accounts',
+    subresource: 'account',
+    zones: {
+      [AzureCloudName.AzureCloud]: zoneNames('cognitiveservices.azure.com'),
+      [AzureCloudName.AzureUSGovernment]: zoneNames('cognitiveservices.azure.us'),
+      [AzureCloudName.AzureChinaCloud]: zoneNames('cognitiveservices.azure.cn')
+    }
+  },
+  {
+    label: 'API Management',
+    resourceType: 'Microsoft.ApiManagement/service',
+    subresource: 'Gateway',
+    zones: {
+      [AzureCloudName.AzureCloud]: zoneNames('azure-api.net'),
+      [AzureCloudName.AzureUSGovernment]: zoneNames('azure-api.us'),
+      [AzureCloudName.AzureChinaCloud]: zoneNames('azure-api.cn')
+    }
+  }
+];
+
+interface ZoneMatch {
+  zone: PrivateLinkZone;
+  cloud: AzureCloudName;
+  names: PrivateLinkZoneNames;
+  recordName: string;
+}
+
+function stripSuffix(hostname: string, suffix: string): string | null {
+  return hostname.endsWith(`.${suffix}`) ? hostname.slice(0, -(suffix.length + 1)) : null;
+}
+
+/**
+ * Catalogue entry for a public or privatelink name, with the record name the resource
+ * gets inside the private zone (e.g. "mystorage")
+ */
+export function findPrivateLinkZone(hostname: string): ZoneMatch | null {
+  const normalized = hostname.trim().toLowerCase().replace(/\.$/, '');
+  for (const zone of PRIVATE_LINK_ZONES) {
+    for (const cloud of Object.keys(zone.zones) as AzureCloudName[]) {
+      const names = zone.zones[cloud];
+      if (!names) {
+        continue;
+      }
+      const recordName = stripSuffix(normalized, names.privateZone) ?? stripSuffix(normalized, names.publicSuffix);
+      if (recordName && !recordName.endsWith('.privatelink')) {
+        return { zone, cloud, names, recordName };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * RFC 1918, shared address space (100.64.0.0/10) and IPv6 unique local addresses
+ */
+export function isPrivateAddress(address: string): boolean {
+  const parsed = parseIpPrefix(address);
+  if (!parsed) {
+    return false;
+  }
+  const first = parsed.bytes[0];
+  const second = parsed.bytes[1];
+  if (parsed.family === 6) {
+    return (first & 0xfe) === 0xfc;
+  }
+  return (
+    first === 10 ||
+    (first === 172 && second >= 16 && second <= 31) ||
+    (first === 192 && second === 168) ||
+    (first === 100 && second >= 64 && second <= 127)
+  );
+}
+
+/**
+ * Private Link status of a resolved hostname: which private DNS zone and record the
+ * resource needs, whether the public name already points into privatelink, and
+ * whether this resolver answered with the private or the public address. Custom
+ * domains are matched through the first Azure name in their CNAME chain.
+ */
+export function assessPrivateLink(hostname: string, chain: DnsChainRecord[]): PrivateLinkAssessment | null {
+  const candidates = [hostname, ...chain.filter((record) => record.type === 'CNAME').map((record) => record.value)];
+  let match: ZoneMatch | null = null;
+  for (const candidate of candidates) {
+    match = findPrivateLinkZone(candidate);
+    if (match) {
+      break;
+    }
+  }
+  if (!match) {
+    return null;
+  }
+
+  const privateZoneSuffix = `.${match.names.privateZone}`;
+  const privateLinkCname = chain.find(
+    (record) => record.type === 'CNAME' && record.value.toLowerCase().replace(/\.$/, '').endsWith(privateZoneSuffix)
+  );
+  const addresses = chain.filter((record) => record.type !== 'CNAME').map((record) => record.value);
+
+  return {
+    resource: match.zone.label,
+    resourceType: match.zone.resourceType,
+    subresource: match.zone.subresource,
+    cloud: match.cloud,
+    privateZone: match.names.privateZone,
+    recordName: match.recordName,
+    privateLinkCname: privateLinkCname?.value.replace(/\.$/, ''),
+    answer: addresses.length === 0 ? 'none' : addresses.some(isPrivateAddress) ? 'private' : 'public'
+  };
+}
@@ -0,0 +1,139 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createHash } from 'crypto';
+import { AzureCloudName } from '../types/azure';
+import { ApiChangeNumbers, ApiErrorResponse, ApiPage } from '../types/api';
+import { DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT } from './apiSchemas';
+import { parseCloudName } from './azureClouds';
+import type { ApiMiddlewareOptions } from './apiMiddleware';
+import { CloudIpData } from './ipLookup';
+
+/**
+ * Shared plumbing for the /api/v1 routes and /api/reverseLookup: query parsing, error
+ * responses and conditional GETs. Bodies are hashed into a strong ETag, so a client
+ * sending If-None-Match gets a 304 until the service tag data (or its query) changes.
+ * Method checks and rate limiting come from withApiMiddleware with PUBLIC_API_OPTIONS.
+ * Routes that can return thousands of prefixes are paged with `limit` and `offset`.
+ */
+
+export const PUBLIC_API_OPTIONS: ApiMiddlewareOptions = {
+  methods: ['GET', 'HEAD'],
+  errorMessage: 'Unable to load Azure service tag data. Try again later.'
+};
+
+export type ApiResult<T> = { status: 200; body: T } | { status: 400 | 404 | 502; error: string };
+
+export class InvalidCloudError extends Error {
+  constructor(value: string) {
+    super(`Unknown cloud "${value}". Use AzureCloud, AzureUSGovernment or AzureChinaCloud.`);
+    this.name = 'InvalidCloudError';
+  }
+}
+
+export class InvalidPageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidPageError';
+  }
+}
+
+/**
+ * First value of a query parameter, trimmed; undefined when missing or blank
+ */
+export function getQueryValue(value: string | string[] | undefined): string | undefined {
+  const raw = Array.isArray(value) ? value[0] : value;
+  const trimmed = raw?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+/**
+ * Optional `cloud` query parameter. Unknown names throw InvalidCloudError rather than
+ * silently widening the query to every cloud.
+ */
+export function getCloudParam(req: NextApiRequest): AzureCloudName | undefined {
+  const value = getQueryValue(req.query.cloud);
+  if (!value) {
+    return undefined;
+  }
+  const cloud = parseCloudName(value);
+  if (!cloud) {
+    throw new InvalidCloudError(value);
+  }
+  return cloud;
+}
+
+function getIntegerParam(req: NextApiRequest, name: string, fallback: number, min: number, max: number): number {
+  const value = getQueryValue(req.query[name]);
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!/^\d+$/.test(value) || parsed < min || parsed > max) {
+    throw new InvalidPageError(
+      max === Number.MAX_SAFE_INTEGER
+        ? `${name} must be a whole number of at least ${min}.`
+        : `${name} must be a whole number from ${min} to ${max}.`
+    );
+  }
+  return parsed;
+}
+
+/**
+ * One page of `items` from the optional `limit` (DEFAULT_PAGE_LIMIT, at most
+ * MAX_PAGE_LIMIT) and `offset` query parameters. Invalid values throw InvalidPageError.
+ */
+export function paginate<T>(req: NextApiRequest, items: T[]): ApiPage & { items: T[] } {
+  const limit = getIntegerParam(req, 'limit', DEFAULT_PAGE_LIMIT, 1, MAX_PAGE_LIMIT);
+  const offset = getIntegerParam(req, 'offset', 0, 0, Number.MAX_SAFE_INTEGER);
+  return { total: items.length, limit, offset, items: items.slice(offset, offset + limit) };
+}
+
+export function getChangeNumbers(entries: CloudIpData[]): ApiChangeNumbers {
+  const changeNumbers: ApiChangeNumbers = {};
+  entries.forEach((entry) => {
+    changeNumbers[entry.cloud] = entry.changeNumber;
+  });
+  return changeNumbers;
+}
+
+function matchesEtag(header: string | undefined, etag: string): boolean {
+  if (!header) {
+    return false;
+  }
+  return header.split(',').some((value) => {
+    const candidate = value.trim();
+    return candidate === '*' || candidate.replace(/^W\//, '') === etag;
+  });
+}
+
+export async function handleApiRequest<T>(
+  req: NextApiRequest,
+  res: NextApiResponse<T | ApiErrorResponse>,
+  build: () => Promise<ApiResult<T>>
+) {
+  try {
+    const result = await build();
+    if (result.status !== 200) {
+      res.status(result.status).json({ error: result.error });
+      return;
+    }
+
+    const payload = JSON.stringify(result.body);
+    const etag = `"${createHash('sha1').update(payload).digest('hex')}"`;
+    res.setHeader('ETag', etag);
+    res.setHeader('Cache-Control', 'public, max-age=0, must-revalidate');
+
+    if (matchesEtag(req.headers['if-none-match'], etag)) {
+      res.status(304).end();
+      return;
+    }
+
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.status(200).end(req.method === 'HEAD' ? undefined : payload);
+  } catch (error) {
+    if (error instanceof InvalidCloudError || error instanceof InvalidPageError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+}
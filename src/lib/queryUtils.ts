@@ -6,6 +6,7 @@ export interface QueryParams {
   ipOrDomain?: string;
   region?: string;
   service?: string;
+  cloud?: string;
   page?: number;
   pageSize?: number | 'all';
 }
@@ -29,6 +30,10 @@ export function buildQueryString(params: QueryParams): string {
     urlParams.append('service', params.service);
   }
 
+  if (params.cloud) {
+    urlParams.append('cloud', params.cloud);
+  }
+
   if (params.page && params.page > 1) {
     urlParams.append('page', params.page.toString());
   }
@@ -93,7 +93,20 @@ class RateLimiter {
 const RATE_LIMIT_REQUESTS = parseInt(process.env.RATE_LIMIT_REQUESTS || '10', 10);
 const RATE_LIMIT_WINDOW_MS = parseInt(process.env.RATE_LIMIT_WINDOW_MS || '60000', 10);
 
-const rateLimiter = new RateLimiter(RATE_LIMIT_REQUESTS, RATE_LIMIT_WINDOW_MS);
+export interface RateLimitOptions {
+  requests?: number; // Requests allowed per window, RATE_LIMIT_REQUESTS by default
+  windowMs?: number; // Window length, RATE_LIMIT_WINDOW_MS by default
+}
+
+/**
+ * A limiter with its own buckets, so each API route counts a client's requests separately
+ */
+export function createRateLimiter({
+  requests = RATE_LIMIT_REQUESTS,
+  windowMs = RATE_LIMIT_WINDOW_MS
+}: RateLimitOptions = {}): RateLimiter {
+  return new RateLimiter(requests, windowMs);
+}
 
 export function getClientIdentifier(req: { headers: Record<string, string | string[] | undefined> }): string {
   const forwarded = req.headers['x-forwarded-for'];
@@ -103,11 +116,3 @@ export function getClientIdentifier(req: { headers: Record<string, string | stri
 
   return typeof ip === 'string' ? ip : 'unknown';
 }
-
-export function checkRateLimit(identifier: string): RateLimitResult {
-  return rateLimiter.check(identifier);
-}
-
-export function resetRateLimit(identifier: string): void {
-  rateLimiter.reset(identifier);
-}
@@ -0,0 +1,380 @@
+import { AzureIpAddress } from '@/types/azure';
+import { parseIpPrefix } from './ipPrefixIndex';
+import { aggregatePrefixes } from './prefixAggregation';
+
+/**
+ * Turn service tag results into concrete rule definitions for NSGs, Azure Firewall
+ * and appliances that do not understand service tags.
+ */
+
+export type RuleArtifactFormat = 'nsg-arm' | 'nsg-bicep' | 'firewall-ipgroups' | 'iptables' | 'nftables' | 'paloalto';
+
+export interface RuleArtifactFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const RULE_ARTIFACT_FORMATS: Record<RuleArtifactFormat, RuleArtifactFormatInfo> = {
+  'nsg-arm': { label: 'NSG rules (ARM)', extension: 'json', mimeType: 'application/json' },
+  'nsg-bicep': { label: 'NSG rules (Bicep)', extension: 'bicep', mimeType: 'text/plain' },
+  'firewall-ipgroups': { label: 'Azure Firewall IP Groups (ARM)', extension: 'json', mimeType: 'application/json' },
+  iptables: { label: 'iptables script', extension: 'sh', mimeType: 'text/x-shellscript' },
+  nftables: { label: 'nftables sets', extension: 'nft', mimeType: 'text/plain' },
+  paloalto: { label: 'Palo Alto address objects', extension: 'txt', mimeType: 'text/plain' }
+};
+
+// Azure limits: address prefixes across the rules of one NSG, entries per Firewall IP Group.
+// Larger selections are split over several NSGs / IP Groups.
+export const NSG_RULE_PREFIX_LIMIT = 4000;
+export const FIREWALL_IP_GROUP_PREFIX_LIMIT = 5000;
+
+const NETWORK_API_VERSION = '2023-09-01';
+const NSG_BASE_PRIORITY = 100;
+const NSG_PRIORITY_STEP = 10;
+
+interface PrefixSet {
+  ipv4: string[];
+  ipv6: string[];
+  serviceTags: string[];
+}
+
+/**
+ * Aggregated prefixes split by address family. Results often overlap (AzureCloud and
+ * AzureCloud.westeurope), and nested prefixes waste NSG capacity and make nftables
+ * reject interval sets, so they are merged into the minimal covering set first.
+ * NSG rules cannot mix IPv4 and IPv6 prefixes, and IP Groups only accept IPv4.
+ */
+function collectPrefixes(results: AzureIpAddress[]): PrefixSet {
+  const serviceTags = new Set<string>();
+  results.forEach((result) => {
+    if (result.serviceTagId) serviceTags.add(result.serviceTagId);
+  });
+
+  const { prefixes } = aggregatePrefixes(results.map((result) => result.ipAddressPrefix));
+  return {
+    ipv4: prefixes.filter((prefix) => parseIpPrefix(prefix)?.family === 4),
+    ipv6: prefixes.filter((prefix) => parseIpPrefix(prefix)?.family === 6),
+    serviceTags: Array.from(serviceTags).sort()
+  };
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+}
+
+/**
+ * Resource-name friendly identifier derived from the query (letters, digits and dashes)
+ */
+function toResourceName(query: string): string {
+  const name = query.replace(/[^a-z0-9]+/gi, '-').replace(/^-+|-+$/g, '');
+  return (name || 'azure-ranges').slice(0, 60);
+}
+
+function describeSource(prefixes: PrefixSet, query: string): string {
+  if (prefixes.serviceTags.length === 0) return query;
+  if (prefixes.serviceTags.length <= 3) return prefixes.serviceTags.join(', ');
+  return `${prefixes.serviceTags.slice(0, 3).join(', ')} and ${prefixes.serviceTags.length - 3} more`;
+}
+
+interface NsgRuleDefinition {
+  name: string;
+  nsgIndex: number; // Which of the target NSGs the rule belongs to
+  priority: number;
+  description: string;
+  prefixes: string[];
+}
+
+/**
+ * Rules packed into as many NSGs as the prefix limit requires. Each NSG is filled to
+ * NSG_RULE_PREFIX_LIMIT prefixes before the next one is started, IPv4 first.
+ */
+function buildNsgRules(prefixes: PrefixSet, query: string): NsgRuleDefinition[] {
+  const baseName = toResourceName(query);
+  const description = `Allow outbound to ${describeSource(prefixes, query)}`.slice(0, 140);
+  const families = [
+    { family: 'IPv4', items: prefixes.ipv4 },
+    { family: 'IPv6', items: prefixes.ipv6 }
+  ];
+
+  const rules: NsgRuleDefinition[] = [];
+  let nsgIndex = 0;
+  let nsgPrefixCount = 0;
+  let nsgRuleCount = 0;
+
+  for (const { family, items } of families) {
+    const familyRules: NsgRuleDefinition[] = [];
+    for (let offset = 0; offset < items.length; ) {
+      if (nsgPrefixCount === NSG_RULE_PREFIX_LIMIT) {
+        nsgIndex += 1;
+        nsgPrefixCount = 0;
+        nsgRuleCount = 0;
+      }
+      const size = Math.min(NSG_RULE_PREFIX_LIMIT - nsgPrefixCount, items.length - offset);
+      familyRules.push({
+        name: '',
+        nsgIndex,
+        priority: NSG_BASE_PRIORITY + nsgRuleCount * NSG_PRIORITY_STEP,
+        description,
+        prefixes: items.slice(offset, offset + size)
+      });
+      offset += size;
+      nsgPrefixCount += size;
+      nsgRuleCount += 1;
+    }
+
+    familyRules.forEach((rule, index) => {
+      rule.name = `Allow-${baseName}-${family}${familyRules.length > 1 ? `-${index + 1}` : ''}`.slice(0, 80);
+    });
+    rules.push(...familyRules);
+  }
+  return rules;
+}
+
+function countNsgs(rules: NsgRuleDefinition[]): number {
+  return rules.length === 0 ? 1 : rules[rules.length - 1].nsgIndex + 1;
+}
+
+function nsgRuleProperties(rule: NsgRuleDefinition) {
+  return {
+    description: rule.description,
+    protocol: '*',
+    sourcePortRange: '*',
+    destinationPortRange: '*',
+    sourceAddressPrefix: 'VirtualNetwork',
+    destinationAddressPrefixes: rule.prefixes,
+    access: 'Allow',
+    priority: rule.priority,
+    direction: 'Outbound'
+  };
+}
+
+function describeNsgNames(nsgCount: number): string {
+  return `Names of ${nsgCount} existing network security groups to add the rules to; ` +
+    `Azure allows ${NSG_RULE_PREFIX_LIMIT} address prefixes per NSG, so the rules are spread across them`;
+}
+
+function generateNsgArm(prefixes: PrefixSet, query: string): string {
+  const rules = buildNsgRules(prefixes, query);
+  const nsgCount = countNsgs(rules);
+  const parameters = nsgCount === 1
+    ? {
+      nsgName: {
+        type: 'string',
+        metadata: { description: 'Name of the existing network security group to add the rules to' }
+      }
+    }
+    : {
+      nsgNames: {
+        type: 'array',
+        minLength: nsgCount,
+        metadata: { description: describeNsgNames(nsgCount) }
+      }
+    };
+  const nsgNameExpression = (rule: NsgRuleDefinition) =>
+    nsgCount === 1 ? 'parameters(\'nsgName\')' : `parameters('nsgNames')[${rule.nsgIndex}]`;
+
+  const template = {
+    $schema: 'https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#',
+    contentVersion: '1.0.0.0',
+    parameters,
+    resources: rules.map((rule) => ({
+      type: 'Microsoft.Network/networkSecurityGroups/securityRules',
+      apiVersion: NETWORK_API_VERSION,
+      name: `[format('{0}/{1}', ${nsgNameExpression(rule)}, '${rule.name}')]`,
+      properties: nsgRuleProperties(rule)
+    }))
+  };
+  return JSON.stringify(template, null, 2);
+}
+
+function bicepString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function generateNsgBicep(prefixes: PrefixSet, query: string): string {
+  const rules = buildNsgRules(prefixes, query);
+  const nsgCount = countNsgs(rules);
+  const nsgResource = `'Microsoft.Network/networkSecurityGroups@${NETWORK_API_VERSION}' existing`;
+  const lines: string[] = [];
+
+  if (nsgCount === 1) {
+    lines.push(
+      '@description(\'Name of the existing network security group to add the rules to\')',
+      'param nsgName string',
+      '',
+      `resource nsg ${nsgResource} = {`,
+      '  name: nsgName',
+      '}'
+    );
+  } else {
+    lines.push(`@description(${bicepString(describeNsgNames(nsgCount))})`, `@minLength(${nsgCount})`, 'param nsgNames string[]');
+    for (let index = 0; index < nsgCount; index += 1) {
+      lines.push('', `resource nsg${index + 1} ${nsgResource} = {`, `  name: nsgNames[${index}]`, '}');
+    }
+  }
+
+  rules.forEach((rule, index) => {
+    const properties = nsgRuleProperties(rule);
+    lines.push(
+      '',
+      `resource rule${index + 1} 'Microsoft.Network/networkSecurityGroups/securityRules@${NETWORK_API_VERSION}' = {`,
+      `  parent: ${nsgCount === 1 ? 'nsg' : `nsg${rule.nsgIndex + 1}`}`,
+      `  name: ${bicepString(rule.name)}`,
+      '  properties: {',
+      `    description: ${bicepString(properties.description)}`,
+      `    protocol: '${properties.protocol}'`,
+      `    sourcePortRange: '${properties.sourcePortRange}'`,
+      `    destinationPortRange: '${properties.destinationPortRange}'`,
+      `    sourceAddressPrefix: '${properties.sourceAddressPrefix}'`,
+      '    destinationAddressPrefixes: [',
+      ...rule.prefixes.map(prefix => `      '${prefix}'`),
+      '    ]',
+      `    access: '${properties.access}'`,
+      `    priority: ${properties.priority}`,
+      `    direction: '${properties.direction}'`,
+      '  }',
+      '}'
+    );
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * IP Groups only hold IPv4 entries, so IPv6 prefixes are left out and
+ * reported in the template metadata.
+ */
+function generateFirewallIpGroups(prefixes: PrefixSet, query: string): string {
+  const baseName = toResourceName(query);
+  const chunks = chunk(prefixes.ipv4, FIREWALL_IP_GROUP_PREFIX_LIMIT);
+  const template = {
+    $schema: 'https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#',
+    contentVersion: '1.0.0.0',
+    metadata: {
+      description: `IP Groups for ${describeSource(prefixes, query)}`,
+      ...(prefixes.ipv6.length > 0 ? { skippedIpv6Prefixes: prefixes.ipv6.length } : {})
+    },
+    parameters: {
+      location: {
+        type: 'string',
+        defaultValue: '[resourceGroup().location]'
+      }
+    },
+    resources: chunks.map((prefixChunk, index) => ({
+      type: 'Microsoft.Network/ipGroups',
+      apiVersion: NETWORK_API_VERSION,
+      name: `ipg-${baseName}${chunks.length > 1 ? `-${index + 1}` : ''}`.slice(0, 80),
+      location: '[parameters(\'location\')]',
+      properties: {
+        ipAddresses: prefixChunk
+      }
+    }))
+  };
+  return JSON.stringify(template, null, 2);
+}
+
+function generateIptables(prefixes: PrefixSet, query: string): string {
+  const chain = `AZ-${toResourceName(query).toUpperCase()}`.slice(0, 28);
+  const lines = [
+    '#!/bin/sh',
+    `# Allow outbound traffic to ${describeSource(prefixes, query)}`,
+    `# Jump to the chain from OUTPUT or FORWARD, e.g. iptables -A OUTPUT -j ${chain}`,
+    'set -e',
+    ''
+  ];
+
+  const families: Array<{ command: string; items: string[] }> = [
+    { command: 'iptables', items: prefixes.ipv4 },
+    { command: 'ip6tables', items: prefixes.ipv6 }
+  ];
+
+  for (const family of families) {
+    if (family.items.length === 0) continue;
+    lines.push(`${family.command} -N ${chain} 2>/dev/null || ${family.command} -F ${chain}`);
+    family.items.forEach(prefix => lines.push(`${family.command} -A ${chain} -d ${prefix} -j ACCEPT`));
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+function generateNftables(prefixes: PrefixSet, query: string): string {
+  const setName = toResourceName(query).toLowerCase().replace(/-/g, '_');
+  const lines = [
+    `# Sets for ${describeSource(prefixes, query)}`,
+    `# Reference them from a rule, e.g. ip daddr @${setName}_v4 accept`,
+    'table inet azure {'
+  ];
+
+  const families: Array<{ suffix: string; type: string; items: string[] }> = [
+    { suffix: 'v4', type: 'ipv4_addr', items: prefixes.ipv4 },
+    { suffix: 'v6', type: 'ipv6_addr', items: prefixes.ipv6 }
+  ];
+
+  for (const family of families) {
+    if (family.items.length === 0) continue;
+    lines.push(
+      `  set ${setName}_${family.suffix} {`,
+      `    type ${family.type}`,
+      '    flags interval',
+      // Merges overlapping elements instead of rejecting the set
+      '    auto-merge',
+      '    elements = {',
+      family.items.map(prefix => `      ${prefix}`).join(',\n'),
+      '    }',
+      '  }'
+    );
+  }
+
+  lines.push('}', '');
+  return lines.join('\n');
+}
+
+/**
+ * PAN-OS set commands: one ip-netmask address object per prefix plus a static address group
+ */
+function generatePaloAlto(prefixes: PrefixSet, query: string): string {
+  const baseName = toResourceName(query).slice(0, 40);
+  const lines = [`# Address objects for ${describeSource(prefixes, query)}`];
+  const objectNames: string[] = [];
+
+  for (const prefix of prefixes.ipv4.concat(prefixes.ipv6)) {
+    // Object names allow letters, digits, dot, dash and underscore (max 63 characters)
+    const objectName = `${baseName}_${prefix.replace(/[/:]/g, '_')}`.slice(0, 63);
+    objectNames.push(objectName);
+    lines.push(`set address ${objectName} ip-netmask ${prefix}`);
+  }
+
+  lines.push(`set address-group ${baseName} static [ ${objectNames.join(' ')} ]`, '');
+  return lines.join('\n');
+}
+
+export function generateRuleArtifact(format: RuleArtifactFormat, results: AzureIpAddress[], query: string): string {
+  const prefixes = collectPrefixes(results);
+
+  switch (format) {
+    case 'nsg-arm':
+      return generateNsgArm(prefixes, query);
+    case 'nsg-bicep':
+      return generateNsgBicep(prefixes, query);
+    case 'firewall-ipgroups':
+      return generateFirewallIpGroups(prefixes, query);
+    case 'iptables':
+      return generateIptables(prefixes, query);
+    case 'nftables':
+      return generateNftables(prefixes, query);
+    case 'paloalto':
+      return generatePaloAlto(prefixes, query);
+  }
+}
+
+export function generateRuleArtifactFilename(query: string, format: RuleArtifactFormat): string {
+  const sanitizedQuery = query.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+  const timestamp = new Date().toISOString().slice(0, 10);
+  return `azure-rules_${format}_${sanitizedQuery}_${timestamp}.${RULE_ARTIFACT_FORMATS[format].extension}`;
+}
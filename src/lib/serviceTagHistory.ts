@@ -0,0 +1,131 @@
+import {
+  AzureCloudName,
+  AzureDiffMetadata,
+  AzureServiceTagChange,
+  AzureServiceTagDiff,
+  AzureServiceTagHistoryEntry
+} from '../types/azure';
+import { parseIpPrefix } from './ipPrefixIndex';
+
+// Client-side cache
+let diffIndexCache: AzureDiffMetadata[] | null = null;
+let diffIndexExpiry = 0;
+const tagHistoryCache = new Map<string, { entries: AzureServiceTagHistoryEntry[]; expiry: number }>();
+const CACHE_TTL = 6 * 60 * 60 * 1000; // 6 hours in milliseconds
+
+/**
+ * Load the list of published diffs (generated by scripts/update-ip-data.ts)
+ */
+export async function getDiffIndex(): Promise<AzureDiffMetadata[]> {
+  const now = Date.now();
+
+  if (diffIndexCache && diffIndexExpiry > now) {
+    return diffIndexCache;
+  }
+
+  try {
+    const response = await fetch('/data/diffs/index.json');
+    if (!response.ok) {
+      throw new Error(`Failed to load change history: ${response.statusText}`);
+    }
+
+    diffIndexCache = (await response.json()) as AzureDiffMetadata[];
+    diffIndexExpiry = now + CACHE_TTL;
+    return diffIndexCache;
+  } catch (error) {
+    throw new Error(`Failed to load change history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Count IPv4 and IPv6 addresses covered by a list of prefixes
+ */
+export function countAddresses(prefixes: string[]): { ipv4: number; ipv6: number } {
+  const totals = { ipv4: 0, ipv6: 0 };
+  for (const prefix of prefixes) {
+    const parsed = parseIpPrefix(prefix);
+    if (!parsed) continue;
+
+    const size = Math.pow(2, parsed.bytes.length * 8 - parsed.prefixLength);
+    if (parsed.family === 4) {
+      totals.ipv4 += size;
+    } else {
+      totals.ipv6 += size;
+    }
+  }
+  return totals;
+}
+
+/**
+ * Path of a tag's history file under /data/diffs/; tag names are matched case-insensitively
+ */
+export function serviceTagHistoryFilename(serviceTag: string): string {
+  return `tags/${encodeURIComponent(serviceTag.toLowerCase())}.json`;
+}
+
+function buildHistoryEntry(diff: AzureServiceTagDiff, change: AzureServiceTagChange): AzureServiceTagHistoryEntry {
+  const added = countAddresses(change.prefixesAdded);
+  const removed = countAddresses(change.prefixesRemoved);
+
+  return {
+    cloud: diff.cloud,
+    date: diff.toDate,
+    fromChangeNumber: diff.fromChangeNumber,
+    toChangeNumber: diff.toChangeNumber,
+    previousTagChangeNumber: change.previousChangeNumber,
+    tagChangeNumber: change.changeNumber,
+    prefixesAdded: change.prefixesAdded,
+    prefixesRemoved: change.prefixesRemoved,
+    ipv4AddressDelta: added.ipv4 - removed.ipv4,
+    ipv6AddressDelta: added.ipv6 - removed.ipv6
+  };
+}
+
+/**
+ * Group every tag change in a set of diffs into per-tag timelines, newest release first,
+ * keyed by serviceTagHistoryFilename. Run at build time by scripts/service-tag-history.ts.
+ */
+export function buildServiceTagHistories(diffs: AzureServiceTagDiff[]): Map<string, AzureServiceTagHistoryEntry[]> {
+  const histories = new Map<string, AzureServiceTagHistoryEntry[]>();
+
+  for (const diff of diffs) {
+    for (const change of diff.changes) {
+      const filename = serviceTagHistoryFilename(change.name);
+      const entries = histories.get(filename) ?? [];
+      entries.push(buildHistoryEntry(diff, change));
+      histories.set(filename, entries);
+    }
+  }
+
+  histories.forEach(entries =>
+    entries.sort((a, b) => b.date.localeCompare(a.date) || b.toChangeNumber - a.toChangeNumber)
+  );
+  return histories;
+}
+
+/**
+ * Timeline of changes to a service tag, newest release first
+ */
+export async function getServiceTagHistory(serviceTag: string, cloud?: AzureCloudName): Promise<AzureServiceTagHistoryEntry[]> {
+  const filename = serviceTagHistoryFilename(serviceTag);
+  const now = Date.now();
+  const cached = tagHistoryCache.get(filename);
+  let entries: AzureServiceTagHistoryEntry[];
+
+  if (cached && cached.expiry > now) {
+    entries = cached.entries;
+  } else {
+    const response = await fetch(`/data/diffs/${filename}`);
+    // Tags that never changed since history started have no file
+    if (response.status === 404) {
+      entries = [];
+    } else if (!response.ok) {
+      throw new Error(`Failed to load change history: ${response.statusText}`);
+    } else {
+      entries = (await response.json()) as AzureServiceTagHistoryEntry[];
+    }
+    tagHistoryCache.set(filename, { entries, expiry: now + CACHE_TTL });
+  }
+
+  return entries.filter(entry => !cloud || entry.cloud === cloud);
+}
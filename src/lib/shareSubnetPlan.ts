@@ -1,42 +1,61 @@
-import type { LeafSubnet } from '@/lib/subnetCalculator';
+import type { IpVersion, LeafSubnet } from '@/lib/subnetCalculator';
+import { formatIpAddress, maxPrefixLength, normaliseNetwork, subnetAddressCount } from '@/lib/subnetCalculator';
+import { AzureSubnetRole, isAzureSubnetRole } from '@/lib/azureSubnetRules';
+import { WORKLOAD_KINDS, WorkloadKind, WorkloadProfile, isWorkloadKind } from '@/lib/workloadCapacity';
+
+// Longer links are cut off by some browsers, proxies and chat tools
+export const MAX_SHARE_URL_LENGTH = 2000;
+const MAX_COMMENT_LENGTH = 2000;
+
+// IPv4 addresses are stored as numbers, IPv6 addresses as hex strings (JSON has no bigint)
+type ShareableAddress = number | string;
 
 interface ShareableLeaf {
-  n: number;
+  n: ShareableAddress;
   p: number;
   c?: string;
   m?: string;
+  r?: AzureSubnetRole;
+  w?: WorkloadProfile;
 }
 
 export interface ShareableSubnetPlan {
   v: number;
-  net: number;
+  ip?: 6;
+  net: ShareableAddress;
   pre: number;
   az?: 1;
   leaves: ShareableLeaf[];
 }
 
 interface BuildSharePlanOptions {
-  baseNetwork: number;
+  baseNetwork: bigint;
   basePrefix: number;
+  version?: IpVersion;
   useAzureReservations: boolean;
   leaves: LeafSubnet[];
   rowColors: Record<string, string>;
   rowComments: Record<string, string>;
+  rowRoles?: Record<string, AzureSubnetRole>;
+  rowWorkloads?: Record<string, WorkloadProfile>;
 }
 
 export function buildShareableSubnetPlan({
   baseNetwork,
   basePrefix,
+  version = 4,
   useAzureReservations,
   leaves,
   rowColors,
-  rowComments
+  rowComments,
+  rowRoles = {},
+  rowWorkloads = {}
 }: BuildSharePlanOptions): ShareableSubnetPlan {
   const shareLeaves: ShareableLeaf[] = [...leaves]
-    .sort((a, b) => a.network - b.network)
+    .sort((a, b) => (a.network < b.network ? -1 : a.network > b.network ? 1 : 0))
     .map((leaf) => {
       const entry: ShareableLeaf = {
-        n: leaf.network,
+        n: encodeShareAddress(leaf.network, version),
         p: leaf.prefix
       };
       const color = rowColors[leaf.id];
@@ -47,18 +66,40 @@ export function buildShareableSubnetPlan({
       if (comment) {
         entry.m = comment;
       }
+      if (rowRoles[leaf.id]) {
+        entry.r = rowRoles[leaf.id];
+      }
+      if (rowWorkloads[leaf.id]) {
+        entry.w = rowWorkloads[leaf.id];
+      }
       return entry;
     });
 
   return {
     v: 1,
-    net: baseNetwork >>> 0,
+    ip: version === 6 ? 6 : undefined,
+    net: encodeShareAddress(baseNetwork, version),
     pre: basePrefix,
     az: useAzureReservations ? 1 : undefined,
     leaves: shareLeaves
   };
 }
 
+function encodeShareAddress(value: bigint, version: IpVersion): ShareableAddress {
+  return version === 6 ? value.toString(16) : Number(value);
+}
+
+export function decodeShareAddress(value: ShareableAddress): bigint {
+  return typeof value === 'string' ? BigInt(`0x${value}`) : BigInt(value);
+}
+
+function isValidShareAddress(value: unknown, version: IpVersion): value is ShareableAddress {
+  if (version === 6) {
+    return typeof value === 'string' && /^[0-9a-f]{1,32}$/.test(value);
+  }
+  return typeof value === 'number' && Number.isInteger(value);
+}
+
 export function serialiseShareableSubnetPlan(plan: ShareableSubnetPlan): string {
   const json = JSON.stringify(plan);
   return encodeBase64Url(json);
@@ -66,62 +107,475 @@ export function serialiseShareableSubnetPlan(plan: ShareableSubnetPlan): string
 
 export function parseShareableSubnetPlan(encoded: string): ShareableSubnetPlan | null {
   try {
-    const json = decodeBase64Url(encoded);
-    const parsed = JSON.parse(json);
+    return normaliseSharePlan(JSON.parse(decodeBase64Url(encoded)));
+  } catch {
+    return null;
+  }
+}
 
-    if (!parsed || typeof parsed !== 'object') {
-      return null;
+function normaliseSharePlan(parsed: unknown): ShareableSubnetPlan | null {
+  if (!parsed || typeof parsed !== 'object') {
+    return null;
+  }
+
+  const { v, ip, net, pre, az, leaves } = parsed as ShareableSubnetPlan;
+  const version: IpVersion = ip === 6 ? 6 : 4;
+  if (v !== 1 || !isValidShareAddress(net, version) || typeof pre !== 'number' || !Array.isArray(leaves)) {
+    return null;
+  }
+
+  const cleanedLeaves: ShareableLeaf[] = [];
+  leaves.forEach((leaf) => {
+    if (!leaf || typeof leaf !== 'object') {
+      return;
+    }
+    const { n, p, c, m, r, w } = leaf as ShareableLeaf;
+    if (!isValidShareAddress(n, version) || typeof p !== 'number') {
+      return;
+    }
+    const entry: ShareableLeaf = {
+      n: typeof n === 'number' ? n >>> 0 : n,
+      p
+    };
+    if (typeof c === 'string' && /^#[0-9a-fA-F]{6}$/.test(c)) {
+      entry.c = c;
     }
+    if (typeof m === 'string' && m.trim().length > 0) {
+      entry.m = m.trim().slice(0, MAX_COMMENT_LENGTH);
+    }
+    if (isAzureSubnetRole(r)) {
+      entry.r = r;
+    }
+    const workload = normaliseWorkload(w);
+    if (workload) {
+      entry.w = workload;
+    }
+    cleanedLeaves.push(entry);
+  });
 
-    const { v, net, pre, az, leaves } = parsed as ShareableSubnetPlan;
-    if (v !== 1 || typeof net !== 'number' || typeof pre !== 'number' || !Array.isArray(leaves)) {
-      return null;
+  if (cleanedLeaves.length === 0) {
+    return null;
+  }
+
+  return {
+    v: 1,
+    ip: version === 6 ? 6 : undefined,
+    net: typeof net === 'number' ? net >>> 0 : net,
+    pre,
+    az: az === 1 ? 1 : undefined,
+    leaves: cleanedLeaves
+  };
+}
+
+function normaliseWorkload(value: unknown): WorkloadProfile | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const { kind, values } = value as WorkloadProfile;
+  if (!isWorkloadKind(kind)) {
+    return null;
+  }
+  const workload: WorkloadProfile = { kind, values: {} };
+  WORKLOAD_KINDS[kind].fields.forEach((field) => {
+    const fieldValue = values && typeof values === 'object' ? values[field.key] : undefined;
+    if (typeof fieldValue === 'number' && Number.isFinite(fieldValue) && fieldValue >= 0) {
+      workload.values[field.key] = Math.floor(fieldValue);
+    }
+  });
+  return workload;
+}
+
+/**
+ * Plan files are the v1 plan as readable JSON, for plans whose links are too long to share
+ */
+export function serialiseSubnetPlanFile(plan: ShareableSubnetPlan): string {
+  return JSON.stringify(plan, null, 2);
+}
+
+export function parseSubnetPlanFile(text: string): ShareableSubnetPlan | null {
+  try {
+    return normaliseSharePlan(JSON.parse(text));
+  } catch {
+    return null;
+  }
+}
+
+export function generateSubnetPlanFilename(plan: ShareableSubnetPlan): string {
+  const version: IpVersion = plan.ip === 6 ? 6 : 4;
+  const network = formatIpAddress(decodeShareAddress(plan.net), version).replace(/[:.]/g, '-');
+  return `subnet-plan-${network}-${plan.pre}.json`;
+}
+
+/*
+ * Compact (v2) links: "2." followed by base64url bytes
+ *
+ *   version (2) | flags | base prefix | base network (4 or 16 bytes, big-endian)
+ *   split tree: one bit per node in pre-order, 1 = split, 0 = leaf, padded to a byte
+ *   annotations (only with FLAG_ANNOTATIONS), deflate-raw compressed:
+ *     palette size, palette colours as RGB triplets,
+ *     per leaf a palette index (0 = no colour), then per leaf a UTF-8 comment length and bytes,
+ *     then (only when any leaf has a role or workload) per leaf a role code (0 = no role, see
+ *     COMPACT_ROLE_CODES), then (only when any leaf has one) per leaf a workload code (0 = none,
+ *     see COMPACT_WORKLOAD_CODES) followed by the values of that workload's fields
+ *
+ * All counts and lengths are unsigned LEB128 varints.
+ */
+
+const COMPACT_PREFIX = '2.';
+const COMPACT_VERSION = 2;
+const FLAG_IPV6 = 1;
+const FLAG_AZURE_RESERVATIONS = 2;
+const FLAG_ANNOTATIONS = 4;
+// Guards against crafted links that describe absurdly large trees
+const MAX_COMPACT_LEAVES = 65536;
+// Role code n is COMPACT_ROLE_CODES[n - 1]; only ever append to this list
+const COMPACT_ROLE_CODES: AzureSubnetRole[] = [
+  'GatewaySubnet',
+  'AzureFirewallSubnet',
+  'AzureFirewallManagementSubnet',
+  'AzureBastionSubnet',
+  'RouteServerSubnet',
+  'AppServiceIntegration',
+  'AksNodePool'
+];
+// Workload code n is COMPACT_WORKLOAD_CODES[n - 1]; fields follow WORKLOAD_KINDS order
+const COMPACT_WORKLOAD_CODES: WorkloadKind[] = ['aks-azure-cni', 'aks-cni-overlay', 'app-service', 'private-endpoints', 'vmss'];
+
+class ByteWriter {
+  private readonly bytes: number[] = [];
+
+  push(...values: number[]) {
+    values.forEach((value) => this.bytes.push(value & 0xff));
+  }
+
+  pushVarint(value: number) {
+    let remaining = value;
+    while (remaining >= 0x80) {
+      this.bytes.push((remaining & 0x7f) | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    this.bytes.push(remaining);
+  }
+
+  pushBytes(values: Uint8Array) {
+    values.forEach((value) => this.bytes.push(value));
+  }
+
+  toBytes(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+class ByteReader {
+  offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get remaining(): number {
+    return this.bytes.length - this.offset;
+  }
+
+  read(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new Error('Unexpected end of plan data');
+    }
+    const value = this.bytes[this.offset];
+    this.offset += 1;
+    return value;
+  }
+
+  readVarint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.read();
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) {
+        return value;
+      }
+      scale *= 0x80;
+      if (scale > 2 ** 35) {
+        throw new Error('Varint too long');
+      }
+    }
+  }
+
+  readBytes(length: number): Uint8Array {
+    if (length > this.remaining) {
+      throw new Error('Unexpected end of plan data');
+    }
+    const slice = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+}
+
+function addressByteLength(version: IpVersion): number {
+  return version === 6 ? 16 : 4;
+}
+
+function addressToBytes(value: bigint, version: IpVersion): number[] {
+  const length = addressByteLength(version);
+  const bytes: number[] = [];
+  for (let index = length - 1; index >= 0; index -= 1) {
+    bytes.push(Number((value >> BigInt(index * 8)) & BigInt(0xff)));
+  }
+  return bytes;
+}
+
+function bytesToAddress(bytes: Uint8Array): bigint {
+  let value = BigInt(0);
+  bytes.forEach((byte) => {
+    value = (value << BigInt(8)) | BigInt(byte);
+  });
+  return value;
+}
+
+async function transformBytes(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function encodeAnnotations(leaves: ShareableLeaf[]): Uint8Array | null {
+  const palette: string[] = [];
+  const colorIndexes = leaves.map((leaf) => {
+    const color = leaf.c?.toLowerCase();
+    if (!color || !/^#[0-9a-f]{6}$/.test(color)) {
+      return 0;
+    }
+    if (!palette.includes(color)) {
+      palette.push(color);
     }
+    return palette.indexOf(color) + 1;
+  });
+  const hasComments = leaves.some((leaf) => leaf.m);
+  const hasWorkloads = leaves.some((leaf) => leaf.w);
+  const hasRoles = hasWorkloads || leaves.some((leaf) => leaf.r);
+  if (palette.length === 0 && !hasComments && !hasRoles) {
+    return null;
+  }
 
-    const cleanedLeaves: ShareableLeaf[] = [];
+  const writer = new ByteWriter();
+  const encoder = new TextEncoder();
+  writer.pushVarint(palette.length);
+  palette.forEach((color) => {
+    writer.push(parseInt(color.slice(1, 3), 16), parseInt(color.slice(3, 5), 16), parseInt(color.slice(5, 7), 16));
+  });
+  colorIndexes.forEach((index) => writer.pushVarint(index));
+  leaves.forEach((leaf) => {
+    const comment = encoder.encode(leaf.m ?? '');
+    writer.pushVarint(comment.length);
+    writer.pushBytes(comment);
+  });
+  if (hasRoles) {
+    leaves.forEach((leaf) => writer.pushVarint(leaf.r ? COMPACT_ROLE_CODES.indexOf(leaf.r) + 1 : 0));
+  }
+  if (hasWorkloads) {
     leaves.forEach((leaf) => {
-      if (!leaf || typeof leaf !== 'object') {
+      const workload = leaf.w;
+      if (!workload) {
+        writer.pushVarint(0);
         return;
       }
-      const { n, p, c, m } = leaf as ShareableLeaf;
-      if (typeof n !== 'number' || typeof p !== 'number') {
-        return;
+      writer.pushVarint(COMPACT_WORKLOAD_CODES.indexOf(workload.kind) + 1);
+      WORKLOAD_KINDS[workload.kind].fields.forEach((field) => {
+        writer.pushVarint(Math.max(0, Math.floor(workload.values[field.key] ?? 0)));
+      });
+    });
+  }
+  return writer.toBytes();
+}
+
+function decodeAnnotations(bytes: Uint8Array, leaves: ShareableLeaf[]) {
+  const reader = new ByteReader(bytes);
+  const decoder = new TextDecoder();
+  const paletteSize = reader.readVarint();
+  const palette: string[] = [];
+  for (let index = 0; index < paletteSize; index += 1) {
+    const [red, green, blue] = Array.from(reader.readBytes(3));
+    palette.push(`#${[red, green, blue].map((channel) => channel.toString(16).padStart(2, '0')).join('')}`);
+  }
+  leaves.forEach((leaf) => {
+    const colorIndex = reader.readVarint();
+    if (colorIndex > paletteSize) {
+      throw new Error('Colour index out of range');
+    }
+    if (colorIndex > 0) {
+      leaf.c = palette[colorIndex - 1];
+    }
+  });
+  leaves.forEach((leaf) => {
+    const comment = decoder.decode(reader.readBytes(reader.readVarint())).trim();
+    if (comment) {
+      leaf.m = comment.slice(0, MAX_COMMENT_LENGTH);
+    }
+  });
+  if (reader.remaining > 0) {
+    leaves.forEach((leaf) => {
+      const role = COMPACT_ROLE_CODES[reader.readVarint() - 1];
+      if (role) {
+        leaf.r = role;
       }
-      const entry: ShareableLeaf = {
-        n: n >>> 0,
-        p
-      };
-      if (typeof c === 'string' && /^#[0-9a-fA-F]{6}$/.test(c)) {
-        entry.c = c;
+    });
+  }
+  if (reader.remaining > 0) {
+    leaves.forEach((leaf) => {
+      const code = reader.readVarint();
+      if (code === 0) {
+        return;
       }
-      if (typeof m === 'string' && m.trim().length > 0) {
-        entry.m = m.trim().slice(0, 2000);
+      const kind = COMPACT_WORKLOAD_CODES[code - 1];
+      if (!kind) {
+        throw new Error('Unknown workload code');
       }
-      cleanedLeaves.push(entry);
+      const workload: WorkloadProfile = { kind, values: {} };
+      WORKLOAD_KINDS[kind].fields.forEach((field) => {
+        workload.values[field.key] = reader.readVarint();
+      });
+      leaf.w = workload;
     });
+  }
+}
+
+/**
+ * Encode a plan as a compact v2 link parameter. Returns null when the leaves do not tile
+ * the base network exactly, which only happens for hand-edited plans; use the v1 encoding then.
+ */
+export async function serialiseCompactSubnetPlan(plan: ShareableSubnetPlan): Promise<string | null> {
+  const version: IpVersion = plan.ip === 6 ? 6 : 4;
+  const maxPrefix = maxPrefixLength(version);
+  const leaves = plan.leaves.map((leaf) => ({ network: decodeShareAddress(leaf.n), prefix: leaf.p }));
+
+  const treeBits: number[] = [];
+  let leafIndex = 0;
+  const writeNode = (network: bigint, prefix: number): boolean => {
+    const leaf = leaves[leafIndex];
+    if (!leaf) {
+      return false;
+    }
+    if (leaf.network === network && leaf.prefix === prefix) {
+      treeBits.push(0);
+      leafIndex += 1;
+      return true;
+    }
+    if (prefix >= maxPrefix || leaf.prefix <= prefix) {
+      return false;
+    }
+    treeBits.push(1);
+    const half = subnetAddressCount(prefix + 1, version);
+    return writeNode(network, prefix + 1) && writeNode(network + half, prefix + 1);
+  };
+  if (!writeNode(decodeShareAddress(plan.net), plan.pre) || leafIndex !== leaves.length) {
+    return null;
+  }
+
+  const annotations = encodeAnnotations(plan.leaves);
+  const writer = new ByteWriter();
+  writer.push(
+    COMPACT_VERSION,
+    (version === 6 ? FLAG_IPV6 : 0) | (plan.az ? FLAG_AZURE_RESERVATIONS : 0) | (annotations ? FLAG_ANNOTATIONS : 0),
+    plan.pre,
+    ...addressToBytes(decodeShareAddress(plan.net), version)
+  );
+  for (let index = 0; index < treeBits.length; index += 8) {
+    let byte = 0;
+    for (let bit = 0; bit < 8; bit += 1) {
+      byte = (byte << 1) | (treeBits[index + bit] ?? 0);
+    }
+    writer.push(byte);
+  }
+  if (annotations) {
+    writer.pushBytes(await transformBytes(annotations, new CompressionStream('deflate-raw')));
+  }
 
-    if (cleanedLeaves.length === 0) {
+  return `${COMPACT_PREFIX}${encodeBase64UrlBytes(writer.toBytes())}`;
+}
+
+async function parseCompactSubnetPlan(encoded: string): Promise<ShareableSubnetPlan | null> {
+  try {
+    const reader = new ByteReader(decodeBase64UrlBytes(encoded.slice(COMPACT_PREFIX.length)));
+    if (reader.read() !== COMPACT_VERSION) {
+      return null;
+    }
+    const flags = reader.read();
+    const version: IpVersion = flags & FLAG_IPV6 ? 6 : 4;
+    const basePrefix = reader.read();
+    const maxPrefix = maxPrefixLength(version);
+    if (basePrefix > maxPrefix) {
       return null;
     }
+    const baseNetwork = bytesToAddress(reader.readBytes(addressByteLength(version)));
+    if (normaliseNetwork(baseNetwork, basePrefix, version) !== baseNetwork) {
+      return null;
+    }
+
+    let bitIndex = 8;
+    let currentByte = 0;
+    const readBit = () => {
+      if (bitIndex === 8) {
+        currentByte = reader.read();
+        bitIndex = 0;
+      }
+      const bit = (currentByte >> (7 - bitIndex)) & 1;
+      bitIndex += 1;
+      return bit;
+    };
+
+    const leaves: ShareableLeaf[] = [];
+    const readNode = (network: bigint, prefix: number) => {
+      if (readBit() === 0) {
+        if (leaves.length >= MAX_COMPACT_LEAVES) {
+          throw new Error('Too many subnets');
+        }
+        leaves.push({ n: encodeShareAddress(network, version), p: prefix });
+        return;
+      }
+      if (prefix >= maxPrefix) {
+        throw new Error('Split beyond the maximum prefix');
+      }
+      readNode(network, prefix + 1);
+      readNode(network + subnetAddressCount(prefix + 1, version), prefix + 1);
+    };
+    readNode(baseNetwork, basePrefix);
+
+    if (flags & FLAG_ANNOTATIONS) {
+      const compressed = reader.readBytes(reader.remaining);
+      decodeAnnotations(await transformBytes(compressed, new DecompressionStream('deflate-raw')), leaves);
+    }
 
     return {
       v: 1,
-      net: net >>> 0,
-      pre,
-      az: az === 1 ? 1 : undefined,
-      leaves: cleanedLeaves
+      ip: version === 6 ? 6 : undefined,
+      net: encodeShareAddress(baseNetwork, version),
+      pre: basePrefix,
+      az: flags & FLAG_AZURE_RESERVATIONS ? 1 : undefined,
+      leaves
     };
   } catch {
     return null;
   }
 }
 
+/**
+ * Decode a share link parameter in either the compact v2 or the original v1 encoding
+ */
+export async function parseSharedSubnetPlan(encoded: string): Promise<ShareableSubnetPlan | null> {
+  return encoded.startsWith(COMPACT_PREFIX) ? parseCompactSubnetPlan(encoded) : parseShareableSubnetPlan(encoded);
+}
+
 function encodeBase64Url(value: string): string {
+  return encodeBase64UrlBytes(new TextEncoder().encode(value));
+}
+
+function decodeBase64Url(encoded: string): string {
+  return new TextDecoder().decode(decodeBase64UrlBytes(encoded));
+}
+
+function encodeBase64UrlBytes(bytes: Uint8Array): string {
   if (typeof window === 'undefined') {
-    return Buffer.from(value, 'utf-8').toString('base64url');
+    return Buffer.from(bytes).toString('base64url');
   }
 
-  const bytes = new TextEncoder().encode(value);
   let binary = '';
   bytes.forEach((byte) => {
     binary += String.fromCharCode(byte);
@@ -130,10 +584,10 @@ function encodeBase64Url(value: string): string {
   return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
 }
 
-function decodeBase64Url(encoded: string): string {
+function decodeBase64UrlBytes(encoded: string): Uint8Array {
   const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
   if (typeof window === 'undefined') {
-    return Buffer.from(base64, 'base64').toString('utf-8');
+    return new Uint8Array(Buffer.from(base64, 'base64'));
   }
 
   const padded = base64 + '==='.slice((4 - (base64.length % 4)) % 4);
@@ -142,5 +596,5 @@ function decodeBase64Url(encoded: string): string {
   for (let index = 0; index < binary.length; index += 1) {
     bytes[index] = binary.charCodeAt(index);
   }
-  return new TextDecoder().decode(bytes);
+  return bytes;
 }
@@ -1,7 +1,12 @@
+import { formatIpAddress as formatAddressBytes, parseIpPrefix } from './ipPrefixIndex';
+
+export type IpVersion = 4 | 6;
+
 export interface SubnetNode {
   id: string;
-  network: number;
+  network: bigint;
   prefix: number;
+  version: IpVersion;
   parentId?: string;
   children?: [string, string];
 }
@@ -13,124 +18,155 @@ export interface LeafSubnet extends SubnetNode {
 }
 
 export const MAX_PREFIX = 32;
+export const MAX_PREFIX_V6 = 128;
 export const DEFAULT_NETWORK = '192.168.0.0';
 export const DEFAULT_PREFIX = 16;
+export const DEFAULT_NETWORK_V6 = 'fd00::';
+export const DEFAULT_PREFIX_V6 = 48;
+
+// Addresses Azure keeps in every subnet: network, gateway, two DNS and the last address
+const AZURE_RESERVED_ADDRESSES = 5;
+
+// Azure IPv6 subnets must be exactly this size
+export const AZURE_IPV6_SUBNET_PREFIX = 64;
+
+// Smallest subnet Azure accepts; IPv6 subnets are also never larger (see above)
+export const AZURE_MIN_SUBNET_PREFIX: Record<IpVersion, number> = { 4: 29, 6: AZURE_IPV6_SUBNET_PREFIX };
 
-export function inetAtov(address: string): number | null {
-  const parts = address.trim().split('.');
-  if (parts.length !== 4) {
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const BYTE_BITS = BigInt(8);
+
+export function maxPrefixLength(version: IpVersion): number {
+  return version === 4 ? MAX_PREFIX : MAX_PREFIX_V6;
+}
+
+/**
+ * Parse an IPv4 or IPv6 address (no prefix length) into its numeric value
+ */
+export function parseIpAddress(address: string): { version: IpVersion; value: bigint } | null {
+  const trimmed = address.trim();
+  if (!trimmed || trimmed.includes('/')) {
     return null;
   }
 
-  const octets = parts.map((part) => {
-    if (!/^\d{1,3}$/.test(part)) {
-      return NaN;
-    }
-    return Number(part);
-  });
-
-  if (octets.some((octet) => Number.isNaN(octet) || octet < 0 || octet > 255)) {
+  const parsed = parseIpPrefix(trimmed);
+  if (!parsed) {
     return null;
   }
 
-  return ((octets[0] << 24) | (octets[1] << 16) | (octets[2] << 8) | octets[3]) >>> 0;
+  let value = ZERO;
+  parsed.bytes.forEach((byte) => {
+    value = (value << BYTE_BITS) | BigInt(byte);
+  });
+  return { version: parsed.family, value };
 }
 
-export function inetNtoa(address: number): string {
-  const value = address >>> 0;
-  return [
-    (value >>> 24) & 0xff,
-    (value >>> 16) & 0xff,
-    (value >>> 8) & 0xff,
-    value & 0xff
-  ].join('.');
+/**
+ * Format an address value as dotted quad (IPv4) or compressed IPv6 notation
+ */
+export function formatIpAddress(value: bigint, version: IpVersion = 4): string {
+  const bytes = new Uint8Array(version === 4 ? 4 : 16);
+  let remaining = value;
+  for (let index = bytes.length - 1; index >= 0; index -= 1) {
+    bytes[index] = Number(remaining & BigInt(0xff));
+    remaining >>= BYTE_BITS;
+  }
+  return formatAddressBytes(version, bytes);
 }
 
-export function normaliseNetwork(address: number, prefix: number): number {
-  const mask = prefixToMask(prefix);
+export function normaliseNetwork(address: bigint, prefix: number, version: IpVersion = 4): bigint {
+  const mask = prefixToMask(prefix, version);
   return address & mask;
 }
 
-export function prefixToMask(prefix: number): number {
+export function prefixToMask(prefix: number, version: IpVersion = 4): bigint {
+  const bits = maxPrefixLength(version);
   if (prefix <= 0) {
-    return 0;
+    return ZERO;
   }
-  return prefix === 32 ? 0xffffffff : (~((1 << (32 - prefix)) - 1)) >>> 0;
+  const all = (ONE << BigInt(bits)) - ONE;
+  return all ^ ((ONE << BigInt(bits - Math.min(prefix, bits))) - ONE);
 }
 
-export function subnetAddressCount(prefix: number): number {
-  if (prefix < 0 || prefix > 32) {
+export function subnetAddressCount(prefix: number, version: IpVersion = 4): bigint {
+  const bits = maxPrefixLength(version);
+  if (prefix < 0 || prefix > bits) {
     throw new Error('Invalid prefix length');
   }
-  return 2 ** (32 - prefix);
+  return ONE << BigInt(bits - prefix);
 }
 
-export function subnetLastAddress(network: number, prefix: number): number {
-  return (network + subnetAddressCount(prefix) - 1) >>> 0;
+export function subnetLastAddress(network: bigint, prefix: number, version: IpVersion = 4): bigint {
+  return network + subnetAddressCount(prefix, version) - ONE;
 }
 
-export function subnetNetmask(prefix: number): number {
-  return prefix === 0 ? 0 : prefix === 32 ? 0xffffffff : (~((1 << (32 - prefix)) - 1)) >>> 0;
+export function subnetNetmask(prefix: number, version: IpVersion = 4): bigint {
+  return prefixToMask(prefix, version);
 }
 
-export function usableRange(network: number, prefix: number): {
-  first: number;
-  last: number;
+/**
+ * IPv4 excludes the network and broadcast addresses (except /31 and /32).
+ * IPv6 has no broadcast address, so the whole subnet is usable.
+ */
+export function usableRange(network: bigint, prefix: number, version: IpVersion = 4): {
+  first: bigint;
+  last: bigint;
 } {
-  if (prefix >= 31) {
-    const last = subnetLastAddress(network, prefix);
+  const last = subnetLastAddress(network, prefix, version);
+  if (version === 6 || prefix >= 31) {
     return { first: network, last };
   }
 
-  const first = network + 1;
-  const last = subnetLastAddress(network, prefix) - 1;
-  return { first, last };
+  return { first: network + ONE, last: last - ONE };
 }
 
-export function hostCapacity(prefix: number): number {
-  if (prefix === 32) {
-    return 1;
-  }
-
-  if (prefix === 31) {
-    return 2;
+export function hostCapacity(prefix: number, version: IpVersion = 4): bigint {
+  const total = subnetAddressCount(prefix, version);
+  if (version === 6 || prefix >= 31) {
+    return total;
   }
 
-  return Math.max(subnetAddressCount(prefix) - 2, 0);
+  return total - BigInt(2);
 }
 
-export function usableRangeAzure(network: number, prefix: number): {
-  first: number;
-  last: number;
+export function usableRangeAzure(network: bigint, prefix: number, version: IpVersion = 4): {
+  first: bigint;
+  last: bigint;
 } | null {
-  const total = subnetAddressCount(prefix);
-  if (total <= 5) {
+  const total = subnetAddressCount(prefix, version);
+  if (total <= BigInt(AZURE_RESERVED_ADDRESSES)) {
     return null;
   }
-  const first = network + 4;
-  const last = subnetLastAddress(network, prefix) - 1;
+  const first = network + BigInt(4);
+  const last = subnetLastAddress(network, prefix, version) - ONE;
   if (first > last) {
     return null;
   }
   return { first, last };
 }
 
-export function hostCapacityAzure(prefix: number): number {
-  const total = subnetAddressCount(prefix);
-  if (total <= 5) {
-    return 0;
+export function hostCapacityAzure(prefix: number, version: IpVersion = 4): bigint {
+  const total = subnetAddressCount(prefix, version);
+  if (total <= BigInt(AZURE_RESERVED_ADDRESSES)) {
+    return ZERO;
   }
-  return total - 5;
+  return total - BigInt(AZURE_RESERVED_ADDRESSES);
+}
+
+export function compareAddresses(a: bigint, b: bigint): number {
+  return a < b ? -1 : a > b ? 1 : 0;
 }
 
-export function createInitialTree(network: number, prefix: number): {
+export function createInitialTree(network: bigint, prefix: number, version: IpVersion = 4): {
   rootId: string;
   tree: SubnetTree;
 } {
   const root: SubnetNode = {
     id: 'root',
     network,
-    prefix
+    prefix,
+    version
   };
   return {
     rootId: root.id,
@@ -142,7 +178,7 @@ export function createInitialTree(network: number, prefix: number): {
 
 export function splitSubnet(tree: SubnetTree, nodeId: string): SubnetTree {
   const node = tree[nodeId];
-  if (!node || node.children || node.prefix >= MAX_PREFIX) {
+  if (!node || node.children || node.prefix >= maxPrefixLength(node.version)) {
     return tree;
   }
 
@@ -150,18 +186,20 @@ export function splitSubnet(tree: SubnetTree, nodeId: string): SubnetTree {
   const leftId = `${nodeId}-0`;
   const rightId = `${nodeId}-1`;
 
-  const addressesPerChild = subnetAddressCount(nextPrefix);
+  const addressesPerChild = subnetAddressCount(nextPrefix, node.version);
   const leftNode: SubnetNode = {
     id: leftId,
     network: node.network,
     prefix: nextPrefix,
+    version: node.version,
     parentId: node.id
   };
 
   const rightNode: SubnetNode = {
     id: rightId,
-    network: (node.network + addressesPerChild) >>> 0,
+    network: node.network + addressesPerChild,
     prefix: nextPrefix,
+    version: node.version,
     parentId: node.id
   };
 
@@ -205,7 +243,7 @@ export function collectLeaves(tree: SubnetTree, rootId: string): LeafSubnet[] {
     }
   }
 
-  return leaves.sort((a, b) => a.network - b.network);
+  return leaves.sort((a, b) => compareAddresses(a.network, b.network));
 }
 
 export function getNodePath(tree: SubnetTree, nodeId: string): SubnetNode[] {
@@ -290,20 +328,21 @@ export function isJoinableNode(tree: SubnetTree, node: SubnetNode | undefined):
 }
 
 export interface LeafDefinition {
-  network: number;
+  network: bigint;
   prefix: number;
 }
 
 export function createTreeFromLeafDefinitions(
-  baseNetwork: number,
+  baseNetwork: bigint,
   basePrefix: number,
-  definitions: LeafDefinition[]
+  definitions: LeafDefinition[],
+  version: IpVersion = 4
 ): {
   rootId: string;
   tree: SubnetTree;
 } {
-  const sortedDefinitions = [...definitions].sort((a, b) => a.network - b.network);
-  const initial = createInitialTree(baseNetwork, basePrefix);
+  const sortedDefinitions = [...definitions].sort((a, b) => compareAddresses(a.network, b.network));
+  const initial = createInitialTree(baseNetwork, basePrefix, version);
   let workingTree = initial.tree;
 
   sortedDefinitions.forEach(({ network, prefix }) => {
@@ -316,7 +355,7 @@ export function createTreeFromLeafDefinitions(
   };
 }
 
-function ensureLeafInTree(tree: SubnetTree, rootId: string, targetNetwork: number, targetPrefix: number): SubnetTree {
+function ensureLeafInTree(tree: SubnetTree, rootId: string, targetNetwork: bigint, targetPrefix: number): SubnetTree {
   let currentTree = tree;
   let currentNodeId = rootId;
 
@@ -326,7 +365,7 @@ function ensureLeafInTree(tree: SubnetTree, rootId: string, targetNetwork: numbe
       break;
     }
 
-    const nodeLastAddress = subnetLastAddress(node.network, node.prefix);
+    const nodeLastAddress = subnetLastAddress(node.network, node.prefix, node.version);
     if (targetNetwork < node.network || targetNetwork > nodeLastAddress) {
       break;
     }
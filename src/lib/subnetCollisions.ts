@@ -0,0 +1,111 @@
+import { AzureIpAddress, PrefixRelationship } from '@/types/azure';
+import { findOverlappingRanges } from './clientIpService';
+import { IpVersion, formatIpAddress, normaliseNetwork, parseIpAddress } from './subnetCalculator';
+
+/**
+ * Check a subnet plan against the published Azure service tag ranges. Planning on top of
+ * public Azure prefixes breaks forced tunneling and UDRs, because traffic to those
+ * services would be routed into the VNet instead.
+ */
+
+export interface CollisionTarget {
+  // Leaf id, or undefined for the base network
+  id?: string;
+  network: bigint;
+  prefix: number;
+  version: IpVersion;
+}
+
+export interface ServiceTagCollision {
+  serviceTagId: string;
+  region: string;
+  ipAddressPrefix: string;
+  relationship?: PrefixRelationship;
+  cloud: AzureIpAddress['cloud'];
+}
+
+export interface CollisionReport {
+  target: CollisionTarget;
+  cidr: string;
+  collisions: ServiceTagCollision[];
+}
+
+interface PrivateRange {
+  cidr: string;
+  name: string;
+}
+
+// RFC 1918 private space, RFC 6598 shared address space and IPv6 unique local addresses (RFC 4193)
+const PRIVATE_RANGES: PrivateRange[] = [
+  { cidr: '10.0.0.0/8', name: 'RFC 1918' },
+  { cidr: '172.16.0.0/12', name: 'RFC 1918' },
+  { cidr: '192.168.0.0/16', name: 'RFC 1918' },
+  { cidr: '100.64.0.0/10', name: 'RFC 6598' },
+  { cidr: 'fc00::/7', name: 'RFC 4193' }
+];
+
+function toCidr(target: Pick<CollisionTarget, 'network' | 'prefix' | 'version'>): string {
+  return `${formatIpAddress(target.network, target.version)}/${target.prefix}`;
+}
+
+/**
+ * Name of the private range containing the whole network, or null for public space
+ */
+export function findPrivateRange(network: bigint, prefix: number, version: IpVersion = 4): string | null {
+  for (const range of PRIVATE_RANGES) {
+    const [address, rangePrefix] = range.cidr.split('/');
+    const parsed = parseIpAddress(address);
+    const length = Number(rangePrefix);
+    if (!parsed || parsed.version !== version || prefix < length) {
+      continue;
+    }
+    if (normaliseNetwork(network, length, version) === parsed.value) {
+      return `${range.name} (${range.cidr})`;
+    }
+  }
+  return null;
+}
+
+function toCollisions(results: AzureIpAddress[]): ServiceTagCollision[] {
+  const seen = new Set<string>();
+  const collisions: ServiceTagCollision[] = [];
+
+  for (const result of results) {
+    const key = `${result.cloud}|${result.serviceTagId}|${result.ipAddressPrefix}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    collisions.push({
+      serviceTagId: result.serviceTagId,
+      region: result.region,
+      ipAddressPrefix: result.ipAddressPrefix,
+      relationship: result.relationship,
+      cloud: result.cloud
+    });
+  }
+
+  return collisions.sort((a, b) => a.serviceTagId.localeCompare(b.serviceTagId) || a.ipAddressPrefix.localeCompare(b.ipAddressPrefix));
+}
+
+/**
+ * Report Azure prefixes overlapping the base network and each leaf. Leaves are only
+ * checked when the base network overlaps something, since they all lie inside it.
+ */
+export async function findSubnetCollisions(base: CollisionTarget, leaves: CollisionTarget[]): Promise<CollisionReport[]> {
+  const baseCidr = toCidr(base);
+  const baseCollisions = toCollisions(await findOverlappingRanges(baseCidr));
+  if (baseCollisions.length === 0) {
+    return [];
+  }
+
+  const reports: CollisionReport[] = [{ target: base, cidr: baseCidr, collisions: baseCollisions }];
+  for (const leaf of leaves) {
+    const cidr = toCidr(leaf);
+    if (cidr === baseCidr) continue;
+    const collisions = toCollisions(await findOverlappingRanges(cidr));
+    if (collisions.length > 0) {
+      reports.push({ target: leaf, cidr, collisions });
+    }
+  }
+
+  return reports;
+}
@@ -1,8 +1,9 @@
 import {
+  IpVersion,
   LeafSubnet,
+  formatIpAddress,
   hostCapacity,
   hostCapacityAzure,
-  inetNtoa,
   subnetLastAddress,
   subnetNetmask,
   usableRange,
@@ -11,11 +12,16 @@ import {
 
 export type SubnetExportRow = Record<string, string | number>;
 
-function formatRange(first: number, last: number): string {
+function formatRange(first: bigint, last: bigint, version: IpVersion): string {
   if (first === last) {
-    return inetNtoa(first);
+    return formatIpAddress(first, version);
   }
-  return `${inetNtoa(first)} - ${inetNtoa(last)}`;
+  return `${formatIpAddress(first, version)} - ${formatIpAddress(last, version)}`;
+}
+
+// Spreadsheets lose precision above 2^53, so large IPv6 counts are exported as text
+function formatCount(count: bigint): string | number {
+  return count <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(count) : count.toString();
 }
 
 export function prepareSubnetExportData(
@@ -31,30 +37,33 @@ export function prepareSubnetExportData(
   const hostLabel = useAzureReservations ? 'Host Capacity (Azure)' : 'Host Capacity';
 
   return leaves.map((leaf) => {
-    const lastAddress = subnetLastAddress(leaf.network, leaf.prefix);
+    const { version } = leaf;
+    const lastAddress = subnetLastAddress(leaf.network, leaf.prefix, version);
     const usable = useAzureReservations
-      ? usableRangeAzure(leaf.network, leaf.prefix)
-      : usableRange(leaf.network, leaf.prefix);
-    const hostCount = useAzureReservations ? hostCapacityAzure(leaf.prefix) : hostCapacity(leaf.prefix);
+      ? usableRangeAzure(leaf.network, leaf.prefix, version)
+      : usableRange(leaf.network, leaf.prefix, version);
+    const hostCount = useAzureReservations ? hostCapacityAzure(leaf.prefix, version) : hostCapacity(leaf.prefix, version);
 
     return {
-      Subnet: `${inetNtoa(leaf.network)}/${leaf.prefix}`,
-      Netmask: inetNtoa(subnetNetmask(leaf.prefix)),
-      'Range of Addresses': formatRange(leaf.network, lastAddress),
-      [usableLabel]: usable ? formatRange(usable.first, usable.last) : 'Reserved',
-      [hostLabel]: hostCount,
+      Subnet: `${formatIpAddress(leaf.network, version)}/${leaf.prefix}`,
+      // IPv6 has no dotted netmask; the prefix length is the mask
+      Netmask: version === 4 ? formatIpAddress(subnetNetmask(leaf.prefix)) : `/${leaf.prefix}`,
+      'Range of Addresses': formatRange(leaf.network, lastAddress, version),
+      [usableLabel]: usable ? formatRange(usable.first, usable.last, version) : 'Reserved',
+      [hostLabel]: formatCount(hostCount),
       Comment: rowComments[leaf.id] ?? ''
     };
   });
 }
 
 export function generateSubnetExportFilename(
-  baseNetwork: number,
+  baseNetwork: bigint,
   basePrefix: number,
   useAzureReservations: boolean,
-  format: 'csv' | 'xlsx'
+  format: 'csv' | 'xlsx',
+  version: IpVersion = 4
 ): string {
-  const networkLabel = inetNtoa(baseNetwork).replace(/[^a-z0-9]/gi, '_').toLowerCase();
+  const networkLabel = formatIpAddress(baseNetwork, version).replace(/[^a-z0-9]/gi, '_').toLowerCase();
   const modeLabel = useAzureReservations ? 'azure' : 'standard';
   const timestamp = new Date().toISOString().slice(0, 10);
 
@@ -0,0 +1,273 @@
+import { IpVersion, LeafSubnet, formatIpAddress } from './subnetCalculator';
+
+/**
+ * Turn a subnet plan into infrastructure-as-code for a virtual network with one
+ * subnet per leaf. Row comments become subnet names where present.
+ */
+
+export type SubnetIacFormat = 'bicep' | 'arm' | 'terraform' | 'azcli';
+
+export interface SubnetIacFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const SUBNET_IAC_FORMATS: Record<SubnetIacFormat, SubnetIacFormatInfo> = {
+  bicep: { label: 'Bicep module', extension: 'bicep', mimeType: 'text/plain' },
+  arm: { label: 'ARM template', extension: 'json', mimeType: 'application/json' },
+  terraform: { label: 'Terraform (azurerm)', extension: 'tf', mimeType: 'text/plain' },
+  azcli: { label: 'Azure CLI script', extension: 'sh', mimeType: 'text/x-shellscript' }
+};
+
+export interface SubnetIacOptions {
+  baseNetwork: bigint;
+  basePrefix: number;
+  version?: IpVersion;
+  rowComments?: Record<string, string>;
+}
+
+const NETWORK_API_VERSION = '2023-09-01';
+
+interface SubnetDefinition {
+  name: string;
+  // Terraform resource label (letters, digits, underscores)
+  label: string;
+  addressPrefix: string;
+}
+
+interface VnetDefinition {
+  name: string;
+  addressPrefix: string;
+  subnets: SubnetDefinition[];
+}
+
+/**
+ * Subnet names allow letters, digits, underscores, periods and hyphens (max 80 characters),
+ * must start with a letter, digit or underscore and end with a letter, digit or underscore.
+ */
+function toSubnetName(comment: string): string {
+  return comment
+    .trim()
+    .replace(/[^a-z0-9_.-]+/gi, '-')
+    .replace(/^[^a-z0-9_]+/i, '')
+    .slice(0, 80)
+    .replace(/[^a-z0-9_]+$/i, '');
+}
+
+function uniqueName(name: string, used: Set<string>, maxLength: number, separator = '-'): string {
+  let candidate = name;
+  for (let suffix = 2; used.has(candidate.toLowerCase()); suffix += 1) {
+    const tail = `${separator}${suffix}`;
+    candidate = `${name.slice(0, maxLength - tail.length)}${tail}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+function toTerraformLabel(name: string): string {
+  const label = name.toLowerCase().replace(/[^a-z0-9_]+/g, '_');
+  return /^[a-z_]/.test(label) ? label : `subnet_${label}`;
+}
+
+function buildVnetDefinition(leaves: LeafSubnet[], options: SubnetIacOptions): VnetDefinition {
+  const { baseNetwork, basePrefix, version = 4, rowComments = {} } = options;
+  const baseAddress = formatIpAddress(baseNetwork, version);
+  const usedNames = new Set<string>();
+  const usedLabels = new Set<string>();
+  const width = String(leaves.length).length;
+
+  const subnets = leaves.map((leaf, index) => {
+    const fallback = `subnet-${String(index + 1).padStart(width, '0')}`;
+    const name = uniqueName(toSubnetName(rowComments[leaf.id] ?? '') || fallback, usedNames, 80);
+    return {
+      name,
+      label: uniqueName(toTerraformLabel(name), usedLabels, 64, '_'),
+      addressPrefix: `${formatIpAddress(leaf.network, leaf.version)}/${leaf.prefix}`
+    };
+  });
+
+  return {
+    name: `vnet-${baseAddress.replace(/[.:]+/g, '-').replace(/-+$/, '')}-${basePrefix}`,
+    addressPrefix: `${baseAddress}/${basePrefix}`,
+    subnets
+  };
+}
+
+function bicepString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function generateBicep(vnet: VnetDefinition): string {
+  const lines = [
+    '@description(\'Name of the virtual network\')',
+    `param vnetName string = ${bicepString(vnet.name)}`,
+    '',
+    '@description(\'Location for the virtual network\')',
+    'param location string = resourceGroup().location',
+    '',
+    `resource vnet 'Microsoft.Network/virtualNetworks@${NETWORK_API_VERSION}' = {`,
+    '  name: vnetName',
+    '  location: location',
+    '  properties: {',
+    '    addressSpace: {',
+    '      addressPrefixes: [',
+    `        ${bicepString(vnet.addressPrefix)}`,
+    '      ]',
+    '    }',
+    '    subnets: ['
+  ];
+
+  vnet.subnets.forEach((subnet) => {
+    lines.push(
+      '      {',
+      `        name: ${bicepString(subnet.name)}`,
+      '        properties: {',
+      `          addressPrefix: ${bicepString(subnet.addressPrefix)}`,
+      '        }',
+      '      }'
+    );
+  });
+
+  lines.push(
+    '    ]',
+    '  }',
+    '}',
+    '',
+    'output vnetId string = vnet.id',
+    ''
+  );
+  return lines.join('\n');
+}
+
+function generateArm(vnet: VnetDefinition): string {
+  const template = {
+    $schema: 'https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#',
+    contentVersion: '1.0.0.0',
+    parameters: {
+      vnetName: {
+        type: 'string',
+        defaultValue: vnet.name,
+        metadata: { description: 'Name of the virtual network' }
+      },
+      location: {
+        type: 'string',
+        defaultValue: '[resourceGroup().location]',
+        metadata: { description: 'Location for the virtual network' }
+      }
+    },
+    resources: [
+      {
+        type: 'Microsoft.Network/virtualNetworks',
+        apiVersion: NETWORK_API_VERSION,
+        name: '[parameters(\'vnetName\')]',
+        location: '[parameters(\'location\')]',
+        properties: {
+          addressSpace: {
+            addressPrefixes: [vnet.addressPrefix]
+          },
+          subnets: vnet.subnets.map((subnet) => ({
+            name: subnet.name,
+            properties: {
+              addressPrefix: subnet.addressPrefix
+            }
+          }))
+        }
+      }
+    ],
+    outputs: {
+      vnetId: {
+        type: 'string',
+        value: '[resourceId(\'Microsoft.Network/virtualNetworks\', parameters(\'vnetName\'))]'
+      }
+    }
+  };
+  return JSON.stringify(template, null, 2);
+}
+
+function generateTerraform(vnet: VnetDefinition): string {
+  const lines = [
+    'variable "resource_group_name" {',
+    '  type = string',
+    '}',
+    '',
+    'variable "location" {',
+    '  type = string',
+    '}',
+    '',
+    'variable "vnet_name" {',
+    '  type    = string',
+    `  default = "${vnet.name}"`,
+    '}',
+    '',
+    'resource "azurerm_virtual_network" "this" {',
+    '  name                = var.vnet_name',
+    '  resource_group_name = var.resource_group_name',
+    '  location            = var.location',
+    `  address_space       = ["${vnet.addressPrefix}"]`,
+    '}'
+  ];
+
+  vnet.subnets.forEach((subnet) => {
+    lines.push(
+      '',
+      `resource "azurerm_subnet" "${subnet.label}" {`,
+      `  name                 = "${subnet.name}"`,
+      '  resource_group_name  = var.resource_group_name',
+      '  virtual_network_name = azurerm_virtual_network.this.name',
+      `  address_prefixes     = ["${subnet.addressPrefix}"]`,
+      '}'
+    );
+  });
+
+  lines.push('');
+  return lines.join('\n');
+}
+
+/**
+ * Subnets are created one after another; Azure rejects concurrent updates to the same VNet
+ */
+function generateAzCli(vnet: VnetDefinition): string {
+  const lines = [
+    '#!/bin/sh',
+    `# Create ${vnet.name} (${vnet.addressPrefix}) with ${vnet.subnets.length} subnet${vnet.subnets.length !== 1 ? 's' : ''}`,
+    '# Usage: RESOURCE_GROUP=my-rg [VNET_NAME=name] ./script.sh',
+    'set -e',
+    '',
+    'RESOURCE_GROUP="${RESOURCE_GROUP:?Set RESOURCE_GROUP to the target resource group}"',
+    `VNET_NAME="\${VNET_NAME:-${vnet.name}}"`,
+    '',
+    `az network vnet create --resource-group "$RESOURCE_GROUP" --name "$VNET_NAME" --address-prefixes ${vnet.addressPrefix}`,
+    ''
+  ];
+
+  vnet.subnets.forEach((subnet) => {
+    lines.push(
+      `az network vnet subnet create --resource-group "$RESOURCE_GROUP" --vnet-name "$VNET_NAME" --name ${subnet.name} --address-prefixes ${subnet.addressPrefix}`
+    );
+  });
+
+  lines.push('');
+  return lines.join('\n');
+}
+
+export function generateSubnetIac(format: SubnetIacFormat, leaves: LeafSubnet[], options: SubnetIacOptions): string {
+  const vnet = buildVnetDefinition(leaves, options);
+
+  switch (format) {
+    case 'bicep':
+      return generateBicep(vnet);
+    case 'arm':
+      return generateArm(vnet);
+    case 'terraform':
+      return generateTerraform(vnet);
+    case 'azcli':
+      return generateAzCli(vnet);
+  }
+}
+
+export function generateSubnetIacFilename(baseNetwork: bigint, basePrefix: number, format: SubnetIacFormat, version: IpVersion = 4): string {
+  const networkLabel = formatIpAddress(baseNetwork, version).replace(/[^a-z0-9]/gi, '_').toLowerCase();
+  const timestamp = new Date().toISOString().slice(0, 10);
+  return `vnet_${networkLabel}_${basePrefix}_${format}_${timestamp}.${SUBNET_IAC_FORMATS[format].extension}`;
+}
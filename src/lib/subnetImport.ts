@@ -0,0 +1,416 @@
+import {
+  IpVersion,
+  compareAddresses,
+  formatIpAddress,
+  maxPrefixLength,
+  normaliseNetwork,
+  parseIpAddress,
+  subnetLastAddress
+} from './subnetCalculator';
+
+/**
+ * Read existing VNet definitions (ARM templates, Bicep, Terraform, `az network vnet show`
+ * output or a plain CSV of CIDRs) and turn them into a validated subnet plan.
+ */
+
+export type VnetImportFormat = 'arm' | 'az-json' | 'bicep' | 'terraform' | 'csv';
+
+export const VNET_IMPORT_FORMAT_LABELS: Record<VnetImportFormat, string> = {
+  arm: 'ARM template',
+  'az-json': 'Azure CLI JSON',
+  bicep: 'Bicep',
+  terraform: 'Terraform',
+  csv: 'CSV'
+};
+
+interface RawSubnet {
+  name: string;
+  prefixes: string[];
+}
+
+interface RawVnet {
+  format: VnetImportFormat;
+  addressPrefixes: string[];
+  subnets: RawSubnet[];
+  // Values that could not be read (e.g. parameters or variables instead of literals)
+  unreadable: string[];
+}
+
+export interface ImportedSubnet {
+  name: string;
+  network: bigint;
+  prefix: number;
+}
+
+export interface ImportIssue {
+  subnet: string;
+  prefix: string;
+  reason: string;
+}
+
+export interface VnetImportResult {
+  format: VnetImportFormat;
+  baseNetwork: bigint;
+  basePrefix: number;
+  version: IpVersion;
+  subnets: ImportedSubnet[];
+  issues: ImportIssue[];
+}
+
+interface Cidr {
+  version: IpVersion;
+  network: bigint;
+  prefix: number;
+}
+
+/**
+ * Parse `address/prefix`. Prefixes with host bits set are rejected the same way Azure does.
+ */
+function parseCidr(value: string): Cidr | string {
+  const [rawAddress, rawPrefix, ...rest] = value.trim().split('/');
+  const address = parseIpAddress(rawAddress ?? '');
+  if (!address || rest.length > 0 || rawPrefix === undefined || !/^\d{1,3}$/.test(rawPrefix)) {
+    return 'Not a valid CIDR prefix';
+  }
+
+  const prefix = Number(rawPrefix);
+  if (prefix > maxPrefixLength(address.version)) {
+    return `Prefix length must be between 0 and ${maxPrefixLength(address.version)}`;
+  }
+
+  const network = normaliseNetwork(address.value, prefix, address.version);
+  if (network !== address.value) {
+    return `Host bits are set; the network address is ${formatIpAddress(network, address.version)}/${prefix}`;
+  }
+
+  return { version: address.version, network, prefix };
+}
+
+function asStringArray(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string');
+  return [];
+}
+
+// ARM expressions such as "[parameters('prefix')]" cannot be resolved offline
+function isArmExpression(value: string): boolean {
+  return value.startsWith('[') && !value.startsWith('[[');
+}
+
+/**
+ * Child resources are named `vnet/subnet`, or `[format('{0}/{1}', parameters('vnetName'), 'subnet')]`
+ * in templates; keep the subnet part when it is a literal.
+ */
+function readResourceName(name: unknown, fallbackName: string): string {
+  if (typeof name !== 'string') return fallbackName;
+  if (isArmExpression(name)) {
+    const literal = /'([^']*)'\s*\)\]$/.exec(name);
+    return literal ? literal[1] : fallbackName;
+  }
+  return name.split('/').pop() || fallbackName;
+}
+
+function readSubnetObject(subnet: Record<string, unknown>, fallbackName: string): RawSubnet {
+  const properties = (subnet.properties ?? subnet) as Record<string, unknown>;
+  const prefixes = asStringArray(properties.addressPrefix).concat(asStringArray(properties.addressPrefixes));
+  return { name: readResourceName(subnet.name, fallbackName), prefixes };
+}
+
+function parseJson(data: unknown): RawVnet | null {
+  const raw: RawVnet = { format: 'az-json', addressPrefixes: [], subnets: [], unreadable: [] };
+  const record = data as Record<string, unknown>;
+
+  const readVnet = (vnet: Record<string, unknown>) => {
+    const properties = (vnet.properties ?? vnet) as Record<string, unknown>;
+    const addressSpace = properties.addressSpace as Record<string, unknown> | undefined;
+    raw.addressPrefixes.push(...asStringArray(addressSpace?.addressPrefixes));
+    const subnets = Array.isArray(properties.subnets) ? properties.subnets : [];
+    subnets.forEach((subnet, index) => {
+      raw.subnets.push(readSubnetObject(subnet as Record<string, unknown>, `subnet-${index + 1}`));
+    });
+  };
+
+  if (Array.isArray(data)) {
+    // `az network vnet subnet list` returns a bare array of subnets
+    data.forEach((subnet, index) => {
+      if (subnet && typeof subnet === 'object') {
+        raw.subnets.push(readSubnetObject(subnet as Record<string, unknown>, `subnet-${index + 1}`));
+      }
+    });
+  } else if (record && Array.isArray(record.resources)) {
+    raw.format = 'arm';
+    (record.resources as Array<Record<string, unknown>>).forEach((resource, index) => {
+      const type = typeof resource.type === 'string' ? resource.type.toLowerCase() : '';
+      if (type === 'microsoft.network/virtualnetworks') {
+        readVnet(resource);
+      } else if (type === 'microsoft.network/virtualnetworks/subnets') {
+        raw.subnets.push(readSubnetObject(resource, `subnet-${index + 1}`));
+      }
+    });
+  } else if (record && typeof record === 'object') {
+    readVnet(record);
+  } else {
+    return null;
+  }
+
+  raw.addressPrefixes = raw.addressPrefixes.filter((prefix) => {
+    if (!isArmExpression(prefix)) return true;
+    raw.unreadable.push(prefix);
+    return false;
+  });
+  raw.subnets.forEach((subnet) => {
+    subnet.prefixes = subnet.prefixes.filter((prefix) => {
+      if (!isArmExpression(prefix)) return true;
+      raw.unreadable.push(`${subnet.name}: ${prefix}`);
+      return false;
+    });
+  });
+
+  return raw;
+}
+
+interface Token {
+  kind: 'name' | 'prefixes' | 'space';
+  values: string[];
+}
+
+const QUOTED_VALUE = /^\s*(['"])(.*?)\1/;
+
+function readValues(text: string): string[] | null {
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('[')) {
+    const end = trimmed.indexOf(']');
+    if (end === -1) return null;
+    const values: string[] = [];
+    const pattern = /(['"])(.*?)\1/g;
+    let match: RegExpExecArray | null;
+    const inner = trimmed.slice(1, end);
+    while ((match = pattern.exec(inner)) !== null) {
+      values.push(match[2]);
+    }
+    return values.length > 0 ? values : null;
+  }
+  const match = QUOTED_VALUE.exec(trimmed);
+  return match ? [match[2]] : null;
+}
+
+/**
+ * Bicep and Terraform are scanned for `name`, subnet prefix and address space assignments
+ * in source order; every subnet prefix belongs to the most recent name before it.
+ */
+function parseDeclarative(text: string, format: 'bicep' | 'terraform'): RawVnet {
+  const raw: RawVnet = { format, addressPrefixes: [], subnets: [], unreadable: [] };
+  const separator = format === 'bicep' ? ':' : '=';
+  const keys =
+    format === 'bicep'
+      ? { name: 'name', prefixes: ['addressPrefix', 'addressPrefixes'] }
+      : { name: 'name', prefixes: ['address_prefix', 'address_prefixes'] };
+  const pattern = new RegExp(`\\b(${[keys.name, ...keys.prefixes, 'address_space'].join('|')})\\s*${separator}`, 'g');
+
+  // In Bicep the VNet address space is the addressPrefixes array nested in addressSpace
+  const spaceMatch = format === 'bicep' ? /addressSpace\s*:\s*\{/.exec(text) : null;
+  const spaceEnd = spaceMatch ? text.indexOf('}', spaceMatch.index) : -1;
+
+  const tokens: Token[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const key = match[1];
+    const valueStart = match.index + match[0].length;
+    const values = readValues(text.slice(valueStart, valueStart + 4096));
+    const insideSpace = spaceMatch !== null && match.index > spaceMatch.index && match.index < spaceEnd;
+    const kind: Token['kind'] = key === keys.name ? 'name' : key === 'address_space' || insideSpace ? 'space' : 'prefixes';
+
+    if (!values) {
+      if (kind !== 'name') {
+        const lineEnd = text.indexOf('\n', match.index);
+        raw.unreadable.push(text.slice(match.index, lineEnd === -1 ? undefined : lineEnd).trim());
+      }
+      continue;
+    }
+    tokens.push({ kind, values });
+  }
+
+  let currentName = '';
+  tokens.forEach((token) => {
+    if (token.kind === 'name') {
+      // Child subnet resources in Bicep are named 'vnet/subnet'
+      currentName = token.values[0].split('/').pop() ?? '';
+    } else if (token.kind === 'space') {
+      raw.addressPrefixes.push(...token.values);
+    } else {
+      raw.subnets.push({ name: currentName || `subnet-${raw.subnets.length + 1}`, prefixes: token.values });
+      currentName = '';
+    }
+  });
+
+  return raw;
+}
+
+/**
+ * One subnet per line: the first field that looks like a CIDR is the prefix and the first
+ * other non-empty field is the name. A header line and `#` comments are skipped.
+ */
+function parseCsv(text: string): RawVnet {
+  const raw: RawVnet = { format: 'csv', addressPrefixes: [], subnets: [], unreadable: [] };
+  let isFirstLine = true;
+
+  text.split(/\r?\n/).forEach((line) => {
+    const fields = line.split(/[,;\t]/).map((field) => field.trim().replace(/^"(.*)"$/, '$1'));
+    if (fields.every((field) => !field) || line.trim().startsWith('#')) return;
+
+    const isHeader = isFirstLine;
+    isFirstLine = false;
+
+    const cidrIndex = fields.findIndex((field) => /^[0-9a-f:.]+\/\d+$/i.test(field));
+    if (cidrIndex === -1) {
+      if (!isHeader) {
+        raw.unreadable.push(line.trim());
+      }
+      return;
+    }
+
+    const name = fields.find((field, index) => index !== cidrIndex && field) ?? '';
+    raw.subnets.push({ name: name || `subnet-${raw.subnets.length + 1}`, prefixes: [fields[cidrIndex]] });
+  });
+
+  return raw;
+}
+
+function detectAndParse(text: string): RawVnet | string {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return 'Paste or upload a VNet definition first.';
+  }
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      const parsed = parseJson(JSON.parse(trimmed));
+      return parsed ?? 'The JSON does not contain a virtual network or subnets.';
+    } catch {
+      return 'The input looks like JSON but could not be parsed.';
+    }
+  }
+
+  if (/\bresource\s+"azurerm_(virtual_network|subnet)"/.test(trimmed)) {
+    return parseDeclarative(trimmed, 'terraform');
+  }
+  if (/\bresource\s+\w+\s+'Microsoft\.Network\//i.test(trimmed)) {
+    return parseDeclarative(trimmed, 'bicep');
+  }
+  return parseCsv(trimmed);
+}
+
+/**
+ * Smallest prefix that contains every subnet
+ */
+function coveringPrefix(subnets: Cidr[], version: IpVersion): { network: bigint; prefix: number } {
+  let prefix = Math.min(...subnets.map((subnet) => subnet.prefix));
+  let network = normaliseNetwork(subnets[0].network, prefix, version);
+  while (prefix > 0 && subnets.some((subnet) => normaliseNetwork(subnet.network, prefix, version) !== network)) {
+    prefix -= 1;
+    network = normaliseNetwork(network, prefix, version);
+  }
+  return { network, prefix };
+}
+
+/**
+ * Parse and validate a VNet definition. Returns an error message when nothing can be
+ * imported; otherwise every subnet that was left out is listed in `issues`.
+ */
+export function importVnetDefinition(text: string): VnetImportResult | string {
+  const raw = detectAndParse(text);
+  if (typeof raw === 'string') {
+    return raw;
+  }
+
+  const issues: ImportIssue[] = raw.unreadable.map((value) => ({
+    subnet: '',
+    prefix: value,
+    reason: 'Could not read a prefix from this value'
+  }));
+
+  // Subnet prefixes that parse, tagged with their source for error reporting
+  const candidates: Array<Cidr & { name: string; text: string }> = [];
+  raw.subnets.forEach((subnet) => {
+    if (subnet.prefixes.length === 0) {
+      issues.push({ subnet: subnet.name, prefix: '', reason: 'No address prefix' });
+    }
+    subnet.prefixes.forEach((prefixText) => {
+      const parsed = parseCidr(prefixText);
+      if (typeof parsed === 'string') {
+        issues.push({ subnet: subnet.name, prefix: prefixText, reason: parsed });
+      } else {
+        candidates.push({ ...parsed, name: subnet.name, text: prefixText });
+      }
+    });
+  });
+
+  const spaces: Cidr[] = [];
+  raw.addressPrefixes.forEach((prefixText) => {
+    const parsed = parseCidr(prefixText);
+    if (typeof parsed === 'string') {
+      issues.push({ subnet: 'Address space', prefix: prefixText, reason: parsed });
+    } else {
+      spaces.push(parsed);
+    }
+  });
+
+  if (candidates.length === 0 && spaces.length === 0) {
+    return issues.length > 0
+      ? `No valid prefixes found (${issues.length} problem${issues.length !== 1 ? 's' : ''}).`
+      : 'No virtual network or subnets were found in the input.';
+  }
+
+  // The calculator plans one address family at a time; prefer the VNet's first address space
+  const version: IpVersion = spaces[0]?.version ?? candidates[0].version;
+  const familyCandidates = candidates.filter((candidate) => {
+    if (candidate.version === version) return true;
+    issues.push({ subnet: candidate.name, prefix: candidate.text, reason: `IPv${candidate.version} prefixes are planned separately` });
+    return false;
+  });
+
+  const familySpaces = spaces.filter((space) => space.version === version);
+  let base: { network: bigint; prefix: number };
+  if (familySpaces.length > 0) {
+    base = familySpaces[0];
+    familySpaces.slice(1).forEach((space) => {
+      const label = `${formatIpAddress(space.network, version)}/${space.prefix}`;
+      issues.push({ subnet: 'Address space', prefix: label, reason: 'Only the first address space is imported' });
+    });
+  } else if (familyCandidates.length > 0) {
+    base = coveringPrefix(familyCandidates, version);
+  } else {
+    return 'No subnets match the address family of the virtual network.';
+  }
+
+  const baseLast = subnetLastAddress(base.network, base.prefix, version);
+  const sorted = familyCandidates
+    .slice()
+    .sort((a, b) => compareAddresses(a.network, b.network) || a.prefix - b.prefix);
+
+  const subnets: ImportedSubnet[] = [];
+  let previous: (typeof sorted)[number] | null = null;
+  sorted.forEach((candidate) => {
+    const last = subnetLastAddress(candidate.network, candidate.prefix, version);
+    if (candidate.network < base.network || last > baseLast || candidate.prefix < base.prefix) {
+      const label = `${formatIpAddress(base.network, version)}/${base.prefix}`;
+      issues.push({ subnet: candidate.name, prefix: candidate.text, reason: `Outside the address space ${label}` });
+      return;
+    }
+    if (previous && candidate.network <= subnetLastAddress(previous.network, previous.prefix, version)) {
+      issues.push({ subnet: candidate.name, prefix: candidate.text, reason: `Overlaps ${previous.name} (${previous.text})` });
+      return;
+    }
+    subnets.push({ name: candidate.name, network: candidate.network, prefix: candidate.prefix });
+    previous = candidate;
+  });
+
+  return {
+    format: raw.format,
+    baseNetwork: base.network,
+    basePrefix: base.prefix,
+    version,
+    subnets,
+    issues
+  };
+}
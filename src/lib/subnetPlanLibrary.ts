@@ -0,0 +1,128 @@
+import { ShareableSubnetPlan, parseShareableSubnetPlan, serialiseShareableSubnetPlan } from './shareSubnetPlan';
+
+/**
+ * Named subnet plans kept in localStorage. Plans are stored in the same encoding as
+ * share links, so anything that can be shared can be saved and vice versa.
+ */
+
+export interface SavedPlanSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface StoredPlan extends SavedPlanSummary {
+  state: string;
+}
+
+const STORAGE_KEY = 'azure-hub:subnet-plans';
+
+function readStore(): StoredPlan[] {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? (JSON.parse(stored) as unknown) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter(
+          (plan): plan is StoredPlan =>
+            Boolean(plan) && typeof plan.id === 'string' && typeof plan.name === 'string' && typeof plan.state === 'string'
+        )
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Returns false when storage is unavailable or full
+ */
+function writeStore(plans: StoredPlan[]): boolean {
+  if (typeof window === 'undefined') {
+    return false;
+  }
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(plans));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toSummary({ id, name, createdAt, updatedAt }: StoredPlan): SavedPlanSummary {
+  return { id, name, createdAt, updatedAt };
+}
+
+function createPlanId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Saved plans, most recently modified first
+ */
+export function listSavedPlans(): SavedPlanSummary[] {
+  return readStore()
+    .map(toSummary)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function loadSavedPlan(id: string): ShareableSubnetPlan | null {
+  const stored = readStore().find((plan) => plan.id === id);
+  return stored ? parseShareableSubnetPlan(stored.state) : null;
+}
+
+/**
+ * Create a plan, or overwrite the plan with the given id (keeping its name when `name` is
+ * empty). Returns null when it could not be stored.
+ */
+export function savePlan(name: string, plan: ShareableSubnetPlan, id?: string): SavedPlanSummary | null {
+  const plans = readStore();
+  const now = new Date().toISOString();
+  const existing = id ? plans.find((item) => item.id === id) : undefined;
+  const state = serialiseShareableSubnetPlan(plan);
+  const nextName = name.trim() || existing?.name || 'Untitled plan';
+  if (existing && existing.state === state && existing.name === nextName) {
+    return toSummary(existing);
+  }
+
+  const stored: StoredPlan = {
+    id: existing?.id ?? createPlanId(),
+    name: nextName,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    state
+  };
+
+  const next = existing ? plans.map((item) => (item.id === stored.id ? stored : item)) : [...plans, stored];
+  return writeStore(next) ? toSummary(stored) : null;
+}
+
+export function renamePlan(id: string, name: string): boolean {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return false;
+  }
+  const plans = readStore();
+  if (!plans.some((plan) => plan.id === id)) {
+    return false;
+  }
+  return writeStore(plans.map((plan) => (plan.id === id ? { ...plan, name: trimmed, updatedAt: new Date().toISOString() } : plan)));
+}
+
+export function duplicatePlan(id: string): SavedPlanSummary | null {
+  const plans = readStore();
+  const source = plans.find((plan) => plan.id === id);
+  if (!source) {
+    return null;
+  }
+  const now = new Date().toISOString();
+  const copy: StoredPlan = { ...source, id: createPlanId(), name: `${source.name} (copy)`, createdAt: now, updatedAt: now };
+  return writeStore([...plans, copy]) ? toSummary(copy) : null;
+}
+
+export function deletePlan(id: string): boolean {
+  const plans = readStore();
+  return writeStore(plans.filter((plan) => plan.id !== id));
+}
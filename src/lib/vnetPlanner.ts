@@ -0,0 +1,280 @@
+import {
+  AZURE_IPV6_SUBNET_PREFIX,
+  AZURE_MIN_SUBNET_PREFIX,
+  IpVersion,
+  LeafDefinition,
+  SubnetTree,
+  collectLeaves,
+  createTreeFromLeafDefinitions,
+  formatIpAddress,
+  hostCapacity,
+  hostCapacityAzure,
+  maxPrefixLength,
+  subnetAddressCount
+} from './subnetCalculator';
+import { AZURE_SUBNET_ROLES, AzureSubnetRole, inferSubnetRole } from './azureSubnetRules';
+
+/**
+ * Requirements-driven VNet planning (VLSM).
+ *
+ * Each requirement is sized to the smallest prefix that fits its host count (or the
+ * prefix given explicitly), then requirements are placed largest-first into the
+ * smallest free block that can hold them. Allocating in decreasing size keeps every
+ * block aligned, so a plan only fails when the address space is genuinely exhausted.
+ */
+
+export interface SubnetRequirement {
+  name: string;
+  hosts?: number;
+  prefix?: number;
+  role?: AzureSubnetRole;
+}
+
+export interface PlannedSubnet {
+  name: string;
+  role?: AzureSubnetRole;
+  network: bigint;
+  prefix: number;
+  requestedHosts?: number;
+  capacity: bigint;
+}
+
+export interface VnetPlanResult {
+  allocations: PlannedSubnet[];
+  errors: string[];
+}
+
+export interface VnetPlanOptions {
+  baseNetwork: bigint;
+  basePrefix: number;
+  version?: IpVersion;
+  useAzureReservations?: boolean;
+}
+
+interface FreeBlock {
+  network: bigint;
+  prefix: number;
+}
+
+function capacityFor(prefix: number, version: IpVersion, useAzureReservations: boolean): bigint {
+  return useAzureReservations ? hostCapacityAzure(prefix, version) : hostCapacity(prefix, version);
+}
+
+// Subnets with a fixed Azure name are always called by it
+function requirementName(requirement: SubnetRequirement): string {
+  const fixedName = requirement.role ? AZURE_SUBNET_ROLES[requirement.role].subnetName : undefined;
+  return fixedName ?? requirement.name.trim();
+}
+
+function describeRequirement(requirement: SubnetRequirement, index: number): string {
+  return requirementName(requirement) || `Subnet ${index + 1}`;
+}
+
+function hasRule(role: AzureSubnetRole, kind: 'singleton' | 'addressFamily'): boolean {
+  return AZURE_SUBNET_ROLES[role].rules.some((rule) => rule.kind === kind);
+}
+
+/**
+ * Prefix length needed for a single requirement, or an error message
+ */
+function resolvePrefix(
+  requirement: SubnetRequirement,
+  label: string,
+  version: IpVersion,
+  useAzureReservations: boolean
+): number | string {
+  const maxPrefix = maxPrefixLength(version);
+  let prefix: number;
+
+  if (requirement.prefix !== undefined) {
+    if (!Number.isInteger(requirement.prefix) || requirement.prefix < 0 || requirement.prefix > maxPrefix) {
+      return `"${label}" has an invalid prefix length; use a value between 0 and ${maxPrefix}.`;
+    }
+    prefix = requirement.prefix;
+  } else if (requirement.hosts !== undefined) {
+    if (!Number.isInteger(requirement.hosts) || requirement.hosts < 1) {
+      return `"${label}" needs a host count of at least 1.`;
+    }
+    const hosts = BigInt(requirement.hosts);
+    prefix = maxPrefix;
+    while (prefix > 0 && capacityFor(prefix, version, useAzureReservations) < hosts) {
+      prefix -= 1;
+    }
+    if (capacityFor(prefix, version, useAzureReservations) < hosts) {
+      return `"${label}" needs more hosts than an IPv${version} network can hold.`;
+    }
+  } else if (requirement.role) {
+    prefix = AZURE_SUBNET_ROLES[requirement.role].maxPrefix;
+  } else {
+    return `"${label}" needs a host count or a prefix length.`;
+  }
+
+  if (useAzureReservations) {
+    prefix = Math.min(prefix, AZURE_MIN_SUBNET_PREFIX[version]);
+  }
+  // Every Azure IPv6 subnet is a /64; role sizes only apply to IPv4
+  if (useAzureReservations && version === 6) {
+    if (requirement.prefix !== undefined && prefix < AZURE_IPV6_SUBNET_PREFIX) {
+      return `"${label}" needs a /${prefix}, but Azure IPv6 subnets must be a /${AZURE_IPV6_SUBNET_PREFIX}.`;
+    }
+    return AZURE_IPV6_SUBNET_PREFIX;
+  }
+  if (requirement.role) {
+    const role = AZURE_SUBNET_ROLES[requirement.role];
+    prefix = Math.min(prefix, role.maxPrefix);
+
+    // Subnets such as AzureFirewallSubnet must be exactly one size, not merely large enough
+    const exactSize = role.rules.find((rule) => rule.kind === 'exactSize');
+    if (exactSize && exactSize.kind === 'exactSize') {
+      if (prefix < exactSize.prefix) {
+        return `"${label}" needs a /${prefix}, but it must be a /${exactSize.prefix}. ${exactSize.reason}`;
+      }
+      prefix = exactSize.prefix;
+    }
+  }
+
+  return prefix;
+}
+
+/**
+ * Allocate the requirements inside the base network. When `errors` is non-empty the
+ * plan could not be completed and `allocations` is empty.
+ */
+export function planSubnets(requirements: SubnetRequirement[], options: VnetPlanOptions): VnetPlanResult {
+  const { baseNetwork, basePrefix, version = 4, useAzureReservations = false } = options;
+  const errors: string[] = [];
+
+  if (requirements.length === 0) {
+    return { allocations: [], errors: ['Add at least one subnet requirement.'] };
+  }
+
+  const seenRoles = new Set<AzureSubnetRole>();
+  const sized: Array<{ requirement: SubnetRequirement; label: string; prefix: number; order: number }> = [];
+
+  requirements.forEach((requirement, index) => {
+    const label = describeRequirement(requirement, index);
+
+    if (requirement.role) {
+      if (seenRoles.has(requirement.role) && hasRule(requirement.role, 'singleton')) {
+        errors.push(`${label} can only appear once per virtual network.`);
+        return;
+      }
+      seenRoles.add(requirement.role);
+      if (version === 6 && hasRule(requirement.role, 'addressFamily')) {
+        errors.push(`${label} requires an IPv4 address space.`);
+        return;
+      }
+    }
+
+    const prefix = resolvePrefix(requirement, label, version, useAzureReservations);
+    if (typeof prefix === 'string') {
+      errors.push(prefix);
+      return;
+    }
+    if (prefix < basePrefix) {
+      errors.push(`"${label}" needs a /${prefix}, which is larger than the /${basePrefix} base network.`);
+      return;
+    }
+
+    sized.push({ requirement, label, prefix, order: index });
+  });
+
+  if (errors.length > 0) {
+    return { allocations: [], errors };
+  }
+
+  const required = sized.reduce((sum, item) => sum + subnetAddressCount(item.prefix, version), BigInt(0));
+  const available = subnetAddressCount(basePrefix, version);
+  if (required > available) {
+    return {
+      allocations: [],
+      errors: [
+        `The plan needs ${required.toLocaleString()} addresses but ${formatIpAddress(baseNetwork, version)}/${basePrefix} only has ${available.toLocaleString()}.`
+      ]
+    };
+  }
+
+  // Largest blocks first; keep input order for equal sizes
+  sized.sort((a, b) => a.prefix - b.prefix || a.order - b.order);
+
+  const free: FreeBlock[] = [{ network: baseNetwork, prefix: basePrefix }];
+  const allocations: PlannedSubnet[] = [];
+
+  for (const item of sized) {
+    // Best fit: the smallest free block that can hold the subnet, lowest address first
+    let bestIndex = -1;
+    free.forEach((block, index) => {
+      if (block.prefix > item.prefix) return;
+      const best = free[bestIndex];
+      if (!best || block.prefix > best.prefix || (block.prefix === best.prefix && block.network < best.network)) {
+        bestIndex = index;
+      }
+    });
+
+    if (bestIndex === -1) {
+      errors.push(`Not enough contiguous space left for "${item.label}" (/${item.prefix}).`);
+      break;
+    }
+
+    let [block] = free.splice(bestIndex, 1);
+    while (block.prefix < item.prefix) {
+      const childPrefix = block.prefix + 1;
+      free.push({ network: block.network + subnetAddressCount(childPrefix, version), prefix: childPrefix });
+      block = { network: block.network, prefix: childPrefix };
+    }
+
+    allocations.push({
+      name: requirementName(item.requirement),
+      role: item.requirement.role,
+      network: block.network,
+      prefix: block.prefix,
+      requestedHosts: item.requirement.hosts,
+      capacity: capacityFor(block.prefix, version, useAzureReservations)
+    });
+  }
+
+  if (errors.length > 0) {
+    return { allocations: [], errors };
+  }
+
+  return {
+    allocations: allocations.sort((a, b) => (a.network < b.network ? -1 : a.network > b.network ? 1 : 0)),
+    errors
+  };
+}
+
+/**
+ * Materialise a plan (or any list of named subnets) as a regular subnet tree. Space that
+ * was not allocated stays as free leaves; `names` and `roles` map the allocated leaf ids to
+ * their names and Azure roles.
+ */
+export function buildTreeFromPlan(
+  allocations: Array<Pick<PlannedSubnet, 'name' | 'network' | 'prefix' | 'role'>>,
+  baseNetwork: bigint,
+  basePrefix: number,
+  version: IpVersion = 4
+): { rootId: string; tree: SubnetTree; names: Record<string, string>; roles: Record<string, AzureSubnetRole> } {
+  const definitions: LeafDefinition[] = allocations.map(({ network, prefix }) => ({ network, prefix }));
+  const { rootId, tree } = createTreeFromLeafDefinitions(baseNetwork, basePrefix, definitions, version);
+
+  const allocationByKey = new Map<string, Pick<PlannedSubnet, 'name' | 'role'>>();
+  allocations.forEach((allocation) => {
+    allocationByKey.set(`${allocation.network}/${allocation.prefix}`, allocation);
+  });
+
+  const names: Record<string, string> = {};
+  const roles: Record<string, AzureSubnetRole> = {};
+  collectLeaves(tree, rootId).forEach((leaf) => {
+    const allocation = allocationByKey.get(`${leaf.network}/${leaf.prefix}`);
+    if (allocation?.name) {
+      names[leaf.id] = allocation.name;
+    }
+    // Imported subnets carry no role, but the fixed Azure names identify them
+    const role = allocation?.role ?? inferSubnetRole(allocation?.name);
+    if (role) {
+      roles[leaf.id] = role;
+    }
+  });
+
+  return { rootId, tree, names, roles };
+}
@@ -0,0 +1,207 @@
+import {
+  IpVersion,
+  compareAddresses,
+  formatIpAddress,
+  subnetAddressCount,
+  subnetLastAddress
+} from './subnetCalculator';
+
+/**
+ * Hub-and-spoke workspaces: several address spaces (VNets, on-premises ranges, other
+ * clouds) planned together. Connected networks must not overlap, so the helpers here
+ * find overlaps between them and the next free block inside a supernet.
+ */
+
+export type WorkspaceNetworkKind = 'hub' | 'spoke' | 'on-premises' | 'other-cloud';
+
+export const WORKSPACE_NETWORK_KINDS: Record<WorkspaceNetworkKind, { label: string; color: string }> = {
+  hub: { label: 'Hub', color: '#0ea5e9' },
+  spoke: { label: 'Spoke', color: '#10b981' },
+  'on-premises': { label: 'On-premises', color: '#f59e0b' },
+  'other-cloud': { label: 'Other cloud', color: '#8b5cf6' }
+};
+
+export interface WorkspaceSubnet {
+  network: bigint;
+  prefix: number;
+  name?: string;
+}
+
+export interface WorkspaceNetworkSummary {
+  id: string;
+  name: string;
+  kind: WorkspaceNetworkKind;
+  // Isolated networks are not peered or routed to the others, so they may overlap
+  isolated: boolean;
+  baseNetwork: bigint;
+  basePrefix: number;
+  version: IpVersion;
+  subnets: WorkspaceSubnet[];
+}
+
+export interface WorkspaceOverlap {
+  first: WorkspaceNetworkSummary;
+  second: WorkspaceNetworkSummary;
+  // Shared address range
+  start: bigint;
+  end: bigint;
+  // Subnet pairs that overlap, by name or CIDR
+  subnetPairs: Array<[string, string]>;
+}
+
+export interface AddressBarSegment {
+  id: string;
+  name: string;
+  kind: WorkspaceNetworkKind;
+  cidr: string;
+  offset: number;
+  width: number;
+  overlapping: boolean;
+}
+
+export interface AddressBarLayout {
+  version: IpVersion;
+  start: bigint;
+  end: bigint;
+  segments: AddressBarSegment[];
+}
+
+interface Interval {
+  start: bigint;
+  end: bigint;
+}
+
+// Keep tiny networks visible on the bar (percent of its width)
+const MIN_SEGMENT_WIDTH = 0.6;
+
+function networkInterval(network: WorkspaceNetworkSummary): Interval {
+  return {
+    start: network.baseNetwork,
+    end: subnetLastAddress(network.baseNetwork, network.basePrefix, network.version)
+  };
+}
+
+function subnetInterval(subnet: WorkspaceSubnet, version: IpVersion): Interval {
+  return { start: subnet.network, end: subnetLastAddress(subnet.network, subnet.prefix, version) };
+}
+
+function intersect(a: Interval, b: Interval): Interval | null {
+  const start = a.start > b.start ? a.start : b.start;
+  const end = a.end < b.end ? a.end : b.end;
+  return start <= end ? { start, end } : null;
+}
+
+export function formatNetworkCidr(network: Pick<WorkspaceNetworkSummary, 'baseNetwork' | 'basePrefix' | 'version'>): string {
+  return `${formatIpAddress(network.baseNetwork, network.version)}/${network.basePrefix}`;
+}
+
+function subnetLabel(subnet: WorkspaceSubnet, version: IpVersion): string {
+  const cidr = `${formatIpAddress(subnet.network, version)}/${subnet.prefix}`;
+  return subnet.name ? `${subnet.name} (${cidr})` : cidr;
+}
+
+/**
+ * Every pair of connected networks whose address spaces overlap
+ */
+export function findWorkspaceOverlaps(networks: WorkspaceNetworkSummary[]): WorkspaceOverlap[] {
+  const overlaps: WorkspaceOverlap[] = [];
+  const connected = networks.filter((network) => !network.isolated);
+
+  for (let i = 0; i < connected.length; i += 1) {
+    for (let j = i + 1; j < connected.length; j += 1) {
+      const first = connected[i];
+      const second = connected[j];
+      if (first.version !== second.version) continue;
+
+      const shared = intersect(networkInterval(first), networkInterval(second));
+      if (!shared) continue;
+
+      const subnetPairs: Array<[string, string]> = [];
+      first.subnets.forEach((a) => {
+        second.subnets.forEach((b) => {
+          if (intersect(subnetInterval(a, first.version), subnetInterval(b, second.version))) {
+            subnetPairs.push([subnetLabel(a, first.version), subnetLabel(b, second.version)]);
+          }
+        });
+      });
+
+      overlaps.push({ first, second, start: shared.start, end: shared.end, subnetPairs });
+    }
+  }
+
+  return overlaps;
+}
+
+/**
+ * First block of the requested size inside `supernet` that does not overlap any network
+ * of the same address family (isolated ones included), or null when the supernet is full.
+ */
+export function suggestNextFreeBlock(
+  supernet: { network: bigint; prefix: number; version: IpVersion },
+  prefix: number,
+  networks: WorkspaceNetworkSummary[]
+): bigint | null {
+  const { version } = supernet;
+  if (prefix < supernet.prefix) {
+    return null;
+  }
+
+  const size = subnetAddressCount(prefix, version);
+  const limit = subnetLastAddress(supernet.network, supernet.prefix, version);
+  const occupied = networks
+    .filter((network) => network.version === version)
+    .map(networkInterval)
+    .sort((a, b) => compareAddresses(a.start, b.start));
+
+  let candidate = supernet.network;
+  while (candidate + size - BigInt(1) <= limit) {
+    const candidateEnd = candidate + size - BigInt(1);
+    const blocking = occupied.find((interval) => intersect(interval, { start: candidate, end: candidateEnd }));
+    if (!blocking) {
+      return candidate;
+    }
+    // Jump to the next aligned block after the blocking range
+    const next = blocking.end + BigInt(1);
+    candidate = ((next + size - BigInt(1)) / size) * size;
+  }
+
+  return null;
+}
+
+/**
+ * Position each network of one address family on a shared bar spanning all of them
+ */
+export function layoutAddressBar(networks: WorkspaceNetworkSummary[], version: IpVersion): AddressBarLayout | null {
+  const family = networks.filter((network) => network.version === version);
+  if (family.length === 0) {
+    return null;
+  }
+
+  const intervals = family.map(networkInterval);
+  const start = intervals.reduce((min, interval) => (interval.start < min ? interval.start : min), intervals[0].start);
+  const end = intervals.reduce((max, interval) => (interval.end > max ? interval.end : max), intervals[0].end);
+  const span = end - start + BigInt(1);
+  const overlappingIds = new Set<string>();
+  findWorkspaceOverlaps(family).forEach((overlap) => {
+    overlappingIds.add(overlap.first.id);
+    overlappingIds.add(overlap.second.id);
+  });
+
+  // Percentages with two decimals, computed in bigint to stay exact for IPv6
+  const toPercent = (value: bigint) => Number((value * BigInt(10000)) / span) / 100;
+
+  const segments = family.map((network, index) => {
+    const interval = intervals[index];
+    return {
+      id: network.id,
+      name: network.name,
+      kind: network.kind,
+      cidr: formatNetworkCidr(network),
+      offset: toPercent(interval.start - start),
+      width: Math.max(MIN_SEGMENT_WIDTH, toPercent(interval.end - interval.start + BigInt(1))),
+      overlapping: overlappingIds.has(network.id)
+    };
+  });
+
+  return { version, start, end, segments };
+}
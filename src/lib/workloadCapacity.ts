@@ -0,0 +1,125 @@
+import { AZURE_MIN_SUBNET_PREFIX, IpVersion, hostCapacityAzure } from './subnetCalculator';
+
+/**
+ * Address requirements of common Azure workloads. Each profile turns a few sizing inputs
+ * (node counts, instances, endpoints) into the number of subnet addresses the workload
+ * needs at peak, which is then compared with the Azure capacity of a subnet.
+ */
+
+export type WorkloadKind = 'aks-azure-cni' | 'aks-cni-overlay' | 'app-service' | 'private-endpoints' | 'vmss';
+
+export type WorkloadField = 'nodes' | 'maxPods' | 'surgeNodes' | 'instances' | 'endpoints';
+
+export interface WorkloadProfile {
+  kind: WorkloadKind;
+  values: Partial<Record<WorkloadField, number>>;
+}
+
+interface WorkloadKindInfo {
+  label: string;
+  fields: Array<{ key: WorkloadField; label: string; defaultValue: number }>;
+  // How the requirement is calculated, shown next to the result
+  formula: string;
+  requiredAddresses: (values: Record<WorkloadField, number>) => number;
+}
+
+export const WORKLOAD_KINDS: Record<WorkloadKind, WorkloadKindInfo> = {
+  'aks-azure-cni': {
+    label: 'AKS (Azure CNI)',
+    fields: [
+      { key: 'nodes', label: 'Nodes', defaultValue: 3 },
+      { key: 'maxPods', label: 'Max pods', defaultValue: 30 },
+      { key: 'surgeNodes', label: 'Surge', defaultValue: 1 }
+    ],
+    formula: '(nodes + surge) × (max pods + 1)',
+    // Every node and every pod it can host get an address from the subnet
+    requiredAddresses: ({ nodes, maxPods, surgeNodes }) => (nodes + surgeNodes) * (maxPods + 1)
+  },
+  'aks-cni-overlay': {
+    label: 'AKS (CNI Overlay)',
+    fields: [
+      { key: 'nodes', label: 'Nodes', defaultValue: 3 },
+      { key: 'surgeNodes', label: 'Surge', defaultValue: 1 }
+    ],
+    formula: 'nodes + surge',
+    // Pods are addressed from the overlay CIDR, so only nodes use subnet addresses
+    requiredAddresses: ({ nodes, surgeNodes }) => nodes + surgeNodes
+  },
+  'app-service': {
+    label: 'App Service integration',
+    fields: [{ key: 'instances', label: 'Instances', defaultValue: 10 }],
+    formula: 'instances × 2',
+    // Scale operations and platform upgrades briefly run a second set of instances
+    requiredAddresses: ({ instances }) => instances * 2
+  },
+  'private-endpoints': {
+    label: 'Private endpoints',
+    fields: [{ key: 'endpoints', label: 'Endpoints', defaultValue: 10 }],
+    formula: 'one address per endpoint',
+    requiredAddresses: ({ endpoints }) => endpoints
+  },
+  vmss: {
+    label: 'VM scale set',
+    fields: [
+      { key: 'instances', label: 'Instances', defaultValue: 10 },
+      { key: 'surgeNodes', label: 'Surge', defaultValue: 2 }
+    ],
+    formula: 'instances + surge',
+    requiredAddresses: ({ instances, surgeNodes }) => instances + surgeNodes
+  }
+};
+
+export const WORKLOAD_KIND_IDS = Object.keys(WORKLOAD_KINDS) as WorkloadKind[];
+
+export function isWorkloadKind(value: unknown): value is WorkloadKind {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(WORKLOAD_KINDS, value);
+}
+
+export function createWorkloadProfile(kind: WorkloadKind): WorkloadProfile {
+  const values: Partial<Record<WorkloadField, number>> = {};
+  WORKLOAD_KINDS[kind].fields.forEach((field) => {
+    values[field.key] = field.defaultValue;
+  });
+  return { kind, values };
+}
+
+export function requiredWorkloadAddresses(profile: WorkloadProfile): number {
+  const values: Record<WorkloadField, number> = { nodes: 0, maxPods: 0, surgeNodes: 0, instances: 0, endpoints: 0 };
+  WORKLOAD_KINDS[profile.kind].fields.forEach((field) => {
+    const value = profile.values[field.key];
+    values[field.key] = value !== undefined && Number.isFinite(value) && value > 0 ? Math.floor(value) : 0;
+  });
+  return WORKLOAD_KINDS[profile.kind].requiredAddresses(values);
+}
+
+/**
+ * Largest prefix length (smallest subnet) whose Azure capacity holds `required`
+ * addresses, or null when not even the whole address space does
+ */
+export function recommendWorkloadPrefix(required: number, version: IpVersion = 4): number | null {
+  const needed = BigInt(required);
+  for (let prefix = AZURE_MIN_SUBNET_PREFIX[version]; prefix >= 0; prefix -= 1) {
+    if (hostCapacityAzure(prefix, version) >= needed) {
+      return prefix;
+    }
+  }
+  return null;
+}
+
+export interface WorkloadAssessment {
+  required: number;
+  capacity: bigint;
+  recommendedPrefix: number | null;
+  fits: boolean;
+}
+
+export function assessWorkload(profile: WorkloadProfile, prefix: number, version: IpVersion = 4): WorkloadAssessment {
+  const required = requiredWorkloadAddresses(profile);
+  const capacity = hostCapacityAzure(prefix, version);
+  return {
+    required,
+    capacity,
+    recommendedPrefix: recommendWorkloadPrefix(required, version),
+    fits: capacity >= BigInt(required)
+  };
+}
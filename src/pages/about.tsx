@@ -38,6 +38,17 @@ export default function About({ fileMetadata }: AboutProps) {
           <DefinitionsTable metadata={fileMetadata} />
         </div>
 
+        <div className="space-y-4 rounded-2xl border border-slate-200 bg-white p-8 shadow-sm">
+          <h2 className="text-2xl font-semibold text-slate-900">API</h2>
+          <p className="text-base text-slate-600">
+            IP, service tag and region lookups are also available as a JSON API for scripts and automation. See the{' '}
+            <Link href="/api-docs" className="font-semibold text-sky-600 hover:text-sky-700">
+              API reference
+            </Link>{' '}
+            for the routes, parameters and response schemas.
+          </p>
+        </div>
+
         <div className="space-y-4 rounded-2xl border border-slate-200 bg-white p-8 shadow-sm">
           <h2 className="text-2xl font-semibold text-slate-900">Open source &amp; feedback</h2>
           <p className="text-base text-slate-600">
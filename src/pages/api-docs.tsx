@@ -0,0 +1,170 @@
+import Link from 'next/link';
+import Layout from '@/components/Layout';
+import type { JsonSchema } from '@/lib/apiSchemas';
+import { HttpMethod, OpenApiOperation, buildOpenApiDocument } from '@/lib/openApi';
+
+const OPENAPI_DOCUMENT = buildOpenApiDocument();
+
+const METHOD_STYLES: Record<HttpMethod, string> = {
+  get: 'bg-sky-100 text-sky-700',
+  post: 'bg-emerald-100 text-emerald-700'
+};
+
+function refName(ref: string): string {
+  return ref.slice(ref.lastIndexOf('/') + 1);
+}
+
+/**
+ * Short human-readable type of a schema, e.g. "AzureIpAddress[]" or "string (uuid)"
+ */
+function describeSchema(schema: JsonSchema): string {
+  if (schema.$ref) {
+    return refName(schema.$ref);
+  }
+  if (schema.enum) {
+    return schema.enum.join(' | ');
+  }
+  if (schema.type === 'array' && schema.items) {
+    return `${describeSchema(schema.items)}[]`;
+  }
+  const type = Array.isArray(schema.type) ? schema.type.join(' | ') : schema.type ?? 'any';
+  return schema.format ? `${type} (${schema.format})` : type;
+}
+
+function SchemaLink({ schema }: { schema: JsonSchema }) {
+  if (schema.$ref) {
+    const name = refName(schema.$ref);
+    return (
+      <a href={`#schema-${name}`} className="font-mono text-sky-600 hover:text-sky-700">
+        {name}
+      </a>
+    );
+  }
+  return <span className="font-mono text-slate-600">{describeSchema(schema)}</span>;
+}
+
+function OperationCard({ path, method, operation }: { path: string; method: HttpMethod; operation: OpenApiOperation }) {
+  return (
+    <div id={operation.operationId} className="space-y-4 rounded-2xl border border-slate-200 bg-white p-8 shadow-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className={`rounded-md px-2 py-1 text-xs font-semibold uppercase ${METHOD_STYLES[method]}`}>{method}</span>
+        <code className="text-base font-semibold text-slate-900">{path}</code>
+      </div>
+      <p className="text-base text-slate-700">{operation.summary}</p>
+      {operation.description && <p className="text-sm text-slate-600">{operation.description}</p>}
+
+      {operation.parameters && operation.parameters.length > 0 && (
+        <table className="w-full text-left text-sm">
+          <thead className="text-xs uppercase tracking-wide text-slate-500">
+            <tr>
+              <th className="py-2 pr-4">Parameter</th>
+              <th className="py-2 pr-4">In</th>
+              <th className="py-2 pr-4">Type</th>
+              <th className="py-2">Description</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {operation.parameters.map((parameter) => (
+              <tr key={`${parameter.in}-${parameter.name}`}>
+                <td className="py-2 pr-4 font-mono text-slate-900">
+                  {parameter.name}
+                  {parameter.required && <span className="ml-1 text-rose-600">*</span>}
+                </td>
+                <td className="py-2 pr-4 text-slate-600">{parameter.in}</td>
+                <td className="py-2 pr-4 font-mono text-slate-600">{describeSchema(parameter.schema)}</td>
+                <td className="py-2 text-slate-600">{parameter.description}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {operation.requestBody && (
+        <p className="text-sm text-slate-600">
+          Request body: <SchemaLink schema={operation.requestBody.content['application/json'].schema} />
+        </p>
+      )}
+
+      <ul className="space-y-1 text-sm">
+        {Object.keys(operation.responses).map((status) => {
+          const response = operation.responses[status];
+          const schema = response.content?.['application/json'].schema;
+          return (
+            <li key={status} className="flex flex-wrap gap-2">
+              <span className={`font-mono font-semibold ${status.startsWith('2') ? 'text-emerald-700' : 'text-slate-700'}`}>
+                {status}
+              </span>
+              <span className="text-slate-600">{response.description}</span>
+              {schema && <SchemaLink schema={schema} />}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+export default function ApiDocs() {
+  const { paths, components } = OPENAPI_DOCUMENT;
+
+  return (
+    <Layout
+      title="Azure Hub API"
+      description="Reference for the Azure Hub API: service tag and IP lookups, DNS resolution and Microsoft Entra tenant discovery."
+    >
+      <section className="space-y-8">
+        <div className="space-y-4 rounded-2xl border border-slate-200 bg-white p-8 shadow-sm">
+          <h1 className="text-3xl font-semibold text-slate-900">{OPENAPI_DOCUMENT.info.title}</h1>
+          <p className="text-base text-slate-600">{OPENAPI_DOCUMENT.info.description}</p>
+          <p className="text-base text-slate-600">
+            The machine-readable OpenAPI {OPENAPI_DOCUMENT.openapi} document is available at{' '}
+            <Link href="/api/openapi.json" className="font-semibold text-sky-600 hover:text-sky-700">
+              /api/openapi.json
+            </Link>
+            . Service tag responses carry an ETag and the data <code>changeNumber</code>, so scripts can send
+            If-None-Match and skip unchanged data.
+          </p>
+        </div>
+
+        {Object.keys(paths).map((path) => {
+          const methods = paths[path];
+          return (Object.keys(methods) as HttpMethod[]).map((method) => {
+            const operation = methods[method];
+            return operation ? <OperationCard key={`${method}-${path}`} path={path} method={method} operation={operation} /> : null;
+          });
+        })}
+
+        <div className="space-y-6 rounded-2xl border border-slate-200 bg-white p-8 shadow-sm">
+          <h2 className="text-2xl font-semibold text-slate-900">Schemas</h2>
+          {(Object.keys(components.schemas) as Array<keyof typeof components.schemas>).map((name) => {
+            const schema = components.schemas[name];
+            const properties = schema.properties ?? {};
+            const required = schema.required ?? [];
+            return (
+              <div key={name} id={`schema-${name}`} className="space-y-2">
+                <h3 className="font-mono text-lg font-semibold text-slate-900">{name}</h3>
+                {schema.description && <p className="text-sm text-slate-600">{schema.description}</p>}
+                <table className="w-full text-left text-sm">
+                  <tbody className="divide-y divide-slate-100">
+                    {Object.keys(properties).map((property) => (
+                      <tr key={property}>
+                        <td className="w-1/4 py-1.5 pr-4 font-mono text-slate-900">
+                          {property}
+                          {required.includes(property) && <span className="ml-1 text-rose-600">*</span>}
+                        </td>
+                        <td className="w-1/4 py-1.5 pr-4">
+                          <SchemaLink schema={properties[property]} />
+                        </td>
+                        <td className="py-1.5 text-slate-600">{properties[property].description}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            );
+          })}
+        </div>
+      </section>
+    </Layout>
+  );
+}
@@ -1,89 +1,161 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import dns from 'dns';
-import { promisify } from 'util';
+import { withApiMiddleware } from '@/lib/apiMiddleware';
+import { identifyAzureHostname } from '@/lib/azureHostnames';
+import { DnsResolverConfigError, getDnsResolver } from '@/lib/dnsResolvers';
+import type { DnsAnswer, DnsResolver } from '@/lib/dnsResolvers';
+import { assessPrivateLink } from '@/lib/privateLinkZones';
+import type { ApiErrorResponse, DnsChainRecord, DnsLookupResponse } from '@/types/api';
 
-const resolve4 = promisify(dns.resolve4);
-const resolve6 = promisify(dns.resolve6);
+// Stop following CNAMEs after this many hops (guards against loops)
+const MAX_CNAME_HOPS = 10;
 
-interface DnsLookupResponse {
-  hostname: string;
-  ipAddresses: string[];
-  error?: string;
+const MAX_HOSTNAME_LENGTH = 253;
+// Letters, digits, hyphens and underscores (e.g. _dmarc), not starting or ending with a hyphen
+const HOSTNAME_LABEL_PATTERN = /^[a-z0-9_](?:[a-z0-9_-]{0,61}[a-z0-9_])?$/i;
+
+/**
+ * Fully qualified hostnames only: single-label names would be completed with the
+ * server's search domains and expose internal names
+ */
+function isValidHostname(hostname: string): boolean {
+  const labels = hostname.split('.');
+  return (
+    hostname.length <= MAX_HOSTNAME_LENGTH &&
+    labels.length > 1 &&
+    labels.every((label) => HOSTNAME_LABEL_PATTERN.test(label))
+  );
+}
+
+function annotate(record: DnsChainRecord): DnsChainRecord {
+  const match = identifyAzureHostname(record.name);
+  return match ? { ...record, azureService: match.service } : record;
+}
+
+/**
+ * Follow the CNAME chain from a hostname, returning each hop and the canonical name
+ */
+async function traceCnameChain(
+  resolver: DnsResolver,
+  hostname: string
+): Promise<{ hops: DnsChainRecord[]; canonicalName: string }> {
+  const hops: DnsChainRecord[] = [];
+  const seen = new Set<string>([hostname.toLowerCase()]);
+  let current = hostname;
+
+  while (hops.length < MAX_CNAME_HOPS) {
+    let targets: DnsAnswer[];
+    try {
+      targets = await resolver.resolve(current, 'CNAME');
+    } catch (error) {
+      // Treat a failed CNAME query as the end of the chain; the address queries still run
+      break;
+    }
+    if (targets.length === 0) {
+      break;
+    }
+
+    const { value: target, ttl } = targets[0];
+    hops.push(annotate({ name: current, type: 'CNAME', value: target, ttl }));
+    if (seen.has(target.toLowerCase())) {
+      break;
+    }
+    seen.add(target.toLowerCase());
+    current = target;
+  }
+
+  return { hops, canonicalName: current };
 }
 
 /**
  * API route to perform DNS lookup for hostnames
- * Returns resolved IP addresses that can be used for Azure IP lookup
+ * Returns the CNAME chain and resolved IP addresses that can be used for Azure IP lookup
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<DnsLookupResponse>
+  res: NextApiResponse<DnsLookupResponse | ApiErrorResponse>
 ) {
-  if (req.method !== 'GET') {
-    return res.status(405).json({
-      hostname: '',
-      ipAddresses: [],
-      error: 'Method not allowed'
-    });
-  }
-
-  const { hostname } = req.query;
+  const { hostname, resolver: requestedResolver } = req.query;
 
   if (!hostname || typeof hostname !== 'string') {
     return res.status(400).json({
       hostname: '',
       ipAddresses: [],
+      chain: [],
       error: 'Hostname parameter is required'
     });
   }
 
-  // Basic hostname validation
-  const hostnamePattern = /^[a-zA-Z0-9][a-zA-Z0-9-_.]*[a-zA-Z0-9]$/;
-  if (!hostnamePattern.test(hostname)) {
+  if (!isValidHostname(hostname)) {
     return res.status(400).json({
       hostname,
       ipAddresses: [],
+      chain: [],
       error: 'Invalid hostname format'
     });
   }
 
+  let resolver: DnsResolver;
   try {
-    const ipAddresses: string[] = [];
-
-    // Try IPv4 resolution
-    try {
-      const ipv4Addresses = await resolve4(hostname);
-      ipAddresses.push(...ipv4Addresses);
-    } catch (error) {
-      // IPv4 resolution failed, that's okay - might only have IPv6
-    }
-
-    // Try IPv6 resolution
-    try {
-      const ipv6Addresses = await resolve6(hostname);
-      ipAddresses.push(...ipv6Addresses);
-    } catch (error) {
-      // IPv6 resolution failed, that's okay - might only have IPv4
-    }
-
-    if (ipAddresses.length === 0) {
-      return res.status(404).json({
+    resolver = await getDnsResolver(typeof requestedResolver === 'string' ? requestedResolver : undefined);
+  } catch (error) {
+    if (error instanceof DnsResolverConfigError) {
+      return res.status(400).json({
         hostname,
         ipAddresses: [],
-        error: `No DNS records found for ${hostname}`
+        chain: [],
+        error: error.message
       });
     }
+    throw error;
+  }
 
-    return res.status(200).json({
-      hostname,
-      ipAddresses
-    });
+  const { hops, canonicalName } = await traceCnameChain(resolver, hostname);
+  const addressRecords: DnsChainRecord[] = [];
+
+  // Try IPv4 resolution
+  try {
+    const ipv4Records = await resolver.resolve(hostname, 'A');
+    ipv4Records.forEach((record) =>
+      addressRecords.push(annotate({ name: canonicalName, type: 'A', value: record.value, ttl: record.ttl }))
+    );
+  } catch (error) {
+    // IPv4 resolution failed, that's okay - might only have IPv6
+  }
+
+  // Try IPv6 resolution
+  try {
+    const ipv6Records = await resolver.resolve(hostname, 'AAAA');
+    ipv6Records.forEach((record) =>
+      addressRecords.push(annotate({ name: canonicalName, type: 'AAAA', value: record.value, ttl: record.ttl }))
+    );
   } catch (error) {
-    console.error('DNS lookup error:', error);
-    return res.status(500).json({
+    // IPv6 resolution failed, that's okay - might only have IPv4
+  }
+
+  const chain = [...hops, ...addressRecords];
+  const privateLink = assessPrivateLink(hostname, chain) ?? undefined;
+
+  if (addressRecords.length === 0) {
+    return res.status(404).json({
       hostname,
       ipAddresses: [],
-      error: error instanceof Error ? error.message : 'DNS lookup failed'
+      chain,
+      privateLink,
+      resolver: resolver.kind,
+      error: `No DNS records found for ${hostname}`
     });
   }
+
+  return res.status(200).json({
+    hostname,
+    ipAddresses: addressRecords.map((record) => record.value),
+    chain,
+    privateLink,
+    resolver: resolver.kind
+  });
 }
+
+export default withApiMiddleware(handler, {
+  methods: ['GET'],
+  errorMessage: 'DNS lookup failed. Try again later.'
+});
@@ -0,0 +1,19 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withApiMiddleware } from '@/lib/apiMiddleware';
+import { OpenApiDocument, buildOpenApiDocument } from '@/lib/openApi';
+import type { ApiErrorResponse } from '@/types/api';
+
+const openApiDocument = buildOpenApiDocument();
+
+/**
+ * OpenAPI 3.1 document describing the API routes
+ */
+function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<OpenApiDocument | ApiErrorResponse>
+) {
+  res.setHeader('Cache-Control', 'public, max-age=3600');
+  res.status(200).json(openApiDocument);
+}
+
+export default withApiMiddleware(handler, { methods: ['GET', 'HEAD'] });
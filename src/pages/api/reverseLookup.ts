@@ -0,0 +1,97 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withApiMiddleware } from '@/lib/apiMiddleware';
+import { identifyAzureHostname } from '@/lib/azureHostnames';
+import { DnsResolverConfigError, getDnsResolver, reverseDnsName } from '@/lib/dnsResolvers';
+import type { DnsAnswer, DnsResolver } from '@/lib/dnsResolvers';
+import { matchIpAddress } from '@/lib/ipLookup';
+import { formatIpAddress, parseIpPrefix } from '@/lib/ipPrefixIndex';
+import { loadCloudIpData } from '@/lib/ipService';
+import { getChangeNumbers, getCloudParam, getQueryValue, handleApiRequest, PUBLIC_API_OPTIONS } from '@/lib/publicApi';
+import type { ApiErrorResponse, DnsChainRecord, ReverseLookupResponse } from '@/types/api';
+
+// Forward-confirm at most this many PTR hostnames
+const MAX_CONFIRMED_HOSTNAMES = 5;
+
+/**
+ * A/AAAA records of a PTR hostname, in the address family of the queried IP
+ */
+async function resolveForward(resolver: DnsResolver, hostname: string, family: 4 | 6): Promise<DnsChainRecord[]> {
+  const type = family === 4 ? 'A' : 'AAAA';
+  try {
+    const records = await resolver.resolve(hostname, type);
+    return records.map((record) => ({ name: hostname, type, value: record.value, ttl: record.ttl }));
+  } catch (error) {
+    // A hostname that does not resolve just leaves the PTR unconfirmed
+    return [];
+  }
+}
+
+/**
+ * GET /api/reverseLookup?ip=[&cloud=][&resolver=]
+ * PTR records of an address, whether they resolve back to it, and the service tags containing it
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ReverseLookupResponse | ApiErrorResponse>
+) {
+  await handleApiRequest(req, res, async () => {
+    const query = getQueryValue(req.query.ip) ?? '';
+    const parsed = parseIpPrefix(query);
+    if (!parsed || parsed.prefixLength !== parsed.bytes.length * 8) {
+      return { status: 400, error: 'Enter a single IPv4 or IPv6 address.' };
+    }
+
+    let resolver: DnsResolver;
+    try {
+      resolver = await getDnsResolver(getQueryValue(req.query.resolver));
+    } catch (error) {
+      if (error instanceof DnsResolverConfigError) {
+        return { status: 400, error: error.message };
+      }
+      throw error;
+    }
+
+    const entries = await loadCloudIpData(getCloudParam(req));
+    const ip = formatIpAddress(parsed.family, parsed.bytes);
+    const ptrName = reverseDnsName(parsed);
+
+    let ptrRecords: DnsAnswer[];
+    try {
+      ptrRecords = await resolver.resolve(ptrName, 'PTR');
+    } catch (error) {
+      console.error('Reverse DNS lookup failed:', error);
+      return { status: 502, error: 'Reverse DNS lookup failed. Try again later.' };
+    }
+
+    const hostnames = ptrRecords.map((record) => record.value);
+    const chain: DnsChainRecord[] = ptrRecords.map((record) => ({
+      name: ptrName,
+      type: 'PTR',
+      value: record.value,
+      ttl: record.ttl,
+      azureService: identifyAzureHostname(record.value)?.service
+    }));
+
+    const forwardRecords = await Promise.all(
+      hostnames.slice(0, MAX_CONFIRMED_HOSTNAMES).map((hostname) => resolveForward(resolver, hostname, parsed.family))
+    );
+    forwardRecords.forEach((records) => chain.push(...records));
+
+    return {
+      status: 200,
+      body: {
+        ip,
+        ptrName,
+        chain,
+        hostnames,
+        forwardConfirmed: chain.some((record) => record.type !== 'PTR' && record.value === ip),
+        azureService: chain.find((record) => record.type === 'PTR' && record.azureService)?.azureService,
+        changeNumber: getChangeNumbers(entries),
+        serviceTags: matchIpAddress(entries, ip).filter((match) => match.isMostSpecific),
+        resolver: resolver.kind
+      }
+    };
+  });
+}
+
+export default withApiMiddleware(handler, PUBLIC_API_OPTIONS);
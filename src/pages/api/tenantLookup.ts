@@ -1,44 +1,17 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { ClientSecretCredential, TokenCredential } from '@azure/identity';
-import { checkRateLimit, getClientIdentifier } from '@/lib/rateLimit';
-
-interface TenantInformation {
-  tenantId: string;
-  defaultDomainName?: string;
-  displayName?: string;
-  federationBrandName?: string | null;
-}
-
-interface TenantMetadata {
-  cloud_instance_name?: string;
-  tenant_region_scope?: string;
-  tenant_region_sub_scope?: string;
-  authorization_endpoint?: string;
-  issuer?: string;
-  [key: string]: unknown;
-}
-
-interface TenantLookupResponse {
-  input: {
-    domain: string;
-  };
-  tenant: TenantInformation;
-  metadata?: TenantMetadata;
-  derived: {
-    azureAdInstance?: string;
-    tenantScope?: string;
-  };
-  fetchedAt: string;
-}
-
-type ErrorResponse = {
-  error: string;
-};
+import { withApiMiddleware } from '@/lib/apiMiddleware';
+import type {
+  ApiErrorResponse,
+  TenantInformation,
+  TenantLookupResponse,
+  TenantMetadata
+} from '@/types/api';
 
 const GRAPH_SCOPE = process.env.GRAPH_SCOPE ?? 'https://graph.microsoft.com/.default';
 const GRAPH_BASE_URL = process.env.GRAPH_BASE_URL ?? 'https://graph.microsoft.com';
 
-const DEFAULT_ALLOWED_ORIGINS = ['http://localhost:3000', 'https://localhost:3000'];
+const LOOKUP_FAILED_MESSAGE = 'Unable to retrieve tenant information. Try again later.';
 
 const CLOUD_INSTANCE_LABELS: Record<string, string> = {
   AzureADMyOrg: 'Azure AD Global',
@@ -174,78 +147,10 @@ async function fetchTenantMetadata(tenantIdOrDomain: string): Promise<TenantMeta
   }
 }
 
-function sendJson<T>(
-  res: NextApiResponse<T>,
-  status: number,
-  payload: T,
-  corsOrigin?: string,
-  rateLimitHeaders?: { limit: number; remaining: number; reset: number }
-) {
-  if (corsOrigin) {
-    res.setHeader('Access-Control-Allow-Origin', corsOrigin);
-    res.setHeader('Vary', 'Origin');
-  }
-  if (rateLimitHeaders) {
-    res.setHeader('X-RateLimit-Limit', rateLimitHeaders.limit.toString());
-    res.setHeader('X-RateLimit-Remaining', rateLimitHeaders.remaining.toString());
-    res.setHeader('X-RateLimit-Reset', rateLimitHeaders.reset.toString());
-  }
-  res.status(status).json(payload);
-}
-
-export default async function handler(
+async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<TenantLookupResponse | ErrorResponse>
+  res: NextApiResponse<TenantLookupResponse | ApiErrorResponse>
 ) {
-  const origin = req.headers.origin ?? '';
-  const corsAllowedOrigins = (process.env.TENANT_LOOKUP_ALLOWED_ORIGINS ?? '')
-    .split(',')
-    .map((value) => value.trim())
-    .filter(Boolean);
-
-  const corsAllowOrigin = [...corsAllowedOrigins, ...DEFAULT_ALLOWED_ORIGINS].includes(origin)
-    ? origin
-    : undefined;
-
-  if (req.method === 'OPTIONS') {
-    if (corsAllowOrigin) {
-      res.setHeader('Access-Control-Allow-Origin', corsAllowOrigin);
-    }
-    res.setHeader('Access-Control-Allow-Methods', 'POST, GET, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-    res.setHeader('Access-Control-Max-Age', '3600');
-    res.status(204).end();
-    return;
-  }
-
-  const clientId = getClientIdentifier(req);
-  const rateLimit = checkRateLimit(clientId);
-
-  if (!rateLimit.success) {
-    const retryAfter = Math.ceil((rateLimit.reset - Date.now()) / 1000);
-    res.setHeader('Retry-After', retryAfter.toString());
-    if (corsAllowOrigin) {
-      res.setHeader('Access-Control-Allow-Origin', corsAllowOrigin);
-      res.setHeader('Vary', 'Origin');
-    }
-    res.setHeader('X-RateLimit-Limit', rateLimit.limit.toString());
-    res.setHeader('X-RateLimit-Remaining', '0');
-    res.setHeader('X-RateLimit-Reset', rateLimit.reset.toString());
-    res.status(429).json({ error: 'Too many requests. Please try again later.' });
-    return;
-  }
-
-  const rateLimitHeaders = {
-    limit: rateLimit.limit,
-    remaining: rateLimit.remaining,
-    reset: rateLimit.reset,
-  };
-
-  if (!['GET', 'POST'].includes(req.method ?? '')) {
-    sendJson(res, 405, { error: 'Method Not Allowed' }, corsAllowOrigin, rateLimitHeaders);
-    return;
-  }
-
   try {
     const body = typeof req.body === 'object' && req.body !== null ? req.body : {};
     const requestBody =
@@ -255,13 +160,7 @@ export default async function handler(
     const domain = normalizeDomain(domainParam ?? '');
 
     if (!domain) {
-      sendJson(
-        res,
-        400,
-        { error: 'Enter a valid tenant-verified domain such as contoso.com.' },
-        corsAllowOrigin,
-        rateLimitHeaders
-      );
+      res.status(400).json({ error: 'Enter a valid tenant-verified domain such as contoso.com.' });
       return;
     }
 
@@ -269,15 +168,7 @@ export default async function handler(
     const tenantInfo = await fetchTenantInformation(domain, credential);
 
     if (!tenantInfo) {
-      sendJson(
-        res,
-        404,
-        {
-          error: `No Microsoft Entra tenant found for ${domain}.`,
-        },
-        corsAllowOrigin,
-        rateLimitHeaders
-      );
+      res.status(404).json({ error: `No Microsoft Entra tenant found for ${domain}.` });
       return;
     }
 
@@ -299,27 +190,15 @@ export default async function handler(
       fetchedAt: new Date().toISOString(),
     };
 
-    sendJson(res, 200, result, corsAllowOrigin, rateLimitHeaders);
+    res.status(200).json(result);
   } catch (error) {
-    if (error instanceof MissingCredentialsError) {
-      console.error('Tenant lookup configuration error');
-      sendJson(
-        res,
-        500,
-        { error: 'Unable to retrieve tenant information. Try again later.' },
-        corsAllowOrigin,
-        rateLimitHeaders
-      );
-      return;
-    }
-
-    console.error('Tenant lookup failed');
-    sendJson(
-      res,
-      500,
-      { error: 'Unable to retrieve tenant information. Try again later.' },
-      corsAllowOrigin,
-      rateLimitHeaders
-    );
+    // Logged without details so Graph responses and credentials stay out of the log
+    console.error(error instanceof MissingCredentialsError ? 'Tenant lookup configuration error' : 'Tenant lookup failed');
+    res.status(500).json({ error: LOOKUP_FAILED_MESSAGE });
   }
 }
+
+export default withApiMiddleware(handler, {
+  methods: ['GET', 'POST'],
+  errorMessage: LOOKUP_FAILED_MESSAGE,
+});
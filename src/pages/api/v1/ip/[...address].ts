@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withApiMiddleware } from '@/lib/apiMiddleware';
+import { parseIpPrefix } from '@/lib/ipPrefixIndex';
+import { matchIpAddress } from '@/lib/ipLookup';
+import { loadCloudIpData } from '@/lib/ipService';
+import { getChangeNumbers, getCloudParam, handleApiRequest, paginate, PUBLIC_API_OPTIONS } from '@/lib/publicApi';
+import type { ApiErrorResponse, IpLookupApiResponse } from '@/types/api';
+
+/**
+ * GET /api/v1/ip/{address}[?cloud=][&limit=][&offset=]
+ * Azure prefixes containing an address, or overlapping a CIDR range such as
+ * /api/v1/ip/20.38.0.0/16 (the slash may also be sent encoded as %2F)
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<IpLookupApiResponse | ApiErrorResponse>
+) {
+  await handleApiRequest(req, res, async () => {
+    const segments = req.query.address;
+    const query = (Array.isArray(segments) ? segments.join('/') : segments ?? '').trim();
+
+    if (!parseIpPrefix(query)) {
+      return { status: 400, error: 'Enter a valid IPv4 or IPv6 address or CIDR range.' };
+    }
+
+    const entries = await loadCloudIpData(getCloudParam(req));
+    const { items, ...page } = paginate(req, matchIpAddress(entries, query));
+    return {
+      status: 200,
+      body: {
+        query,
+        changeNumber: getChangeNumbers(entries),
+        ...page,
+        matches: items
+      }
+    };
+  });
+}
+
+export default withApiMiddleware(handler, PUBLIC_API_OPTIONS);
@@ -0,0 +1,39 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withApiMiddleware } from '@/lib/apiMiddleware';
+import { filterIpAddresses } from '@/lib/ipLookup';
+import { loadCloudIpData } from '@/lib/ipService';
+import { getChangeNumbers, getCloudParam, getQueryValue, handleApiRequest, paginate, PUBLIC_API_OPTIONS } from '@/lib/publicApi';
+import type { ApiErrorResponse, SearchApiResponse } from '@/types/api';
+
+/**
+ * GET /api/v1/search?region=&service=&cloud=[&limit=][&offset=]
+ * Prefixes whose region and/or service match, using the same fuzzy matching as the IP lookup page
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SearchApiResponse | ApiErrorResponse>
+) {
+  await handleApiRequest(req, res, async () => {
+    const region = getQueryValue(req.query.region);
+    const service = getQueryValue(req.query.service);
+    const cloud = getCloudParam(req);
+
+    if (!region && !service) {
+      return { status: 400, error: 'Provide a region and/or service to search for.' };
+    }
+
+    const entries = await loadCloudIpData(cloud);
+    const { items, ...page } = paginate(req, filterIpAddresses(entries.map((entry) => entry.data).flat(), { region, service }));
+    return {
+      status: 200,
+      body: {
+        query: { region, service, cloud },
+        changeNumber: getChangeNumbers(entries),
+        ...page,
+        results: items
+      }
+    };
+  });
+}
+
+export default withApiMiddleware(handler, PUBLIC_API_OPTIONS);
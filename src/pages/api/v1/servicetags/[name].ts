@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withApiMiddleware } from '@/lib/apiMiddleware';
+import { filterServiceTag } from '@/lib/ipLookup';
+import { loadCloudIpData } from '@/lib/ipService';
+import { getChangeNumbers, getCloudParam, getQueryValue, handleApiRequest, PUBLIC_API_OPTIONS } from '@/lib/publicApi';
+import type { ApiErrorResponse, ServiceTagApiResponse } from '@/types/api';
+
+/**
+ * GET /api/v1/servicetags/{name}[?cloud=]
+ * Address prefixes of one service tag (name matched case-insensitively)
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ServiceTagApiResponse | ApiErrorResponse>
+) {
+  await handleApiRequest(req, res, async () => {
+    const name = getQueryValue(req.query.name);
+    if (!name) {
+      return { status: 400, error: 'Service tag name is required.' };
+    }
+
+    const entries = await loadCloudIpData(getCloudParam(req));
+    const ranges = filterServiceTag(entries.map((entry) => entry.data).flat(), name);
+
+    if (ranges.length === 0) {
+      return { status: 404, error: `Service tag ${name} was not found.` };
+    }
+
+    return {
+      status: 200,
+      body: {
+        name: ranges[0].serviceTagId,
+        changeNumber: getChangeNumbers(entries),
+        ranges
+      }
+    };
+  });
+}
+
+export default withApiMiddleware(handler, PUBLIC_API_OPTIONS);
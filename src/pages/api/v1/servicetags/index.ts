@@ -0,0 +1,50 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withApiMiddleware } from '@/lib/apiMiddleware';
+import { loadCloudIpData } from '@/lib/ipService';
+import { getChangeNumbers, getCloudParam, handleApiRequest, PUBLIC_API_OPTIONS } from '@/lib/publicApi';
+import type { ApiErrorResponse, ServiceTagListApiResponse, ServiceTagSummary } from '@/types/api';
+
+/**
+ * GET /api/v1/servicetags[?cloud=]
+ * Every service tag with its region, system service and prefix count
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ServiceTagListApiResponse | ApiErrorResponse>
+) {
+  await handleApiRequest(req, res, async () => {
+    const entries = await loadCloudIpData(getCloudParam(req));
+    const serviceTags: ServiceTagSummary[] = [];
+
+    entries.forEach((entry) => {
+      const summaries = new Map<string, ServiceTagSummary>();
+      entry.data.forEach((row) => {
+        const summary = summaries.get(row.serviceTagId);
+        if (summary) {
+          summary.addressPrefixCount += 1;
+          return;
+        }
+        summaries.set(row.serviceTagId, {
+          name: row.serviceTagId,
+          cloud: entry.cloud,
+          region: row.region,
+          systemService: row.systemService,
+          addressPrefixCount: 1
+        });
+      });
+      serviceTags.push(...Array.from(summaries.values()));
+    });
+
+    serviceTags.sort((a, b) => a.name.localeCompare(b.name) || a.cloud.localeCompare(b.cloud));
+
+    return {
+      status: 200,
+      body: {
+        changeNumber: getChangeNumbers(entries),
+        serviceTags
+      }
+    };
+  });
+}
+
+export default withApiMiddleware(handler, PUBLIC_API_OPTIONS);
@@ -3,9 +3,17 @@ import { useRouter } from 'next/router';
 import Layout from '@/components/Layout';
 import LookupForm from '@/components/LookupForm';
 import Results from '@/components/Results';
+import BulkLookup from '@/components/BulkLookup';
+import DnsResolutionChain from '@/components/DnsResolutionChain';
+import PrivateLinkStatus from '@/components/PrivateLinkStatus';
+import ReverseDnsResult from '@/components/ReverseDnsResult';
 import { checkIpAddress, searchAzureIpAddresses } from '@/lib/clientIpService';
+import { lookupDns, lookupReverseDns } from '@/lib/apiClient';
+import { isPrivateAddress } from '@/lib/privateLinkZones';
 import { buildUrlWithQuery, buildUrlWithQueryOrBasePath } from '@/lib/queryUtils';
-import type { AzureIpAddress } from '@/types/azure';
+import { AZURE_CLOUD_LABELS, parseCloudName } from '@/lib/azureClouds';
+import type { AzureCloudName, AzureIpAddress } from '@/types/azure';
+import type { DnsLookupResponse, ReverseLookupResponse } from '@/types/api';
 
 /**
  * Check if a string is a hostname (not an IP or CIDR)
@@ -26,6 +34,25 @@ function isHostname(input: string): boolean {
   return true;
 }
 
+/**
+ * Search a free-text term as both service and region, removing duplicate rows
+ */
+async function searchServiceOrRegion(term: string, cloud?: AzureCloudName): Promise<AzureIpAddress[]> {
+  const serviceResults = await searchAzureIpAddresses({ service: term, cloud });
+  const regionResults = await searchAzureIpAddresses({ region: term, cloud });
+  const combinedResults = [...serviceResults, ...regionResults];
+  return combinedResults.filter(
+    (item, index, array) =>
+      index ===
+      array.findIndex(
+        (t) =>
+          t.ipAddressPrefix === item.ipAddressPrefix &&
+          t.serviceTagId === item.serviceTagId &&
+          t.cloud === item.cloud
+      )
+  );
+}
+
 const clientFetcher = async (key: string): Promise<ApiResponse> => {
   if (!key) {
     return {
@@ -41,27 +68,34 @@ const clientFetcher = async (key: string): Promise<ApiResponse> => {
     const ipOrDomain = url.searchParams.get('ipOrDomain') || undefined;
     const region = url.searchParams.get('region') || undefined;
     const service = url.searchParams.get('service') || undefined;
+    const cloud = parseCloudName(url.searchParams.get('cloud'));
 
     let results: AzureIpAddress[] = [];
+    let dns: DnsLookupResponse | undefined;
+    let reverseDns: ReverseLookupResponse | undefined;
 
     if (ipOrDomain) {
       // Check if it's an IP address or CIDR
       if (/^\d+\.\d+/.test(ipOrDomain) || ipOrDomain.includes('/')) {
-        results = await checkIpAddress(ipOrDomain);
+        // Single addresses also get their PTR records; the results stand on their own if that fails
+        [results, reverseDns] = await Promise.all([
+          checkIpAddress(ipOrDomain, cloud),
+          ipOrDomain.includes('/') ? undefined : lookupReverseDns(ipOrDomain, { cloud }).catch(() => undefined)
+        ]);
       }
       // Check if it's a hostname that needs DNS resolution
       else if (isHostname(ipOrDomain)) {
         try {
           // Call DNS lookup API
-          const dnsResponse = await fetch(`/api/dnsLookup?hostname=${encodeURIComponent(ipOrDomain)}`);
-          const dnsData = await dnsResponse.json();
+          const dnsData = await lookupDns(ipOrDomain);
 
-          if (dnsData.ipAddresses && dnsData.ipAddresses.length > 0) {
+          if (dnsData.ipAddresses.length > 0) {
+            dns = dnsData;
             // For each resolved IP, check Azure service tags
             const allMatches: AzureIpAddress[] = [];
 
             for (const resolvedIp of dnsData.ipAddresses) {
-              const matches = await checkIpAddress(resolvedIp);
+              const matches = await checkIpAddress(resolvedIp, cloud);
               // Tag each result with DNS info
               matches.forEach(match => {
                 match.resolvedFrom = ipOrDomain;
@@ -71,66 +105,43 @@ const clientFetcher = async (key: string): Promise<ApiResponse> => {
             }
 
             results = allMatches;
-          } else if (dnsData.error) {
-            // DNS lookup failed, fall back to service/region search
-            const serviceResults = await searchAzureIpAddresses({ service: ipOrDomain });
-            const regionResults = await searchAzureIpAddresses({ region: ipOrDomain });
-            const combinedResults = [...serviceResults, ...regionResults];
-            const uniqueResults = combinedResults.filter(
-              (item, index, array) =>
-                index ===
-                array.findIndex(
-                  (t) => t.ipAddressPrefix === item.ipAddressPrefix && t.serviceTagId === item.serviceTagId
-                )
-            );
-            results = uniqueResults;
+          } else {
+            // No addresses, fall back to service/region search
+            results = await searchServiceOrRegion(ipOrDomain, cloud);
           }
         } catch (dnsError) {
           // If DNS lookup fails, fall back to service/region search
-          const serviceResults = await searchAzureIpAddresses({ service: ipOrDomain });
-          const regionResults = await searchAzureIpAddresses({ region: ipOrDomain });
-          const combinedResults = [...serviceResults, ...regionResults];
-          const uniqueResults = combinedResults.filter(
-            (item, index, array) =>
-              index ===
-              array.findIndex(
-                (t) => t.ipAddressPrefix === item.ipAddressPrefix && t.serviceTagId === item.serviceTagId
-              )
-          );
-          results = uniqueResults;
+          results = await searchServiceOrRegion(ipOrDomain, cloud);
         }
       }
       // Otherwise treat as service/region search
       else {
-        const serviceResults = await searchAzureIpAddresses({ service: ipOrDomain });
-        const regionResults = await searchAzureIpAddresses({ region: ipOrDomain });
-        const combinedResults = [...serviceResults, ...regionResults];
-        const uniqueResults = combinedResults.filter(
-          (item, index, array) =>
-            index ===
-            array.findIndex(
-              (t) => t.ipAddressPrefix === item.ipAddressPrefix && t.serviceTagId === item.serviceTagId
-            )
-        );
-        results = uniqueResults;
+        results = await searchServiceOrRegion(ipOrDomain, cloud);
       }
     } else {
-      results = await searchAzureIpAddresses({ region, service });
+      results = await searchAzureIpAddresses({ region, service, cloud });
     }
 
     if (results.length === 0) {
       return {
         notFound: true,
-        message: 'No Azure IP ranges found matching your search criteria',
+        message:
+          dns && dns.ipAddresses.every(isPrivateAddress)
+            ? `${dns.hostname} resolves only to private addresses, which are not part of the Azure public IP ranges`
+            : 'No Azure IP ranges found matching your search criteria',
         results: [],
-        total: 0
+        total: 0,
+        dns,
+        reverseDns
       };
     }
 
     return {
       results,
       total: results.length,
-      query: { ipOrDomain, region, service }
+      query: { ipOrDomain, region, service, cloud },
+      dns,
+      reverseDns
     };
   } catch (error) {
     throw error;
@@ -143,6 +154,7 @@ interface ApiResponse {
     ipOrDomain?: string;
     region?: string;
     service?: string;
+    cloud?: string;
   };
   total: number;
   page?: number;
@@ -150,6 +162,10 @@ interface ApiResponse {
   error?: string;
   notFound?: boolean;
   message?: string;
+  // Set when the query was a hostname resolved through /api/dnsLookup
+  dns?: DnsLookupResponse;
+  // Set for single IP addresses, from /api/reverseLookup
+  reverseDns?: ReverseLookupResponse;
 }
 
 const DEFAULT_PAGE_SIZE = 50;
@@ -163,6 +179,7 @@ export default function IpLookupPage() {
     initialQuery: '',
     initialRegion: '',
     initialService: '',
+    initialCloud: '',
     initialPage: 1,
     initialPageSize: 50 as number | 'all'
   });
@@ -173,6 +190,7 @@ export default function IpLookupPage() {
         initialQuery: (router.query.ipOrDomain as string) || '',
         initialRegion: (router.query.region as string) || '',
         initialService: (router.query.service as string) || '',
+        initialCloud: parseCloudName(router.query.cloud) ?? '',
         initialPage: parseInt((router.query.page as string) || '1', 10),
         initialPageSize:
           router.query.pageSize === 'all'
@@ -182,11 +200,19 @@ export default function IpLookupPage() {
     }
   }, [router.isReady, router.query]);
 
-  const { initialQuery, initialRegion, initialService, initialPage, initialPageSize } = queryParams;
+  const { initialQuery, initialRegion, initialService, initialCloud, initialPage, initialPageSize } = queryParams;
+  const isBulkMode = router.query.mode === 'bulk';
+
+  const handleModeChange = useCallback((bulk: boolean) => {
+    const query: Record<string, string> = {};
+    if (bulk) query.mode = 'bulk';
+    if (initialCloud) query.cloud = initialCloud;
+    router.push({ pathname: router.pathname, query });
+  }, [router, initialCloud]);
 
   useEffect(() => {
     setError(null);
-  }, [initialQuery, initialRegion, initialService, initialPage, initialPageSize]);
+  }, [initialQuery, initialRegion, initialService, initialCloud, initialPage, initialPageSize]);
 
   const apiUrl = useMemo(() => {
     if (!router.isReady) return null;
@@ -195,13 +221,14 @@ export default function IpLookupPage() {
       ipOrDomain: initialQuery,
       region: initialRegion,
       service: initialService,
+      cloud: initialCloud,
       page: initialPage,
       // Only include pageSize if it's 'all' (numeric sizes are handled client-side)
       pageSize: initialPageSize === 'all' ? 'all' : undefined
     });
 
     return url || null;
-  }, [router.isReady, initialQuery, initialRegion, initialService, initialPage, initialPageSize]);
+  }, [router.isReady, initialQuery, initialRegion, initialService, initialCloud, initialPage, initialPageSize]);
 
   useEffect(() => {
     if (!apiUrl) {
@@ -246,18 +273,21 @@ export default function IpLookupPage() {
       ipOrDomain: initialQuery,
       region: initialRegion,
       service: initialService,
+      cloud: initialCloud,
       pageSize: newPageSize === DEFAULT_PAGE_SIZE ? undefined : newPageSize
     });
     router.push(url);
-  }, [router, initialQuery, initialRegion, initialService]);
+  }, [router, initialQuery, initialRegion, initialService, initialCloud]);
 
   const pageTitle = useMemo(() => {
     const parts = [];
     if (initialQuery) parts.push(`IP/Domain: ${initialQuery}`);
     if (initialService) parts.push(`Service: ${initialService}`);
     if (initialRegion) parts.push(`Region: ${initialRegion}`);
+    const cloud = parseCloudName(initialCloud);
+    if (cloud) parts.push(`Cloud: ${AZURE_CLOUD_LABELS[cloud]}`);
     return parts.join(', ') || 'All Results';
-  }, [initialQuery, initialService, initialRegion]);
+  }, [initialQuery, initialService, initialRegion, initialCloud]);
 
   return (
     <Layout
@@ -272,62 +302,103 @@ export default function IpLookupPage() {
           <h1 className="text-2xl font-semibold text-slate-900 dark:text-slate-100 md:text-3xl lg:text-4xl">Azure IP Lookup</h1>
         </div>
 
-        <LookupForm
-          initialValue={initialQuery}
-          initialRegion={initialRegion}
-          initialService={initialService}
-        />
-
-        <div className="space-y-6">
-          {isLoading && (
-            <div className="flex flex-col items-center gap-4 rounded-xl border border-slate-200 bg-white p-8 shadow-sm dark:border-slate-700 dark:bg-slate-900">
-              <div className="h-10 w-10 animate-spin rounded-full border-2 border-sky-500/70 border-t-transparent" />
-              <p className="text-slate-600 dark:text-slate-300">Looking up Azure IP information...</p>
-            </div>
-          )}
-
-          {isError && errorMessage && (
-            <div className="rounded-xl border border-rose-200 bg-rose-50 p-5 text-sm text-rose-700 dark:border-rose-400/40 dark:bg-rose-500/10 dark:text-rose-300">
-              {errorMessage}
-            </div>
-          )}
+        <div className="inline-flex rounded-xl border border-slate-200 bg-white p-1 shadow-sm dark:border-slate-700 dark:bg-slate-900" role="tablist" aria-label="Lookup mode">
+          {[
+            { label: 'Single lookup', bulk: false },
+            { label: 'Bulk lookup', bulk: true }
+          ].map((tab) => (
+            <button
+              key={tab.label}
+              type="button"
+              role="tab"
+              aria-selected={isBulkMode === tab.bulk}
+              onClick={() => handleModeChange(tab.bulk)}
+              className={`rounded-lg px-4 py-1.5 text-sm font-semibold transition ${
+                isBulkMode === tab.bulk
+                  ? 'bg-sky-50 text-sky-700 dark:bg-sky-900/30 dark:text-sky-300'
+                  : 'text-slate-600 hover:text-sky-700 dark:text-slate-300 dark:hover:text-sky-300'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
 
-          {isNotFound && notFoundMessage && (
-            <div className="rounded-xl border border-amber-200 bg-amber-50 p-5 text-sm text-amber-700 dark:border-amber-400/40 dark:bg-amber-400/10 dark:text-amber-200">
-              {notFoundMessage}
-            </div>
-          )}
-
-          {!isLoading && !isError && results.length > 0 && (
-            <Results
-              results={results}
-              query={pageTitle}
-              total={totalResults}
-              pagination={totalPages > 1 ? {
-                currentPage,
-                totalPages,
-                totalItems: totalResults,
-                pageSize: effectivePageSize,
-                isAll,
-                onPageSizeChange: handlePageSizeChange,
-                basePath: '/tools/ip-lookup',
-                query: {
-                  ipOrDomain: initialQuery,
-                  region: initialRegion,
-                  service: initialService
-                }
-              } : undefined}
+        {isBulkMode ? (
+          <BulkLookup initialCloud={parseCloudName(initialCloud)} />
+        ) : (
+          <>
+            <LookupForm
+              initialValue={initialQuery}
+              initialRegion={initialRegion}
+              initialService={initialService}
+              initialCloud={initialCloud}
             />
-          )}
 
-          {!isLoading && !isNotFound && !isError && results.length === 0 && (initialQuery || initialRegion || initialService) && (
-            <div className="rounded-xl border border-amber-200 bg-amber-50 p-5 text-sm text-amber-700">
-              No Azure IP ranges found matching your search criteria.
+            <div className="space-y-6">
+              {isLoading && (
+                <div className="flex flex-col items-center gap-4 rounded-xl border border-slate-200 bg-white p-8 shadow-sm dark:border-slate-700 dark:bg-slate-900">
+                  <div className="h-10 w-10 animate-spin rounded-full border-2 border-sky-500/70 border-t-transparent" />
+                  <p className="text-slate-600 dark:text-slate-300">Looking up Azure IP information...</p>
+                </div>
+              )}
+
+              {isError && errorMessage && (
+                <div className="rounded-xl border border-rose-200 bg-rose-50 p-5 text-sm text-rose-700 dark:border-rose-400/40 dark:bg-rose-500/10 dark:text-rose-300">
+                  {errorMessage}
+                </div>
+              )}
+
+              {isNotFound && notFoundMessage && (
+                <div className="rounded-xl border border-amber-200 bg-amber-50 p-5 text-sm text-amber-700 dark:border-amber-400/40 dark:bg-amber-400/10 dark:text-amber-200">
+                  {notFoundMessage}
+                </div>
+              )}
+
+              {!isLoading && !isError && data?.dns && (
+                <DnsResolutionChain hostname={data.dns.hostname} chain={data.dns.chain} />
+              )}
+
+              {!isLoading && !isError && data?.dns?.privateLink && (
+                <PrivateLinkStatus hostname={data.dns.hostname} assessment={data.dns.privateLink} />
+              )}
+
+              {!isLoading && !isError && data?.reverseDns && <ReverseDnsResult result={data.reverseDns} />}
+
+              {!isLoading && !isError && results.length > 0 && (
+                <Results
+                  results={results}
+                  query={pageTitle}
+                  total={totalResults}
+                  allResults={results}
+                  pagination={totalPages > 1 ? {
+                    currentPage,
+                    totalPages,
+                    totalItems: totalResults,
+                    pageSize: effectivePageSize,
+                    isAll,
+                    onPageSizeChange: handlePageSizeChange,
+                    basePath: '/tools/ip-lookup',
+                    query: {
+                      ipOrDomain: initialQuery,
+                      region: initialRegion,
+                      service: initialService,
+                      cloud: initialCloud
+                    }
+                  } : undefined}
+                />
+              )}
+
+              {!isLoading && !isNotFound && !isError && results.length === 0 && (initialQuery || initialRegion || initialService) && (
+                <div className="rounded-xl border border-amber-200 bg-amber-50 p-5 text-sm text-amber-700">
+                  No Azure IP ranges found matching your search criteria.
+                </div>
+              )}
             </div>
-          )}
-        </div>
+          </>
+        )}
 
-        {!initialQuery && !initialRegion && !initialService && (
+        {!isBulkMode && !initialQuery && !initialRegion && !initialService && (
           <section className="space-y-4">
             <div>
               <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">Sample queries</h2>
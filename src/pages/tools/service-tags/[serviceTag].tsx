@@ -4,10 +4,13 @@ import { useRouter } from 'next/router';
 import Link from 'next/link';
 import Layout from '@/components/Layout';
 import Results from '@/components/Results';
-import { AzureIpAddress } from '@/types/azure';
+import ServiceTagHistory from '@/components/ServiceTagHistory';
+import PrefixSummary from '@/components/PrefixSummary';
+import { AzureCloudName, AzureIpAddress } from '@/types/azure';
 import { getServiceTagDetails } from '@/lib/clientIpService';
+import { AZURE_CLOUD_LABELS, parseCloudName } from '@/lib/azureClouds';
 
-const clientServiceTagFetcher = async (serviceTagKey: string): Promise<ServiceTagDetailResponse> => {
+const clientServiceTagFetcher = async (serviceTagKey: string, cloud?: AzureCloudName): Promise<ServiceTagDetailResponse> => {
   if (!serviceTagKey) {
     return {
       serviceTag: '',
@@ -18,7 +21,7 @@ const clientServiceTagFetcher = async (serviceTagKey: string): Promise<ServiceTa
   }
   
   try {
-    const ipRanges = await getServiceTagDetails(serviceTagKey);
+    const ipRanges = await getServiceTagDetails(serviceTagKey, cloud);
     
     if (ipRanges.length === 0) {
       return { 
@@ -50,12 +53,14 @@ const DEFAULT_PAGE_SIZE = 100;
 export default function ServiceTagDetail() {
   const router = useRouter();
   const { serviceTag } = router.query;
+  const cloud = parseCloudName(router.query.cloud);
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE);
   const [isAll, setIsAll] = useState(false);
   const [data, setData] = useState<ServiceTagDetailResponse | null>(null);
   const [error, setError] = useState<Error | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [activeTab, setActiveTab] = useState<'ranges' | 'history'>('ranges');
   
   // Fetch service tag details when serviceTag changes
   useEffect(() => {
@@ -70,7 +75,7 @@ export default function ServiceTagDetail() {
       setError(null);
       
       try {
-        const result = await clientServiceTagFetcher(serviceTag as string);
+        const result = await clientServiceTagFetcher(serviceTag as string, cloud);
         setData(result);
       } catch (err) {
         setError(err as Error);
@@ -81,7 +86,7 @@ export default function ServiceTagDetail() {
     };
 
     fetchServiceTagDetails();
-  }, [serviceTag]);
+  }, [serviceTag, cloud]);
 
   // Paginate results
   const paginatedResults = useMemo(() => {
@@ -93,6 +98,8 @@ export default function ServiceTagDetail() {
     return data.ipRanges.slice(startIndex, endIndex);
   }, [data?.ipRanges, currentPage, pageSize, isAll]);
 
+  const allPrefixes = useMemo(() => data?.ipRanges?.map(range => range.ipAddressPrefix) ?? [], [data?.ipRanges]);
+
   const totalPages = Math.ceil((data?.ipRanges?.length || 0) / pageSize);
   
   // Handle page size change
@@ -179,13 +186,40 @@ export default function ServiceTagDetail() {
           <div className="space-y-2 md:space-y-3">
             <h1 className="text-2xl font-semibold text-slate-900 dark:text-slate-100 md:text-3xl lg:text-4xl">Service Tag: {serviceTag}</h1>
             <p className="text-sm text-slate-600 dark:text-slate-300 md:text-base">
-              IP ranges, Azure services, and network features associated with this service tag.
+              IP ranges, Azure services, and network features associated with this service tag
+              {cloud ? ` in the ${AZURE_CLOUD_LABELS[cloud]} cloud` : ' across all Azure clouds'}.
             </p>
           </div>
         </div>
 
+        <div className="inline-flex rounded-xl border border-slate-200 bg-white p-1 shadow-sm dark:border-slate-700 dark:bg-slate-900" role="tablist" aria-label="Service tag view">
+          {[
+            { label: 'IP Ranges', value: 'ranges' as const },
+            { label: 'History', value: 'history' as const }
+          ].map((tab) => (
+            <button
+              key={tab.value}
+              type="button"
+              role="tab"
+              aria-selected={activeTab === tab.value}
+              onClick={() => setActiveTab(tab.value)}
+              className={`rounded-lg px-4 py-1.5 text-sm font-semibold transition ${
+                activeTab === tab.value
+                  ? 'bg-sky-50 text-sky-700 dark:bg-sky-900/30 dark:text-sky-300'
+                  : 'text-slate-600 hover:text-sky-700 dark:text-slate-300 dark:hover:text-sky-300'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {activeTab === 'history' && (
+          <ServiceTagHistory serviceTag={serviceTag as string} cloud={cloud} />
+        )}
+
         {/* Loading State */}
-        {isLoading && (
+        {activeTab === 'ranges' && isLoading && (
           <div className="flex flex-col items-center gap-4 rounded-xl border border-slate-200 bg-white p-8 text-sm text-slate-600 shadow-sm dark:border-slate-700 dark:bg-slate-900 dark:text-slate-300">
             <div className="h-10 w-10 animate-spin rounded-full border-2 border-sky-500/70 border-t-transparent" />
             <span>Loading service tag details...</span>
@@ -193,7 +227,7 @@ export default function ServiceTagDetail() {
         )}
 
         {/* Error State */}
-        {error && (
+        {activeTab === 'ranges' && error && (
           <div className="rounded-xl border border-rose-200 bg-rose-50 p-5 text-sm text-rose-700 dark:border-rose-400/40 dark:bg-rose-500/10 dark:text-rose-300">
             <h3 className="font-semibold text-rose-700 dark:text-rose-200">Error loading service tag details</h3>
             <p className="mt-1 text-rose-600 dark:text-rose-200/80">{error.message}</p>
@@ -206,7 +240,7 @@ export default function ServiceTagDetail() {
         )}
 
         {/* Not Found State */}
-        {data?.notFound && (
+        {activeTab === 'ranges' && data?.notFound && (
           <div className="rounded-xl border border-amber-200 bg-amber-50 p-5 text-sm text-amber-700 dark:border-amber-400/40 dark:bg-amber-400/10 dark:text-amber-200">
             <h3 className="font-semibold text-amber-700 dark:text-amber-200">Service tag not found</h3>
             <p className="mt-1 text-amber-600 dark:text-amber-100/80">
@@ -221,13 +255,14 @@ export default function ServiceTagDetail() {
         )}
 
         {/* Results */}
-        {data && data.ipRanges && data.ipRanges.length > 0 && (
+        {activeTab === 'ranges' && data && data.ipRanges && data.ipRanges.length > 0 && (
           <>
             {/* Results Table with integrated pagination */}
             <Results
               results={paginatedResults}
               query={serviceTag as string}
               total={data.ipRanges.length}
+              allResults={data.ipRanges}
               pagination={totalPages > 1 ? {
                 currentPage,
                 totalPages,
@@ -246,6 +281,8 @@ export default function ServiceTagDetail() {
                 onPageSizeChange: handlePageSizeChange
               } : undefined}
             />
+
+            <PrefixSummary prefixes={allPrefixes} query={serviceTag as string} />
           </>
         )}
 
@@ -0,0 +1,183 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/router';
+import Link from 'next/link';
+import Layout from '@/components/Layout';
+import ServiceTagHistory from '@/components/ServiceTagHistory';
+import { AzureDiffMetadata } from '@/types/azure';
+import { getDiffIndex } from '@/lib/serviceTagHistory';
+import { AZURE_CLOUDS, AZURE_CLOUD_LABELS, parseCloudName } from '@/lib/azureClouds';
+import { buildUrlWithQueryOrBasePath } from '@/lib/queryUtils';
+
+export default function ServiceTagChangeHistory() {
+  const router = useRouter();
+  const tag = typeof router.query.tag === 'string' ? router.query.tag : '';
+  const cloud = parseCloudName(router.query.cloud);
+  const [tagInput, setTagInput] = useState('');
+  const [releases, setReleases] = useState<AzureDiffMetadata[] | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    setTagInput(tag);
+  }, [tag]);
+
+  // Fetch the release list on component mount
+  useEffect(() => {
+    const fetchReleases = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        setReleases(await getDiffIndex());
+      } catch (err) {
+        setError(err as Error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchReleases();
+  }, []);
+
+  const filteredReleases = useMemo(() => {
+    if (!releases) return [];
+    return releases
+      .filter(release => !cloud || release.cloud === cloud)
+      .sort((a, b) => b.date.localeCompare(a.date) || b.toChangeNumber - a.toChangeNumber);
+  }, [releases, cloud]);
+
+  const navigate = (nextTag: string, nextCloud: string | undefined) => {
+    const params = new URLSearchParams();
+    if (nextTag) params.append('tag', nextTag);
+    if (nextCloud) params.append('cloud', nextCloud);
+    const queryString = params.toString();
+    router.push(queryString ? `/tools/service-tags/history?${queryString}` : '/tools/service-tags/history');
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    navigate(tagInput.trim(), cloud);
+  };
+
+  return (
+    <Layout
+      title="Azure Service Tag Change History"
+      description="Track how Azure service tags change between releases: prefixes added and removed per tag and cloud."
+    >
+      <section className="space-y-10">
+        <div className="space-y-2 md:space-y-3">
+          <nav className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400 md:tracking-[0.3em]" aria-label="Breadcrumb">
+            <Link href="/tools/service-tags" className="text-sky-600 transition hover:text-sky-700 dark:text-sky-300 dark:hover:text-sky-200">
+              Service Tags
+            </Link>
+            <span className="mx-2 text-slate-400 dark:text-slate-600">/</span>
+            <span className="text-slate-500 dark:text-slate-300">History</span>
+          </nav>
+          <h1 className="text-2xl font-semibold text-slate-900 dark:text-slate-100 md:text-3xl lg:text-4xl">Service Tag Change History</h1>
+          <p className="text-sm text-slate-600 dark:text-slate-300 md:text-base">
+            Prefixes added and removed in each service tag release. Enter a tag to see its timeline.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex w-full max-w-xl flex-col gap-3 sm:flex-row" role="search" aria-label="Service tag history">
+          <label className="sr-only" htmlFor="history-tag">
+            Service tag
+          </label>
+          <input
+            type="search"
+            id="history-tag"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            placeholder="e.g. AzureFrontDoor.Backend"
+            className="flex-1 rounded-xl border border-slate-300 bg-white px-4 py-3 text-base text-slate-900 shadow-sm placeholder:text-slate-400 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/20 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:placeholder:text-slate-500"
+          />
+          <label className="sr-only" htmlFor="history-cloud">
+            Azure cloud
+          </label>
+          <select
+            id="history-cloud"
+            value={cloud ?? ''}
+            onChange={(e) => navigate(tag, parseCloudName(e.target.value))}
+            className="rounded-xl border border-slate-300 bg-white px-4 py-3 text-sm text-slate-700 shadow-sm focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/20 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200"
+          >
+            <option value="">All clouds</option>
+            {AZURE_CLOUDS.map((cloudName) => (
+              <option key={cloudName} value={cloudName}>
+                {AZURE_CLOUD_LABELS[cloudName]}
+              </option>
+            ))}
+          </select>
+        </form>
+
+        {tag && (
+          <div className="space-y-4">
+            <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
+              Timeline for{' '}
+              <Link
+                href={buildUrlWithQueryOrBasePath(`/tools/service-tags/${encodeURIComponent(tag)}`, { cloud })}
+                className="text-sky-600 hover:underline dark:text-sky-300"
+              >
+                {tag}
+              </Link>
+            </h2>
+            <ServiceTagHistory serviceTag={tag} cloud={cloud} />
+          </div>
+        )}
+
+        {!tag && isLoading && (
+          <div className="flex flex-col items-center gap-4 rounded-xl border border-slate-200 bg-white p-8 shadow-sm dark:border-slate-700 dark:bg-slate-900">
+            <div className="h-10 w-10 animate-spin rounded-full border-2 border-sky-500/70 border-t-transparent" />
+            <p className="text-sm text-slate-600 dark:text-slate-300">Loading releases...</p>
+          </div>
+        )}
+
+        {!tag && error && (
+          <div className="rounded-xl border border-rose-200 bg-rose-50 p-5 text-sm text-rose-700 dark:border-rose-400/40 dark:bg-rose-500/10 dark:text-rose-300">
+            <h3 className="font-semibold text-rose-700 dark:text-rose-200">Error loading change history</h3>
+            <p className="mt-1 text-rose-600 dark:text-rose-200/80">{error.message}</p>
+          </div>
+        )}
+
+        {!tag && !isLoading && !error && (
+          filteredReleases.length > 0 ? (
+            <div className="w-full overflow-x-auto rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-700 dark:bg-slate-900">
+              <table className="w-full min-w-[640px] table-auto divide-y divide-slate-200 dark:divide-slate-700" aria-label="Service tag releases">
+                <thead className="bg-slate-100 dark:bg-slate-900/60">
+                  <tr className="text-left text-xs uppercase tracking-wider text-slate-500 dark:text-slate-400">
+                    <th className="px-5 py-4 font-semibold">Date</th>
+                    <th className="px-5 py-4 font-semibold">Cloud</th>
+                    <th className="px-5 py-4 font-semibold">Change number</th>
+                    <th className="px-5 py-4 font-semibold">Tags changed</th>
+                    <th className="px-5 py-4 font-semibold">Prefixes added</th>
+                    <th className="px-5 py-4 font-semibold">Prefixes removed</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                  {filteredReleases.map((release, index) => (
+                    <tr
+                      key={release.filename}
+                      className={index % 2 === 0 ? 'bg-white dark:bg-slate-900' : 'bg-slate-50 dark:bg-slate-900/70'}
+                    >
+                      <td className="px-5 py-4 text-sm font-semibold text-slate-900 dark:text-slate-100">{release.date}</td>
+                      <td className="px-5 py-4 text-sm text-slate-600 dark:text-slate-300">{AZURE_CLOUD_LABELS[release.cloud]}</td>
+                      <td className="px-5 py-4 text-sm text-slate-600 dark:text-slate-300">
+                        {release.fromChangeNumber} → {release.toChangeNumber}
+                      </td>
+                      <td className="px-5 py-4 text-sm text-slate-600 dark:text-slate-300">{release.tagsChanged}</td>
+                      <td className="px-5 py-4 text-sm text-emerald-700 dark:text-emerald-300">+{release.prefixesAdded}</td>
+                      <td className="px-5 py-4 text-sm text-rose-700 dark:text-rose-300">-{release.prefixesRemoved}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="rounded-xl border border-slate-200 bg-white p-6 text-sm text-slate-600 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-300">
+              No service tag releases have been recorded yet.
+            </div>
+          )
+        )}
+      </section>
+    </Layout>
+  );
+}
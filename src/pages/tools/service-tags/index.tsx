@@ -62,6 +62,12 @@ export default function ServiceTags() {
         <div className="space-y-2 md:space-y-3">
           <p className="text-xs font-semibold uppercase tracking-wide text-sky-600/80 dark:text-sky-300 md:tracking-[0.3em]">Networking</p>
           <h1 className="text-2xl font-semibold text-slate-900 dark:text-slate-100 md:text-3xl lg:text-4xl">Azure Service Tags</h1>
+          <Link
+            href="/tools/service-tags/history"
+            className="inline-block text-sm font-semibold text-sky-600 underline-offset-4 hover:underline dark:text-sky-300 dark:hover:text-sky-200"
+          >
+            View change history →
+          </Link>
         </div>
 
         <div className="w-full max-w-md">
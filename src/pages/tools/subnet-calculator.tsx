@@ -3,42 +3,180 @@ import type { ChangeEvent, FormEvent } from 'react';
 import { useRouter } from 'next/router';
 import Layout from '@/components/Layout';
 import SubnetExportButton from '@/components/SubnetExportButton';
+import SubnetPlanner from '@/components/SubnetPlanner';
+import SubnetImport from '@/components/SubnetImport';
+import SubnetCollisionPanel from '@/components/SubnetCollisionPanel';
+import VnetWorkspacePanel, { NewWorkspaceNetwork } from '@/components/VnetWorkspacePanel';
+import SubnetPlanLibrary from '@/components/SubnetPlanLibrary';
+import WorkloadCapacityCell from '@/components/WorkloadCapacityCell';
+import { useUndoHistory } from '@/components/useUndoHistory';
 import {
   DEFAULT_NETWORK,
+  DEFAULT_NETWORK_V6,
   DEFAULT_PREFIX,
+  DEFAULT_PREFIX_V6,
+  IpVersion,
   LeafSubnet,
   SubnetTree,
   collectLeaves,
   computeLeafCounts,
   createInitialTree,
   createTreeFromLeafDefinitions,
+  formatIpAddress,
   getNodePath,
   hostCapacity,
   hostCapacityAzure,
-  inetAtov,
-  inetNtoa,
   isJoinableNode,
   joinSubnet,
+  maxPrefixLength,
   normaliseNetwork,
+  parseIpAddress,
   splitSubnet,
   subnetLastAddress,
   subnetNetmask,
   usableRange,
   usableRangeAzure
 } from '@/lib/subnetCalculator';
+import { PlannedSubnet, buildTreeFromPlan } from '@/lib/vnetPlanner';
+import { WorkloadProfile, assessWorkload } from '@/lib/workloadCapacity';
 import {
+  AZURE_SUBNET_ROLES,
+  AZURE_SUBNET_ROLE_IDS,
+  AzureSubnetRole,
+  SubnetRuleViolation,
+  validateSubnetRoles
+} from '@/lib/azureSubnetRules';
+import type { VnetImportResult } from '@/lib/subnetImport';
+import type { WorkspaceNetworkKind, WorkspaceNetworkSummary } from '@/lib/vnetWorkspace';
+import {
+  MAX_SHARE_URL_LENGTH,
+  ShareableSubnetPlan,
   buildShareableSubnetPlan,
-  parseShareableSubnetPlan,
+  decodeShareAddress,
+  parseSharedSubnetPlan,
+  serialiseCompactSubnetPlan,
   serialiseShareableSubnetPlan
 } from '@/lib/shareSubnetPlan';
+import { exportSubnetPlanFile } from '@/lib/exportUtils';
+import { savePlan } from '@/lib/subnetPlanLibrary';
 
 interface State {
   rootId: string;
-  baseNetwork: number;
+  baseNetwork: bigint;
   basePrefix: number;
+  version: IpVersion;
   tree: SubnetTree;
 }
 
+// Everything undo/redo and saved plans restore
+interface PlanSnapshot {
+  state: State;
+  rowColors: Record<string, string>;
+  rowComments: Record<string, string>;
+  rowRoles: Record<string, AzureSubnetRole>;
+  rowWorkloads: Record<string, WorkloadProfile>;
+}
+
+// A network in the workspace; the active one is edited through the page state
+interface WorkspaceEntry {
+  id: string;
+  name: string;
+  kind: WorkspaceNetworkKind;
+  isolated: boolean;
+  state: State;
+  rowColors: Record<string, string>;
+  rowComments: Record<string, string>;
+  rowRoles: Record<string, AzureSubnetRole>;
+  rowWorkloads: Record<string, WorkloadProfile>;
+}
+
+const DEFAULTS: Record<IpVersion, { network: string; prefix: number }> = {
+  4: { network: DEFAULT_NETWORK, prefix: DEFAULT_PREFIX },
+  6: { network: DEFAULT_NETWORK_V6, prefix: DEFAULT_PREFIX_V6 }
+};
+
+function createDefaultState(version: IpVersion): State {
+  const { network, prefix } = DEFAULTS[version];
+  const normalised = normaliseNetwork(parseIpAddress(network)!.value, prefix, version);
+  const { rootId, tree } = createInitialTree(normalised, prefix, version);
+  return {
+    rootId,
+    tree,
+    baseNetwork: normalised,
+    basePrefix: prefix,
+    version
+  };
+}
+
+// Rebuild the tree, colours and comments of a share link or saved plan
+function restoreSharePlan(plan: ShareableSubnetPlan): PlanSnapshot {
+  const shareLeaves = plan.leaves;
+  const version: IpVersion = plan.ip === 6 ? 6 : 4;
+  const baseNetwork = decodeShareAddress(plan.net);
+  const { rootId, tree: rebuiltTree } = createTreeFromLeafDefinitions(
+    baseNetwork,
+    plan.pre,
+    shareLeaves.map((leaf) => ({
+      network: decodeShareAddress(leaf.n),
+      prefix: leaf.p
+    })),
+    version
+  );
+
+  const colorByKey = new Map<string, string>();
+  const commentByKey = new Map<string, string>();
+  const roleByKey = new Map<string, AzureSubnetRole>();
+  const workloadByKey = new Map<string, WorkloadProfile>();
+  shareLeaves.forEach((leaf) => {
+    if (leaf.c) {
+      colorByKey.set(`${decodeShareAddress(leaf.n)}/${leaf.p}`, leaf.c);
+    }
+    if (leaf.m) {
+      commentByKey.set(`${decodeShareAddress(leaf.n)}/${leaf.p}`, leaf.m);
+    }
+    if (leaf.r) {
+      roleByKey.set(`${decodeShareAddress(leaf.n)}/${leaf.p}`, leaf.r);
+    }
+    if (leaf.w) {
+      workloadByKey.set(`${decodeShareAddress(leaf.n)}/${leaf.p}`, leaf.w);
+    }
+  });
+
+  const rebuiltLeaves = collectLeaves(rebuiltTree, rootId);
+  const nextColors: Record<string, string> = {};
+  const nextComments: Record<string, string> = {};
+  const nextRoles: Record<string, AzureSubnetRole> = {};
+  const nextWorkloads: Record<string, WorkloadProfile> = {};
+
+  rebuiltLeaves.forEach((leaf) => {
+    const mapKey = `${leaf.network}/${leaf.prefix}`;
+    const mappedColor = colorByKey.get(mapKey);
+    if (mappedColor) {
+      nextColors[leaf.id] = mappedColor;
+    }
+    const mappedComment = commentByKey.get(mapKey);
+    if (mappedComment) {
+      nextComments[leaf.id] = mappedComment;
+    }
+    const mappedRole = roleByKey.get(mapKey);
+    if (mappedRole) {
+      nextRoles[leaf.id] = mappedRole;
+    }
+    const mappedWorkload = workloadByKey.get(mapKey);
+    if (mappedWorkload) {
+      nextWorkloads[leaf.id] = mappedWorkload;
+    }
+  });
+
+  return {
+    state: { rootId, tree: rebuiltTree, baseNetwork, basePrefix: plan.pre, version },
+    rowColors: nextColors,
+    rowComments: nextComments,
+    rowRoles: nextRoles,
+    rowWorkloads: nextWorkloads
+  };
+}
+
 const COLOR_SWATCHES = [
   { id: 'mint', label: 'Mint', hex: '#d1fae5' },
   { id: 'sky', label: 'Sky', hex: '#dbeafe' },
@@ -48,13 +186,54 @@ const COLOR_SWATCHES = [
 ] as const;
 
 const CLEAR_COLOR_ID = 'clear';
+const AUTOSAVE_DELAY_MS = 800;
 const DEFAULT_COLOR_ID = COLOR_SWATCHES[0].id;
 
-function formatRange(first: number, last: number): string {
+// Drop entries for leaves that no longer exist
+function pruneLeafRecord<T>(current: Record<string, T>, leafIds: Set<string>): Record<string, T> {
+  const stale = Object.keys(current).filter((leafId) => !leafIds.has(leafId));
+  if (stale.length === 0) {
+    return current;
+  }
+  const next = { ...current };
+  stale.forEach((leafId) => delete next[leafId]);
+  return next;
+}
+
+function moveToFirstChild<T>(current: Record<string, T>, nodeId: string): Record<string, T> {
+  if (!(nodeId in current)) {
+    return current;
+  }
+  const next = { ...current, [`${nodeId}-0`]: current[nodeId] };
+  delete next[nodeId];
+  return next;
+}
+
+function mergeChildren<T>(
+  current: Record<string, T>,
+  nodeId: string,
+  childIds: [string, string],
+  merge: (left: T | undefined, right: T | undefined) => T | undefined
+): Record<string, T> {
+  const [leftId, rightId] = childIds;
+  if (!(leftId in current) && !(rightId in current)) {
+    return current;
+  }
+  const merged = merge(current[leftId], current[rightId]);
+  const next = { ...current };
+  delete next[leftId];
+  delete next[rightId];
+  if (merged !== undefined) {
+    next[nodeId] = merged;
+  }
+  return next;
+}
+
+function formatRange(first: bigint, last: bigint, version: IpVersion): string {
   if (first === last) {
-    return inetNtoa(first);
+    return formatIpAddress(first, version);
   }
-  return `${inetNtoa(first)} - ${inetNtoa(last)}`;
+  return `${formatIpAddress(first, version)} - ${formatIpAddress(last, version)}`;
 }
 
 function formatPrefix(prefix: number): string {
@@ -62,7 +241,7 @@ function formatPrefix(prefix: number): string {
 }
 
 function subnetLabel(subnet: LeafSubnet) {
-  return `${inetNtoa(subnet.network)}${formatPrefix(subnet.prefix)}`;
+  return `${formatIpAddress(subnet.network, subnet.version)}${formatPrefix(subnet.prefix)}`;
 }
 
 export default function SubnetCalculatorPage(): JSX.Element {
@@ -76,24 +255,26 @@ export default function SubnetCalculatorPage(): JSX.Element {
   const [isColorModeActive, setIsColorModeActive] = useState(false);
   const [selectedColorId, setSelectedColorId] = useState<string>(DEFAULT_COLOR_ID);
   const [rowComments, setRowComments] = useState<Record<string, string>>({});
+  const [rowRoles, setRowRoles] = useState<Record<string, AzureSubnetRole>>({});
+  const [rowWorkloads, setRowWorkloads] = useState<Record<string, WorkloadProfile>>({});
+  const [isCapacityModeActive, setIsCapacityModeActive] = useState(false);
   const [activeCommentRow, setActiveCommentRow] = useState<string | null>(null);
   const [commentDraft, setCommentDraft] = useState('');
-  const [state, setState] = useState<State>(() => {
-    const ipValue = inetAtov(DEFAULT_NETWORK)!;
-    const normalised = normaliseNetwork(ipValue, DEFAULT_PREFIX);
-    const { rootId, tree } = createInitialTree(normalised, DEFAULT_PREFIX);
-    return {
-      rootId,
-      tree,
-      baseNetwork: normalised,
-      basePrefix: DEFAULT_PREFIX
-    };
-  });
+  const [state, setState] = useState<State>(() => createDefaultState(4));
+  const [workspaceNetworks, setWorkspaceNetworks] = useState<WorkspaceEntry[]>(() => [
+    { id: 'network-1', name: 'hub', kind: 'hub', isolated: false, state: createDefaultState(4), rowColors: {}, rowComments: {}, rowRoles: {}, rowWorkloads: {} }
+  ]);
+  const [activeNetworkId, setActiveNetworkId] = useState('network-1');
+  const [activeSavedPlanId, setActiveSavedPlanId] = useState<string | null>(null);
+  const [libraryRevision, setLibraryRevision] = useState(0);
+  const [autosaveFailed, setAutosaveFailed] = useState(false);
+  const networkCounterRef = useRef(1);
   const router = useRouter();
   const [hasRestoredShare, setHasRestoredShare] = useState(false);
   const shareTimerRef = useRef<NodeJS.Timeout | null>(null);
   const [isGeneratingShare, setIsGeneratingShare] = useState(false);
-  const [shareStatus, setShareStatus] = useState<'idle' | 'copied' | 'error'>('idle');
+  const [shareStatus, setShareStatus] = useState<'idle' | 'copied' | 'error' | 'too-long'>('idle');
+  const [shareReport, setShareReport] = useState<{ length: number; encodedLength: number; legacyLength: number } | null>(null);
   const [isAzureMenuOpen, setIsAzureMenuOpen] = useState(false);
   const azureMenuRef = useRef<HTMLDivElement | null>(null);
   const colorMenuRef = useRef<HTMLDivElement | null>(null);
@@ -112,6 +293,103 @@ export default function SubnetCalculatorPage(): JSX.Element {
   const [resetPulse, setResetPulse] = useState(false);
   const resetTimerRef = useRef<NodeJS.Timeout | null>(null);
 
+  const workspaceSummaries = useMemo<WorkspaceNetworkSummary[]>(
+    () =>
+      workspaceNetworks.map((entry) => {
+        const isActive = entry.id === activeNetworkId;
+        const entryState = isActive ? state : entry.state;
+        const entryComments = isActive ? rowComments : entry.rowComments;
+        const entryLeaves = isActive ? leaves : collectLeaves(entryState.tree, entryState.rootId);
+        return {
+          id: entry.id,
+          name: entry.name,
+          kind: entry.kind,
+          isolated: entry.isolated,
+          baseNetwork: entryState.baseNetwork,
+          basePrefix: entryState.basePrefix,
+          version: entryState.version,
+          subnets: entryLeaves.map((leaf) => ({ network: leaf.network, prefix: leaf.prefix, name: entryComments[leaf.id] }))
+        };
+      }),
+    [workspaceNetworks, activeNetworkId, state, leaves, rowComments]
+  );
+  const activeNetworkName = workspaceNetworks.find((entry) => entry.id === activeNetworkId)?.name ?? '';
+  const sharePlan = useMemo(
+    () =>
+      buildShareableSubnetPlan({
+        baseNetwork: state.baseNetwork,
+        basePrefix: state.basePrefix,
+        version: state.version,
+        useAzureReservations,
+        leaves,
+        rowColors,
+        rowComments,
+        rowRoles,
+        rowWorkloads
+      }),
+    [state.baseNetwork, state.basePrefix, state.version, useAzureReservations, leaves, rowColors, rowComments, rowRoles, rowWorkloads]
+  );
+  const planSnapshot = useMemo<PlanSnapshot>(
+    () => ({ state, rowColors, rowComments, rowRoles, rowWorkloads }),
+    [state, rowColors, rowComments, rowRoles, rowWorkloads]
+  );
+  const roleViolations = useMemo(() => {
+    const byLeaf: Record<string, SubnetRuleViolation[]> = {};
+    validateSubnetRoles(leaves, rowRoles, rowComments).forEach((violation) => {
+      byLeaf[violation.leafId] = [...(byLeaf[violation.leafId] ?? []), violation];
+    });
+    return byLeaf;
+  }, [leaves, rowRoles, rowComments]);
+  const undersizedLeafIds = useMemo(() => {
+    const undersized = new Set<string>();
+    leaves.forEach((leaf) => {
+      const workload = rowWorkloads[leaf.id];
+      if (workload && !assessWorkload(workload, leaf.prefix, leaf.version).fits) {
+        undersized.add(leaf.id);
+      }
+    });
+    return undersized;
+  }, [leaves, rowWorkloads]);
+  const roleErrorCount = Object.values(roleViolations).filter((violations) =>
+    violations.some((violation) => violation.severity === 'error')
+  ).length;
+
+  const applyPlanSnapshot = (snapshot: PlanSnapshot) => {
+    setFormFields({
+      network: formatIpAddress(snapshot.state.baseNetwork, snapshot.state.version),
+      prefix: snapshot.state.basePrefix.toString()
+    });
+    setFormError(null);
+    setRowColors(snapshot.rowColors);
+    setRowComments(snapshot.rowComments);
+    setRowRoles(snapshot.rowRoles);
+    setRowWorkloads(snapshot.rowWorkloads);
+    closeCommentEditor();
+    setState(snapshot.state);
+  };
+
+  // History follows the active network and starts over when switching networks
+  const { canUndo, canRedo, undo, redo } = useUndoHistory(planSnapshot, applyPlanSnapshot, activeNetworkId);
+
+  useEffect(() => {
+    if (!activeSavedPlanId) {
+      setAutosaveFailed(false);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      const saved = savePlan('', sharePlan, activeSavedPlanId);
+      setAutosaveFailed(saved === null);
+      if (saved) {
+        setLibraryRevision((current) => current + 1);
+      }
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+    };
+  }, [activeSavedPlanId, sharePlan]);
+
   useEffect(() => {
     return () => {
       if (resetTimerRef.current) {
@@ -143,7 +421,6 @@ export default function SubnetCalculatorPage(): JSX.Element {
     };
   }, [isAzureMenuOpen]);
 
-
   useEffect(() => {
     if (!router.isReady || hasRestoredShare) {
       return;
@@ -155,67 +432,36 @@ export default function SubnetCalculatorPage(): JSX.Element {
       return;
     }
 
-    const decodedState = parseShareableSubnetPlan(stateParam);
-    if (!decodedState) {
-      setHasRestoredShare(true);
-      return;
-    }
-
-    const shareLeaves = decodedState.leaves;
-    const { rootId, tree: rebuiltTree } = createTreeFromLeafDefinitions(
-      decodedState.net,
-      decodedState.pre,
-      shareLeaves.map((leaf) => ({
-        network: leaf.n,
-        prefix: leaf.p
-      }))
-    );
-
-    const colorByKey = new Map<string, string>();
-    const commentByKey = new Map<string, string>();
-    shareLeaves.forEach((leaf) => {
-      if (leaf.c) {
-        colorByKey.set(`${leaf.n}/${leaf.p}`, leaf.c);
-      }
-      if (leaf.m) {
-        commentByKey.set(`${leaf.n}/${leaf.p}`, leaf.m);
-      }
-    });
-
-    const rebuiltLeaves = collectLeaves(rebuiltTree, rootId);
-    const nextColors: Record<string, string> = {};
-    const nextComments: Record<string, string> = {};
-
-    rebuiltLeaves.forEach((leaf) => {
-      const mapKey = `${leaf.network}/${leaf.prefix}`;
-      const mappedColor = colorByKey.get(mapKey);
-      if (mappedColor) {
-        nextColors[leaf.id] = mappedColor;
+    let cancelled = false;
+    parseSharedSubnetPlan(stateParam).then((decodedState) => {
+      if (cancelled) {
+        return;
       }
-      const mappedComment = commentByKey.get(mapKey);
-      if (mappedComment) {
-        nextComments[leaf.id] = mappedComment;
+      if (!decodedState) {
+        setHasRestoredShare(true);
+        return;
       }
-    });
 
-    setState({
-      rootId,
-      tree: rebuiltTree,
-      baseNetwork: decodedState.net,
-      basePrefix: decodedState.pre
+      const restored = restoreSharePlan(decodedState);
+      setState(restored.state);
+      setFormFields({
+        network: formatIpAddress(restored.state.baseNetwork, restored.state.version),
+        prefix: restored.state.basePrefix.toString()
+      });
+      setUseAzureReservations(Boolean(decodedState.az));
+      setRowColors(restored.rowColors);
+      setRowComments(restored.rowComments);
+      setRowRoles(restored.rowRoles);
+      setRowWorkloads(restored.rowWorkloads);
+      setIsColorModeActive(false);
+      setSelectedColorId(DEFAULT_COLOR_ID);
+      closeCommentEditor();
+      setHasRestoredShare(true);
     });
 
-    setFormFields({
-      network: inetNtoa(decodedState.net),
-      prefix: decodedState.pre.toString()
-    });
-    setUseAzureReservations(Boolean(decodedState.az));
-    setRowColors(nextColors);
-    setRowComments(nextComments);
-    setIsColorModeActive(false);
-    setSelectedColorId(DEFAULT_COLOR_ID);
-    closeCommentEditor();
-    setHasRestoredShare(true);
+    return () => {
+      cancelled = true;
+    };
   }, [router.isReady, router.query.state, hasRestoredShare]);
 
   useEffect(() => {
@@ -251,6 +497,9 @@ export default function SubnetCalculatorPage(): JSX.Element {
       return mutated ? next : current;
     });
 
+    setRowRoles((current) => pruneLeafRecord(current, leafIds));
+    setRowWorkloads((current) => pruneLeafRecord(current, leafIds));
+
     if (activeCommentRow && !leafIds.has(activeCommentRow)) {
       setActiveCommentRow(null);
       setCommentDraft('');
@@ -299,6 +548,36 @@ export default function SubnetCalculatorPage(): JSX.Element {
     });
   };
 
+  const handleRoleChange = (leafId: string, role: AzureSubnetRole | '') => {
+    setRowRoles((current) => {
+      const next = { ...current };
+      if (role) {
+        next[leafId] = role;
+      } else {
+        delete next[leafId];
+      }
+      return next;
+    });
+
+    // Name the subnet as Azure requires unless the row already has a name
+    const subnetName = role ? AZURE_SUBNET_ROLES[role].subnetName : undefined;
+    if (subnetName && !rowComments[leafId]) {
+      saveComment(leafId, subnetName);
+    }
+  };
+
+  const handleWorkloadChange = (leafId: string, workload: WorkloadProfile | null) => {
+    setRowWorkloads((current) => {
+      const next = { ...current };
+      if (workload) {
+        next[leafId] = workload;
+      } else {
+        delete next[leafId];
+      }
+      return next;
+    });
+  };
+
   const copyToClipboard = async (text: string) => {
     if (navigator.clipboard && typeof navigator.clipboard.writeText === 'function') {
       await navigator.clipboard.writeText(text);
@@ -327,19 +606,22 @@ export default function SubnetCalculatorPage(): JSX.Element {
 
     setIsGeneratingShare(true);
     try {
-      const sharePlan = buildShareableSubnetPlan({
-        baseNetwork: state.baseNetwork,
-        basePrefix: state.basePrefix,
-        useAzureReservations,
-        leaves,
-        rowColors,
-        rowComments
-      });
-      const encodedState = serialiseShareableSubnetPlan(sharePlan);
+      const legacyState = serialiseShareableSubnetPlan(sharePlan);
+      const encodedState = (await serialiseCompactSubnetPlan(sharePlan)) ?? legacyState;
       const shareUrl = new URL(window.location.href);
       shareUrl.searchParams.set('state', encodedState);
+      const shareLink = shareUrl.toString();
+      setShareReport({ length: shareLink.length, legacyLength: legacyState.length, encodedLength: encodedState.length });
+
+      if (shareTimerRef.current) {
+        clearTimeout(shareTimerRef.current);
+      }
+      if (shareLink.length > MAX_SHARE_URL_LENGTH) {
+        setShareStatus('too-long');
+        return;
+      }
 
-      await copyToClipboard(shareUrl.toString());
+      await copyToClipboard(shareLink);
       setShareStatus('copied');
       if (shareTimerRef.current) {
         clearTimeout(shareTimerRef.current);
@@ -361,61 +643,179 @@ export default function SubnetCalculatorPage(): JSX.Element {
     event.preventDefault();
     setFormError(null);
 
-    const ipValue = inetAtov(formFields.network);
-    if (ipValue === null) {
-      setFormError('Please provide a valid IPv4 network address.');
+    const { version } = state;
+    const address = parseIpAddress(formFields.network);
+    if (!address || address.version !== version) {
+      setFormError(`Please provide a valid IPv${version} network address.`);
       return;
     }
 
+    const maxPrefix = maxPrefixLength(version);
     const parsedPrefix = Number(formFields.prefix);
-    if (!Number.isInteger(parsedPrefix) || parsedPrefix < 0 || parsedPrefix > 32) {
-      setFormError('Mask bits must be a number between 0 and 32.');
+    if (!Number.isInteger(parsedPrefix) || parsedPrefix < 0 || parsedPrefix > maxPrefix) {
+      setFormError(`Mask bits must be a number between 0 and ${maxPrefix}.`);
       return;
     }
 
-    const normalisedNetwork = normaliseNetwork(ipValue, parsedPrefix);
-    const { rootId, tree } = createInitialTree(normalisedNetwork, parsedPrefix);
+    const normalisedNetwork = normaliseNetwork(address.value, parsedPrefix, version);
+    const { rootId, tree } = createInitialTree(normalisedNetwork, parsedPrefix, version);
 
     setState({
       rootId,
       tree,
       baseNetwork: normalisedNetwork,
-      basePrefix: parsedPrefix
+      basePrefix: parsedPrefix,
+      version
     });
     setRowColors({});
     setIsColorModeActive(false);
     setRowComments({});
+    setRowRoles({});
+    setRowWorkloads({});
     closeCommentEditor();
     setFormFields({
-      network: inetNtoa(normalisedNetwork),
+      network: formatIpAddress(normalisedNetwork, version),
       prefix: parsedPrefix.toString()
     });
   };
 
-  const handleReset = () => {
-    const ipValue = inetAtov(DEFAULT_NETWORK)!;
-    const normalised = normaliseNetwork(ipValue, DEFAULT_PREFIX);
-    const { rootId, tree } = createInitialTree(normalised, DEFAULT_PREFIX);
+  const resetToDefaults = (version: IpVersion) => {
     setFormFields({
-      network: DEFAULT_NETWORK,
-      prefix: DEFAULT_PREFIX.toString()
+      network: DEFAULTS[version].network,
+      prefix: DEFAULTS[version].prefix.toString()
     });
     setFormError(null);
     setRowColors({});
     setIsColorModeActive(false);
     setRowComments({});
+    setRowRoles({});
+    setRowWorkloads({});
+    closeCommentEditor();
+    setState(createDefaultState(version));
+  };
+
+  const handleReset = () => {
+    resetToDefaults(state.version);
+  };
+
+  const handleVersionChange = (version: IpVersion) => {
+    if (version === state.version) {
+      return;
+    }
+    resetToDefaults(version);
+  };
+
+  const handleApplyPlan = (allocations: PlannedSubnet[]) => {
+    const { rootId, tree, names, roles } = buildTreeFromPlan(allocations, state.baseNetwork, state.basePrefix, state.version);
+    setRowColors({});
+    setIsColorModeActive(false);
+    setRowComments(names);
+    setRowRoles(roles);
+    setRowWorkloads({});
     closeCommentEditor();
     setState({
       rootId,
       tree,
-      baseNetwork: normalised,
-      basePrefix: DEFAULT_PREFIX
+      baseNetwork: state.baseNetwork,
+      basePrefix: state.basePrefix,
+      version: state.version
+    });
+  };
+
+  const handleImport = (result: VnetImportResult) => {
+    const { baseNetwork, basePrefix, version } = result;
+    const { rootId, tree, names, roles } = buildTreeFromPlan(result.subnets, baseNetwork, basePrefix, version);
+    setFormFields({
+      network: formatIpAddress(baseNetwork, version),
+      prefix: basePrefix.toString()
+    });
+    setFormError(null);
+    setRowColors({});
+    setIsColorModeActive(false);
+    setRowComments(names);
+    setRowRoles(roles);
+    setRowWorkloads({});
+    closeCommentEditor();
+    setState({ rootId, tree, baseNetwork, basePrefix, version });
+  };
+
+  const snapshotActiveNetwork = (entries: WorkspaceEntry[]): WorkspaceEntry[] =>
+    entries.map((entry) => (entry.id === activeNetworkId ? { ...entry, state, rowColors, rowComments, rowRoles, rowWorkloads } : entry));
+
+  const loadWorkspaceNetwork = (entry: WorkspaceEntry) => {
+    setFormFields({
+      network: formatIpAddress(entry.state.baseNetwork, entry.state.version),
+      prefix: entry.state.basePrefix.toString()
     });
+    setFormError(null);
+    setRowColors(entry.rowColors);
+    setIsColorModeActive(false);
+    setRowComments(entry.rowComments);
+    setRowRoles(entry.rowRoles);
+    setRowWorkloads(entry.rowWorkloads);
+    closeCommentEditor();
+    setState(entry.state);
+    setActiveNetworkId(entry.id);
+    // A saved plan belongs to the network it was opened in
+    setActiveSavedPlanId(null);
+  };
+
+  const handleOpenPlanFile = (plan: ShareableSubnetPlan) => {
+    applyPlanSnapshot(restoreSharePlan(plan));
+    setUseAzureReservations(Boolean(plan.az));
+    setIsColorModeActive(false);
+  };
+
+  const handleOpenSavedPlan = (id: string, plan: ShareableSubnetPlan) => {
+    handleOpenPlanFile(plan);
+    setActiveSavedPlanId(id);
+  };
+
+  const handleSelectNetwork = (id: string) => {
+    const target = workspaceNetworks.find((entry) => entry.id === id);
+    if (!target || id === activeNetworkId) {
+      return;
+    }
+    setWorkspaceNetworks(snapshotActiveNetwork);
+    loadWorkspaceNetwork(target);
+  };
+
+  const handleUpdateNetwork = (id: string, changes: Partial<Pick<WorkspaceEntry, 'name' | 'kind' | 'isolated'>>) => {
+    setWorkspaceNetworks((current) => current.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry)));
+  };
+
+  const handleRemoveNetwork = (id: string) => {
+    const remaining = workspaceNetworks.filter((entry) => entry.id !== id);
+    if (remaining.length === 0) {
+      return;
+    }
+    setWorkspaceNetworks(remaining);
+    if (id === activeNetworkId) {
+      loadWorkspaceNetwork(remaining[0]);
+    }
+  };
+
+  const handleAddNetwork = ({ name, kind, network, prefix, version }: NewWorkspaceNetwork) => {
+    networkCounterRef.current += 1;
+    const { rootId, tree } = createInitialTree(network, prefix, version);
+    const entry: WorkspaceEntry = {
+      id: `network-${networkCounterRef.current}`,
+      name,
+      kind,
+      isolated: false,
+      state: { rootId, tree, baseNetwork: network, basePrefix: prefix, version },
+      rowColors: {},
+      rowComments: {},
+      rowRoles: {},
+      rowWorkloads: {}
+    };
+    setWorkspaceNetworks((current) => [...snapshotActiveNetwork(current), entry]);
+    loadWorkspaceNetwork(entry);
   };
 
   const handleSplit = (nodeId: string) => {
     const node = state.tree[nodeId];
-    const canSplitNode = node && !node.children && node.prefix < 32;
+    const canSplitNode = node && !node.children && node.prefix < maxPrefixLength(node.version);
 
     setState((current) => {
       const updatedTree = splitSubnet(current.tree, nodeId);
@@ -458,6 +858,10 @@ export default function SubnetCalculatorPage(): JSX.Element {
         return next;
       });
 
+      // Roles and workloads apply to one subnet, so only the first half keeps them
+      setRowRoles((current) => moveToFirstChild(current, nodeId));
+      setRowWorkloads((current) => moveToFirstChild(current, nodeId));
+
       if (activeCommentRow === nodeId) {
         closeCommentEditor();
       }
@@ -555,6 +959,11 @@ export default function SubnetCalculatorPage(): JSX.Element {
         return mutated ? next : current;
       });
 
+      setRowRoles((current) =>
+        mergeChildren(current, nodeId, childIds, (left, right) => (left && right ? (left === right ? left : undefined) : left || right))
+      );
+      setRowWorkloads((current) => mergeChildren(current, nodeId, childIds, (left, right) => left ?? right));
+
       if (activeCommentRow && (childIds.includes(activeCommentRow) || activeCommentRow === nodeId)) {
         closeCommentEditor();
       }
@@ -572,8 +981,33 @@ export default function SubnetCalculatorPage(): JSX.Element {
           <h1 className="text-2xl font-semibold text-slate-900 md:text-3xl lg:text-4xl">Subnet Calculator</h1>
         </div>
 
+        <VnetWorkspacePanel
+          networks={workspaceSummaries}
+          activeId={activeNetworkId}
+          onSelect={handleSelectNetwork}
+          onUpdate={handleUpdateNetwork}
+          onRemove={handleRemoveNetwork}
+          onAdd={handleAddNetwork}
+        />
+
         <div className="relative rounded-[26px] bg-white/95 p-6 shadow-[0_18px_42px_-30px_rgba(15,23,42,0.35)] ring-1 ring-white/60 backdrop-blur">
           <div className="absolute inset-0 rounded-3xl border border-slate-100/40" aria-hidden />
+          <div className="relative z-10 mb-4 inline-flex rounded-[18px] border border-slate-200 bg-white p-1 shadow-sm" role="tablist" aria-label="IP version">
+            {([4, 6] as const).map((version) => (
+              <button
+                key={version}
+                type="button"
+                role="tab"
+                aria-selected={state.version === version}
+                onClick={() => handleVersionChange(version)}
+                className={`rounded-[14px] px-4 py-1.5 text-sm font-semibold transition ${
+                  state.version === version ? 'bg-sky-50 text-sky-700' : 'text-slate-600 hover:text-sky-700'
+                }`}
+              >
+                IPv{version}
+              </button>
+            ))}
+          </div>
           <form onSubmit={handleApplyNetwork} className="relative z-10 grid w-full grid-cols-1 gap-4 sm:grid-cols-[240px_160px_minmax(0,1fr)] sm:items-end">
             <label className="flex flex-col gap-2 text-sm text-slate-700">
               <span className="text-sm font-semibold text-slate-900">Network Address</span>
@@ -581,8 +1015,8 @@ export default function SubnetCalculatorPage(): JSX.Element {
                 value={formFields.network}
                 onChange={handleFieldChange('network')}
                 className="h-10 w-full rounded-[18px] border border-slate-200 bg-white px-4 text-base font-medium text-slate-900 shadow-sm transition focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-200 placeholder:text-slate-400"
-                placeholder="10.0.0.0"
-                inputMode="decimal"
+                placeholder={state.version === 4 ? '10.0.0.0' : '2001:db8::'}
+                inputMode={state.version === 4 ? 'decimal' : 'text'}
                 autoComplete="off"
               />
             </label>
@@ -595,7 +1029,7 @@ export default function SubnetCalculatorPage(): JSX.Element {
                   value={formFields.prefix}
                   onChange={handleFieldChange('prefix')}
                   className="w-12 bg-transparent text-center text-base font-semibold text-slate-900 focus:outline-none"
-                  placeholder="16"
+                  placeholder={DEFAULTS[state.version].prefix.toString()}
                   inputMode="numeric"
                 />
               </div>
@@ -625,21 +1059,93 @@ export default function SubnetCalculatorPage(): JSX.Element {
           </form>
         </div>
 
+        <SubnetPlanner
+          baseNetwork={state.baseNetwork}
+          basePrefix={state.basePrefix}
+          version={state.version}
+          useAzureReservations={useAzureReservations}
+          onApply={handleApplyPlan}
+        />
+
+        <SubnetImport onImport={handleImport} onOpenPlan={handleOpenPlanFile} />
+
+        <SubnetPlanLibrary
+          currentPlan={sharePlan}
+          activePlanId={activeSavedPlanId}
+          revision={libraryRevision}
+          autosaveFailed={autosaveFailed}
+          onOpen={handleOpenSavedPlan}
+          onActivePlanChange={setActiveSavedPlanId}
+        />
+
+        <SubnetCollisionPanel
+          baseNetwork={state.baseNetwork}
+          basePrefix={state.basePrefix}
+          version={state.version}
+          leaves={leaves}
+          rowComments={rowComments}
+        />
+
         <div className="rounded-3xl border border-slate-200/70 bg-white/95 p-5 shadow-[0_16px_36px_-26px_rgba(15,23,42,0.4)]">
           <header className="flex flex-wrap items-center justify-between gap-3">
             <div className="space-y-2">
-              <p className="text-xs font-medium uppercase tracking-[0.25em] text-slate-400">Current Plan</p>
+              <p className="text-xs font-medium uppercase tracking-[0.25em] text-slate-400">
+                Current Plan{workspaceNetworks.length > 1 && activeNetworkName ? ` · ${activeNetworkName}` : ''}
+              </p>
               <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600">
                 <div className="flex items-center gap-1 text-sm text-slate-600">
-                  <span className="font-semibold text-slate-900">{inetNtoa(state.baseNetwork)}</span>
+                  <span className="font-semibold text-slate-900">{formatIpAddress(state.baseNetwork, state.version)}</span>
                   <span className="ml-1 text-slate-400">{formatPrefix(state.basePrefix)}</span>
                   <span className="mx-2 text-slate-300">·</span>
                   <span>
                     {leaves.length} subnet{leaves.length !== 1 ? 's' : ''}
                   </span>
+                  {undersizedLeafIds.size > 0 && (
+                    <>
+                      <span className="mx-2 text-slate-300">·</span>
+                      <span className="text-rose-600">
+                        {undersizedLeafIds.size} subnet{undersizedLeafIds.size !== 1 ? 's' : ''} too small for the workload
+                      </span>
+                    </>
+                  )}
+                  {roleErrorCount > 0 && (
+                    <>
+                      <span className="mx-2 text-slate-300">·</span>
+                      <span className="text-rose-600">
+                        {roleErrorCount} subnet{roleErrorCount !== 1 ? 's break' : ' breaks'} Azure role rules
+                      </span>
+                    </>
+                  )}
                 </div>
 
                 <div className="flex flex-wrap items-center gap-2">
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={undo}
+                      disabled={!canUndo}
+                      className="inline-flex h-8 w-8 items-center justify-center rounded-full border border-slate-200 bg-white text-slate-600 shadow-sm transition hover:border-slate-300 hover:text-slate-900 focus:outline-none focus:ring-2 focus:ring-slate-200 disabled:cursor-not-allowed disabled:opacity-40 disabled:hover:border-slate-200 disabled:hover:text-slate-600"
+                      title="Undo (Ctrl+Z)"
+                      aria-label="Undo"
+                    >
+                      <svg className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={1.8}>
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M9 14L4 9l5-5M4 9h10.5a5.5 5.5 0 010 11H11" />
+                      </svg>
+                    </button>
+                    <button
+                      type="button"
+                      onClick={redo}
+                      disabled={!canRedo}
+                      className="inline-flex h-8 w-8 items-center justify-center rounded-full border border-slate-200 bg-white text-slate-600 shadow-sm transition hover:border-slate-300 hover:text-slate-900 focus:outline-none focus:ring-2 focus:ring-slate-200 disabled:cursor-not-allowed disabled:opacity-40 disabled:hover:border-slate-200 disabled:hover:text-slate-600"
+                      title="Redo (Ctrl+Shift+Z)"
+                      aria-label="Redo"
+                    >
+                      <svg className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={1.8}>
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M15 14l5-5-5-5M20 9H9.5a5.5 5.5 0 000 11H13" />
+                      </svg>
+                    </button>
+                  </div>
+
                   <div className="flex items-center gap-2">
                     <div className="relative" ref={colorMenuRef}>
                       <button
@@ -702,6 +1208,22 @@ export default function SubnetCalculatorPage(): JSX.Element {
                     </div>
                   </div>
 
+                  <button
+                    type="button"
+                    onClick={() => setIsCapacityModeActive((current) => !current)}
+                    className={`inline-flex h-8 w-8 items-center justify-center rounded-full border bg-white text-slate-500 shadow-sm transition focus:outline-none focus:ring-2 focus:ring-sky-200 ${
+                      isCapacityModeActive ? 'border-sky-300 text-sky-600' : 'border-slate-200 hover:border-slate-300'
+                    }`}
+                    aria-pressed={isCapacityModeActive}
+                    title={isCapacityModeActive ? 'Hide workload capacity' : 'Size subnets for workloads'}
+                  >
+                    <svg className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={1.6}>
+                      <rect x="4" y="4" width="16" height="6" rx="1.5" />
+                      <rect x="4" y="14" width="16" height="6" rx="1.5" />
+                      <path strokeLinecap="round" d="M8 7h.01M8 17h.01M12 7h4M12 17h4" />
+                    </svg>
+                  </button>
+
                   <div className="flex items-center gap-2">
                     <div className="relative" ref={azureMenuRef}>
                       <button
@@ -752,6 +1274,7 @@ export default function SubnetCalculatorPage(): JSX.Element {
                       useAzureReservations={useAzureReservations}
                       baseNetwork={state.baseNetwork}
                       basePrefix={state.basePrefix}
+                      version={state.version}
                       rowColors={rowColors}
                       rowComments={rowComments}
                       variant="icon"
@@ -768,7 +1291,9 @@ export default function SubnetCalculatorPage(): JSX.Element {
                           ? 'border-emerald-300 text-emerald-600'
                           : shareStatus === 'error'
                             ? 'border-rose-300 text-rose-500'
-                            : 'border-slate-200 text-slate-600 hover:border-sky-300 hover:text-sky-600'
+                            : shareStatus === 'too-long'
+                              ? 'border-amber-300 text-amber-600'
+                              : 'border-slate-200 text-slate-600 hover:border-sky-300 hover:text-sky-600'
                       }`}
                       disabled={isGeneratingShare}
                       title={
@@ -776,7 +1301,9 @@ export default function SubnetCalculatorPage(): JSX.Element {
                           ? 'Link copied'
                           : shareStatus === 'error'
                             ? 'Copy failed'
-                            : 'Copy shareable link'
+                            : shareStatus === 'too-long'
+                              ? 'Link too long to share'
+                              : 'Copy shareable link'
                       }
                     >
                       {shareStatus === 'copied' ? (
@@ -803,6 +1330,37 @@ export default function SubnetCalculatorPage(): JSX.Element {
                     {shareStatus === 'error' && (
                       <span className="text-xs font-semibold uppercase tracking-[0.2em] text-rose-500">Copy failed</span>
                     )}
+                    {shareReport && shareStatus === 'copied' && (
+                      <span
+                        className="text-xs text-slate-400"
+                        title={`Plan data is ${shareReport.encodedLength.toLocaleString()} characters (${shareReport.legacyLength.toLocaleString()} in the original link format)`}
+                      >
+                        {shareReport.length.toLocaleString()} characters
+                      </span>
+                    )}
+                    {shareReport && shareStatus === 'too-long' && (
+                      <span className="flex flex-wrap items-center gap-2 rounded-[14px] border border-amber-200 bg-amber-50 px-3 py-1 text-xs text-amber-700">
+                        Link would be {shareReport.length.toLocaleString()} characters (limit {MAX_SHARE_URL_LENGTH.toLocaleString()})
+                        <button
+                          type="button"
+                          onClick={() => {
+                            exportSubnetPlanFile(sharePlan);
+                            setShareStatus('idle');
+                          }}
+                          className="font-semibold text-amber-800 underline-offset-2 hover:underline"
+                        >
+                          Download plan (.json)
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setShareStatus('idle')}
+                          className="text-amber-500 transition hover:text-amber-700"
+                          aria-label="Dismiss"
+                        >
+                          ×
+                        </button>
+                      </span>
+                    )}
                   </div>
                 </div>
               </div>
@@ -825,6 +1383,8 @@ export default function SubnetCalculatorPage(): JSX.Element {
                     Hosts{useAzureReservations ? ' (Azure)' : ''}
                   </th>
                   <th className="border border-slate-200 px-2.5 py-2">Comment</th>
+                  <th className="border border-slate-200 px-2.5 py-2">Azure Role</th>
+                  {isCapacityModeActive && <th className="border border-slate-200 px-2.5 py-2">Workload</th>}
                   <th className="border border-slate-200 px-2.5 py-2 text-center" colSpan={joinColumnCount}>
                     Split / Join
                   </th>
@@ -832,15 +1392,15 @@ export default function SubnetCalculatorPage(): JSX.Element {
               </thead>
               <tbody>
                 {leaves.map((leaf, rowIndex) => {
-                  const lastAddress = subnetLastAddress(leaf.network, leaf.prefix);
+                  const lastAddress = subnetLastAddress(leaf.network, leaf.prefix, leaf.version);
                   const usable = useAzureReservations
-                    ? usableRangeAzure(leaf.network, leaf.prefix)
-                    : usableRange(leaf.network, leaf.prefix);
+                    ? usableRangeAzure(leaf.network, leaf.prefix, leaf.version)
+                    : usableRange(leaf.network, leaf.prefix, leaf.version);
                   const hostCount = useAzureReservations
-                    ? hostCapacityAzure(leaf.prefix)
-                    : hostCapacity(leaf.prefix);
+                    ? hostCapacityAzure(leaf.prefix, leaf.version)
+                    : hostCapacity(leaf.prefix, leaf.version);
                   const path = getNodePath(state.tree, leaf.id);
-                  const canSplit = leaf.prefix < 32;
+                  const canSplit = leaf.prefix < maxPrefixLength(leaf.version);
                   const segments = [...path].reverse();
                   const joinCells: JSX.Element[] = [];
               const rowColor = rowColors[leaf.id];
@@ -852,6 +1412,7 @@ export default function SubnetCalculatorPage(): JSX.Element {
                   const highlightStyle = rowColor ? { backgroundColor: rowColor } : undefined;
                   const comment = rowComments[leaf.id] ?? '';
                   const isEditingComment = activeCommentRow === leaf.id;
+                  const violations = roleViolations[leaf.id] ?? [];
 
                   segments.forEach((segment, index) => {
                     const isLeafSegment = index === 0;
@@ -914,7 +1475,7 @@ export default function SubnetCalculatorPage(): JSX.Element {
                         type="button"
                         onClick={() => handleJoin(segment.id)}
                         className="flex h-full w-full items-center justify-center bg-sky-200 px-1 py-2 text-sky-900 transition hover:bg-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-300 focus:ring-offset-1 focus:ring-offset-white dark:bg-sky-900/40 dark:text-sky-100 dark:hover:bg-sky-900/60 dark:focus:ring-sky-600 dark:focus:ring-offset-slate-900"
-                        title={`Join child subnets into ${inetNtoa(segment.network)}/${segment.prefix}`}
+                        title={`Join child subnets into ${formatIpAddress(segment.network, segment.version)}/${segment.prefix}`}
                       >
                         <span
                           className="font-mono text-[11px] font-semibold"
@@ -932,12 +1493,13 @@ export default function SubnetCalculatorPage(): JSX.Element {
                           }
                           setResetPulse(true);
                           resetTimerRef.current = setTimeout(() => setResetPulse(false), 500);
-                          const { rootId, tree } = createInitialTree(state.baseNetwork, state.basePrefix);
+                          const { rootId, tree } = createInitialTree(state.baseNetwork, state.basePrefix, state.version);
                           setState({
                             rootId,
                             tree,
                             baseNetwork: state.baseNetwork,
-                            basePrefix: state.basePrefix
+                            basePrefix: state.basePrefix,
+                            version: state.version
                           });
                         }}
                         className="flex h-full w-full items-center justify-center bg-slate-200 px-1 py-2 text-slate-700 transition hover:bg-slate-300 focus:outline-none focus:ring-2 focus:ring-slate-300 focus:ring-offset-1 focus:ring-offset-white dark:bg-slate-700 dark:text-slate-200 dark:hover:bg-slate-600 dark:focus:ring-slate-500 dark:focus:ring-offset-slate-900"
@@ -1011,26 +1573,32 @@ export default function SubnetCalculatorPage(): JSX.Element {
                       }}
                       title={isColorModeActive ? 'Click to apply selected color' : undefined}
                     >
-                      <td className="border border-slate-200 px-2.5 py-1.5 align-top" style={highlightStyle}>
+                      <td
+                        className={`border border-slate-200 px-2.5 py-1.5 align-top ${
+                          undersizedLeafIds.has(leaf.id) ? 'shadow-[inset_3px_0_0_#f43f5e]' : ''
+                        }`}
+                        style={highlightStyle}
+                        title={undersizedLeafIds.has(leaf.id) ? 'Too small for its workload' : undefined}
+                      >
                         <span className="font-medium text-slate-900">{subnetLabel(leaf)}</span>
                       </td>
                       <td
                         className="border border-slate-200 px-2.5 py-1.5 align-top font-mono text-[11px] text-slate-500"
                         style={highlightStyle}
                       >
-                        {inetNtoa(subnetNetmask(leaf.prefix))}
+                        {leaf.version === 4 ? formatIpAddress(subnetNetmask(leaf.prefix)) : formatPrefix(leaf.prefix)}
                       </td>
                       <td
                         className="border border-slate-200 px-2.5 py-1.5 align-top font-mono text-[11px] text-slate-500"
                         style={highlightStyle}
                       >
-                        {formatRange(leaf.network, lastAddress)}
+                        {formatRange(leaf.network, lastAddress, leaf.version)}
                       </td>
                       <td
                         className="border border-slate-200 px-2.5 py-1.5 align-top font-mono text-[11px] text-slate-500"
                         style={highlightStyle}
                       >
-                        {usable ? formatRange(usable.first, usable.last) : 'Reserved'}
+                        {usable ? formatRange(usable.first, usable.last, leaf.version) : 'Reserved'}
                       </td>
                       <td
                         className="border border-slate-200 px-2.5 py-1.5 align-top font-mono text-[11px] text-slate-500"
@@ -1111,6 +1679,53 @@ export default function SubnetCalculatorPage(): JSX.Element {
                           </div>
                         )}
                       </td>
+                      <td
+                        className="border border-slate-200 px-2.5 py-1.5 align-top text-xs text-slate-500"
+                        data-skip-color
+                        onClick={(event) => event.stopPropagation()}
+                        style={highlightStyle}
+                      >
+                        <select
+                          value={rowRoles[leaf.id] ?? ''}
+                          onChange={(event) => handleRoleChange(leaf.id, event.target.value as AzureSubnetRole | '')}
+                          aria-label={`Azure role for ${subnetLabel(leaf)}`}
+                          className="h-7 max-w-[180px] rounded-[10px] border border-slate-200 bg-white px-2 text-xs text-slate-600 shadow-sm focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-200"
+                        >
+                          <option value="">None</option>
+                          {AZURE_SUBNET_ROLE_IDS.map((role) => (
+                            <option key={role} value={role}>
+                              {AZURE_SUBNET_ROLES[role].label}
+                            </option>
+                          ))}
+                        </select>
+                        {violations.length > 0 && (
+                          <ul className="mt-1 max-w-[220px] space-y-0.5">
+                            {violations.map((violation) => (
+                              <li
+                                key={violation.message}
+                                className={violation.severity === 'error' ? 'text-rose-600' : 'text-amber-600'}
+                              >
+                                {violation.message}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                      {isCapacityModeActive && (
+                        <td
+                          className="border border-slate-200 px-2.5 py-1.5 align-top text-xs text-slate-500"
+                          data-skip-color
+                          onClick={(event) => event.stopPropagation()}
+                          style={highlightStyle}
+                        >
+                          <WorkloadCapacityCell
+                            profile={rowWorkloads[leaf.id]}
+                            prefix={leaf.prefix}
+                            version={leaf.version}
+                            onChange={(workload) => handleWorkloadChange(leaf.id, workload)}
+                          />
+                        </td>
+                      )}
                       {joinCells}
                     </tr>
                   );
@@ -1,28 +1,7 @@
 import { FormEvent, useCallback, useEffect, useMemo, useState } from 'react';
 import Layout from '@/components/Layout';
-
-interface TenantLookupResponse {
-  input: { domain: string };
-  tenant: {
-    tenantId: string;
-    defaultDomainName?: string;
-    displayName?: string;
-    federationBrandName?: string | null;
-  };
-  metadata?: {
-    cloud_instance_name?: string;
-    tenant_region_scope?: string;
-    tenant_region_sub_scope?: string;
-    authorization_endpoint?: string;
-    issuer?: string;
-    [key: string]: unknown;
-  };
-  derived: {
-    azureAdInstance?: string;
-    tenantScope?: string;
-  };
-  fetchedAt: string;
-}
+import { lookupTenant } from '@/lib/apiClient';
+import type { TenantLookupResponse } from '@/types/api';
 
 interface TenantHistoryEntry {
   domain: string;
@@ -32,11 +11,6 @@ interface TenantHistoryEntry {
 
 const HISTORY_STORAGE_KEY = 'azurehub:tenantLookupHistory:v1';
 
-const rawTenantLookupBase = process.env.NEXT_PUBLIC_TENANT_LOOKUP_API_BASE?.trim();
-const TENANT_LOOKUP_ENDPOINT = rawTenantLookupBase && rawTenantLookupBase.length > 0
-  ? `${rawTenantLookupBase.replace(/\/+$/, '')}/api/tenantLookup`
-  : '/api/tenantLookup';
-
 const domainRegex =
   /^(?=.{1,255}$)(?!-)(?:[a-z0-9-]{0,62}[a-z0-9]\.)+[a-z0-9][a-z0-9-]{0,62}[a-z0-9]$/i;
 
@@ -91,26 +65,12 @@ export default function TenantLookupPage() {
       setError(null);
 
       try {
-        const response = await fetch(TENANT_LOOKUP_ENDPOINT, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ domain: normalized }),
-        });
-
-        const payload = await response.json();
-
-        if (!response.ok) {
-          setResult(null);
-          setError(payload?.message || payload?.error || 'Tenant lookup failed. Please try again.');
-          return;
-        }
+        const payload = await lookupTenant(normalized);
 
-        setResult(payload as TenantLookupResponse);
+        setResult(payload);
         persistHistory({
           domain: normalized,
-          tenantId: payload?.tenant?.tenantId ?? '',
+          tenantId: payload.tenant.tenantId ?? '',
           timestamp: new Date().toISOString(),
         });
       } catch (err) {
@@ -0,0 +1,139 @@
+import { AzureCloudName, AzureIpAddress } from './azure';
+
+/**
+ * File-level changeNumber of each cloud a /api/v1 response was built from
+ */
+export type ApiChangeNumbers = Partial<Record<AzureCloudName, number>>;
+
+export interface ApiErrorResponse {
+  error: string;
+}
+
+export type DnsRecordType = 'CNAME' | 'A' | 'AAAA' | 'PTR';
+
+// Resolver backends of /api/dnsLookup and /api/reverseLookup (see lib/dnsResolvers)
+export type DnsResolverKind = 'system' | 'upstream' | 'doh-json' | 'doh-wire' | 'fixture';
+
+export const DNS_RESOLVER_KINDS: DnsResolverKind[] = ['system', 'upstream', 'doh-json', 'doh-wire', 'fixture'];
+
+export interface DnsChainRecord {
+  name: string; // Owner name of the record
+  type: DnsRecordType;
+  value: string; // CNAME target or address
+  ttl?: number; // Seconds; the system and upstream resolvers do not report it for CNAME hops
+  azureService?: string; // Service implied by the owner name (the target for PTR records), e.g. "Traffic Manager"
+}
+
+export interface PrivateLinkAssessment {
+  resource: string; // e.g. "Storage account (Blob)"
+  resourceType: string;
+  subresource: string; // Target sub-resource (group ID) of the private endpoint
+  cloud: AzureCloudName;
+  privateZone: string; // Private DNS zone to link to the VNet
+  recordName: string; // A record to create in the zone
+  privateLinkCname?: string; // privatelink name the public name points to, once a private endpoint exists
+  answer: 'private' | 'public' | 'none'; // Whether this resolver returned the private endpoint address
+}
+
+// /api/dnsLookup reports invalid input and unresolvable names in the same shape, with `error` set
+export interface DnsLookupResponse {
+  hostname: string;
+  ipAddresses: string[];
+  // CNAME hops in resolution order, followed by the final A/AAAA records
+  chain: DnsChainRecord[];
+  // Set for hostnames of services that support Private Link
+  privateLink?: PrivateLinkAssessment;
+  resolver?: DnsResolverKind; // Resolver backend that answered
+  error?: string;
+}
+
+export interface ReverseLookupResponse {
+  ip: string;
+  ptrName: string; // e.g. 7.15.61.20.in-addr.arpa
+  // PTR records, followed by the A/AAAA records each PTR hostname resolves to
+  chain: DnsChainRecord[];
+  hostnames: string[];
+  forwardConfirmed: boolean; // A PTR hostname resolves back to the address
+  azureService?: string; // Service implied by the first Azure PTR hostname, e.g. "Public IP DNS label"
+  changeNumber: ApiChangeNumbers;
+  serviceTags: AzureIpAddress[]; // Most specific service tag prefixes containing the address
+  resolver: DnsResolverKind;
+}
+
+export interface TenantLookupRequest {
+  domain: string;
+}
+
+export interface TenantInformation {
+  tenantId: string;
+  defaultDomainName?: string;
+  displayName?: string;
+  federationBrandName?: string | null;
+}
+
+// OpenID configuration of the tenant; only the fields the UI reads are typed
+export interface TenantMetadata {
+  cloud_instance_name?: string;
+  tenant_region_scope?: string;
+  tenant_region_sub_scope?: string;
+  authorization_endpoint?: string;
+  issuer?: string;
+  [key: string]: unknown;
+}
+
+export interface TenantLookupResponse {
+  input: {
+    domain: string;
+  };
+  tenant: TenantInformation;
+  metadata?: TenantMetadata;
+  derived: {
+    azureAdInstance?: string;
+    tenantScope?: string;
+  };
+  fetchedAt: string;
+}
+
+/**
+ * Position of a page in a paged /api/v1 response
+ */
+export interface ApiPage {
+  total: number; // Results across all pages
+  limit: number;
+  offset: number;
+}
+
+export interface IpLookupApiResponse extends ApiPage {
+  query: string;
+  changeNumber: ApiChangeNumbers;
+  matches: AzureIpAddress[];
+}
+
+export interface ServiceTagSummary {
+  name: string;
+  cloud: AzureCloudName;
+  region: string;
+  systemService: string;
+  addressPrefixCount: number;
+}
+
+export interface ServiceTagListApiResponse {
+  changeNumber: ApiChangeNumbers;
+  serviceTags: ServiceTagSummary[];
+}
+
+export interface ServiceTagApiResponse {
+  name: string;
+  changeNumber: ApiChangeNumbers;
+  ranges: AzureIpAddress[];
+}
+
+export interface SearchApiResponse extends ApiPage {
+  query: {
+    region?: string;
+    service?: string;
+    cloud?: AzureCloudName;
+  };
+  changeNumber: ApiChangeNumbers;
+  results: AzureIpAddress[];
+}
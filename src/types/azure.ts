@@ -6,11 +6,23 @@ export interface AzureIpAddress {
   regionId: string;
   systemService: string;
   networkFeatures: string;
+  cloud: AzureCloudName; // Sovereign cloud the service tag was published for
+  isMostSpecific?: boolean; // Set by IP lookups on the longest matching prefix(es)
+  // Range (CIDR) lookups only
+  relationship?: PrefixRelationship; // How this Azure prefix relates to the queried range
+  overlapAddressCount?: number; // Number of addresses shared with the queried range
   // DNS resolution info (when hostname was resolved)
   resolvedFrom?: string; // Original hostname that was resolved
   resolvedIp?: string;   // The specific IP address this entry matched
 }
 
+/**
+ * contains: the Azure prefix contains the queried range
+ * equal:    the Azure prefix is the queried range
+ * within:   the Azure prefix lies inside the queried range
+ */
+export type PrefixRelationship = 'contains' | 'equal' | 'within';
+
 export interface AzureServiceTag {
   name: string;
   id: string;
@@ -57,3 +69,53 @@ export interface AzureFileMetadata {
   downloadUrl: string;
   lastRetrieved: string;
 }
+
+export interface AzureSnapshotMetadata {
+  cloud: AzureCloudName;
+  changeNumber: number;
+  filename: string;
+  date: string; // YYYY-MM-DD the snapshot was retrieved
+}
+
+export interface AzureServiceTagChange {
+  name: string;
+  previousChangeNumber: number | null; // null when the tag was added
+  changeNumber: number | null;         // null when the tag was removed
+  prefixesAdded: string[];
+  prefixesRemoved: string[];
+}
+
+export interface AzureServiceTagDiff {
+  cloud: AzureCloudName;
+  fromChangeNumber: number;
+  toChangeNumber: number;
+  fromDate: string;
+  toDate: string;
+  tagsAdded: string[];
+  tagsRemoved: string[];
+  changes: AzureServiceTagChange[];
+}
+
+export interface AzureDiffMetadata {
+  cloud: AzureCloudName;
+  fromChangeNumber: number;
+  toChangeNumber: number;
+  date: string;
+  filename: string;
+  tagsChanged: number;
+  prefixesAdded: number;
+  prefixesRemoved: number;
+}
+
+export interface AzureServiceTagHistoryEntry {
+  cloud: AzureCloudName;
+  date: string;
+  fromChangeNumber: number; // File-level changeNumber before the release
+  toChangeNumber: number;   // File-level changeNumber of the release
+  previousTagChangeNumber: number | null;
+  tagChangeNumber: number | null;
+  prefixesAdded: string[];
+  prefixesRemoved: string[];
+  ipv4AddressDelta: number;
+  ipv6AddressDelta: number;
+}
@@ -0,0 +1,126 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import handler from '@/pages/api/dnsLookup';
+import type { DnsLookupResponse } from '@/types/api';
+import { callRoute } from '../helpers/apiRoute';
+
+// Assigning undefined to process.env stores the string "undefined"
+function restoreEnv(name: string, value: string | undefined) {
+  if (value === undefined) {
+    delete process.env[name];
+  } else {
+    process.env[name] = value;
+  }
+}
+
+// Answers come from the sample zone in dnsResolvers
+describe('/api/dnsLookup with the fixture resolver', () => {
+  const previousResolver = process.env.DNS_RESOLVER;
+
+  beforeAll(() => {
+    process.env.DNS_RESOLVER = 'fixture';
+  });
+
+  afterAll(() => {
+    restoreEnv('DNS_RESOLVER', previousResolver);
+  });
+
+  function lookup(query: Record<string, string>) {
+    return callRoute<DnsLookupResponse>(handler, { query });
+  }
+
+  it('follows the CNAME chain and labels each hop', async () => {
+    const { status, body } = await lookup({ hostname: 'www.contoso.com' });
+
+    expect(status).toBe(200);
+    expect(body.resolver).toBe('fixture');
+    expect(body.ipAddresses).toEqual(['20.50.2.40']);
+    expect(body.chain).toEqual([
+      { name: 'www.contoso.com', type: 'CNAME', value: 'contoso.trafficmanager.net', ttl: 3600 },
+      { name: 'contoso.trafficmanager.net', type: 'CNAME', value: 'contoso-web.azurewebsites.net', ttl: 60, azureService: 'Traffic Manager' },
+      {
+        name: 'contoso-web.azurewebsites.net',
+        type: 'CNAME',
+        value: 'waws-prod-am2-123.sip.azurewebsites.windows.net',
+        ttl: 300,
+        azureService: 'App Service'
+      },
+      {
+        name: 'waws-prod-am2-123.sip.azurewebsites.windows.net',
+        type: 'A',
+        value: '20.50.2.40',
+        ttl: 300,
+        azureService: 'App Service scale unit'
+      }
+    ]);
+    expect(body.privateLink).toMatchObject({ privateZone: 'privatelink.azurewebsites.net', answer: 'public' });
+  });
+
+  it('returns 404 with an empty chain for names that do not exist', async () => {
+    const { status, body } = await lookup({ hostname: 'missing.contoso.com' });
+
+    expect(status).toBe(404);
+    expect(body.ipAddresses).toEqual([]);
+    expect(body.chain).toEqual([]);
+    expect(body.error).toBe('No DNS records found for missing.contoso.com');
+  });
+
+  it('reports a private endpoint answer through its privatelink CNAME', async () => {
+    const { status, body } = await lookup({ hostname: 'contosodata.blob.core.windows.net' });
+
+    expect(status).toBe(200);
+    expect(body.ipAddresses).toEqual(['10.20.1.5']);
+    expect(body.privateLink).toMatchObject({
+      resourceType: 'Microsoft.Storage/storageAccounts',
+      subresource: 'blob',
+      privateZone: 'privatelink.blob.core.windows.net',
+      recordName: 'contosodata',
+      privateLinkCname: 'contosodata.privatelink.blob.core.windows.net',
+      answer: 'private'
+    });
+  });
+
+  it('rejects an unknown resolver with 400', async () => {
+    const { status, body } = await lookup({ hostname: 'www.contoso.com', resolver: 'bogus' });
+
+    expect(status).toBe(400);
+    expect(body.error).toMatch(/Unknown DNS resolver "bogus"/);
+  });
+
+  it('rejects the fixture resolver unless it is configured', async () => {
+    process.env.DNS_RESOLVER = 'system';
+    try {
+      const { status, body } = await lookup({ hostname: 'www.contoso.com', resolver: 'fixture' });
+
+      expect(status).toBe(400);
+      expect(body.chain).toEqual([]);
+      expect(body.error).toBe('The fixture resolver is only available when DNS_RESOLVER=fixture.');
+    } finally {
+      process.env.DNS_RESOLVER = 'fixture';
+    }
+  });
+
+  it('does not reveal the fixture zone path when it cannot be loaded', async () => {
+    const previousPath = process.env.DNS_FIXTURE_PATH;
+    process.env.DNS_FIXTURE_PATH = '/nonexistent/secret-zone.json';
+    const errorLog = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.resetModules();
+    try {
+      const { default: freshHandler } = await import('@/pages/api/dnsLookup');
+      const { status, body } = await callRoute<DnsLookupResponse>(freshHandler, { query: { hostname: 'www.contoso.com' } });
+
+      expect(status).toBe(400);
+      expect(body.error).toBe('The DNS fixture zone could not be loaded.');
+      expect(JSON.stringify(body)).not.toContain('secret-zone');
+      expect(errorLog).toHaveBeenCalledWith(expect.stringContaining('/nonexistent/secret-zone.json'), expect.anything());
+    } finally {
+      errorLog.mockRestore();
+      restoreEnv('DNS_FIXTURE_PATH', previousPath);
+    }
+  });
+
+  it('rejects the upstream resolver when no servers are configured', async () => {
+    const { status } = await lookup({ hostname: 'www.contoso.com', resolver: 'upstream' });
+
+    expect(status).toBe(400);
+  });
+});
@@ -0,0 +1,146 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { DnsFixtureZone } from '@/lib/dnsResolvers';
+import handler from '@/pages/api/reverseLookup';
+import type { ApiErrorResponse, ReverseLookupResponse } from '@/types/api';
+import { callRoute } from '../helpers/apiRoute';
+
+// All 32 nibbles of 2603:1020:200::1, last first
+const IPV6_PTR_NAME = `${'26031020020000000000000000000001'.split('').reverse().join('.')}.ip6.arpa`;
+
+const ZONE: DnsFixtureZone = {
+  // Confirmed: the PTR hostname resolves back to the address
+  '7.15.61.20.in-addr.arpa': { PTR: ['contoso-vm.westeurope.cloudapp.azure.com.'], ttl: 3600 },
+  'contoso-vm.westeurope.cloudapp.azure.com': { A: ['20.61.15.7'], ttl: 10 },
+  // Unconfirmed: one hostname points elsewhere, the other does not resolve
+  '1.0.0.10.in-addr.arpa': { PTR: ['moved.contoso.com', 'gone.contoso.com'] },
+  'moved.contoso.com': { A: ['10.0.0.2'] },
+  // Six PTR records; only the first five are resolved forward
+  '9.0.0.10.in-addr.arpa': { PTR: ['h1.contoso.com', 'h2.contoso.com', 'h3.contoso.com', 'h4.contoso.com', 'h5.contoso.com', 'h6.contoso.com'] },
+  'h6.contoso.com': { A: ['10.0.0.9'] },
+  [IPV6_PTR_NAME]: { PTR: ['v6.contoso.com'] },
+  'v6.contoso.com': { A: ['20.61.15.7'], AAAA: ['2603:1020:200::1'] }
+};
+
+// Assigning undefined to process.env stores the string "undefined"
+function restoreEnv(name: string, value: string | undefined) {
+  if (value === undefined) {
+    delete process.env[name];
+  } else {
+    process.env[name] = value;
+  }
+}
+
+describe('/api/reverseLookup', () => {
+  const previousResolver = process.env.DNS_RESOLVER;
+  const previousPath = process.env.DNS_FIXTURE_PATH;
+  let zoneDir: string;
+
+  beforeAll(async () => {
+    zoneDir = await fs.mkdtemp(path.join(os.tmpdir(), 'reverse-lookup-'));
+    const zonePath = path.join(zoneDir, 'zone.json');
+    await fs.writeFile(zonePath, JSON.stringify(ZONE), 'utf8');
+    process.env.DNS_RESOLVER = 'fixture';
+    process.env.DNS_FIXTURE_PATH = zonePath;
+  });
+
+  afterAll(async () => {
+    restoreEnv('DNS_RESOLVER', previousResolver);
+    restoreEnv('DNS_FIXTURE_PATH', previousPath);
+    await fs.rm(zoneDir, { recursive: true, force: true });
+  });
+
+  function lookup(query: Record<string, string>) {
+    return callRoute<ReverseLookupResponse & ApiErrorResponse>(handler, { query });
+  }
+
+  it('forward-confirms PTR hostnames and labels Azure names', async () => {
+    const { status, body } = await lookup({ ip: '20.61.15.7' });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      ip: '20.61.15.7',
+      ptrName: '7.15.61.20.in-addr.arpa',
+      hostnames: ['contoso-vm.westeurope.cloudapp.azure.com.'],
+      forwardConfirmed: true,
+      azureService: 'Public IP DNS label',
+      resolver: 'fixture'
+    });
+    expect(body.chain).toEqual([
+      {
+        name: '7.15.61.20.in-addr.arpa',
+        type: 'PTR',
+        value: 'contoso-vm.westeurope.cloudapp.azure.com.',
+        ttl: 3600,
+        azureService: 'Public IP DNS label'
+      },
+      { name: 'contoso-vm.westeurope.cloudapp.azure.com.', type: 'A', value: '20.61.15.7', ttl: 10 }
+    ]);
+  });
+
+  it('enriches the address with the most specific service tags', async () => {
+    const { body } = await lookup({ ip: '20.61.15.7' });
+
+    expect(Object.keys(body.changeNumber).length).toBeGreaterThan(0);
+    expect(body.serviceTags.length).toBeGreaterThan(0);
+    body.serviceTags.forEach((tag) => {
+      expect(tag.isMostSpecific).toBe(true);
+    });
+  });
+
+  it('is not confirmed when no PTR hostname resolves back to the address', async () => {
+    const { status, body } = await lookup({ ip: '10.0.0.1' });
+
+    expect(status).toBe(200);
+    expect(body.forwardConfirmed).toBe(false);
+    expect(body.azureService).toBeUndefined();
+    expect(body.chain.map((record) => `${record.type} ${record.name} ${record.value}`)).toEqual([
+      'PTR 1.0.0.10.in-addr.arpa moved.contoso.com',
+      'PTR 1.0.0.10.in-addr.arpa gone.contoso.com',
+      'A moved.contoso.com 10.0.0.2'
+    ]);
+  });
+
+  it('resolves at most five PTR hostnames forward', async () => {
+    const { body } = await lookup({ ip: '10.0.0.9' });
+
+    expect(body.hostnames).toHaveLength(6);
+    expect(body.forwardConfirmed).toBe(false);
+    expect(body.chain.filter((record) => record.type !== 'PTR')).toEqual([]);
+  });
+
+  it('looks up IPv6 addresses with AAAA records only', async () => {
+    const { status, body } = await lookup({ ip: '2603:1020:0200::0001' });
+
+    expect(status).toBe(200);
+    expect(body.ip).toBe('2603:1020:200::1');
+    expect(body.ptrName).toBe(IPV6_PTR_NAME);
+    expect(body.forwardConfirmed).toBe(true);
+    expect(body.chain.filter((record) => record.type !== 'PTR')).toEqual([
+      { name: 'v6.contoso.com', type: 'AAAA', value: '2603:1020:200::1', ttl: 300 }
+    ]);
+  });
+
+  it('returns an empty chain for addresses without PTR records', async () => {
+    const { status, body } = await lookup({ ip: '192.0.2.1' });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ ptrName: '1.2.0.192.in-addr.arpa', chain: [], hostnames: [], forwardConfirmed: false });
+  });
+
+  it.each([{}, { ip: 'not-an-ip' }, { ip: '20.61.15.0/24' }])('rejects %o with 400', async (query) => {
+    const { status, body } = await lookup(query as Record<string, string>);
+
+    expect(status).toBe(400);
+    expect(body.error).toBe('Enter a single IPv4 or IPv6 address.');
+  });
+
+  it('rejects an unknown resolver with 400', async () => {
+    const { status, body } = await lookup({ ip: '20.61.15.7', resolver: 'bogus' });
+
+    expect(status).toBe(400);
+    expect(body.error).toMatch(/Unknown DNS resolver "bogus"/);
+  });
+});
@@ -0,0 +1,84 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { NextApiHandler } from 'next';
+import { validateApiSchema } from '@/lib/apiSchemas';
+import type { ApiSchemaName } from '@/lib/apiSchemas';
+import dnsLookup from '@/pages/api/dnsLookup';
+import reverseLookup from '@/pages/api/reverseLookup';
+import tenantLookup from '@/pages/api/tenantLookup';
+import ipLookup from '@/pages/api/v1/ip/[...address]';
+import search from '@/pages/api/v1/search';
+import serviceTagList from '@/pages/api/v1/servicetags/index';
+import serviceTag from '@/pages/api/v1/servicetags/[name]';
+import { callRoute } from '../helpers/apiRoute';
+import type { RouteRequest } from '../helpers/apiRoute';
+
+vi.mock('@azure/identity', () => ({
+  ClientSecretCredential: class {
+    async getToken() {
+      return { token: 'test-token', expiresOnTimestamp: Date.now() + 3600000 };
+    }
+  }
+}));
+
+interface SchemaCase {
+  name: string;
+  handler: NextApiHandler;
+  request: RouteRequest;
+  status: number;
+  schema: ApiSchemaName;
+}
+
+// Every route response the UI or the typed client reads, success and failure shapes alike
+const cases: SchemaCase[] = [
+  { name: 'v1 ip address', handler: ipLookup, request: { query: { address: ['20.38.98.100'] } }, status: 200, schema: 'IpLookupResponse' },
+  { name: 'v1 ip range', handler: ipLookup, request: { query: { address: ['20.38.0.0', '16'] } }, status: 200, schema: 'IpLookupResponse' },
+  { name: 'v1 ip invalid', handler: ipLookup, request: { query: { address: ['nope'] } }, status: 400, schema: 'ErrorResponse' },
+  { name: 'v1 service tag list', handler: serviceTagList, request: { query: { cloud: 'AzureChinaCloud' } }, status: 200, schema: 'ServiceTagListResponse' },
+  { name: 'v1 service tag', handler: serviceTag, request: { query: { name: 'Storage.WestEurope' } }, status: 200, schema: 'ServiceTagResponse' },
+  { name: 'v1 service tag missing', handler: serviceTag, request: { query: { name: 'NoSuchTag' } }, status: 404, schema: 'ErrorResponse' },
+  { name: 'v1 search', handler: search, request: { query: { region: 'westeurope', service: 'Storage' } }, status: 200, schema: 'SearchResponse' },
+  { name: 'v1 search page', handler: search, request: { query: { service: 'Storage', limit: '5', offset: '10' } }, status: 200, schema: 'SearchResponse' },
+  { name: 'v1 search invalid limit', handler: search, request: { query: { service: 'Storage', limit: '5000' } }, status: 400, schema: 'ErrorResponse' },
+  { name: 'v1 search empty', handler: search, request: {}, status: 400, schema: 'ErrorResponse' },
+  { name: 'v1 unknown cloud', handler: serviceTagList, request: { query: { cloud: 'Mars' } }, status: 400, schema: 'ErrorResponse' },
+  { name: 'v1 method', handler: search, request: { method: 'POST' }, status: 405, schema: 'ErrorResponse' },
+  { name: 'dns lookup', handler: dnsLookup, request: { query: { hostname: 'www.contoso.com' } }, status: 200, schema: 'DnsLookupResponse' },
+  { name: 'dns lookup not found', handler: dnsLookup, request: { query: { hostname: 'missing.contoso.com' } }, status: 404, schema: 'DnsLookupResponse' },
+  { name: 'dns lookup invalid', handler: dnsLookup, request: { query: { hostname: 'localhost' } }, status: 400, schema: 'DnsLookupResponse' },
+  { name: 'dns lookup method', handler: dnsLookup, request: { method: 'POST' }, status: 405, schema: 'ErrorResponse' },
+  { name: 'reverse lookup', handler: reverseLookup, request: { query: { ip: '20.61.15.7' } }, status: 200, schema: 'ReverseLookupResponse' },
+  { name: 'reverse lookup invalid', handler: reverseLookup, request: { query: { ip: '20.0.0.0/8' } }, status: 400, schema: 'ErrorResponse' },
+  { name: 'tenant lookup', handler: tenantLookup, request: { method: 'POST', body: { domain: 'contoso.com' } }, status: 200, schema: 'TenantLookupResponse' },
+  { name: 'tenant lookup invalid', handler: tenantLookup, request: { query: { domain: 'not a domain' } }, status: 400, schema: 'ErrorResponse' }
+];
+
+describe('API responses match their schemas', () => {
+  const env = { ...process.env };
+
+  beforeAll(() => {
+    process.env.AZURE_TENANT_ID = 'test-tenant';
+    process.env.AZURE_CLIENT_ID = 'test-client';
+    process.env.AZURE_CLIENT_SECRET = 'test-secret';
+    process.env.DNS_RESOLVER = 'fixture';
+
+    // Microsoft Graph and the OpenID metadata endpoint
+    vi.stubGlobal('fetch', async (url: string) => {
+      const payload = url.includes('findTenantInformationByDomainName')
+        ? { tenantId: '72f988bf-86f1-41af-91ab-2d7cd011db47', defaultDomainName: 'contoso.onmicrosoft.com', displayName: 'Contoso' }
+        : { cloud_instance_name: 'microsoftonline.com', tenant_region_scope: 'WW', issuer: 'https://login.microsoftonline.com/test/v2.0' };
+      return new Response(JSON.stringify(payload), { status: 200, headers: { 'Content-Type': 'application/json' } });
+    });
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+    process.env = env;
+  });
+
+  it.each(cases)('$name', async ({ handler, request, status, schema }) => {
+    const response = await callRoute(handler, request);
+
+    expect(response.status).toBe(status);
+    expect(validateApiSchema(schema, response.body)).toEqual([]);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT } from '@/lib/apiSchemas';
+import ipLookup from '@/pages/api/v1/ip/[...address]';
+import search from '@/pages/api/v1/search';
+import type { ApiErrorResponse, IpLookupApiResponse, SearchApiResponse } from '@/types/api';
+import { callRoute } from '../helpers/apiRoute';
+
+describe('/api/v1 pagination', () => {
+  it('returns the default page size and the total count', async () => {
+    const { status, body } = await callRoute<SearchApiResponse>(search, { query: { service: 'AzureCloud' } });
+
+    expect(status).toBe(200);
+    expect(body.total).toBeGreaterThan(DEFAULT_PAGE_LIMIT);
+    expect(body).toMatchObject({ limit: DEFAULT_PAGE_LIMIT, offset: 0 });
+    expect(body.results).toHaveLength(DEFAULT_PAGE_LIMIT);
+  });
+
+  it('pages through search results with limit and offset', async () => {
+    const query = { service: 'AzureCloud', limit: String(MAX_PAGE_LIMIT) };
+    const all = (await callRoute<SearchApiResponse>(search, { query })).body;
+    const page = (await callRoute<SearchApiResponse>(search, { query: { ...query, limit: '3', offset: '4' } })).body;
+
+    expect(page).toMatchObject({ total: all.total, limit: 3, offset: 4 });
+    expect(page.results).toEqual(all.results.slice(4, 7));
+  });
+
+  it('pages overlapping prefixes of a CIDR range', async () => {
+    const address = ['20.0.0.0', '8'];
+    const first = (await callRoute<IpLookupApiResponse>(ipLookup, { query: { address, limit: '2' } })).body;
+    const last = (await callRoute<IpLookupApiResponse>(ipLookup, { query: { address, offset: String(first.total - 1) } })).body;
+
+    expect(first.matches).toHaveLength(2);
+    expect(first.total).toBeGreaterThan(2);
+    expect(last.matches).toHaveLength(1);
+  });
+
+  it.each([
+    ['limit', '0'],
+    ['limit', String(MAX_PAGE_LIMIT + 1)],
+    ['limit', '10.5'],
+    ['offset', '-1']
+  ])('rejects %s=%s', async (name, value) => {
+    const { status, body } = await callRoute<ApiErrorResponse>(search, { query: { service: 'Storage', [name]: value } });
+
+    expect(status).toBe(400);
+    expect(body.error).toMatch(new RegExp(`^${name} must be a whole number`));
+  });
+});
@@ -0,0 +1,116 @@
+// @vitest-environment jsdom
+import { act, fireEvent, renderHook } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { useUndoHistory } from '@/components/useUndoHistory';
+
+interface Props {
+  value: string;
+  resetKey?: string;
+}
+
+// Page state that the hook records and restores, as a page would hold it
+function renderHistory(initial: string, limit?: number) {
+  let state = initial;
+  const hook = renderHook(
+    ({ value, resetKey }: Props) =>
+      useUndoHistory(value, (restored) => {
+        state = restored;
+      }, resetKey, limit),
+    { initialProps: { value: initial } as Props }
+  );
+
+  return {
+    hook,
+    state: () => state,
+    set(value: string, resetKey?: string) {
+      state = value;
+      hook.rerender({ value, resetKey });
+    },
+    // Re-render with whatever the last undo or redo restored
+    apply(action: () => void) {
+      act(action);
+      hook.rerender({ value: state });
+    }
+  };
+}
+
+describe('useUndoHistory', () => {
+  it('undoes and redoes recorded changes', () => {
+    const history = renderHistory('a');
+    history.set('b');
+    history.set('c');
+
+    expect(history.hook.result.current).toMatchObject({ canUndo: true, canRedo: false });
+
+    history.apply(() => history.hook.result.current.undo());
+    expect(history.state()).toBe('b');
+    history.apply(() => history.hook.result.current.undo());
+    expect(history.state()).toBe('a');
+    expect(history.hook.result.current).toMatchObject({ canUndo: false, canRedo: true });
+
+    history.apply(() => history.hook.result.current.redo());
+    expect(history.state()).toBe('b');
+    expect(history.hook.result.current).toMatchObject({ canUndo: true, canRedo: true });
+  });
+
+  it('drops the redo stack on a new change', () => {
+    const history = renderHistory('a');
+    history.set('b');
+    history.apply(() => history.hook.result.current.undo());
+    history.set('c');
+
+    expect(history.hook.result.current.canRedo).toBe(false);
+    history.apply(() => history.hook.result.current.undo());
+    expect(history.state()).toBe('a');
+  });
+
+  it('ignores re-renders with the same value', () => {
+    const history = renderHistory('a');
+    history.set('b');
+    history.set('b');
+
+    history.apply(() => history.hook.result.current.undo());
+    expect(history.state()).toBe('a');
+    expect(history.hook.result.current.canUndo).toBe(false);
+  });
+
+  it('keeps at most `limit` past states', () => {
+    const history = renderHistory('0', 2);
+    ['1', '2', '3'].forEach((value) => history.set(value));
+
+    history.apply(() => history.hook.result.current.undo());
+    history.apply(() => history.hook.result.current.undo());
+    expect(history.state()).toBe('1');
+    expect(history.hook.result.current.canUndo).toBe(false);
+  });
+
+  it('starts a new history when the reset key changes', () => {
+    const history = renderHistory('a');
+    history.set('b', 'plan-1');
+
+    expect(history.hook.result.current).toMatchObject({ canUndo: false, canRedo: false });
+  });
+
+  it('handles keyboard shortcuts outside text fields', () => {
+    const history = renderHistory('a');
+    history.set('b');
+
+    history.apply(() => {
+      fireEvent.keyDown(window, { key: 'z', ctrlKey: true });
+    });
+    expect(history.state()).toBe('a');
+
+    history.apply(() => {
+      fireEvent.keyDown(window, { key: 'Z', metaKey: true, shiftKey: true });
+    });
+    expect(history.state()).toBe('b');
+
+    const input = document.createElement('input');
+    document.body.appendChild(input);
+    history.apply(() => {
+      fireEvent.keyDown(input, { key: 'z', ctrlKey: true });
+    });
+    expect(history.state()).toBe('b');
+    input.remove();
+  });
+});
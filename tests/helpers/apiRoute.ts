@@ -0,0 +1,69 @@
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from 'next';
+
+export interface RouteRequest {
+  method?: string;
+  query?: Record<string, string | string[]>;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface RouteResponse<T = unknown> {
+  status: number;
+  headers: Record<string, string>;
+  body: T;
+}
+
+let clientCounter = 0;
+
+/**
+ * Call an API route handler with a minimal request/response pair. Each call comes from
+ * a new client address so tests do not share a rate limit bucket.
+ */
+export async function callRoute<T = unknown>(
+  handler: NextApiHandler,
+  { method = 'GET', query = {}, headers = {}, body }: RouteRequest = {}
+): Promise<RouteResponse<T>> {
+  clientCounter += 1;
+  const result: RouteResponse = { status: 200, headers: {}, body: undefined };
+  let headersSent = false;
+
+  const res = {
+    get headersSent() {
+      return headersSent;
+    },
+    setHeader(name: string, value: string | number | readonly string[]) {
+      result.headers[name.toLowerCase()] = String(value);
+      return res;
+    },
+    getHeader(name: string) {
+      return result.headers[name.toLowerCase()];
+    },
+    status(code: number) {
+      result.status = code;
+      return res;
+    },
+    json(payload: unknown) {
+      headersSent = true;
+      result.body = payload;
+      return res;
+    },
+    end(payload?: string) {
+      headersSent = true;
+      if (payload !== undefined) {
+        result.body = JSON.parse(payload);
+      }
+      return res;
+    }
+  };
+
+  const req = {
+    method,
+    query,
+    body,
+    url: '/api/test',
+    headers: { 'x-forwarded-for': `test-client-${clientCounter}`, ...headers }
+  };
+
+  await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+  return result as RouteResponse<T>;
+}
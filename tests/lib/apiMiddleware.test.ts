@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withApiMiddleware } from '@/lib/apiMiddleware';
+import { callRoute } from '../helpers/apiRoute';
+
+function okRoute(options: Parameters<typeof withApiMiddleware>[1]) {
+  return withApiMiddleware((req: NextApiRequest, res: NextApiResponse) => {
+    res.status(200).json({ ok: true });
+  }, options);
+}
+
+const client = { headers: { 'x-forwarded-for': '203.0.113.10' } };
+
+describe('withApiMiddleware rate limiting', () => {
+  it('counts each route separately for the same client', async () => {
+    const busy = okRoute({ methods: ['GET'], rateLimit: { requests: 2 } });
+    const other = okRoute({ methods: ['GET'], rateLimit: { requests: 2 } });
+
+    const statuses = [];
+    for (let index = 0; index < 3; index += 1) {
+      statuses.push((await callRoute(busy, client)).status);
+    }
+    expect(statuses).toEqual([200, 200, 429]);
+
+    const response = await callRoute(other, client);
+    expect(response.status).toBe(200);
+    expect(response.headers['x-ratelimit-remaining']).toBe('1');
+  });
+
+  it('applies the limits a route sets', async () => {
+    const route = okRoute({ methods: ['GET'], rateLimit: { requests: 1, windowMs: 5000 } });
+
+    await callRoute(route, client);
+    const limited = await callRoute(route, client);
+
+    expect(limited.status).toBe(429);
+    expect(limited.headers['x-ratelimit-limit']).toBe('1');
+    expect(Number(limited.headers['retry-after'])).toBeLessThanOrEqual(5);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { identifyAzureHostname } from '@/lib/azureHostnames';
+
+describe('identifyAzureHostname', () => {
+  it.each([
+    ['contoso.trafficmanager.net', 'Traffic Manager', 'routing'],
+    ['contoso-abc123.z01.azurefd.net', 'Front Door', 'routing'],
+    ['shed.dual-low.s-part-0017.t-0009.t-msedge.net', 'Front Door edge', 'routing'],
+    ['contoso.afd.azureedge.net', 'Front Door edge', 'routing'],
+    ['contoso.azureedge.net', 'Azure CDN', 'cdn'],
+    ['waws-prod-am2-123.sip.azurewebsites.windows.net', 'App Service scale unit', 'compute'],
+    ['waws-prod-db3-001.cloudapp.net', 'App Service scale unit', 'compute'],
+    ['contoso.azurewebsites.net', 'App Service', 'compute'],
+    ['vm1.westeurope.cloudapp.azure.com', 'Public IP DNS label', 'compute'],
+    ['legacy.cloudapp.net', 'Azure cloud service', 'compute'],
+    ['aks-dns-1234.hcp.westeurope.azmk8s.io', 'AKS API server', 'compute'],
+    ['mystorage.blob.core.windows.net', 'Storage (Blob)', 'platform'],
+    ['mystorage.privatelink.blob.core.windows.net', 'Private Link', 'private-link'],
+    ['sql1.database.windows.net', 'Azure SQL', 'platform']
+  ])('identifies %s as %s', (hostname, service, category) => {
+    expect(identifyAzureHostname(hostname)).toMatchObject({ service, category });
+  });
+
+  it('ignores case, surrounding space and the trailing dot', () => {
+    expect(identifyAzureHostname('  Contoso.TrafficManager.NET. ')?.service).toBe('Traffic Manager');
+  });
+
+  it.each(['www.contoso.com', 'trafficmanager.net.contoso.com', 'azurewebsites.net', ''])('returns null for %j', (hostname) => {
+    expect(identifyAzureHostname(hostname)).toBeNull();
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { validateSubnetRoles } from '@/lib/azureSubnetRules';
+
+describe('validateSubnetRoles', () => {
+  it('checks IPv4 role sizes', () => {
+    const violations = validateSubnetRoles([{ id: 'gw', prefix: 30, version: 4 }], { gw: 'GatewaySubnet' }, { gw: 'GatewaySubnet' });
+
+    expect(violations.map((violation) => violation.message)).toEqual(['/30 is too small. Azure rejects gateway subnets smaller than /29.']);
+  });
+
+  it('requires IPv6 subnets of any role to be exactly a /64', () => {
+    const leaves = [
+      { id: 'gw', prefix: 64, version: 6 as const },
+      { id: 'aks', prefix: 56, version: 6 as const },
+      { id: 'small', prefix: 80, version: 6 as const }
+    ];
+    const violations = validateSubnetRoles(leaves, { gw: 'GatewaySubnet', aks: 'AksNodePool', small: 'AksNodePool' }, { gw: 'GatewaySubnet' });
+
+    expect(violations.map((violation) => `${violation.leafId}: ${violation.message}`)).toEqual([
+      'aks: /56 is the wrong size. Azure IPv6 subnets must be a /64.',
+      'small: /80 is the wrong size. Azure IPv6 subnets must be a /64.'
+    ]);
+  });
+});
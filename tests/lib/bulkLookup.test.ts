@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { extractIpInputs } from '@/lib/bulkLookup';
+
+describe('extractIpInputs', () => {
+  it('reads one address or range per line', () => {
+    expect(extractIpInputs('20.38.98.100\n10.0.0.0/8\r\n2603:1020:200::/46\n')).toEqual(['20.38.98.100', '10.0.0.0/8', '2603:1020:200::/46']);
+  });
+
+  it('reads CSV rows and skips the other columns', () => {
+    const csv = 'name,address,port\n"web-01","20.38.98.100",443\napp;10.1.2.3;8080';
+
+    expect(extractIpInputs(csv)).toEqual(['20.38.98.100', '10.1.2.3']);
+  });
+
+  it('reads addresses out of firewall log lines', () => {
+    const log = [
+      '2024-05-01T10:00:00Z DENY TCP src=203.0.113.7:51234 dst=20.38.98.100:443 (rule=block-all)',
+      'Connection from 2603:1020:200::1 refused.',
+      'Peer [2001:db8::5]:8443 closed: 10.0.0.1: reset'
+    ].join('\n');
+
+    expect(extractIpInputs(log)).toEqual(['203.0.113.7', '20.38.98.100', '2603:1020:200::1', '2001:db8::5', '10.0.0.1']);
+  });
+
+  it('drops duplicates case-insensitively and keeps the first spelling', () => {
+    expect(extractIpInputs('2603:1020:200::1 10.0.0.1 2603:1020:200::1\n10.0.0.1')).toEqual(['2603:1020:200::1', '10.0.0.1']);
+    expect(extractIpInputs('fd00::A fd00::a')).toEqual(['fd00::A']);
+  });
+
+  it('ignores numbers, versions, dates and invalid addresses', () => {
+    expect(extractIpInputs('v1.2.3 1.2.3 2024-05-01 10:00:00 256.1.1.1 10.0.0.1/33 :: deadbeef 12345')).toEqual([]);
+  });
+});
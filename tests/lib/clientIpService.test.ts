@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseCloudName } from '@/lib/azureClouds';
+import { prepareDataForExport } from '@/lib/exportUtils';
+import { AzureCloudName } from '@/types/azure';
+import type { AzureServiceTagsRoot } from '@/types/azure';
+
+function serviceTags(cloud: AzureCloudName, tags: Record<string, string[]>): AzureServiceTagsRoot {
+  return {
+    changeNumber: 1,
+    cloud,
+    values: Object.keys(tags).map((name) => ({
+      name,
+      id: name,
+      properties: {
+        changeNumber: 1,
+        region: name.includes('.') ? name.split('.')[1].toLowerCase() : '',
+        regionId: '0',
+        platform: 'Azure',
+        systemService: name.split('.')[0],
+        addressPrefixes: tags[name],
+        networkFeatures: ['API', 'NSG']
+      }
+    }))
+  };
+}
+
+// 20.38.98.0/24 is published in two clouds, so all-cloud lookups must return both
+const FILES: Record<string, AzureServiceTagsRoot> = {
+  '/data/AzureCloud.json': serviceTags(AzureCloudName.AzureCloud, {
+    AzureCloud: ['20.38.0.0/16'],
+    'Storage.WestEurope': ['20.38.98.0/24', '20.38.99.0/25']
+  }),
+  '/data/AzureUSGovernment.json': serviceTags(AzureCloudName.AzureUSGovernment, {
+    'AzureCloud.usgovvirginia': ['20.38.98.0/24', '52.127.0.0/16']
+  }),
+  '/data/AzureChinaCloud.json': serviceTags(AzureCloudName.AzureChinaCloud, {
+    'AzureCloud.chinaeast2': ['40.72.0.0/15']
+  })
+};
+
+let fetchMock: ReturnType<typeof vi.fn>;
+
+// clientIpService caches each cloud's file for the lifetime of the module
+async function loadService() {
+  vi.resetModules();
+  return import('@/lib/clientIpService');
+}
+
+beforeEach(() => {
+  fetchMock = vi.fn(async (url: string) =>
+    FILES[url] ? new Response(JSON.stringify(FILES[url]), { status: 200 }) : new Response('Not found', { status: 404, statusText: 'Not Found' })
+  );
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('parseCloudName', () => {
+  it('accepts cloud names in any case and treats anything else as all clouds', () => {
+    expect(parseCloudName('azureusgovernment')).toBe(AzureCloudName.AzureUSGovernment);
+    expect(parseCloudName(['AzureChinaCloud', 'AzureCloud'])).toBe(AzureCloudName.AzureChinaCloud);
+    expect(parseCloudName('AzureGermanCloud')).toBeUndefined();
+    expect(parseCloudName('')).toBeUndefined();
+    expect(parseCloudName(null)).toBeUndefined();
+  });
+});
+
+describe('checkIpAddress across clouds', () => {
+  it('searches every cloud when none is given', async () => {
+    const { checkIpAddress } = await loadService();
+    const matches = await checkIpAddress('20.38.98.10');
+
+    expect(fetchMock.mock.calls.map(([url]) => url).sort()).toEqual(Object.keys(FILES).sort());
+    expect(matches.map((match) => `${match.cloud} ${match.serviceTagId} ${match.ipAddressPrefix}`).sort()).toEqual([
+      'AzureCloud AzureCloud 20.38.0.0/16',
+      'AzureCloud Storage.WestEurope 20.38.98.0/24',
+      'AzureUSGovernment AzureCloud.usgovvirginia 20.38.98.0/24'
+    ]);
+  });
+
+  it('loads only the requested cloud', async () => {
+    const { checkIpAddress } = await loadService();
+    const matches = await checkIpAddress('40.73.1.1', AzureCloudName.AzureChinaCloud);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith('/data/AzureChinaCloud.json');
+    expect(matches).toMatchObject([{ serviceTagId: 'AzureCloud.chinaeast2', cloud: AzureCloudName.AzureChinaCloud }]);
+  });
+
+  it('reuses loaded files', async () => {
+    const { checkIpAddress } = await loadService();
+    await checkIpAddress('20.38.98.10');
+    await checkIpAddress('52.127.1.1');
+
+    expect(fetchMock).toHaveBeenCalledTimes(Object.keys(FILES).length);
+  });
+
+  it('names the cloud whose file failed to load', async () => {
+    fetchMock.mockImplementation(async (url: string) =>
+      url.includes('AzureUSGovernment')
+        ? new Response('Not found', { status: 404, statusText: 'Not Found' })
+        : new Response(JSON.stringify(FILES[url]), { status: 200 })
+    );
+    const { checkIpAddress } = await loadService();
+
+    await expect(checkIpAddress('20.38.98.10')).rejects.toThrow('Failed to load Azure IP data: Failed to load AzureUSGovernment IP data: Not Found');
+  });
+});
+
+describe('findOverlappingRanges', () => {
+  it('labels each overlapping prefix and counts the shared addresses', async () => {
+    const { findOverlappingRanges } = await loadService();
+    const overlaps = await findOverlappingRanges('20.38.98.0/23', AzureCloudName.AzureCloud);
+
+    expect(overlaps.map((overlap) => [overlap.ipAddressPrefix, overlap.relationship, overlap.overlapAddressCount, overlap.isMostSpecific])).toEqual([
+      ['20.38.0.0/16', 'contains', 512, true],
+      ['20.38.98.0/24', 'within', 256, undefined],
+      ['20.38.99.0/25', 'within', 128, undefined]
+    ]);
+  });
+
+  it('flags the most specific prefixes containing the range in every cloud', async () => {
+    const { checkIpAddress } = await loadService();
+    // CIDR queries to checkIpAddress are answered as range overlaps
+    const overlaps = await checkIpAddress('20.38.98.0/24');
+
+    expect(overlaps.map((overlap) => `${overlap.cloud} ${overlap.ipAddressPrefix} ${overlap.relationship} ${overlap.isMostSpecific}`).sort()).toEqual([
+      'AzureCloud 20.38.0.0/16 contains false',
+      'AzureCloud 20.38.98.0/24 equal true',
+      'AzureUSGovernment 20.38.98.0/24 equal true'
+    ]);
+  });
+
+  it('returns nothing for ranges outside Azure', async () => {
+    const { findOverlappingRanges } = await loadService();
+
+    expect(await findOverlappingRanges('192.168.0.0/16')).toEqual([]);
+  });
+
+  it('adds the overlap columns to exports of range queries only', async () => {
+    const { checkIpAddress, findOverlappingRanges } = await loadService();
+    const [range] = prepareDataForExport(await findOverlappingRanges('20.38.99.0/24', AzureCloudName.AzureCloud));
+    const [address] = prepareDataForExport(await checkIpAddress('52.127.0.1'));
+
+    expect(range).toMatchObject({ Overlap: 'contains', 'Shared Addresses': 256 });
+    expect(address).not.toHaveProperty('Overlap');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { createFixtureResolver, decodeDnsAnswers, encodeDnsQuery, reverseDnsName } from '@/lib/dnsResolvers';
+import { parseIpPrefix } from '@/lib/ipPrefixIndex';
+
+// Query for www.x.com A: 12-byte header, then the question at offset 12
+const QUERY_HEX = '00000100000100000000000003777777017803636f6d0000010001';
+
+/**
+ * Response to the query above: the question plus the given answer records
+ */
+function buildResponse(answers: number[][], rcode = 0): Uint8Array {
+  const message = Array.from(encodeDnsQuery('www.x.com', 'A'));
+  message[2] = 0x81;
+  message[3] = 0x80 | rcode;
+  message[7] = answers.length;
+  answers.forEach((answer) => message.push(...answer));
+  return Uint8Array.from(message);
+}
+
+// www.x.com CNAME abc.x.com, with the owner and the target's suffix as compression pointers
+const CNAME_ANSWER = [0xc0, 12, 0, 5, 0, 1, 0, 0, 0, 60, 0, 6, 3, 0x61, 0x62, 0x63, 0xc0, 16];
+// abc.x.com A 1.2.3.4, pointing at the name inside the CNAME record (offset 39)
+const A_ANSWER = [0xc0, 39, 0, 1, 0, 1, 0, 0, 1, 0, 0, 4, 1, 2, 3, 4];
+
+describe('encodeDnsQuery', () => {
+  it('encodes the question with recursion desired and ID 0', () => {
+    expect(Buffer.from(encodeDnsQuery('www.x.com.', 'A')).toString('hex')).toBe(QUERY_HEX);
+  });
+
+  it('uses the record type code of the query', () => {
+    const query = encodeDnsQuery('7.15.61.20.in-addr.arpa', 'PTR');
+    expect(Array.from(query.slice(-4))).toEqual([0, 12, 0, 1]);
+  });
+});
+
+describe('decodeDnsAnswers', () => {
+  const response = buildResponse([CNAME_ANSWER, A_ANSWER]);
+
+  it('follows compression pointers in owner names and record data', () => {
+    expect(decodeDnsAnswers(response, 'CNAME')).toEqual([{ value: 'abc.x.com', ttl: 60 }]);
+  });
+
+  it('returns only answers of the requested type', () => {
+    expect(decodeDnsAnswers(response, 'A')).toEqual([{ value: '1.2.3.4', ttl: 256 }]);
+    expect(decodeDnsAnswers(response, 'AAAA')).toEqual([]);
+  });
+
+  it('treats NXDOMAIN as no answers and throws on other errors', () => {
+    expect(decodeDnsAnswers(buildResponse([], 3), 'A')).toEqual([]);
+    expect(() => decodeDnsAnswers(buildResponse([], 2), 'A')).toThrow('response code 2');
+  });
+
+  it('rejects truncated messages', () => {
+    expect(() => decodeDnsAnswers(response.subarray(0, 6), 'A')).toThrow('Truncated DNS message');
+    expect(() => decodeDnsAnswers(response.subarray(0, 20), 'A')).toThrow('Truncated DNS message');
+    expect(() => decodeDnsAnswers(response.subarray(0, response.length - 2), 'A')).toThrow('Truncated DNS message');
+  });
+
+  it('rejects compression pointers that do not point backwards', () => {
+    const looping = buildResponse([[0xc0, 27]]);
+    expect(() => decodeDnsAnswers(looping, 'A')).toThrow('Invalid DNS name compression pointer');
+  });
+});
+
+describe('createFixtureResolver', () => {
+  const resolver = createFixtureResolver({
+    'a.example.com': { CNAME: 'b.example.com.' },
+    'b.example.com': { A: ['192.0.2.1'], AAAA: ['2001:db8::1'], ttl: 30 },
+    'loop.example.com': { CNAME: 'loop.example.com' }
+  });
+
+  it('follows CNAMEs for address queries, ignoring case and trailing dots', async () => {
+    expect(await resolver.resolve('A.Example.com.', 'A')).toEqual([{ value: '192.0.2.1', ttl: 30 }]);
+    expect(await resolver.resolve('a.example.com', 'CNAME')).toEqual([{ value: 'b.example.com.', ttl: 300 }]);
+  });
+
+  it('answers missing names and CNAME loops with no records', async () => {
+    expect(await resolver.resolve('missing.example.com', 'A')).toEqual([]);
+    expect(await resolver.resolve('loop.example.com', 'A')).toEqual([]);
+  });
+});
+
+describe('reverseDnsName', () => {
+  it('builds in-addr.arpa and ip6.arpa names', () => {
+    expect(reverseDnsName(parseIpPrefix('20.61.15.7')!)).toBe('7.15.61.20.in-addr.arpa');
+    expect(reverseDnsName(parseIpPrefix('2001:db8::1')!)).toBe(
+      '1.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.8.b.d.0.1.0.0.2.ip6.arpa'
+    );
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import { formatIpPrefix, IpPrefixIndex, maskBytes, parseIpPrefix } from '@/lib/ipPrefixIndex';
+import type { ParsedPrefix } from '@/lib/ipPrefixIndex';
+
+// Nested, adjacent, duplicate and catch-all prefixes in both families
+const FIXTURE = [
+  '0.0.0.0/0',
+  '20.0.0.0/8',
+  '20.38.0.0/16',
+  '20.38.96.0/19',
+  '20.38.98.0/24',
+  '20.38.98.0/24',
+  '20.38.99.0/24',
+  '20.38.98.100/32',
+  '40.64.0.0/10',
+  '52.0.0.0/8',
+  '2603:1000::/24',
+  '2603:1020::/32',
+  '2603:1020:200::/46',
+  '2603:1020:206::/48',
+  '2a01:111:f100::/48'
+];
+
+const QUERIES = [
+  '20.38.98.100',
+  '20.38.98.101',
+  '20.38.99.1',
+  '20.39.0.0',
+  '9.9.9.9',
+  '20.38.0.0/16',
+  '20.38.96.0/20',
+  '20.0.0.0/7',
+  '0.0.0.0/0',
+  '40.127.255.255',
+  '2603:1020:206::1',
+  '2603:1020:200::/40',
+  '2603:1000::/16',
+  '2a01:111:f100:1::/64',
+  '::/0',
+  'fe80::1'
+];
+
+function parse(prefix: string): ParsedPrefix {
+  const parsed = parseIpPrefix(prefix);
+  if (!parsed) throw new Error(`Invalid fixture prefix ${prefix}`);
+  return parsed;
+}
+
+function contains(outer: ParsedPrefix, inner: ParsedPrefix): boolean {
+  return (
+    outer.family === inner.family &&
+    outer.prefixLength <= inner.prefixLength &&
+    formatIpPrefix({ ...inner, bytes: maskBytes(inner.bytes, outer.prefixLength), prefixLength: outer.prefixLength }) ===
+      formatIpPrefix(outer)
+  );
+}
+
+// Reference results from testing every fixture prefix, as the index replaced
+function linearLookup(query: string): string[] {
+  const target = parse(query);
+  return FIXTURE.map((prefix, index) => ({ prefix, index }))
+    .filter(({ prefix }) => contains(parse(prefix), target))
+    .map(({ prefix, index }) => `${index} ${prefix}`)
+    .sort();
+}
+
+function linearOverlaps(query: string): string[] {
+  const target = parse(query);
+  return FIXTURE.map((prefix, index) => ({ prefix, index, parsed: parse(prefix) }))
+    .map(({ prefix, index, parsed }) => {
+      if (contains(parsed, target)) {
+        return `${index} ${prefix} ${parsed.prefixLength === target.prefixLength ? 'equal' : 'contains'}`;
+      }
+      return contains(target, parsed) ? `${index} ${prefix} within` : null;
+    })
+    .filter((line): line is string => line !== null)
+    .sort();
+}
+
+function buildIndex(): IpPrefixIndex<number> {
+  const index = new IpPrefixIndex<number>();
+  FIXTURE.forEach((prefix, position) => index.insert(prefix, position));
+  return index;
+}
+
+describe('parseIpPrefix and formatIpPrefix', () => {
+  it.each([
+    ['20.38.98.100', '20.38.98.100/32'],
+    ['20.38.98.100/24', '20.38.98.0/24'],
+    ['0.0.0.0/0', '0.0.0.0/0'],
+    ['::', '::/128'],
+    ['::/0', '::/0'],
+    ['::1', '::1/128'],
+    ['2603:1020:0200:0000:0000:0000:0000:0001/128', '2603:1020:200::1/128'],
+    ['2603:1020:206::ff/48', '2603:1020:206::/48'],
+    ['2001:db8:0:0:1:0:0:1', '2001:db8::1:0:0:1/128'],
+    ['2001:0:0:1::', '2001:0:0:1::/128'],
+    ['1:0:2:3:4:5:6:7', '1:0:2:3:4:5:6:7/128'],
+    ['::ffff:20.38.98.100', '20.38.98.100/32'],
+    ['::ffff:20.38.98.100/24', '20.38.98.0/24']
+  ])('parses %s as %s', (input, expected) => {
+    expect(formatIpPrefix(parse(input))).toBe(expected);
+  });
+
+  it.each([
+    '',
+    '256.0.0.1',
+    '1.2.3',
+    '1.2.3.4/33',
+    '1.2.3.4/-1',
+    '1.2.3.4/8/8',
+    '2603::1::2',
+    '1:2:3:4:5:6:7:8:9',
+    '1:2:3:4:5:6:7',
+    '12345::',
+    '::/129',
+    'contoso.com'
+  ])('rejects %j', (input) => {
+    expect(parseIpPrefix(input)).toBeNull();
+  });
+});
+
+describe('IpPrefixIndex', () => {
+  const index = buildIndex();
+
+  it('counts every inserted value and skips invalid prefixes', () => {
+    const other = new IpPrefixIndex<string>();
+    expect(other.insert('20.38.0.0/16', 'a')).toBe(true);
+    expect(other.insert('not-a-prefix', 'b')).toBe(false);
+    expect(other.size).toBe(1);
+    expect(index.size).toBe(FIXTURE.length);
+  });
+
+  it.each(QUERIES)('lookup(%s) matches a linear scan', (query) => {
+    const matches = index.lookup(query);
+
+    expect(matches.map((match) => `${match.value} ${FIXTURE[match.value]}`).sort()).toEqual(linearLookup(query));
+    // Least specific first
+    const lengths = matches.map((match) => match.prefixLength);
+    expect(lengths).toEqual(lengths.slice().sort((a, b) => a - b));
+  });
+
+  it.each(QUERIES)('findOverlapping(%s) matches a linear scan', (query) => {
+    const overlaps = index.findOverlapping(query);
+
+    expect(overlaps.map((overlap) => `${overlap.value} ${FIXTURE[overlap.value]} ${overlap.relationship}`).sort()).toEqual(
+      linearOverlaps(query)
+    );
+  });
+
+  it('returns the most specific prefix last and keeps duplicates', () => {
+    const matches = index.lookup('20.38.98.100');
+
+    expect(matches[matches.length - 1]).toEqual({ value: 7, prefixLength: 32 });
+    expect(matches.filter((match) => match.prefixLength === 24).map((match) => match.value)).toEqual([4, 5]);
+  });
+
+  it('counts the addresses shared with the queried range', () => {
+    const overlaps = index.findOverlapping('20.38.96.0/20');
+
+    expect(overlaps.find((overlap) => overlap.value === 2)).toMatchObject({ relationship: 'contains', addressCount: 4096 });
+    expect(overlaps.find((overlap) => overlap.value === 4)).toMatchObject({ relationship: 'within', addressCount: 256 });
+  });
+
+  it('returns nothing for invalid queries', () => {
+    expect(index.lookup('nope')).toEqual([]);
+    expect(index.findOverlapping('1.2.3.4/40')).toEqual([]);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { aggregatePrefixes, summarizePrefixes } from '@/lib/prefixAggregation';
+
+// Every other /24, so exact aggregation cannot merge any of them
+function ipv4Prefixes(count: number): string[] {
+  return Array.from({ length: count }, (_, index) => `10.${index >> 7}.${(index & 127) * 2}.0/24`);
+}
+
+function ipv6Prefixes(count: number): string[] {
+  return Array.from({ length: count }, (_, index) => `2603:1000:${(index * 2).toString(16)}::/48`);
+}
+
+function familyCounts(prefixes: string[]) {
+  const ipv6 = prefixes.filter((prefix) => prefix.includes(':')).length;
+  return { ipv4: prefixes.length - ipv6, ipv6 };
+}
+
+describe('aggregatePrefixes', () => {
+  it('removes nested prefixes and merges adjacent siblings', () => {
+    expect(aggregatePrefixes(['20.38.0.0/24', '20.38.1.0/24', '20.38.0.128/25', '2603:1000::/48']).prefixes).toEqual([
+      '20.38.0.0/23',
+      '2603:1000::/48'
+    ]);
+  });
+});
+
+describe('summarizePrefixes', () => {
+  it('caps the total across both address families', () => {
+    const result = summarizePrefixes(ipv4Prefixes(150).concat(ipv6Prefixes(150)), 100);
+
+    const counts = familyCounts(result.prefixes);
+    expect(result.prefixes.length).toBeLessThanOrEqual(100);
+    expect(counts.ipv4).toBeLessThanOrEqual(50);
+    expect(counts.ipv6).toBeLessThanOrEqual(50);
+    expect(result.extraAddresses.ipv4).toBeGreaterThan(0);
+  });
+
+  it('gives the budget a small family cannot use to the other', () => {
+    const result = summarizePrefixes(ipv4Prefixes(300).concat(ipv6Prefixes(3)), 100);
+
+    const counts = familyCounts(result.prefixes);
+    expect(counts.ipv6).toBe(3);
+    expect(counts.ipv4).toBeGreaterThan(50);
+    expect(counts.ipv4).toBeLessThanOrEqual(97);
+    expect(result.extraAddresses.ipv6).toBe(0);
+  });
+
+  it('keeps one prefix per family when the limit is lower', () => {
+    const result = summarizePrefixes(ipv4Prefixes(10).concat(ipv6Prefixes(10)), 1);
+
+    expect(familyCounts(result.prefixes)).toEqual({ ipv4: 1, ipv6: 1 });
+  });
+
+  it('returns the exact aggregation when it already fits', () => {
+    const prefixes = ipv4Prefixes(20).concat(ipv6Prefixes(5));
+    const result = summarizePrefixes(prefixes, 100);
+
+    expect(result.prefixes).toEqual(aggregatePrefixes(prefixes).prefixes);
+    expect(result.extraAddresses).toEqual({ ipv4: 0, ipv6: 0 });
+  });
+});
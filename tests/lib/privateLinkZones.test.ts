@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { assessPrivateLink, findPrivateLinkZone, isPrivateAddress, PRIVATE_LINK_ZONES } from '@/lib/privateLinkZones';
+import type { DnsChainRecord } from '@/types/api';
+import { AzureCloudName } from '@/types/azure';
+
+function cname(name: string, value: string): DnsChainRecord {
+  return { name, type: 'CNAME', value };
+}
+
+function a(name: string, value: string): DnsChainRecord {
+  return { name, type: 'A', value };
+}
+
+describe('findPrivateLinkZone', () => {
+  it.each([
+    ['mystorage.blob.core.windows.net', 'Storage account (Blob)', AzureCloudName.AzureCloud, 'privatelink.blob.core.windows.net', 'mystorage'],
+    ['MyStorage.privatelink.blob.core.windows.net.', 'Storage account (Blob)', AzureCloudName.AzureCloud, 'privatelink.blob.core.windows.net', 'mystorage'],
+    ['kv-prod.vault.azure.net', 'Key Vault', AzureCloudName.AzureCloud, 'privatelink.vaultcore.azure.net', 'kv-prod'],
+    ['kv-prod.privatelink.vaultcore.azure.net', 'Key Vault', AzureCloudName.AzureCloud, 'privatelink.vaultcore.azure.net', 'kv-prod'],
+    ['sql1.database.usgovcloudapi.net', 'Azure SQL Database', AzureCloudName.AzureUSGovernment, 'privatelink.database.usgovcloudapi.net', 'sql1'],
+    ['acct.blob.core.chinacloudapi.cn', 'Storage account (Blob)', AzureCloudName.AzureChinaCloud, 'privatelink.blob.core.chinacloudapi.cn', 'acct']
+  ])('matches %s', (hostname, label, cloud, privateZone, recordName) => {
+    const match = findPrivateLinkZone(hostname);
+
+    expect(match && { label: match.zone.label, cloud: match.cloud, privateZone: match.names.privateZone, recordName: match.recordName }).toEqual({
+      label,
+      cloud,
+      privateZone,
+      recordName
+    });
+  });
+
+  it.each(['blob.core.windows.net', 'www.contoso.com', 'mystorage.blob.core.windows.net.evil.com'])('does not match %s', (hostname) => {
+    expect(findPrivateLinkZone(hostname)).toBeNull();
+  });
+
+  it('lists a public suffix and private zone for every catalogued cloud', () => {
+    PRIVATE_LINK_ZONES.forEach((zone) => {
+      Object.values(zone.zones).forEach((names) => {
+        expect(names!.privateZone.startsWith('privatelink.'), zone.label).toBe(true);
+        expect(findPrivateLinkZone(`name.${names!.publicSuffix}`), zone.label).not.toBeNull();
+      });
+    });
+  });
+});
+
+describe('isPrivateAddress', () => {
+  it.each(['10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.0.1', '100.64.0.1', 'fd00::1', 'fc00::'])('treats %s as private', (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['20.38.98.100', '172.32.0.1', '192.169.0.1', '100.128.0.1', '2603:1020::1', 'fe80::1', 'not-an-ip'])('treats %s as public', (address) => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
+
+describe('assessPrivateLink', () => {
+  it('reports a private endpoint answered with its private address', () => {
+    const chain = [
+      cname('mystorage.blob.core.windows.net', 'mystorage.privatelink.blob.core.windows.net.'),
+      a('mystorage.privatelink.blob.core.windows.net', '10.0.1.4')
+    ];
+
+    expect(assessPrivateLink('mystorage.blob.core.windows.net', chain)).toEqual({
+      resource: 'Storage account (Blob)',
+      resourceType: 'Microsoft.Storage/storageAccounts',
+      subresource: 'blob',
+      cloud: AzureCloudName.AzureCloud,
+      privateZone: 'privatelink.blob.core.windows.net',
+      recordName: 'mystorage',
+      privateLinkCname: 'mystorage.privatelink.blob.core.windows.net',
+      answer: 'private'
+    });
+  });
+
+  it('reports the public answer when the private zone is not linked', () => {
+    const chain = [
+      cname('mystorage.blob.core.windows.net', 'mystorage.privatelink.blob.core.windows.net'),
+      cname('mystorage.privatelink.blob.core.windows.net', 'blob.ams07prdstr02a.store.core.windows.net'),
+      a('blob.ams07prdstr02a.store.core.windows.net', '20.60.222.4')
+    ];
+
+    expect(assessPrivateLink('mystorage.blob.core.windows.net', chain)).toMatchObject({
+      privateLinkCname: 'mystorage.privatelink.blob.core.windows.net',
+      answer: 'public'
+    });
+  });
+
+  it('follows custom domains to the first Azure name and reports missing answers', () => {
+    const assessment = assessPrivateLink('files.contoso.com', [cname('files.contoso.com', 'contoso.blob.core.windows.net')]);
+
+    expect(assessment).toMatchObject({ recordName: 'contoso', privateLinkCname: undefined, answer: 'none' });
+  });
+
+  it('returns null for names without Private Link support', () => {
+    expect(assessPrivateLink('www.contoso.com', [a('www.contoso.com', '20.38.98.100')])).toBeNull();
+  });
+});
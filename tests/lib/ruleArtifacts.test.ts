@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { generateRuleArtifact, NSG_RULE_PREFIX_LIMIT } from '@/lib/ruleArtifacts';
+import { AzureCloudName } from '@/types/azure';
+import type { AzureIpAddress } from '@/types/azure';
+
+function entry(ipAddressPrefix: string, serviceTagId = 'Storage.WestEurope'): AzureIpAddress {
+  return {
+    serviceTagId,
+    ipAddressPrefix,
+    region: 'westeurope',
+    regionId: '18',
+    systemService: 'AzureStorage',
+    networkFeatures: 'NSG',
+    cloud: AzureCloudName.AzureCloud
+  };
+}
+
+// Every other /32, so no two prefixes can be merged into a shorter one
+function unmergeablePrefixes(count: number): AzureIpAddress[] {
+  return Array.from({ length: count }, (_, index) => entry(`10.${index >> 14}.${(index >> 7) & 127}.${(index & 127) * 2}/32`));
+}
+
+interface ArmTemplate {
+  parameters: Record<string, { type: string; minLength?: number }>;
+  resources: Array<{ name: string; properties: { priority: number; destinationAddressPrefixes: string[] } }>;
+}
+
+describe('generateRuleArtifact', () => {
+  it('aggregates nested and adjacent prefixes before writing rules', () => {
+    const template: ArmTemplate = JSON.parse(generateRuleArtifact('nsg-arm', [
+      entry('20.38.0.0/16', 'AzureCloud'),
+      entry('20.38.98.0/24'),
+      entry('20.39.0.0/16', 'AzureCloud')
+    ], 'storage'));
+
+    expect(Object.keys(template.parameters)).toEqual(['nsgName']);
+    expect(template.resources).toHaveLength(1);
+    expect(template.resources[0].name).toBe("[format('{0}/{1}', parameters('nsgName'), 'Allow-storage-IPv4')]");
+  });
+
+  it(`spreads more than ${NSG_RULE_PREFIX_LIMIT} prefixes across several NSGs`, () => {
+    const results = unmergeablePrefixes(NSG_RULE_PREFIX_LIMIT + 500).concat(entry('2603:1020:200::/46'));
+    const template: ArmTemplate = JSON.parse(generateRuleArtifact('nsg-arm', results, 'storage'));
+
+    expect(template.parameters.nsgNames).toMatchObject({ type: 'array', minLength: 2 });
+    expect(template.resources.map((resource) => resource.name)).toEqual([
+      "[format('{0}/{1}', parameters('nsgNames')[0], 'Allow-storage-IPv4-1')]",
+      "[format('{0}/{1}', parameters('nsgNames')[1], 'Allow-storage-IPv4-2')]",
+      "[format('{0}/{1}', parameters('nsgNames')[1], 'Allow-storage-IPv6')]"
+    ]);
+    expect(template.resources.map((resource) => resource.properties.destinationAddressPrefixes.length)).toEqual([
+      NSG_RULE_PREFIX_LIMIT,
+      500,
+      1
+    ]);
+    // Priorities restart in each NSG
+    expect(template.resources.map((resource) => resource.properties.priority)).toEqual([100, 100, 110]);
+  });
+
+  it('declares one existing NSG per Bicep parent', () => {
+    const bicep = generateRuleArtifact('nsg-bicep', unmergeablePrefixes(NSG_RULE_PREFIX_LIMIT + 1), 'storage');
+
+    expect(bicep).toContain('@minLength(2)\nparam nsgNames string[]');
+    expect(bicep).toContain('resource nsg2 \'Microsoft.Network/networkSecurityGroups@2023-09-01\' existing = {\n  name: nsgNames[1]\n}');
+    expect(bicep).toContain('  parent: nsg2');
+  });
+
+  it('writes nftables interval sets that merge overlapping elements', () => {
+    const nft = generateRuleArtifact('nftables', [entry('20.38.0.0/16'), entry('20.38.98.0/24')], 'storage');
+
+    expect(nft).toContain('    flags interval\n    auto-merge\n');
+    expect(nft).toContain('      20.38.0.0/16\n');
+    expect(nft).not.toContain('20.38.98.0/24');
+  });
+});
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildServiceTagHistories, getServiceTagHistory, serviceTagHistoryFilename } from '@/lib/serviceTagHistory';
+import { AzureCloudName } from '@/types/azure';
+import type { AzureServiceTagDiff } from '@/types/azure';
+
+function diff(cloud: AzureCloudName, toChangeNumber: number, toDate: string, changes: AzureServiceTagDiff['changes']): AzureServiceTagDiff {
+  return {
+    cloud,
+    fromChangeNumber: toChangeNumber - 1,
+    toChangeNumber,
+    fromDate: '2024-01-01',
+    toDate,
+    tagsAdded: [],
+    tagsRemoved: [],
+    changes
+  };
+}
+
+const DIFFS = [
+  diff(AzureCloudName.AzureCloud, 10, '2024-02-01', [
+    { name: 'Storage.WestEurope', previousChangeNumber: 1, changeNumber: 2, prefixesAdded: ['20.38.0.0/24', '2603:1020::/64'], prefixesRemoved: [] },
+    { name: 'Sql', previousChangeNumber: 5, changeNumber: 6, prefixesAdded: [], prefixesRemoved: [] }
+  ]),
+  diff(AzureCloudName.AzureCloud, 11, '2024-03-01', [
+    { name: 'Storage.WestEurope', previousChangeNumber: 2, changeNumber: 3, prefixesAdded: [], prefixesRemoved: ['20.38.0.0/25'] }
+  ]),
+  diff(AzureCloudName.AzureChinaCloud, 4, '2024-02-15', [
+    { name: 'storage.westeurope', previousChangeNumber: null, changeNumber: 1, prefixesAdded: ['40.0.0.0/30'], prefixesRemoved: [] }
+  ])
+];
+
+describe('buildServiceTagHistories', () => {
+  it('groups changes per tag, case-insensitively and newest first', () => {
+    const histories = buildServiceTagHistories(DIFFS);
+
+    expect(Array.from(histories.keys()).sort()).toEqual(['tags/sql.json', 'tags/storage.westeurope.json']);
+    expect(histories.get('tags/storage.westeurope.json')!.map((entry) => [entry.cloud, entry.date, entry.ipv4AddressDelta, entry.ipv6AddressDelta])).toEqual([
+      [AzureCloudName.AzureCloud, '2024-03-01', -128, 0],
+      [AzureCloudName.AzureChinaCloud, '2024-02-15', 4, 0],
+      [AzureCloudName.AzureCloud, '2024-02-01', 256, Math.pow(2, 64)]
+    ]);
+  });
+});
+
+describe('getServiceTagHistory', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('loads only the requested tag history and filters it by cloud', async () => {
+    const entries = buildServiceTagHistories(DIFFS).get(serviceTagHistoryFilename('Storage.WestEurope'));
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify(entries), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const history = await getServiceTagHistory('STORAGE.WestEurope', AzureCloudName.AzureCloud);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith('/data/diffs/tags/storage.westeurope.json');
+    expect(history.map((entry) => entry.toChangeNumber)).toEqual([11, 10]);
+  });
+
+  it('treats a missing history file as a tag without changes', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('Not found', { status: 404 })));
+
+    expect(await getServiceTagHistory('AzureFrontDoor.Frontend')).toEqual([]);
+  });
+});
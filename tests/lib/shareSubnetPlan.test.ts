@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildShareableSubnetPlan,
+  parseSharedSubnetPlan,
+  serialiseCompactSubnetPlan,
+  serialiseShareableSubnetPlan
+} from '@/lib/shareSubnetPlan';
+import type { ShareableSubnetPlan } from '@/lib/shareSubnetPlan';
+import { parseIpAddress } from '@/lib/subnetCalculator';
+import type { IpVersion, LeafSubnet } from '@/lib/subnetCalculator';
+import { createWorkloadProfile } from '@/lib/workloadCapacity';
+
+function address(value: string): bigint {
+  return parseIpAddress(value)!.value;
+}
+
+function leaf(network: string, prefix: number): LeafSubnet {
+  const version: IpVersion = network.includes(':') ? 6 : 4;
+  return { id: `${network}/${prefix}`, network: address(network), prefix, version, depth: 0 };
+}
+
+function plan(base: string, basePrefix: number, leaves: LeafSubnet[], extras: Partial<Parameters<typeof buildShareableSubnetPlan>[0]> = {}) {
+  const version: IpVersion = base.includes(':') ? 6 : 4;
+  return buildShareableSubnetPlan({
+    baseNetwork: address(base),
+    basePrefix,
+    version,
+    useAzureReservations: false,
+    leaves,
+    rowColors: {},
+    rowComments: {},
+    ...extras
+  });
+}
+
+// Blocks of every size from /from up to /to - 1, starting at `start`: what is left of
+// a /to network after repeatedly splitting its first half
+function deepSplit(start: string, from: number, to: number): LeafSubnet[] {
+  const totalBits = start.includes(':') ? 128 : 32;
+  const leaves: LeafSubnet[] = [];
+  let network = address(start);
+  for (let prefix = from; prefix > to; prefix -= 1) {
+    leaves.push({ id: `${prefix}`, network, prefix, version: totalBits === 128 ? 6 : 4, depth: 0 });
+    network += BigInt(1) << BigInt(totalBits - prefix);
+  }
+  return leaves;
+}
+
+async function roundTrip(original: ShareableSubnetPlan): Promise<string> {
+  const encoded = await serialiseCompactSubnetPlan(original);
+  expect(encoded).not.toBeNull();
+  expect(encoded!.startsWith('2.')).toBe(true);
+  expect(await parseSharedSubnetPlan(encoded!)).toEqual(original);
+  return encoded!;
+}
+
+// 10.0.0.0/16 split into a /17 and two /18s, with a colour, a comment and a role
+const ANNOTATED_PLAN = plan('10.0.0.0', 16, [leaf('10.0.0.0', 17), leaf('10.0.128.0', 18), leaf('10.0.192.0', 18)], {
+  useAzureReservations: true,
+  rowColors: { '10.0.0.0/17': '#ff0000' },
+  rowComments: { '10.0.0.0/17': '  web tier ' },
+  rowRoles: { '10.0.128.0/18': 'GatewaySubnet' }
+});
+
+// The same plan as a v1 link shared before the compact format existed
+const V1_LINK =
+  'eyJ2IjoxLCJuZXQiOjE2Nzc3MjE2MCwicHJlIjoxNiwiYXoiOjEsImxlYXZlcyI6W3sibiI6MTY3NzcyMTYwLCJwIjoxNywiYyI6IiNmZjAwMDAiLCJtIjoid2ViIHRpZXIifSx7Im4iOjE2NzgwNDkyOCwicCI6MTgsInIiOiJHYXRld2F5U3VibmV0In0seyJuIjoxNjc4MjEzMTIsInAiOjE4fV19';
+
+describe('compact (v2) share links', () => {
+  it('round-trips an IPv4 plan with Azure reservations', async () => {
+    await roundTrip(plan('192.168.0.0', 24, [leaf('192.168.0.0', 25), leaf('192.168.0.128', 25)], { useAzureReservations: true }));
+  });
+
+  it('round-trips a single unsplit network', async () => {
+    await roundTrip(plan('10.0.0.0', 8, [leaf('10.0.0.0', 8)]));
+  });
+
+  it('round-trips an IPv6 plan', async () => {
+    await roundTrip(
+      plan('2603:1020:200::', 48, [leaf('2603:1020:200::', 64), leaf('2603:1020:200:1::', 64), leaf('2603:1020:200:2::', 63)].concat(
+        deepSplit('2603:1020:200:4::', 62, 48)
+      ))
+    );
+  });
+
+  it('round-trips a deep split down to /32 and /128', async () => {
+    await roundTrip(plan('10.0.0.0', 8, [leaf('10.0.0.0', 32)].concat(deepSplit('10.0.0.1', 32, 8))));
+    await roundTrip(plan('::', 0, [leaf('::', 128)].concat(deepSplit('::1', 128, 0))));
+  });
+
+  it('round-trips names, colours, roles and workloads', async () => {
+    const annotated = plan('10.1.0.0', 22, [leaf('10.1.0.0', 23), leaf('10.1.2.0', 24), leaf('10.1.3.0', 24)], {
+      rowColors: { '10.1.0.0/23': '#0ea5e9', '10.1.2.0/24': '#0ea5e9', '10.1.3.0/24': '#F97316' },
+      rowComments: { '10.1.0.0/23': 'AKS nodes – ünïcode', '10.1.3.0/24': 'Firewall' },
+      rowRoles: { '10.1.0.0/23': 'AksNodePool', '10.1.3.0/24': 'AzureFirewallSubnet' },
+      rowWorkloads: { '10.1.0.0/23': createWorkloadProfile('aks-azure-cni'), '10.1.2.0/24': createWorkloadProfile('vmss') }
+    });
+    const encoded = await serialiseCompactSubnetPlan(annotated);
+    const decoded = await parseSharedSubnetPlan(encoded!);
+
+    // Colours are stored in lower case
+    expect(decoded).toEqual({
+      ...annotated,
+      leaves: annotated.leaves.map((entry) => (entry.c ? { ...entry, c: entry.c.toLowerCase() } : entry))
+    });
+  });
+
+  it('is shorter than the v1 link for the same plan', async () => {
+    const encoded = await roundTrip(ANNOTATED_PLAN);
+    expect(encoded.length).toBeLessThan(serialiseShareableSubnetPlan(ANNOTATED_PLAN).length);
+  });
+
+  it('returns null for leaves that do not tile the base network', async () => {
+    expect(await serialiseCompactSubnetPlan(plan('10.0.0.0', 16, [leaf('10.0.0.0', 17)]))).toBeNull();
+    expect(await serialiseCompactSubnetPlan(plan('10.0.0.0', 16, [leaf('10.0.0.0', 17), leaf('10.0.0.0', 18)]))).toBeNull();
+  });
+});
+
+// The same plan as a v2 link; decoding it must keep working whatever the encoder does later
+const V2_LINK = '2.AgYQCgAAAKBj_M_AwMjAwFGemqRQkplaxADiAgA';
+
+describe('parseSharedSubnetPlan', () => {
+  it('still reads published v2 links', async () => {
+    expect(await parseSharedSubnetPlan(V2_LINK)).toEqual(await parseSharedSubnetPlan(V1_LINK));
+  });
+
+  it('still reads existing v1 links', async () => {
+    expect(await parseSharedSubnetPlan(V1_LINK)).toEqual({
+      v: 1,
+      ip: undefined,
+      net: 167772160,
+      pre: 16,
+      az: 1,
+      leaves: [
+        { n: 167772160, p: 17, c: '#ff0000', m: 'web tier' },
+        { n: 167804928, p: 18, r: 'GatewaySubnet' },
+        { n: 167821312, p: 18 }
+      ]
+    });
+    expect(await parseSharedSubnetPlan(serialiseShareableSubnetPlan(ANNOTATED_PLAN))).toEqual(ANNOTATED_PLAN);
+  });
+
+  it('rejects corrupt and truncated links', async () => {
+    const encoded = (await serialiseCompactSubnetPlan(ANNOTATED_PLAN))!;
+    const bytes = Buffer.from(encoded.slice(2), 'base64url');
+    const withBytes = (values: Buffer) => `2.${values.toString('base64url')}`;
+
+    // Version, flags, base prefix and the four base network bytes; then one byte of split tree
+    const headerLength = 7;
+    const withHost = Buffer.from(bytes);
+    withHost[headerLength - 1] = 1;
+    const withPrefix = Buffer.from(bytes);
+    withPrefix[2] = 33;
+
+    const corrupt = [
+      '2.',
+      '2.AQ',
+      withBytes(bytes.subarray(0, 5)), // Cut inside the base network
+      withBytes(bytes.subarray(0, headerLength)), // Header only, no split tree
+      withBytes(bytes.subarray(0, bytes.length - 3)), // Truncated annotations
+      withBytes(Buffer.concat([Buffer.from([3]), bytes.subarray(1)])), // Unknown version
+      withBytes(withPrefix), // IPv4 /33
+      withBytes(withHost), // Host bits in the base network
+      withBytes(Buffer.concat([bytes.subarray(0, headerLength + 1), Buffer.from([0xff, 0xff, 0xff, 0xff])])), // Garbage deflate data
+      'eyJ2IjoyfQ', // v1 JSON with an unknown version
+      'not-a-plan'
+    ];
+    for (const link of corrupt) {
+      expect(await parseSharedSubnetPlan(link), link).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from 'vitest';
+import { findOverlappingRanges } from '@/lib/clientIpService';
+import { parseIpAddress } from '@/lib/subnetCalculator';
+import { findPrivateRange, findSubnetCollisions } from '@/lib/subnetCollisions';
+import type { CollisionTarget } from '@/lib/subnetCollisions';
+import { AzureCloudName } from '@/types/azure';
+import type { AzureIpAddress } from '@/types/azure';
+
+vi.mock('@/lib/clientIpService', () => ({ findOverlappingRanges: vi.fn() }));
+
+function target(cidr: string, id?: string): CollisionTarget {
+  const [address, prefix] = cidr.split('/');
+  const parsed = parseIpAddress(address)!;
+  return { id, network: parsed.value, prefix: Number(prefix), version: parsed.version };
+}
+
+function match(serviceTagId: string, ipAddressPrefix: string, relationship: AzureIpAddress['relationship']): AzureIpAddress {
+  return { serviceTagId, ipAddressPrefix, region: 'westeurope', regionId: '18', systemService: '', networkFeatures: '', cloud: AzureCloudName.AzureCloud, relationship };
+}
+
+// What the service tag index returns for each range the plan asks about
+const OVERLAPS: Record<string, AzureIpAddress[]> = {
+  '20.38.0.0/16': [
+    match('Storage.WestEurope', '20.38.98.0/24', 'within'),
+    match('AzureCloud', '20.38.0.0/15', 'contains'),
+    match('AzureCloud', '20.38.0.0/15', 'contains')
+  ],
+  '20.38.96.0/20': [match('Storage.WestEurope', '20.38.98.0/24', 'within'), match('AzureCloud', '20.38.0.0/15', 'contains')],
+  '20.38.0.0/20': [match('AzureCloud', '20.38.0.0/15', 'contains')]
+};
+
+vi.mocked(findOverlappingRanges).mockImplementation(async (range: string) => OVERLAPS[range] ?? []);
+
+describe('findPrivateRange', () => {
+  it.each([
+    ['10.20.0.0/16', 'RFC 1918 (10.0.0.0/8)'],
+    ['172.31.0.0/16', 'RFC 1918 (172.16.0.0/12)'],
+    ['192.168.1.0/24', 'RFC 1918 (192.168.0.0/16)'],
+    ['100.64.0.0/10', 'RFC 6598 (100.64.0.0/10)'],
+    ['fd00:1234::/48', 'RFC 4193 (fc00::/7)']
+  ])('names the private range of %s', (cidr, expected) => {
+    const { network, prefix, version } = target(cidr);
+    expect(findPrivateRange(network, prefix, version)).toBe(expected);
+  });
+
+  it.each(['20.38.0.0/16', '172.32.0.0/16', '10.0.0.0/7', '2603:1020::/32'])('returns null for %s', (cidr) => {
+    const { network, prefix, version } = target(cidr);
+    expect(findPrivateRange(network, prefix, version)).toBeNull();
+  });
+});
+
+describe('findSubnetCollisions', () => {
+  it('reports the base network and each colliding leaf, without duplicates', async () => {
+    const reports = await findSubnetCollisions(target('20.38.0.0/16'), [
+      target('20.38.0.0/20', 'a'),
+      target('20.38.96.0/20', 'b'),
+      target('20.38.128.0/17', 'c')
+    ]);
+
+    expect(reports.map((report) => [report.cidr, report.collisions.map((item) => `${item.serviceTagId} ${item.ipAddressPrefix} ${item.relationship}`)])).toEqual([
+      ['20.38.0.0/16', ['AzureCloud 20.38.0.0/15 contains', 'Storage.WestEurope 20.38.98.0/24 within']],
+      ['20.38.0.0/20', ['AzureCloud 20.38.0.0/15 contains']],
+      ['20.38.96.0/20', ['AzureCloud 20.38.0.0/15 contains', 'Storage.WestEurope 20.38.98.0/24 within']]
+    ]);
+    expect(reports[1].target.id).toBe('a');
+  });
+
+  it('skips the leaves when the base network is clear', async () => {
+    vi.mocked(findOverlappingRanges).mockClear();
+
+    expect(await findSubnetCollisions(target('10.0.0.0/16'), [target('10.0.0.0/24', 'a')])).toEqual([]);
+    expect(findOverlappingRanges).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { formatIpAddress, parseIpAddress } from '@/lib/subnetCalculator';
+import type { LeafSubnet } from '@/lib/subnetCalculator';
+import { generateSubnetIac, generateSubnetIacFilename } from '@/lib/subnetIacExport';
+import type { SubnetIacFormat } from '@/lib/subnetIacExport';
+import { importVnetDefinition } from '@/lib/subnetImport';
+
+function leaf(cidr: string): LeafSubnet {
+  const [address, prefix] = cidr.split('/');
+  const parsed = parseIpAddress(address)!;
+  return { id: cidr, network: parsed.value, prefix: Number(prefix), version: parsed.version, depth: 1 };
+}
+
+const LEAVES = [leaf('10.0.0.0/25'), leaf('10.0.0.128/26'), leaf('10.0.0.192/27'), leaf('10.0.0.224/27')];
+
+const OPTIONS = {
+  baseNetwork: parseIpAddress('10.0.0.0')!.value,
+  basePrefix: 24,
+  rowComments: {
+    '10.0.0.0/25': 'Web tier (public)',
+    '10.0.0.128/26': 'web tier public',
+    '10.0.0.192/27': '  -- GatewaySubnet --  '
+  }
+};
+
+describe('generateSubnetIac', () => {
+  it.each(['bicep', 'arm', 'terraform'] as SubnetIacFormat[])('writes %s that imports back into the same plan', (format) => {
+    const imported = importVnetDefinition(generateSubnetIac(format, LEAVES, OPTIONS));
+    if (typeof imported === 'string') throw new Error(imported);
+
+    expect(`${formatIpAddress(imported.baseNetwork)}/${imported.basePrefix}`).toBe('10.0.0.0/24');
+    expect(imported.subnets.map((subnet) => `${subnet.name} ${formatIpAddress(subnet.network)}/${subnet.prefix}`)).toEqual([
+      'Web-tier-public 10.0.0.0/25',
+      'web-tier-public-2 10.0.0.128/26',
+      'GatewaySubnet 10.0.0.192/27',
+      'subnet-4 10.0.0.224/27'
+    ]);
+    expect(imported.issues).toEqual([]);
+  });
+
+  it('gives Terraform resources unique labels', () => {
+    const terraform = generateSubnetIac('terraform', LEAVES, OPTIONS);
+
+    expect(terraform.match(/resource "azurerm_subnet" "[^"]+"/g)).toEqual([
+      'resource "azurerm_subnet" "web_tier_public"',
+      'resource "azurerm_subnet" "web_tier_public_2"',
+      'resource "azurerm_subnet" "gatewaysubnet"',
+      'resource "azurerm_subnet" "subnet_4"'
+    ]);
+  });
+
+  it('creates subnets one at a time in the Azure CLI script', () => {
+    const script = generateSubnetIac('azcli', LEAVES, OPTIONS);
+
+    expect(script).toContain('# Create vnet-10-0-0-0-24 (10.0.0.0/24) with 4 subnets');
+    expect(script).toContain('az network vnet create --resource-group "$RESOURCE_GROUP" --name "$VNET_NAME" --address-prefixes 10.0.0.0/24');
+    expect(script.match(/^az network vnet subnet create .*$/gm)).toEqual(
+      ['Web-tier-public 10.0.0.0/25', 'web-tier-public-2 10.0.0.128/26', 'GatewaySubnet 10.0.0.192/27', 'subnet-4 10.0.0.224/27'].map((subnet) => {
+        const [name, prefix] = subnet.split(' ');
+        return `az network vnet subnet create --resource-group "$RESOURCE_GROUP" --vnet-name "$VNET_NAME" --name ${name} --address-prefixes ${prefix}`;
+      })
+    );
+  });
+
+  it('names IPv6 networks without trailing separators', () => {
+    const bicep = generateSubnetIac('bicep', [leaf('fd00::/64')], { baseNetwork: parseIpAddress('fd00::')!.value, basePrefix: 48, version: 6 });
+
+    expect(bicep).toContain("param vnetName string = 'vnet-fd00-48'");
+    expect(bicep).toContain("addressPrefix: 'fd00::/64'");
+  });
+});
+
+describe('generateSubnetIacFilename', () => {
+  it('uses the format extension', () => {
+    expect(generateSubnetIacFilename(OPTIONS.baseNetwork, 24, 'terraform')).toMatch(/^vnet_10_0_0_0_24_terraform_\d{4}-\d{2}-\d{2}\.tf$/);
+    expect(generateSubnetIacFilename(OPTIONS.baseNetwork, 24, 'arm')).toMatch(/\.json$/);
+  });
+});
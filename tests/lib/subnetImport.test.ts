@@ -0,0 +1,211 @@
+import { describe, expect, it } from 'vitest';
+import { formatIpAddress } from '@/lib/subnetCalculator';
+import { importVnetDefinition } from '@/lib/subnetImport';
+import type { VnetImportResult } from '@/lib/subnetImport';
+
+function importText(text: string): VnetImportResult {
+  const result = importVnetDefinition(text);
+  if (typeof result === 'string') {
+    throw new Error(result);
+  }
+  return result;
+}
+
+function summarise(result: VnetImportResult) {
+  return {
+    format: result.format,
+    base: `${formatIpAddress(result.baseNetwork, result.version)}/${result.basePrefix}`,
+    subnets: result.subnets.map((subnet) => `${subnet.name} ${formatIpAddress(subnet.network, result.version)}/${subnet.prefix}`),
+    issues: result.issues.map((issue) => `${issue.subnet} ${issue.prefix}: ${issue.reason}`)
+  };
+}
+
+const ARM_TEMPLATE = JSON.stringify({
+  $schema: 'https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#',
+  resources: [
+    {
+      type: 'Microsoft.Network/virtualNetworks',
+      name: 'hub-vnet',
+      properties: {
+        addressSpace: { addressPrefixes: ['10.0.0.0/16'] },
+        subnets: [
+          { name: 'GatewaySubnet', properties: { addressPrefix: '10.0.0.0/27' } },
+          { name: 'workload', properties: { addressPrefix: "[parameters('workloadPrefix')]" } }
+        ]
+      }
+    },
+    {
+      type: 'Microsoft.Network/virtualNetworks/subnets',
+      name: "[format('{0}/{1}', parameters('vnetName'), 'AzureFirewallSubnet')]",
+      properties: { addressPrefixes: ['10.0.1.0/26'] }
+    }
+  ]
+});
+
+const AZ_CLI_OUTPUT = JSON.stringify({
+  name: 'spoke-vnet',
+  addressSpace: { addressPrefixes: ['172.16.0.0/20', '172.17.0.0/20'] },
+  subnets: [
+    { name: 'app', addressPrefix: '172.16.1.0/24' },
+    { name: 'data', addressPrefixes: ['172.16.2.0/24'] }
+  ]
+});
+
+const BICEP = `
+resource vnet 'Microsoft.Network/virtualNetworks@2023-09-01' = {
+  name: 'hub-vnet'
+  location: location
+  properties: {
+    addressSpace: {
+      addressPrefixes: [
+        '10.10.0.0/16'
+      ]
+    }
+    subnets: [
+      {
+        name: 'web'
+        properties: {
+          addressPrefix: '10.10.1.0/24'
+        }
+      }
+      {
+        name: 'api'
+        properties: {
+          addressPrefix: apiPrefix
+        }
+      }
+    ]
+  }
+}
+
+resource bastion 'Microsoft.Network/virtualNetworks/subnets@2023-09-01' = {
+  parent: vnet
+  name: 'hub-vnet/AzureBastionSubnet'
+  properties: {
+    addressPrefix: '10.10.2.0/26'
+  }
+}
+`;
+
+const TERRAFORM = `
+resource "azurerm_virtual_network" "hub" {
+  name                = "hub-vnet"
+  address_space       = ["10.20.0.0/16"]
+  location            = azurerm_resource_group.rg.location
+}
+
+resource "azurerm_subnet" "app" {
+  name                 = "app"
+  virtual_network_name = azurerm_virtual_network.hub.name
+  address_prefixes     = ["10.20.4.0/22"]
+}
+
+resource "azurerm_subnet" "db" {
+  name             = "db"
+  address_prefixes = [var.db_prefix]
+}
+`;
+
+const CSV = `name,prefix,notes
+# reserved for later
+web,10.30.0.0/24,front end
+"api";10.30.1.0/25
+10.30.1.128/25
+not a subnet line
+`;
+
+describe('importVnetDefinition', () => {
+  it('reads ARM templates, including child subnet resources and unresolved expressions', () => {
+    expect(summarise(importText(ARM_TEMPLATE))).toEqual({
+      format: 'arm',
+      base: '10.0.0.0/16',
+      subnets: ['GatewaySubnet 10.0.0.0/27', 'AzureFirewallSubnet 10.0.1.0/26'],
+      issues: [
+        " workload: [parameters('workloadPrefix')]: Could not read a prefix from this value",
+        'workload : No address prefix'
+      ]
+    });
+  });
+
+  it('reads az network vnet show output and keeps only the first address space', () => {
+    expect(summarise(importText(AZ_CLI_OUTPUT))).toEqual({
+      format: 'az-json',
+      base: '172.16.0.0/20',
+      subnets: ['app 172.16.1.0/24', 'data 172.16.2.0/24'],
+      issues: ['Address space 172.17.0.0/20: Only the first address space is imported']
+    });
+  });
+
+  it('reads a bare subnet list and covers it with the smallest prefix', () => {
+    const list = JSON.stringify([
+      { name: 'a', properties: { addressPrefix: '10.1.0.0/24' } },
+      { name: 'b', properties: { addressPrefix: '10.1.3.0/24' } }
+    ]);
+    expect(summarise(importText(list))).toMatchObject({ format: 'az-json', base: '10.1.0.0/22', subnets: ['a 10.1.0.0/24', 'b 10.1.3.0/24'] });
+  });
+
+  it('reads Bicep', () => {
+    expect(summarise(importText(BICEP))).toEqual({
+      format: 'bicep',
+      base: '10.10.0.0/16',
+      subnets: ['web 10.10.1.0/24', 'AzureBastionSubnet 10.10.2.0/26'],
+      issues: [' addressPrefix: apiPrefix: Could not read a prefix from this value']
+    });
+  });
+
+  it('reads Terraform', () => {
+    expect(summarise(importText(TERRAFORM))).toEqual({
+      format: 'terraform',
+      base: '10.20.0.0/16',
+      subnets: ['app 10.20.4.0/22'],
+      issues: [' address_prefixes = [var.db_prefix]: Could not read a prefix from this value']
+    });
+  });
+
+  it('reads CSV, skipping the header and comments', () => {
+    expect(summarise(importText(CSV))).toEqual({
+      format: 'csv',
+      base: '10.30.0.0/23',
+      subnets: ['web 10.30.0.0/24', 'api 10.30.1.0/25', 'subnet-3 10.30.1.128/25'],
+      issues: [' not a subnet line: Could not read a prefix from this value']
+    });
+  });
+
+  it('reports prefixes with host bits set', () => {
+    const result = summarise(importText('name,prefix\nweb,10.0.0.0/24\napp,10.0.1.5/24'));
+
+    expect(result.subnets).toEqual(['web 10.0.0.0/24']);
+    expect(result.issues).toEqual(['app 10.0.1.5/24: Host bits are set; the network address is 10.0.1.0/24']);
+  });
+
+  it('reports overlapping subnets and subnets outside the address space', () => {
+    const result = summarise(
+      importText(
+        JSON.stringify({
+          addressSpace: { addressPrefixes: ['10.0.0.0/16'] },
+          subnets: [
+            { name: 'wide', addressPrefix: '10.0.0.0/23' },
+            { name: 'nested', addressPrefix: '10.0.1.0/24' },
+            { name: 'elsewhere', addressPrefix: '10.1.0.0/24' },
+            { name: 'v6', addressPrefix: 'fd00::/64' },
+            { name: 'empty' }
+          ]
+        })
+      )
+    );
+
+    expect(result.subnets).toEqual(['wide 10.0.0.0/23']);
+    expect(result.issues).toEqual([
+      'empty : No address prefix',
+      'v6 fd00::/64: IPv6 prefixes are planned separately',
+      'nested 10.0.1.0/24: Overlaps wide (10.0.0.0/23)',
+      'elsewhere 10.1.0.0/24: Outside the address space 10.0.0.0/16'
+    ]);
+  });
+
+  it('returns a message when nothing can be imported', () => {
+    expect(importVnetDefinition('   ')).toBe('Paste or upload a VNet definition first.');
+    expect(importVnetDefinition('{ not json')).toBe('The input looks like JSON but could not be parsed.');
+    expect(importVnetDefinition('web,10.0.0.0/33\napi,10.0.1.0/24x')).toBe('No valid prefixes found (2 problems).');
+  });
+});
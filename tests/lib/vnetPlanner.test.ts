@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { formatIpAddress, parseIpAddress } from '@/lib/subnetCalculator';
+import { planSubnets } from '@/lib/vnetPlanner';
+import type { SubnetRequirement } from '@/lib/vnetPlanner';
+
+const BASE = { baseNetwork: parseIpAddress('10.0.0.0')!.value, basePrefix: 16, useAzureReservations: true };
+
+function plan(requirements: SubnetRequirement[]) {
+  const result = planSubnets(requirements, BASE);
+  return {
+    errors: result.errors,
+    subnets: result.allocations.map((subnet) => `${subnet.name} ${formatIpAddress(subnet.network)}/${subnet.prefix}`)
+  };
+}
+
+describe('planSubnets', () => {
+  it('sizes subnets largest first without overlaps', () => {
+    expect(plan([{ name: 'web', hosts: 50 }, { name: 'app', hosts: 200 }])).toEqual({
+      errors: [],
+      subnets: ['app 10.0.0.0/24', 'web 10.0.1.0/26']
+    });
+  });
+
+  it.each([
+    [{ role: 'AzureFirewallSubnet', hosts: 10 }],
+    [{ role: 'AzureFirewallSubnet', prefix: 28 }],
+    [{ role: 'AzureFirewallManagementSubnet' }]
+  ] as Array<[Omit<SubnetRequirement, 'name'>]>)('pins exact-size roles to a /26 (%o)', (requirement) => {
+    const { errors, subnets } = plan([{ name: '', ...requirement }]);
+    expect(errors).toEqual([]);
+    expect(subnets[0]).toMatch(/\/26$/);
+  });
+
+  it.each([
+    [{ role: 'AzureFirewallSubnet', hosts: 100 }, '/25'],
+    [{ role: 'AzureFirewallSubnet', prefix: 24 }, '/24']
+  ] as Array<[Omit<SubnetRequirement, 'name'>, string]>)('rejects exact-size roles that need more than a /26 (%o)', (requirement, size) => {
+    const { errors, subnets } = plan([{ name: '', ...requirement }]);
+    expect(subnets).toEqual([]);
+    expect(errors).toEqual([`"AzureFirewallSubnet" needs a ${size}, but it must be a /26. Azure Firewall requires a /26 subnet.`]);
+  });
+
+  it('still lets minimum-size roles grow', () => {
+    expect(plan([{ name: '', role: 'AzureBastionSubnet', prefix: 24 }]).subnets).toEqual(['AzureBastionSubnet 10.0.0.0/24']);
+  });
+
+  it('makes every Azure IPv6 subnet a /64', () => {
+    const result = planSubnets(
+      [{ name: 'web', hosts: 10 }, { name: 'app', prefix: 120 }, { name: '', role: 'GatewaySubnet' }],
+      { baseNetwork: parseIpAddress('fd00::')!.value, basePrefix: 48, version: 6, useAzureReservations: true }
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.allocations.map((subnet) => `${subnet.name} ${formatIpAddress(subnet.network, 6)}/${subnet.prefix}`)).toEqual([
+      'web fd00::/64',
+      'app fd00:0:0:1::/64',
+      'GatewaySubnet fd00:0:0:2::/64'
+    ]);
+  });
+
+  it('rejects Azure IPv6 subnets larger than a /64', () => {
+    const result = planSubnets([{ name: 'web', prefix: 56 }], {
+      baseNetwork: parseIpAddress('fd00::')!.value,
+      basePrefix: 48,
+      version: 6,
+      useAzureReservations: true
+    });
+
+    expect(result.errors).toEqual(['"web" needs a /56, but Azure IPv6 subnets must be a /64.']);
+  });
+});
+
+describe('planSubnets (VLSM)', () => {
+  function planIn(base: string, basePrefix: number, requirements: SubnetRequirement[], useAzureReservations = false) {
+    const result = planSubnets(requirements, { baseNetwork: parseIpAddress(base)!.value, basePrefix, useAzureReservations });
+    return {
+      errors: result.errors,
+      subnets: result.allocations.map((subnet) => `${subnet.name} ${formatIpAddress(subnet.network)}/${subnet.prefix}`)
+    };
+  }
+
+  it('packs mixed sizes into aligned blocks without gaps', () => {
+    expect(
+      planIn('10.0.0.0', 24, [
+        { name: 'd', hosts: 5 },
+        { name: 'a', hosts: 100 },
+        { name: 'c', hosts: 20 },
+        { name: 'e', prefix: 30 },
+        { name: 'b', hosts: 50 }
+      ])
+    ).toEqual({
+      errors: [],
+      subnets: ['a 10.0.0.0/25', 'b 10.0.0.128/26', 'c 10.0.0.192/27', 'd 10.0.0.224/29', 'e 10.0.0.232/30']
+    });
+  });
+
+  it('sizes host counts with or without the Azure reserved addresses', () => {
+    expect(planIn('10.0.0.0', 16, [{ name: 'web', hosts: 124 }]).subnets).toEqual(['web 10.0.0.0/25']);
+    expect(planIn('10.0.0.0', 16, [{ name: 'web', hosts: 124 }], true).subnets).toEqual(['web 10.0.0.0/24']);
+  });
+
+  it('reports plans that need more addresses than the base network has', () => {
+    expect(planIn('10.0.0.0', 24, [{ name: 'a', prefix: 25 }, { name: 'b', prefix: 25 }, { name: 'c', prefix: 29 }])).toEqual({
+      errors: ['The plan needs 264 addresses but 10.0.0.0/24 only has 256.'],
+      subnets: []
+    });
+    expect(planIn('10.0.0.0', 24, [{ name: 'big', prefix: 20 }]).errors).toEqual([
+      '"big" needs a /20, which is larger than the /24 base network.'
+    ]);
+  });
+
+  it('reports every invalid requirement at once', () => {
+    expect(planIn('10.0.0.0', 16, [{ name: 'x', prefix: 33 }, { name: 'y', hosts: 0 }, { name: '' }]).errors).toEqual([
+      '"x" has an invalid prefix length; use a value between 0 and 32.',
+      '"y" needs a host count of at least 1.',
+      '"Subnet 3" needs a host count or a prefix length.'
+    ]);
+    expect(planIn('10.0.0.0', 16, []).errors).toEqual(['Add at least one subnet requirement.']);
+  });
+
+  it('allows singleton roles once and IPv4-only roles only in IPv4 space', () => {
+    expect(planIn('10.0.0.0', 16, [{ name: '', role: 'GatewaySubnet' }, { name: 'other', role: 'GatewaySubnet' }]).errors).toEqual([
+      'GatewaySubnet can only appear once per virtual network.'
+    ]);
+
+    const v6 = planSubnets([{ name: '', role: 'AzureBastionSubnet' }], {
+      baseNetwork: parseIpAddress('fd00::')!.value,
+      basePrefix: 48,
+      version: 6,
+      useAzureReservations: true
+    });
+    expect(v6.errors).toEqual(['AzureBastionSubnet requires an IPv4 address space.']);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { formatIpAddress, parseIpAddress } from '@/lib/subnetCalculator';
+import { findWorkspaceOverlaps, formatNetworkCidr, suggestNextFreeBlock } from '@/lib/vnetWorkspace';
+import type { WorkspaceNetworkSummary } from '@/lib/vnetWorkspace';
+
+function address(value: string): bigint {
+  return parseIpAddress(value)!.value;
+}
+
+function network(
+  name: string,
+  cidr: string,
+  subnets: string[] = [],
+  extras: Partial<WorkspaceNetworkSummary> = {}
+): WorkspaceNetworkSummary {
+  const [base, prefix] = cidr.split('/');
+  const version = base.includes(':') ? 6 : 4;
+  return {
+    id: name,
+    name,
+    kind: 'spoke',
+    isolated: false,
+    baseNetwork: address(base),
+    basePrefix: Number(prefix),
+    version,
+    subnets: subnets.map((subnet) => {
+      const [subnetName, subnetCidr] = subnet.split(' ');
+      const [subnetBase, subnetPrefix] = subnetCidr.split('/');
+      return { name: subnetName, network: address(subnetBase), prefix: Number(subnetPrefix) };
+    }),
+    ...extras
+  };
+}
+
+function summarise(networks: WorkspaceNetworkSummary[]) {
+  return findWorkspaceOverlaps(networks).map((overlap) => ({
+    pair: `${overlap.first.name} ${overlap.second.name}`,
+    shared: `${formatIpAddress(overlap.start, overlap.first.version)}-${formatIpAddress(overlap.end, overlap.first.version)}`,
+    subnetPairs: overlap.subnetPairs
+  }));
+}
+
+const HUB = network('hub', '10.0.0.0/16', ['GatewaySubnet 10.0.0.0/27', 'AzureFirewallSubnet 10.0.1.0/26'], { kind: 'hub' });
+
+describe('findWorkspaceOverlaps', () => {
+  it('reports the shared range and the subnets that collide', () => {
+    const spoke = network('spoke', '10.0.1.0/24', ['web 10.0.1.0/25', 'app 10.0.1.128/25']);
+
+    expect(summarise([HUB, spoke])).toEqual([
+      {
+        pair: 'hub spoke',
+        shared: '10.0.1.0-10.0.1.255',
+        subnetPairs: [['AzureFirewallSubnet (10.0.1.0/26)', 'web (10.0.1.0/25)']]
+      }
+    ]);
+  });
+
+  it('ignores adjacent networks, other address families and isolated networks', () => {
+    expect(
+      summarise([
+        HUB,
+        network('adjacent', '10.1.0.0/16'),
+        network('v6', 'fd00::/48'),
+        network('lab', '10.0.0.0/8', [], { isolated: true })
+      ])
+    ).toEqual([]);
+  });
+
+  it('checks every pair once', () => {
+    const overlaps = summarise([network('a', '10.0.0.0/8'), network('b', '10.1.0.0/16'), network('c', '10.1.2.0/24')]);
+
+    expect(overlaps.map((overlap) => overlap.pair)).toEqual(['a b', 'a c', 'b c']);
+  });
+});
+
+describe('suggestNextFreeBlock', () => {
+  const supernet = { network: address('10.0.0.0'), prefix: 8, version: 4 as const };
+
+  function suggest(prefix: number, networks: WorkspaceNetworkSummary[]): string | null {
+    const block = suggestNextFreeBlock(supernet, prefix, networks);
+    return block === null ? null : formatNetworkCidr({ baseNetwork: block, basePrefix: prefix, version: 4 });
+  }
+
+  it('returns the start of an empty supernet', () => {
+    expect(suggest(16, [])).toBe('10.0.0.0/16');
+  });
+
+  it('skips used ranges and stays aligned to the block size', () => {
+    const networks = [HUB, network('spoke', '10.1.0.0/24'), network('lab', '10.3.0.0/16', [], { isolated: true })];
+
+    expect(suggest(16, networks)).toBe('10.2.0.0/16');
+    expect(suggest(24, networks)).toBe('10.1.1.0/24');
+    expect(suggest(15, networks)).toBe('10.4.0.0/15');
+  });
+
+  it('ignores networks of the other address family', () => {
+    expect(suggest(16, [network('v6', 'fd00::/48')])).toBe('10.0.0.0/16');
+  });
+
+  it('returns null when the block does not fit', () => {
+    expect(suggest(7, [])).toBeNull();
+    expect(suggest(9, [network('low', '10.0.0.0/9'), network('high', '10.128.0.0/9')])).toBeNull();
+  });
+
+  it('finds IPv6 blocks', () => {
+    const block = suggestNextFreeBlock({ network: address('fd00::'), prefix: 48, version: 6 }, 64, [network('spoke', 'fd00::/63')]);
+
+    expect(formatIpAddress(block!, 6)).toBe('fd00:0:0:2::');
+  });
+});
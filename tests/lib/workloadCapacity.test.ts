@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assessWorkload,
+  createWorkloadProfile,
+  recommendWorkloadPrefix,
+  requiredWorkloadAddresses,
+  WORKLOAD_KIND_IDS
+} from '@/lib/workloadCapacity';
+import type { WorkloadKind } from '@/lib/workloadCapacity';
+
+describe('requiredWorkloadAddresses', () => {
+  it.each([
+    ['aks-azure-cni', 124, 24],
+    ['aks-cni-overlay', 4, 28],
+    ['app-service', 20, 27],
+    ['private-endpoints', 10, 28],
+    ['vmss', 12, 27]
+  ] as Array<[WorkloadKind, number, number]>)('sizes the default %s profile', (kind, required, prefix) => {
+    const profile = createWorkloadProfile(kind);
+
+    expect(requiredWorkloadAddresses(profile)).toBe(required);
+    expect(recommendWorkloadPrefix(required)).toBe(prefix);
+  });
+
+  it('has a default profile for every kind', () => {
+    WORKLOAD_KIND_IDS.forEach((kind) => {
+      expect(requiredWorkloadAddresses(createWorkloadProfile(kind)), kind).toBeGreaterThan(0);
+    });
+  });
+
+  it('treats missing, negative and non-numeric inputs as zero and drops fractions', () => {
+    expect(requiredWorkloadAddresses({ kind: 'aks-azure-cni', values: { nodes: 2.7, maxPods: -5, surgeNodes: NaN } })).toBe(2);
+    expect(requiredWorkloadAddresses({ kind: 'vmss', values: {} })).toBe(0);
+    // Fields of other kinds are ignored
+    expect(requiredWorkloadAddresses({ kind: 'private-endpoints', values: { endpoints: 3, nodes: 100 } })).toBe(3);
+  });
+});
+
+describe('recommendWorkloadPrefix', () => {
+  it('never goes below the smallest subnet Azure accepts', () => {
+    expect(recommendWorkloadPrefix(1)).toBe(29);
+    expect(recommendWorkloadPrefix(3)).toBe(29);
+    expect(recommendWorkloadPrefix(4)).toBe(28);
+  });
+
+  it('recommends a /64 for any IPv6 workload', () => {
+    expect(recommendWorkloadPrefix(1, 6)).toBe(64);
+    expect(recommendWorkloadPrefix(1000000, 6)).toBe(64);
+  });
+
+  it('returns null when no IPv4 subnet is large enough', () => {
+    expect(recommendWorkloadPrefix(Math.pow(2, 32))).toBeNull();
+  });
+});
+
+describe('assessWorkload', () => {
+  it('compares the requirement with the Azure capacity of the subnet', () => {
+    const profile = createWorkloadProfile('aks-azure-cni');
+
+    expect(assessWorkload(profile, 25)).toEqual({ required: 124, capacity: BigInt(123), recommendedPrefix: 24, fits: false });
+    expect(assessWorkload(profile, 24)).toMatchObject({ capacity: BigInt(251), fits: true });
+  });
+});
@@ -0,0 +1,14 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('./src', import.meta.url)) }
+  },
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+    // Route tests load the full service tag files on first use
+    testTimeout: 30000
+  }
+});